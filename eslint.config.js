@@ -33,8 +33,12 @@ export default [
         fetch: 'readonly',
         URL: 'readonly',
         Blob: 'readonly',
+        btoa: 'readonly',
+        createImageBitmap: 'readonly',
+        OffscreenCanvas: 'readonly',
         AbortController: 'readonly',
         MutationObserver: 'readonly',
+        DOMParser: 'readonly',
         HTMLElement: 'readonly',
         HTMLInputElement: 'readonly',
         HTMLTextAreaElement: 'readonly',
@@ -0,0 +1,41 @@
+/**
+ * Adaptive check interval
+ * Checks less often after quiet checks and returns to the minimum interval after a change
+ */
+
+import { AdaptiveIntervalConfig, Project } from './types';
+
+/**
+ * Interval the next check of a project is scheduled with
+ * @returns The adapted interval of adaptive projects, otherwise the project interval
+ */
+export function getEffectiveInterval(project: Pick<Project, 'interval' | 'adaptive' | 'effectiveInterval'>): number {
+  return project.adaptive?.enabled ? project.effectiveInterval ?? project.interval : project.interval;
+}
+
+/**
+ * Adapts the interval to the outcome of a check
+ *
+ * @param config - Adaptive interval settings
+ * @param interval - Project interval, the first interval used and the shortest one unless minInterval is set
+ * @param current - Interval used so far (undefined: the project interval)
+ * @param changed - Whether the check detected a change
+ * @returns The minimum interval after a change, otherwise the current interval multiplied by the backoff factor
+ * (between the minimum interval and maxInterval)
+ *
+ * @example
+ * ```typescript
+ * const config = { enabled: true, minInterval: 300000, maxInterval: 3600000, backoffFactor: 2 };
+ * getNextAdaptiveInterval(config, 600000, undefined, false); // 1200000
+ * getNextAdaptiveInterval(config, 600000, 2400000, false);   // 3600000 (capped)
+ * getNextAdaptiveInterval(config, 600000, 3600000, true);    // 300000 (minInterval)
+ * ```
+ */
+export function getNextAdaptiveInterval(config: AdaptiveIntervalConfig, interval: number, current: number | undefined, changed: boolean): number {
+  const minInterval = config.minInterval ?? interval;
+  if (changed) {
+    return minInterval;
+  }
+  const next = Math.round((current ?? interval) * config.backoffFactor);
+  return Math.max(minInterval, Math.min(config.maxInterval, next));
+}
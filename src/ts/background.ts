@@ -1,8 +1,27 @@
-import { ALARM, DEFAULTS, LIMITS, NOTIFICATION, TIMEOUTS, WEBHOOK_RATE_LIMIT } from './constants';
+import { CHECK_QUEUE, DEFAULTS, LIMITS, LIVE, NOTIFICATION, TEXT_DIFF, TIMEOUTS, VISUAL, WEBHOOK_RATE_LIMIT } from './constants';
 import { t } from './i18n';
 import { storageManager } from './storageManager';
-import { LogEntry, MessageRequest, MessageResponse, Project, Settings, WebhookConfig } from './types';
-import { validateInterval, validateLoadDelay, validateProjectName, validateSelector, validateUrl, validateWebhookBody, validateWebhookHeaders, validateWebhookUrl, ValidationResultWithValue } from './validation';
+import { getEffectiveInterval, getNextAdaptiveInterval } from './adaptiveInterval';
+import { createBaselineFromLog, createBaselineFromProject, getBaselineReading, getComparedBaseline, isSameReadingSettings, StoredReading } from './baseline';
+import { CheckQueue, getMaxConcurrentChecks } from './checkQueue';
+import { confirmChange, ConfirmationResult } from './confirmation';
+import { collectDiffText, compactTextDiff, diffItemLists, diffTables, diffText, formatTextDiff, hasListChanges, hasTableChanges } from './diff';
+import { DEFAULT_CONTENT_SOURCE, MatchedContent } from './elementContent';
+import { diffFields, extractFieldValues, getFieldVariables, readJsonFieldValues } from './fields';
+import { readJsonMatches } from './jsonPath';
+import { isLiveProject } from './liveWatch';
+import { evaluateNumericTrigger, parseNumber } from './numeric';
+import { applyNormalization, hasTextNormalization } from './normalize';
+import { isAdaptiveReadiness, ReadinessResult } from './readiness';
+import { detectSessionExpiry, hasSessionCheck } from './session';
+import { applyRegexExtraction } from './regex';
+import { readResponseText } from './responseBody';
+import { getNextRunTime, isCustomSchedule, isInActiveWindow } from './schedule';
+import { DEFAULT_SELECTOR_TYPE } from './selector';
+import { describeTriggerRule, evaluateTriggerRule, TriggerState } from './trigger';
+import { AdaptiveIntervalConfig, Baseline, CheckPriority, ContentSource, FieldChange, FieldValues, HttpResponseFormat, InteractionStep, ListDiff, LogEntry, MatchMode, MessageRequest, MessageResponse, NormalizationConfig, NumericConfig, NumericTriggerReason, PendingConfirmation, PresenceChange, Project, ProjectField, ProjectType, ReadinessConfig, RegexExtraction, Schedule, SelectorType, SessionCheck, SessionExpiredReason, Settings, StepResult, TableData, TableDiff, TextDiffPart, TriggerOutcome, TriggerRule, VisualConfig, WebhookConfig } from './types';
+import { validateAdaptiveInterval, validateCheckPriority, validateComparisonMode, validateConfirmChecks, validateContentSource, validateInterval, validateJitter, validateJsonPath, validateLoadDelay, validateMatchMode, validateNormalizationConfig, validateNumericConfig, validateRegexExtraction, validateTableKeyColumn, validateTriggerRule, validateProjectFields, validateProjectName, validateProjectType, validateReadinessConfig, validateInteractionSteps, validateSchedule, validateSelector, validateSessionCheck, validateUrl, validateVisualConfig, validateWebhookBody, validateWebhookHeaders, validateWebhookUrl, ValidationResultWithValue } from './validation';
+import { compareThumbnails, createThumbnail } from './visual';
 
 // Monitor info interface (no longer needs intervalId)
 interface MonitorInfo {
@@ -15,8 +34,16 @@ interface TabResult {
   isNewlyCreated: boolean;
 }
 
-// Webhook variables interface
+// Content comparison result interface
+interface ContentComparison {
+  hasChanged: boolean;
+  listDiff?: ListDiff;
+  tableDiff?: TableDiff;
+}
+
+// Webhook variables interface (named field values as `fields.<name>`)
 interface WebhookVariables {
+  [fieldVariable: `fields.${string}`]: string;
   projectId: string;
   projectName: string;
   url: string;
@@ -24,16 +51,61 @@ interface WebhookVariables {
   oldContent: string;
   newContent: string;
   timestamp: string;
+  numericValue: string;
+  oldNumericValue: string;
+  diff: string;
+  addedText: string;
+  removedText: string;
+  tableDiff: string;
+  event: string;
+  field: string;
+  fieldChanges: string;
+}
+
+// Additional information about a detected change, passed to notifications
+interface ChangeDetails {
+  listDiff?: ListDiff;
+  tableDiff?: TableDiff;
+  textDiff?: TextDiffPart[];
+  numericValue?: number | null;
+  oldNumericValue?: number;
+  numericTrigger?: NumericTriggerReason;
+  trigger?: TriggerOutcome;
+  presenceChange?: PresenceChange;
+  visualDifference?: number;
+  screenshot?: string;
+  sessionExpired?: SessionExpiredReason;
+  fieldChanges?: FieldChange[]; // All named fields changed by the check, notified together
+  fieldChangeOnly?: boolean; // Only named fields changed, the element itself did not notify
+  fieldValues?: FieldValues;
 }
 
+// Result of an element screenshot: the thumbnail, or why none could be taken
+interface VisualCapture {
+  screenshot?: string;
+  error?: string;
+}
+
+// Offscreen document that parses HTML responses of endpoint projects
+const OFFSCREEN_DOCUMENT_PATH = 'offscreen.html';
+
+// Webhook variables holding JSON, inserted as structured values when a body value is exactly "{{name}}"
+const JSON_WEBHOOK_VARIABLES: ReadonlyArray<keyof WebhookVariables> = ['tableDiff', 'fieldChanges'];
+
 // Background service worker
 class MonitorManager {
   private monitors: Map<string, MonitorInfo> = new Map();
   private tabCache: Map<string, number> = new Map(); // Cache tab ID for each URL
+  private checkTabs: Set<number> = new Set(); // Temporary tabs opened for checks, closed when the check ends
+  private offscreenCreation: Promise<void> | null = null; // Pending offscreen document creation
+  private lastLiveChecks: Map<string, number> = new Map(); // Time of the last live check of each project
+  private liveCheckTimers: Map<string, ReturnType<typeof setTimeout>> = new Map(); // Pending live check of each project
+  private checkQueue = new CheckQueue(CHECK_QUEUE.DEFAULT_MAX_CONCURRENT); // Due checks, started a few at a time
 
   constructor() {
     this.init();
     this.setupTabCleanup();
+    this.setupLiveWatch();
   }
 
   /**
@@ -50,10 +122,30 @@ class MonitorManager {
     return { valid: true, value: loadDelay };
   }
 
+  /**
+   * Validates and normalizes content source, applying default (visible text) if not provided
+   * @param messageContentSource - Content source from message (may be undefined)
+   * @returns Validation result with normalized content source
+   */
+  private validateAndGetContentSource(messageContentSource: ContentSource | undefined): ValidationResultWithValue<ContentSource> {
+    const contentSource = messageContentSource ?? DEFAULT_CONTENT_SOURCE;
+    const validation = validateContentSource(contentSource);
+    if (!validation.valid) {
+      return { valid: false, error: validation.error, errorCode: validation.errorCode };
+    }
+    // Only attribute and property sources carry a name
+    const needsName = contentSource.type === 'attribute' || contentSource.type === 'property';
+    return {
+      valid: true,
+      value: needsName ? { type: contentSource.type, name: contentSource.name?.trim() } : { type: contentSource.type }
+    };
+  }
+
   // Setup tab cleanup listeners
   private setupTabCleanup(): void {
     // Listen for tab close events and clean cache
     chrome.tabs.onRemoved.addListener((tabId) => {
+      this.checkTabs.delete(tabId);
       // Find and remove tab from cache
       for (const [url, cachedTabId] of this.tabCache.entries()) {
         if (cachedTabId === tabId) {
@@ -80,6 +172,20 @@ class MonitorManager {
     });
   }
 
+  // Watch live projects in tabs that finished loading their URL (a reload drops the previous watch)
+  private setupLiveWatch(): void {
+    chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+      if (changeInfo.status !== 'complete' || !tab.url) {
+        return;
+      }
+      for (const { project } of this.monitors.values()) {
+        if (isLiveProject(project) && project.url === tab.url) {
+          this.sendLiveWatch(project, tabId, true);
+        }
+      }
+    });
+  }
+
   // Add tab to cache with size limit enforcement
   private addToTabCache(url: string, tabId: number): void {
     // If cache is full, remove oldest entry (FIFO strategy)
@@ -99,12 +205,20 @@ class MonitorManager {
 
 
   private async init(): Promise<void> {
-    // Load saved projects and start active monitors
+    // Apply the concurrency limit before the first checks are queued, and follow its changes in the options page
+    this.checkQueue.setMaxConcurrent(getMaxConcurrentChecks(await storageManager.getSettings<Settings>()));
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes.settings) {
+        this.checkQueue.setMaxConcurrent(getMaxConcurrentChecks((changes.settings.newValue as Settings | undefined) ?? {}));
+      }
+    });
+
+    // Load saved projects and resume active monitors
     const projects = await storageManager.getProjects();
 
     projects.forEach(project => {
       if (project.active) {
-        this.startMonitor(project);
+        this.resumeMonitor(project);
       }
     });
 
@@ -142,6 +256,60 @@ class MonitorManager {
           sendResponse({ success: true });
           break;
 
+        case 'liveChange': {
+          // An open tab saw the element of a live project change
+          const tabId = sender.tab?.id;
+          const monitor = message.projectId ? this.monitors.get(message.projectId) : undefined;
+          if (tabId === undefined || !monitor || !isLiveProject(monitor.project) || this.checkTabs.has(tabId)) {
+            // Stale watch of a project that was paused, deleted or no longer live, or a temporary check tab
+            if (tabId !== undefined && message.projectId) {
+              chrome.tabs.sendMessage(tabId, { action: 'unwatchLive', projectId: message.projectId }).catch(() => undefined);
+            }
+            sendResponse({ success: false, error: 'Project is not watched live' });
+            break;
+          }
+          this.scheduleLiveCheck(message.projectId, tabId);
+          sendResponse({ success: true });
+          break;
+        }
+
+        case 'pinBaseline': {
+          if (!message.projectId) {
+            sendResponse({ success: false, error: 'ProjectId is required' });
+            break;
+          }
+          const error = await this.pinBaseline(message.projectId, message.logTimestamp);
+          sendResponse(error ? { success: false, error } : { success: true });
+          break;
+        }
+
+        case 'unpinBaseline': {
+          if (!message.projectId) {
+            sendResponse({ success: false, error: 'ProjectId is required' });
+            break;
+          }
+          // Back to comparing with the previous check
+          const previousProject = await storageManager.updateProject(message.projectId, { baseline: undefined, comparisonMode: undefined });
+          sendResponse(previousProject ? { success: true } : { success: false, error: 'Project not found' });
+          break;
+        }
+
+        case 'setComparisonMode': {
+          if (!message.projectId) {
+            sendResponse({ success: false, error: 'ProjectId is required' });
+            break;
+          }
+          const comparisonModeValidation = validateComparisonMode(message.comparisonMode);
+          if (!comparisonModeValidation.valid) {
+            sendResponse({ success: false, error: comparisonModeValidation.error });
+            break;
+          }
+          // The pinned baseline is kept in 'previous' mode, so that switching back compares with it again
+          const previousProject = await storageManager.updateProject(message.projectId, { comparisonMode: message.comparisonMode });
+          sendResponse(previousProject ? { success: true } : { success: false, error: 'Project not found' });
+          break;
+        }
+
         case 'getProjectLogs': {
           if (!message.projectId) {
             sendResponse({ success: false, error: 'ProjectId is required' });
@@ -162,6 +330,46 @@ class MonitorManager {
           break;
         }
 
+        case 'getCheckQueue':
+          sendResponse({ success: true, queue: this.checkQueue.getStatus() });
+          break;
+
+        case 'previewEndpoint': {
+          // Read an endpoint with the unsaved settings of the endpoint dialog
+          const urlValidation = validateUrl(message.url);
+          if (!urlValidation.valid) {
+            sendResponse({ success: false, error: urlValidation.error });
+            break;
+          }
+          const responseFormat: HttpResponseFormat = message.responseFormat ?? 'json';
+          const selectorValidation = responseFormat === 'json'
+            ? validateJsonPath(message.selector)
+            : validateSelector(message.selector, message.selectorType ?? DEFAULT_SELECTOR_TYPE);
+          if (!selectorValidation.valid) {
+            sendResponse({ success: false, error: selectorValidation.error });
+            break;
+          }
+          if (!(await this.hasHostPermission(message.url))) {
+            sendResponse({ success: false, error: 'Host permission not granted for: ' + message.url });
+            break;
+          }
+
+          sendResponse(await this.readEndpoint({
+            id: 'preview',
+            name: '',
+            type: 'http',
+            url: message.url,
+            responseFormat,
+            selector: message.selector,
+            selectorType: message.selectorType,
+            matchMode: message.matchMode,
+            interval: 0,
+            active: false,
+            browserNotification: false
+          }));
+          break;
+        }
+
         case 'elementSelected': {
           // Create new project
           if (!message.url || !message.selector) {
@@ -183,7 +391,17 @@ class MonitorManager {
             break;
           }
 
-          const selectorValidation = validateSelector(message.selector);
+          const projectType: ProjectType = message.type ?? 'page';
+          const responseFormat: HttpResponseFormat | undefined = projectType === 'http' ? message.responseFormat ?? 'json' : undefined;
+          const projectTypeValidation = validateProjectType(projectType, responseFormat);
+          if (!projectTypeValidation.valid) {
+            sendResponse({ success: false, error: projectTypeValidation.error });
+            break;
+          }
+
+          // JSON endpoints select values with a JSON path instead of an element selector
+          const selectorType: SelectorType = message.selectorType ?? DEFAULT_SELECTOR_TYPE;
+          const selectorValidation = responseFormat === 'json' ? validateJsonPath(message.selector) : validateSelector(message.selector, selectorType);
           if (!selectorValidation.valid) {
             sendResponse({ success: false, error: selectorValidation.error });
             break;
@@ -205,6 +423,141 @@ class MonitorManager {
           // Value is guaranteed to be set when valid is true
           const loadDelay = loadDelayResult.value as number;
 
+          const contentSourceResult = this.validateAndGetContentSource(message.contentSource);
+          if (!contentSourceResult.valid) {
+            sendResponse({ success: false, error: contentSourceResult.error });
+            break;
+          }
+          const contentSource = contentSourceResult.value as ContentSource;
+
+          const matchMode: MatchMode = message.matchMode ?? 'first';
+          const matchModeValidation = validateMatchMode(matchMode);
+          if (!matchModeValidation.valid) {
+            sendResponse({ success: false, error: matchModeValidation.error });
+            break;
+          }
+
+          const confirmChecks: number = message.confirmChecks ?? 1;
+          const confirmChecksValidation = validateConfirmChecks(confirmChecks);
+          if (!confirmChecksValidation.valid) {
+            sendResponse({ success: false, error: confirmChecksValidation.error });
+            break;
+          }
+
+          const schedule: Schedule | undefined = message.schedule;
+          const scheduleValidation = schedule ? validateSchedule(schedule) : { valid: true };
+          if (!scheduleValidation.valid) {
+            sendResponse({ success: false, error: scheduleValidation.error });
+            break;
+          }
+
+          const jitter: number = message.jitter ?? 0;
+          const jitterValidation = validateJitter(jitter);
+          if (!jitterValidation.valid) {
+            sendResponse({ success: false, error: jitterValidation.error });
+            break;
+          }
+
+          const priority: CheckPriority = message.priority ?? 'normal';
+          const priorityValidation = validateCheckPriority(priority);
+          if (!priorityValidation.valid) {
+            sendResponse({ success: false, error: priorityValidation.error });
+            break;
+          }
+
+          const adaptive: AdaptiveIntervalConfig | undefined = message.adaptive;
+          const adaptiveValidation = adaptive ? validateAdaptiveInterval(adaptive, message.interval ?? DEFAULTS.INTERVAL_MS) : { valid: true };
+          if (!adaptiveValidation.valid) {
+            sendResponse({ success: false, error: adaptiveValidation.error });
+            break;
+          }
+
+          const tableKeyColumn: number = message.tableKeyColumn ?? 0;
+          const tableKeyColumnValidation = validateTableKeyColumn(tableKeyColumn);
+          if (matchMode === 'table' && !tableKeyColumnValidation.valid) {
+            sendResponse({ success: false, error: tableKeyColumnValidation.error });
+            break;
+          }
+
+          const numeric: NumericConfig = message.numeric ?? { enabled: false };
+          const numericValidation = validateNumericConfig(numeric);
+          if (!numericValidation.valid) {
+            sendResponse({ success: false, error: numericValidation.error });
+            break;
+          }
+
+          const visual: VisualConfig = message.visual ?? { enabled: false };
+          const visualValidation = validateVisualConfig(visual);
+          if (!visualValidation.valid) {
+            sendResponse({ success: false, error: visualValidation.error });
+            break;
+          }
+
+          const readiness: ReadinessConfig | undefined = message.readiness || undefined;
+          if (readiness) {
+            const readinessValidation = validateReadinessConfig(readiness);
+            if (!readinessValidation.valid) {
+              sendResponse({ success: false, error: readinessValidation.error });
+              break;
+            }
+          }
+
+          const steps: InteractionStep[] = message.steps ?? [];
+          // Endpoint projects have no tab to watch
+          const live: boolean | undefined = projectType === 'page' && message.live === true ? true : undefined;
+          const stepsValidation = validateInteractionSteps(steps);
+          if (!stepsValidation.valid) {
+            sendResponse({ success: false, error: stepsValidation.error });
+            break;
+          }
+
+          const fields: ProjectField[] = message.fields ?? [];
+          const fieldsValidation = validateProjectFields(fields, responseFormat === 'json', selectorType);
+          if (!fieldsValidation.valid) {
+            sendResponse({ success: false, error: fieldsValidation.error });
+            break;
+          }
+
+          const sessionCheck: SessionCheck | undefined = hasSessionCheck(message.sessionCheck) ? message.sessionCheck : undefined;
+          if (sessionCheck) {
+            const sessionCheckValidation = validateSessionCheck(sessionCheck);
+            if (!sessionCheckValidation.valid) {
+              sendResponse({ success: false, error: sessionCheckValidation.error });
+              break;
+            }
+          }
+
+          // Initial content from the dialog already has the extraction and normalization applied
+          const extractRegex: RegexExtraction | undefined = message.extractRegex || undefined;
+          if (extractRegex) {
+            const extractRegexValidation = validateRegexExtraction(extractRegex);
+            if (!extractRegexValidation.valid) {
+              sendResponse({ success: false, error: extractRegexValidation.error });
+              break;
+            }
+          }
+
+          const normalization: NormalizationConfig | undefined = message.normalization || undefined;
+          if (normalization) {
+            const normalizationValidation = validateNormalizationConfig(normalization);
+            if (!normalizationValidation.valid) {
+              sendResponse({ success: false, error: normalizationValidation.error });
+              break;
+            }
+          }
+
+          const trigger: TriggerRule | undefined = message.trigger || undefined;
+          if (trigger) {
+            const triggerValidation = validateTriggerRule(trigger);
+            if (!triggerValidation.valid) {
+              sendResponse({ success: false, error: triggerValidation.error });
+              break;
+            }
+          }
+
+          // Baseline for numeric triggers is the content seen in the config dialog
+          const initialNumericValue = numeric.enabled ? parseNumber(message.initialContent ?? '', numeric.locale) ?? undefined : undefined;
+
           // Validate webhook configuration if present
           if (message.webhook?.enabled) {
             if (message.webhook.body) {
@@ -233,15 +586,40 @@ class MonitorManager {
           const project: Project = {
             id: Date.now().toString(),
             name: projectName,
+            type: projectType,
             url: message.url,
+            responseFormat: responseFormat,
             selector: message.selector,
+            selectorType: selectorType,
             interval: interval,
+            schedule: isCustomSchedule(schedule) ? schedule : undefined,
+            jitter: jitter > 0 ? jitter : undefined,
+            priority: priority !== 'normal' ? priority : undefined,
+            adaptive: adaptive?.enabled ? adaptive : undefined,
+            confirmChecks: confirmChecks > 1 ? confirmChecks : undefined,
             active: true,
             browserNotification: message.browserNotification !== false,
             webhook: message.webhook || { enabled: false },
             lastContent: message.initialContent,
             tabId: sender.tab?.id || null,
-            loadDelay: loadDelay
+            loadDelay: loadDelay,
+            readiness: readiness,
+            steps: steps.length > 0 ? steps : undefined,
+            sessionCheck: sessionCheck,
+            contentSource: contentSource,
+            matchMode: matchMode,
+            lastItems: matchMode === 'all' ? message.initialItems : undefined,
+            tableKeyColumn: matchMode === 'table' ? tableKeyColumn : undefined,
+            lastTable: matchMode === 'table' ? message.initialTable : undefined,
+            fields: fields.length > 0 ? fields : undefined,
+            lastFields: fields.length > 0 ? message.initialFields : undefined,
+            numeric: numeric,
+            lastNumericValue: initialNumericValue,
+            extractRegex: extractRegex,
+            normalization: normalization,
+            trigger: trigger,
+            visual: visual,
+            live: live
           };
 
           // Save to storage
@@ -270,7 +648,17 @@ class MonitorManager {
             break;
           }
 
-          const selectorValidation = validateSelector(message.selector);
+          const projectType: ProjectType = message.type ?? 'page';
+          const responseFormat: HttpResponseFormat | undefined = projectType === 'http' ? message.responseFormat ?? 'json' : undefined;
+          const projectTypeValidation = validateProjectType(projectType, responseFormat);
+          if (!projectTypeValidation.valid) {
+            sendResponse({ success: false, error: projectTypeValidation.error });
+            break;
+          }
+
+          // JSON endpoints select values with a JSON path instead of an element selector
+          const selectorType: SelectorType = message.selectorType ?? DEFAULT_SELECTOR_TYPE;
+          const selectorValidation = responseFormat === 'json' ? validateJsonPath(message.selector) : validateSelector(message.selector, selectorType);
           if (!selectorValidation.valid) {
             sendResponse({ success: false, error: selectorValidation.error });
             break;
@@ -291,6 +679,141 @@ class MonitorManager {
           // Value is guaranteed to be set when valid is true
           const loadDelay = loadDelayResult.value as number;
 
+          const contentSourceResult = this.validateAndGetContentSource(message.contentSource);
+          if (!contentSourceResult.valid) {
+            sendResponse({ success: false, error: contentSourceResult.error });
+            break;
+          }
+          const contentSource = contentSourceResult.value as ContentSource;
+
+          const matchMode: MatchMode = message.matchMode ?? 'first';
+          const matchModeValidation = validateMatchMode(matchMode);
+          if (!matchModeValidation.valid) {
+            sendResponse({ success: false, error: matchModeValidation.error });
+            break;
+          }
+
+          const confirmChecks: number = message.confirmChecks ?? 1;
+          const confirmChecksValidation = validateConfirmChecks(confirmChecks);
+          if (!confirmChecksValidation.valid) {
+            sendResponse({ success: false, error: confirmChecksValidation.error });
+            break;
+          }
+
+          const schedule: Schedule | undefined = message.schedule;
+          const scheduleValidation = schedule ? validateSchedule(schedule) : { valid: true };
+          if (!scheduleValidation.valid) {
+            sendResponse({ success: false, error: scheduleValidation.error });
+            break;
+          }
+
+          const jitter: number = message.jitter ?? 0;
+          const jitterValidation = validateJitter(jitter);
+          if (!jitterValidation.valid) {
+            sendResponse({ success: false, error: jitterValidation.error });
+            break;
+          }
+
+          const priority: CheckPriority = message.priority ?? 'normal';
+          const priorityValidation = validateCheckPriority(priority);
+          if (!priorityValidation.valid) {
+            sendResponse({ success: false, error: priorityValidation.error });
+            break;
+          }
+
+          const adaptive: AdaptiveIntervalConfig | undefined = message.adaptive;
+          const adaptiveValidation = adaptive ? validateAdaptiveInterval(adaptive, message.interval ?? DEFAULTS.INTERVAL_MS) : { valid: true };
+          if (!adaptiveValidation.valid) {
+            sendResponse({ success: false, error: adaptiveValidation.error });
+            break;
+          }
+
+          const tableKeyColumn: number = message.tableKeyColumn ?? 0;
+          const tableKeyColumnValidation = validateTableKeyColumn(tableKeyColumn);
+          if (matchMode === 'table' && !tableKeyColumnValidation.valid) {
+            sendResponse({ success: false, error: tableKeyColumnValidation.error });
+            break;
+          }
+
+          const numeric: NumericConfig = message.numeric ?? { enabled: false };
+          const numericValidation = validateNumericConfig(numeric);
+          if (!numericValidation.valid) {
+            sendResponse({ success: false, error: numericValidation.error });
+            break;
+          }
+
+          const visual: VisualConfig = message.visual ?? { enabled: false };
+          const visualValidation = validateVisualConfig(visual);
+          if (!visualValidation.valid) {
+            sendResponse({ success: false, error: visualValidation.error });
+            break;
+          }
+
+          const readiness: ReadinessConfig | undefined = message.readiness || undefined;
+          if (readiness) {
+            const readinessValidation = validateReadinessConfig(readiness);
+            if (!readinessValidation.valid) {
+              sendResponse({ success: false, error: readinessValidation.error });
+              break;
+            }
+          }
+
+          const steps: InteractionStep[] = message.steps ?? [];
+          // Endpoint projects have no tab to watch
+          const live: boolean | undefined = projectType === 'page' && message.live === true ? true : undefined;
+          const stepsValidation = validateInteractionSteps(steps);
+          if (!stepsValidation.valid) {
+            sendResponse({ success: false, error: stepsValidation.error });
+            break;
+          }
+
+          const fields: ProjectField[] = message.fields ?? [];
+          const fieldsValidation = validateProjectFields(fields, responseFormat === 'json', selectorType);
+          if (!fieldsValidation.valid) {
+            sendResponse({ success: false, error: fieldsValidation.error });
+            break;
+          }
+
+          const sessionCheck: SessionCheck | undefined = hasSessionCheck(message.sessionCheck) ? message.sessionCheck : undefined;
+          if (sessionCheck) {
+            const sessionCheckValidation = validateSessionCheck(sessionCheck);
+            if (!sessionCheckValidation.valid) {
+              sendResponse({ success: false, error: sessionCheckValidation.error });
+              break;
+            }
+          }
+
+          // Initial content from the dialog already has the extraction and normalization applied
+          const extractRegex: RegexExtraction | undefined = message.extractRegex || undefined;
+          if (extractRegex) {
+            const extractRegexValidation = validateRegexExtraction(extractRegex);
+            if (!extractRegexValidation.valid) {
+              sendResponse({ success: false, error: extractRegexValidation.error });
+              break;
+            }
+          }
+
+          const normalization: NormalizationConfig | undefined = message.normalization || undefined;
+          if (normalization) {
+            const normalizationValidation = validateNormalizationConfig(normalization);
+            if (!normalizationValidation.valid) {
+              sendResponse({ success: false, error: normalizationValidation.error });
+              break;
+            }
+          }
+
+          const trigger: TriggerRule | undefined = message.trigger || undefined;
+          if (trigger) {
+            const triggerValidation = validateTriggerRule(trigger);
+            if (!triggerValidation.valid) {
+              sendResponse({ success: false, error: triggerValidation.error });
+              break;
+            }
+          }
+
+          // Baseline for numeric triggers is the content seen in the config dialog
+          const initialNumericValue = numeric.enabled ? parseNumber(message.initialContent ?? '', numeric.locale) ?? undefined : undefined;
+
           // Validate webhook configuration if present
           if (message.webhook?.enabled) {
             if (message.webhook.body) {
@@ -310,15 +833,51 @@ class MonitorManager {
           }
 
           // Use storageManager for atomic update
-          const updatedProject = await storageManager.updateProject(message.projectId, {
+          const projectUpdates: Partial<Project> = {
             name: message.name,
+            type: projectType,
+            responseFormat: responseFormat,
             selector: message.selector,
+            selectorType: selectorType,
             interval: message.interval,
+            schedule: isCustomSchedule(schedule) ? schedule : undefined,
+            jitter: jitter > 0 ? jitter : undefined,
+            priority: priority !== 'normal' ? priority : undefined,
+            adaptive: adaptive?.enabled ? adaptive : undefined,
+            // Start again from the configured interval
+            effectiveInterval: undefined,
+            confirmChecks: confirmChecks > 1 ? confirmChecks : undefined,
+            // The baseline is read again from the page, a candidate seen before the edit no longer applies
+            pendingChange: undefined,
             browserNotification: message.browserNotification,
             webhook: message.webhook || { enabled: false },
             lastContent: message.initialContent,
-            loadDelay: loadDelay
-          });
+            loadDelay: loadDelay,
+            readiness: readiness,
+            steps: steps.length > 0 ? steps : undefined,
+            sessionCheck: sessionCheck,
+            contentSource: contentSource,
+            matchMode: matchMode,
+            lastItems: matchMode === 'all' ? message.initialItems : undefined,
+            tableKeyColumn: matchMode === 'table' ? tableKeyColumn : undefined,
+            lastTable: matchMode === 'table' ? message.initialTable : undefined,
+            fields: fields.length > 0 ? fields : undefined,
+            lastFields: fields.length > 0 ? message.initialFields : undefined,
+            numeric: numeric,
+            lastNumericValue: initialNumericValue,
+            extractRegex: extractRegex,
+            normalization: normalization,
+            trigger: trigger,
+            visual: visual,
+            live: live,
+            // The element may have moved or changed size, start over with the next capture
+            lastScreenshot: undefined
+          };
+          const updatedProject = await storageManager.updateProject(message.projectId, (currentProject) =>
+            // A baseline read with other settings would report a change at every check, it is unpinned
+            isSameReadingSettings(currentProject, projectUpdates)
+              ? projectUpdates
+              : { ...projectUpdates, baseline: undefined, comparisonMode: undefined });
 
           if (!updatedProject) {
             sendResponse({ success: false, error: 'Project not found' });
@@ -327,10 +886,9 @@ class MonitorManager {
 
           console.log('Project updated:', updatedProject);
 
-          // If project is active, restart monitoring
+          // If project is active, restart monitoring (with the new settings, updateProject returns the state before the update)
           if (updatedProject.active) {
-            this.stopMonitor(message.projectId);
-            this.startMonitor(updatedProject);
+            this.startMonitor({ ...updatedProject, ...projectUpdates });
           }
 
           sendResponse({ success: true, projectId: message.projectId });
@@ -385,35 +943,74 @@ class MonitorManager {
   }
 
   private startMonitor(project: Project): void {
-    // Stop existing monitor
-    this.stopMonitor(project.id);
+    // Stop existing monitor (its live watch is replaced below rather than stopped, so that the two cannot cross)
+    const previousProject = this.monitors.get(project.id)?.project;
+    this.stopMonitor(project.id, false);
 
     console.log(`Starting monitor for project: ${project.name}`);
 
     // Use chrome.alarms API instead of setInterval
-    // Use project.id as alarm name identifier
-    const alarmName = `monitor_${project.id}`;
-
-    // Create periodic alarm, convert interval to minutes (alarms API minimum is 1 minute)
-    const periodInMinutes = Math.max(1, project.interval / 60000);
-
-    chrome.alarms.create(alarmName, {
-      delayInMinutes: ALARM.INITIAL_DELAY_MINUTES, // Trigger immediately first time
-      periodInMinutes: periodInMinutes
-    });
+    // One-shot alarms re-armed by every run, so that jitter, cron expressions and active hours can vary the delay
+    this.scheduleNextRun(project);
 
     // Save monitor info
     this.monitors.set(project.id, {
       project
     });
 
-    console.log(`Alarm created: ${alarmName} with period ${periodInMinutes} minutes`);
+    // Watch open tabs for changes between checks, the alarm remains the fallback when no tab is open
+    if (previousProject && isLiveProject(previousProject) && (!isLiveProject(project) || previousProject.url !== project.url)) {
+      this.setLiveWatch(previousProject, false);
+    }
+    if (isLiveProject(project)) {
+      this.setLiveWatch(project, true);
+    }
+
+    // Check immediately (do not wait for alarm to trigger), unless outside the active hours
+    // Cron projects only run at their scheduled times: startMonitor also runs on every service worker start and on edits
+    if (project.schedule?.mode !== 'cron' && isInActiveWindow(project.schedule?.windows, new Date())) {
+      this.queueCheck(project);
+    }
+  }
+
+  /**
+   * Resumes monitoring a project when the service worker starts
+   * The worker is stopped when idle and started again by the next alarm or event: an alarm armed before keeps
+   * its time, so that restarts neither push back nor add checks. Projects without an alarm are started anew.
+   */
+  private async resumeMonitor(project: Project): Promise<void> {
+    const alarm = await chrome.alarms.get(`monitor_${project.id}`);
+    if (!alarm) {
+      this.startMonitor(project);
+      return;
+    }
+
+    console.log(`Resuming monitor for project: ${project.name}, next run at ${new Date(alarm.scheduledTime).toLocaleString()}`);
+    this.monitors.set(project.id, {
+      project
+    });
+    if (isLiveProject(project)) {
+      this.setLiveWatch(project, true);
+    }
+  }
 
-    // Check immediately (do not wait for alarm to trigger)
-    this.checkElement(project);
+  /**
+   * Arms the one-shot alarm (named after project.id) for the next run of a project
+   * Called on start and on every alarm, so that the following run is computed from the current time
+   */
+  public scheduleNextRun(project: Project): void {
+    const alarmName = `monitor_${project.id}`;
+    const nextRun = getNextRunTime(project.schedule, getEffectiveInterval(project), Date.now(), project.jitter);
+    if (nextRun === null) {
+      console.warn(`No upcoming run for project ${project.name}, schedule not armed`);
+      chrome.alarms.clear(alarmName);
+      return;
+    }
+    chrome.alarms.create(alarmName, { when: nextRun });
+    console.log(`Alarm created: ${alarmName} for ${new Date(nextRun).toLocaleString()}`);
   }
 
-  private stopMonitor(projectId: string): void {
+  private stopMonitor(projectId: string, unwatchLive: boolean = true): void {
     const monitor = this.monitors.get(projectId);
     if (monitor) {
       console.log(`Stopping monitor for project: ${monitor.project.name}`);
@@ -422,10 +1019,114 @@ class MonitorManager {
       const alarmName = `monitor_${projectId}`;
       chrome.alarms.clear(alarmName);
 
+      // Stop watching open tabs and drop a pending live check
+      if (unwatchLive && isLiveProject(monitor.project)) {
+        this.setLiveWatch(monitor.project, false);
+      }
+      clearTimeout(this.liveCheckTimers.get(projectId));
+      this.liveCheckTimers.delete(projectId);
+
+      // Drop a waiting check (a running one finishes)
+      this.checkQueue.remove(projectId);
+
       this.monitors.delete(projectId);
     }
   }
 
+  /**
+   * Starts or stops watching the open tabs of a live project
+   * @param project - Project whose URL is open in the tabs
+   * @param watch - Whether to watch (false stops a previous watch)
+   */
+  private async setLiveWatch(project: Project, watch: boolean): Promise<void> {
+    try {
+      const tabs = await chrome.tabs.query({ url: project.url });
+      for (const tab of tabs) {
+        if (tab.id !== undefined) {
+          await this.sendLiveWatch(project, tab.id, watch);
+        }
+      }
+    } catch (error) {
+      console.warn(`[${project.name}] Failed to query tabs for live watching:`, error);
+    }
+  }
+
+  /**
+   * Starts or stops the live watch of a project in one tab
+   * Failures are only logged: a tab that cannot be watched is still covered by the scheduled checks
+   */
+  private async sendLiveWatch(project: Project, tabId: number, watch: boolean): Promise<void> {
+    // A temporary check tab is closed as soon as its check ends, a change seen there would refer to a closed tab
+    if (watch && this.checkTabs.has(tabId)) {
+      return;
+    }
+    try {
+      if (watch) {
+        await this.injectContentScript(tabId);
+        await chrome.tabs.sendMessage(tabId, {
+          action: 'watchLive',
+          projectId: project.id,
+          selector: project.selector,
+          selectorType: project.selectorType,
+          contentSource: project.contentSource,
+          matchMode: project.matchMode,
+          excludeSelector: project.normalization?.excludeSelector,
+          fields: project.fields
+        });
+        console.log(`[${project.name}] Watching tab ${tabId} live`);
+      } else {
+        await chrome.tabs.sendMessage(tabId, { action: 'unwatchLive', projectId: project.id });
+      }
+    } catch (error) {
+      // Tabs without the content script cannot be unwatched, they were not watched either
+      if (watch) {
+        console.warn(`[${project.name}] Failed to watch tab ${tabId} live:`, error);
+      }
+    }
+  }
+
+  /**
+   * Checks a live project in the tab that reported a change
+   * Live checks of a project are at least LIVE.MIN_CHECK_INTERVAL_MS apart, changes reported in between share one check
+   */
+  private scheduleLiveCheck(projectId: string, tabId: number): void {
+    if (this.liveCheckTimers.has(projectId)) {
+      return;
+    }
+    const delay = Math.max(0, (this.lastLiveChecks.get(projectId) ?? 0) + LIVE.MIN_CHECK_INTERVAL_MS - Date.now());
+    this.liveCheckTimers.set(projectId, setTimeout(() => {
+      this.liveCheckTimers.delete(projectId);
+      this.lastLiveChecks.set(projectId, Date.now());
+
+      // Reload project info from storage (ensure using latest config)
+      storageManager.getProjects().then((projects) => {
+        const project = projects.find(p => p.id === projectId);
+        if (project && project.active && isLiveProject(project) && isInActiveWindow(project.schedule?.windows, new Date())) {
+          this.queueCheck(project, tabId);
+        }
+      });
+    }, delay));
+  }
+
+  /**
+   * Queues the check of a project, to start once fewer than the configured number of checks are running
+   * A project already waiting is not queued twice, the trigger is coalesced into the waiting check
+   *
+   * @param project - Project to check (reloaded from storage when the check starts, as it may have waited)
+   * @param liveTabId - Open tab that reported a live change (see checkElement)
+   */
+  public queueCheck(project: Project, liveTabId?: number): void {
+    const queued = this.checkQueue.enqueue(project.id, project.priority ?? 'normal', async () => {
+      const latest = (await storageManager.getProjects()).find(p => p.id === project.id);
+      if (latest && latest.active) {
+        await this.checkElement(latest, liveTabId);
+      }
+    });
+    if (!queued) {
+      console.log(`[${project.name}] Check already queued, trigger coalesced`);
+    }
+  }
+
   /**
    * Request host permission for a specific URL
    * This must be called with user gesture context (e.g., during project creation)
@@ -492,6 +1193,10 @@ class MonitorManager {
   /**
    * Inject content script into a tab
    * @param tabId - The tab ID to inject the script into
+   *
+   * @remarks
+   * Only the top frame is injected. Same-origin frames and shadow roots are reached from there through
+   * `>>>` selectors (see selector.ts), while a script in every frame would answer each tab message in parallel.
    */
   private async injectContentScript(tabId: number): Promise<void> {
     try {
@@ -559,67 +1264,267 @@ class MonitorManager {
       pinned: false   // Do not pin tab
     });
 
-    // Add to cache
+    // Add to cache, the tab is not watched live as it is closed after the check
     if (newTab.id !== undefined) {
       this.addToTabCache(url, newTab.id);
+      this.checkTabs.add(newTab.id);
     }
 
     return { tab: newTab, isNewlyCreated: true };
   }
 
-  public async checkElement(project: Project): Promise<void> {
+  /**
+   * Fetches an HTTP endpoint project's URL and reads the monitored content from the response
+   *
+   * @param project - Project with type 'http'
+   * @returns Response in the same shape as the content script's checkElement answer
+   * (`notFound` when nothing matches in 'first' mode)
+   *
+   * @remarks
+   * Cookies for the host are sent, so endpoints behind the browser's login session work as in a tab.
+   * JSON is evaluated here; HTML is handed to the offscreen document because the service worker has no DOMParser.
+   * Non-2xx statuses, invalid JSON and oversized responses are reported as failed checks.
+   */
+  private async readEndpoint(project: Project): Promise<MessageResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), TIMEOUTS.HTTP_REQUEST);
+    let body: string | null;
+    try {
+      const response = await fetch(project.url, { credentials: 'include', cache: 'no-store', signal: controller.signal });
+      // Redirects are followed, so a login redirect shows up as the final URL
+      const sessionExpired = hasSessionCheck(project.sessionCheck)
+        ? detectSessionExpiry(project.sessionCheck, { url: response.url || project.url })
+        : null;
+      if (sessionExpired) {
+        return { success: false, error: 'Session expired', sessionExpired };
+      }
+      if (!response.ok) {
+        return { success: false, error: `HTTP ${response.status} ${response.statusText}`.trim() };
+      }
+      // Streamed with a size cap, so that a huge response is not buffered in the service worker before being rejected
+      body = await readResponseText(response, LIMITS.MAX_HTTP_RESPONSE_BYTES);
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return { success: false, error: `Request timeout after ${TIMEOUTS.HTTP_REQUEST}ms` };
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (body === null) {
+      return { success: false, error: `Response exceeds ${LIMITS.MAX_HTTP_RESPONSE_BYTES} bytes` };
+    }
+
+    if ((project.responseFormat ?? 'json') === 'json') {
+      let data: unknown;
+      try {
+        data = JSON.parse(body);
+      } catch {
+        return { success: false, error: 'Response is not valid JSON' };
+      }
+      const result = readJsonMatches(data, project.selector, project.matchMode);
+      return result
+        ? { success: true, content: result.content, items: result.items, fields: project.fields ? readJsonFieldValues(data, project.fields) : undefined }
+        : { success: false, error: 'Value not found', notFound: true };
+    }
+
+    await this.ensureOffscreenDocument();
+    return chrome.runtime.sendMessage({
+      action: 'parseHtml',
+      html: body,
+      selector: project.selector,
+      selectorType: project.selectorType,
+      contentSource: project.contentSource,
+      matchMode: project.matchMode,
+      excludeSelector: project.normalization?.excludeSelector,
+      loginSelector: project.sessionCheck?.loginSelector?.trim() || undefined,
+      fields: project.fields
+    });
+  }
+
+  /**
+   * Creates the offscreen document used to parse HTML responses, unless it already exists
+   * Concurrent checks share one creation, as only a single offscreen document is allowed
+   */
+  private async ensureOffscreenDocument(): Promise<void> {
+    const contexts = await chrome.runtime.getContexts({
+      contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+      documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)]
+    });
+    if (contexts.length > 0) {
+      return;
+    }
+
+    if (!this.offscreenCreation) {
+      this.offscreenCreation = chrome.offscreen.createDocument({
+        url: OFFSCREEN_DOCUMENT_PATH,
+        reasons: [chrome.offscreen.Reason.DOM_PARSER],
+        justification: 'Parse HTML fetched by endpoint monitoring projects'
+      }).finally(() => {
+        this.offscreenCreation = null;
+      });
+    }
+    await this.offscreenCreation;
+  }
+
+  /**
+   * Checks a project and records the result
+   * @param project - Project to check
+   * @param liveTabId - Open tab that reported a live change; it is read as it is, without waiting for it or interacting with it
+   * (a tab closed in the meantime falls back to a normal check)
+   */
+  public async checkElement(project: Project, liveTabId?: number): Promise<void> {
     let tab: chrome.tabs.Tab | null = null;
     let isNewlyCreatedTab = false;
+    let readiness: ReadinessResult | undefined;
+    let stepResults: StepResult[] | undefined;
 
     try {
-      console.log(`[${project.name}] Getting or creating tab for URL: ${project.url}`);
-
       // Check if host permission exists (without requesting, as we may not have user gesture)
       const hasPermission = await this.hasHostPermission(project.url);
       if (!hasPermission) {
         throw new Error('Host permission not granted for: ' + project.url);
       }
 
-      // Get or create tab, return result contains tab and isNewlyCreated flag
-      const tabResult = await this.getOrCreateTab(project.url);
-      tab = tabResult.tab;
-      isNewlyCreatedTab = tabResult.isNewlyCreated;
+      let response: MessageResponse;
+      if (project.type === 'http') {
+        // Endpoint projects are fetched directly, without a tab
+        response = await this.readEndpoint(project);
+      } else {
+        if (liveTabId !== undefined) {
+          // The page has loaded and the user may be working in it
+          tab = await chrome.tabs.get(liveTabId).catch(() => null);
+          if (!tab) {
+            // The tab was closed since it reported the change, the page is checked as on schedule
+            console.log(`[${project.name}] Live tab ${liveTabId} is gone, checking normally`);
+            liveTabId = undefined;
+          }
+        }
+        if (!tab) {
+          console.log(`[${project.name}] Getting or creating tab for URL: ${project.url}`);
 
-      // Check tab ID is valid
-      if (tab.id === undefined) {
-        throw new Error('Tab created without ID');
-      }
+          // Get or create tab, return result contains tab and isNewlyCreated flag
+          const tabResult = await this.getOrCreateTab(project.url);
+          tab = tabResult.tab;
+          isNewlyCreatedTab = tabResult.isNewlyCreated;
+        }
 
-      // Wait for page to load
-      await this.waitForTabLoad(tab.id);
+        // Check tab ID is valid
+        if (tab.id === undefined) {
+          throw new Error('Tab created without ID');
+        }
 
-      // Use configured load delay, defaulting to 0 for backwards compatibility
-      // (UI always sends loadDelay, but older saved projects or direct API calls may not have it)
-      const loadDelay = project.loadDelay ?? DEFAULTS.LOAD_DELAY_MS;
-      if (loadDelay > 0) {
-        console.log(`[${project.name}] Waiting ${loadDelay}ms for dynamic content...`);
-        await new Promise(resolve => setTimeout(resolve, loadDelay));
-      }
+        if (liveTabId === undefined) {
+          // Wait for page to load
+          await this.waitForTabLoad(tab.id);
 
-      // Inject content script into the tab
-      await this.injectContentScript(tab.id);
+          // Wait for dynamic content (fixed delay or until the page is ready)
+          readiness = await this.waitForPageReady(project, tab.id);
+          if (readiness.timedOut) {
+            console.warn(`[${project.name}] Page not ready after ${readiness.waited}ms, checking anyway`);
+          }
+        }
 
-      // Send check request to content script
-      const response = await chrome.tabs.sendMessage(tab.id, {
-        action: 'checkElement',
-        selector: project.selector
-      });
+        // Inject content script into the tab
+        await this.injectContentScript(tab.id);
+
+        // A login page is not the monitored page, so it is neither interacted with nor read
+        const sessionExpired = hasSessionCheck(project.sessionCheck)
+          ? await this.detectTabSessionExpiry(project.sessionCheck, tab.id)
+          : null;
+        if (sessionExpired) {
+          response = { success: false, error: 'Session expired', sessionExpired };
+        } else {
+          // Interact with the page (expand sections, load more items...) before reading
+          // Live checks read what the user sees, clicking around in their tab would get in their way
+          if (project.steps?.length && liveTabId === undefined) {
+            stepResults = await this.runInteractionSteps(project, tab.id);
+          }
+
+          // Send check request to content script
+          response = await chrome.tabs.sendMessage(tab.id, {
+            action: 'checkElement',
+            selector: project.selector,
+            selectorType: project.selectorType,
+            contentSource: project.contentSource,
+            matchMode: project.matchMode,
+            excludeSelector: project.normalization?.excludeSelector,
+            fields: project.fields
+          });
+        }
+      }
 
       if (response.success) {
-        const newContent: string = response.content;
+        const rawContent: string = response.content;
+
+        // Only the captured value is stored, compared and notified
+        let processed: MatchedContent = { content: rawContent, items: response.items, table: response.table };
+        if (project.extractRegex) {
+          processed = applyRegexExtraction(processed, project.extractRegex);
+        }
+        // Ignore rules (the match count is not text and is left as is)
+        if (project.normalization && hasTextNormalization(project.normalization) && project.matchMode !== 'count') {
+          processed = applyNormalization(processed, project.normalization);
+        }
+        const newContent: string = processed.content;
+        const newItems: string[] | undefined = processed.items;
+        const newTable: TableData | undefined = processed.table;
+
+        // Named fields, each with its own extraction
+        const fieldValues: FieldValues | undefined = project.fields?.length
+          ? extractFieldValues(project.fields, response.fields ?? {})
+          : undefined;
 
         console.log(`[${project.name}] Content retrieved, length: ${newContent.length}`);
 
+        // Parse numeric value (numeric projects only)
+        const numericValue = project.numeric?.enabled ? parseNumber(newContent, project.numeric.locale) : null;
+        if (project.numeric?.enabled && numericValue === null) {
+          console.warn(`[${project.name}] No numeric value found in content`);
+        }
+
+        // Screenshot of the element (visual projects only), failures do not affect the content check
+        const visualCapture = project.visual?.enabled && tab ? await this.captureElement(project, tab) : undefined;
+        if (visualCapture?.error) {
+          console.warn(`[${project.name}] Visual capture failed: ${visualCapture.error}`);
+        }
+
         // Use atomic update to prevent race conditions
         // Update content first, updateProject returns state before update
-        const updatedProject = await storageManager.updateProject(project.id, {
+        const checkUpdates: Partial<Project> = {
+          lastPresent: true,
+          lastChecked: new Date().toISOString(),
+          sessionExpired: false,
+          lastFields: fieldValues
+        };
+        const contentUpdates: Partial<Project> = {
           lastContent: newContent,
-          lastChecked: new Date().toISOString()
+          lastItems: newItems,
+          lastTable: newTable
+        };
+        // Keep the previous numeric baseline when parsing fails
+        if (numericValue !== null) {
+          contentUpdates.lastNumericValue = numericValue;
+        }
+        // Keep the previous screenshot as baseline when capturing fails
+        if (visualCapture?.screenshot) {
+          checkUpdates.lastScreenshot = visualCapture.screenshot;
+        }
+
+        // New content only becomes the baseline once enough consecutive checks have seen it
+        let comparison: ContentComparison = { hasChanged: false };
+        let confirmation: ConfirmationResult = { confirmed: true };
+        const updatedProject = await storageManager.updateProject(project.id, (currentProject) => {
+          // Confirmation follows what the page showed at the previous check, also when compared with a baseline
+          const previousComparison = this.compareContent(currentProject, processed, project.tableKeyColumn);
+          const baseline = getComparedBaseline(currentProject);
+          // Pinned baseline: every check that differs from it is a change, not only the first one
+          comparison = baseline ? this.compareContent(getBaselineReading(baseline), processed, project.tableKeyColumn) : previousComparison;
+          confirmation = confirmChange(newContent, previousComparison.hasChanged, currentProject.pendingChange, project.confirmChecks);
+          return confirmation.confirmed
+            ? { ...checkUpdates, ...contentUpdates, pendingChange: undefined }
+            : { ...checkUpdates, pendingChange: confirmation.pending };
         });
 
         if (!updatedProject) {
@@ -627,15 +1532,93 @@ class MonitorManager {
           return;
         }
 
-        // Use lastContent before update for comparison
-        const currentLastContent = updatedProject.lastContent;
+        // Use the pinned baseline or lastContent before update for comparison
+        const comparedBaseline = getComparedBaseline(updatedProject);
+        const currentLastContent = comparedBaseline ? comparedBaseline.content : updatedProject.lastContent;
+
+        const pendingConfirmation: PendingConfirmation | undefined = confirmation.pending
+          ? { count: confirmation.pending.count, required: project.confirmChecks ?? 1 }
+          : undefined;
+        if (pendingConfirmation) {
+          console.log(`[${project.name}] Content changed, waiting for confirmation (${pendingConfirmation.count}/${pendingConfirmation.required})`);
+        }
+        const { hasChanged, listDiff, tableDiff }: ContentComparison = pendingConfirmation ? { hasChanged: false } : comparison;
 
-        // Check if content has changed (based on last content)
-        const hasChanged = currentLastContent && newContent !== currentLastContent;
+        const fieldChanges = fieldValues ? diffFields(updatedProject.lastFields, fieldValues) : [];
+
+        // Line/word-level diff of changed text (the match count is a single number and needs none)
+        const textDiff = hasChanged && !listDiff && !tableDiff && currentLastContent && project.matchMode !== 'count'
+          ? compactTextDiff(diffText(currentLastContent, newContent))
+          : undefined;
+
+        // Compare with the previous screenshot (the first capture only sets the baseline)
+        let visualDifference: number | undefined;
+        let visualError = visualCapture?.error;
+        if (visualCapture?.screenshot && updatedProject.lastScreenshot) {
+          try {
+            visualDifference = await compareThumbnails(updatedProject.lastScreenshot, visualCapture.screenshot);
+          } catch (error) {
+            visualError = error instanceof Error ? error.message : 'Unknown error';
+          }
+        }
+        const visualChanged = visualDifference !== undefined
+          && visualDifference >= (project.visual?.threshold ?? VISUAL.DEFAULT_THRESHOLD_PERCENT);
+
+        // Numeric projects notify only when a numeric condition fires
+        const numericTrigger = project.numeric?.enabled && !pendingConfirmation
+          ? evaluateNumericTrigger(project.numeric, updatedProject.lastNumericValue, numericValue)
+          : null;
+
+        // A trigger rule notifies only when its condition starts to hold
+        const triggerOutcome = project.trigger
+          ? evaluateTriggerRule(project.trigger, this.getPreviousTriggerState(updatedProject), {
+            present: true,
+            // Unconfirmed content does not count yet
+            content: pendingConfirmation ? updatedProject.lastContent ?? '' : newContent
+          })
+          : undefined;
+
+        // Element found again after checks where it was not present
+        const presenceChange: PresenceChange | undefined = updatedProject.lastPresent === false ? 'appeared' : undefined;
+
+        let shouldNotify: boolean;
+        if (triggerOutcome) {
+          shouldNotify = triggerOutcome.fired;
+        } else if (project.numeric?.enabled) {
+          shouldNotify = numericTrigger !== null || !!presenceChange;
+        } else {
+          shouldNotify = hasChanged || visualChanged || !!presenceChange;
+        }
 
-        if (hasChanged && currentLastContent) {
-          console.log(`[${project.name}] Content changed!`);
-          this.notifyChange(updatedProject, currentLastContent, newContent);
+        if (shouldNotify) {
+          console.log(`[${project.name}] ${presenceChange ? 'Element appeared!' : hasChanged ? 'Content changed!' : 'Appearance changed!'}`);
+          this.notifyChange(updatedProject, currentLastContent || '', newContent, {
+            listDiff,
+            tableDiff,
+            textDiff,
+            numericValue,
+            oldNumericValue: updatedProject.lastNumericValue,
+            numericTrigger: numericTrigger ?? undefined,
+            trigger: triggerOutcome,
+            presenceChange,
+            visualDifference: visualChanged ? visualDifference : undefined,
+            screenshot: visualChanged ? visualCapture?.screenshot : undefined,
+            // Fields changed in the same check are part of this notification (one webhook call per check)
+            fieldChanges: fieldChanges.length > 0 ? fieldChanges : undefined,
+            fieldValues
+          });
+        } else if (fieldChanges.length > 0) {
+          // All changed fields share one notification, so that they do not race for the webhook rate limit
+          console.log(`[${project.name}] Fields changed: ${fieldChanges.map(change => change.name).join(', ')}`);
+          const [onlyChange] = fieldChanges;
+          this.notifyChange(
+            updatedProject,
+            fieldChanges.length === 1 && onlyChange ? onlyChange.from ?? '' : this.formatFieldValues(fieldChanges, 'from'),
+            fieldChanges.length === 1 && onlyChange ? onlyChange.to ?? '' : this.formatFieldValues(fieldChanges, 'to'),
+            { fieldChanges, fieldChangeOnly: true, fieldValues }
+          );
+        } else if (hasChanged || visualChanged) {
+          console.log(`[${project.name}] Content changed, but no trigger condition met`);
         } else {
           console.log(`[${project.name}] No change detected`);
         }
@@ -645,9 +1628,43 @@ class MonitorManager {
           timestamp: new Date().toISOString(),
           content: newContent,
           oldContent: currentLastContent || null,
-          changed: hasChanged || false,
-          success: true
+          changed: hasChanged || visualChanged || !!presenceChange || fieldChanges.length > 0,
+          success: true,
+          present: true,
+          presenceChange,
+          listDiff: hasChanged ? listDiff : undefined,
+          tableDiff: hasChanged ? tableDiff : undefined,
+          textDiff,
+          numericValue: project.numeric?.enabled ? numericValue : undefined,
+          numericTrigger: numericTrigger ?? undefined,
+          rawContent: rawContent !== newContent ? rawContent : undefined,
+          trigger: triggerOutcome,
+          visualDifference,
+          // Thumbnails are large, keep them only for the checks that show a visual change
+          screenshot: visualChanged ? visualCapture?.screenshot : undefined,
+          oldScreenshot: visualChanged ? updatedProject.lastScreenshot : undefined,
+          visualError,
+          waitedMs: readiness?.waited,
+          readyTimedOut: readiness?.timedOut || undefined,
+          steps: stepResults,
+          fields: fieldValues,
+          fieldChanges: fieldChanges.length > 0 ? fieldChanges : undefined,
+          live: liveTabId !== undefined || undefined,
+          pendingConfirmation,
+          comparedToBaseline: comparedBaseline ? true : undefined
         });
+
+        // Numeric trend, kept apart from the log so that it covers weeks of checks
+        if (project.numeric?.enabled && numericValue !== null) {
+          await storageManager.addNumericPoint(project.id, [Date.now(), numericValue]);
+        }
+
+        await this.adaptInterval(project, hasChanged || visualChanged || !!presenceChange || fieldChanges.length > 0, liveTabId !== undefined);
+      } else if (response.sessionExpired) {
+        await this.handleSessionExpired(project, response.sessionExpired);
+      } else if (response.notFound) {
+        // A missing element is a monitored state, not a failure
+        await this.handleElementAbsent(project, readiness, stepResults, liveTabId !== undefined);
       } else {
         console.error(`[${project.name}] Failed to check element: ${response.error}`);
 
@@ -680,6 +1697,7 @@ class MonitorManager {
         } finally {
           // Remove from cache regardless of close success
           this.tabCache.delete(project.url);
+          this.checkTabs.delete(tab.id);
         }
       } else if (tab?.id) {
         console.log(`[${project.name}] Reused tab ${tab.id}, keeping it open`);
@@ -687,6 +1705,296 @@ class MonitorManager {
     }
   }
 
+  /**
+   * Compares a reading with the content stored by the previous check
+   * In table mode rows are compared by key and in list mode items (both ignoring pure reordering)
+   * when a previous reading is known, otherwise the content text (no change before the first reading)
+   */
+  private compareContent(previousProject: StoredReading, reading: MatchedContent, tableKeyColumn?: number): ContentComparison {
+    if (reading.table && previousProject.lastTable) {
+      const tableDiff = diffTables(previousProject.lastTable, reading.table, tableKeyColumn);
+      return { hasChanged: hasTableChanges(tableDiff), tableDiff };
+    }
+    if (reading.items && previousProject.lastItems) {
+      const listDiff = diffItemLists(previousProject.lastItems, reading.items);
+      return { hasChanged: hasListChanges(listDiff), listDiff };
+    }
+    return { hasChanged: !!previousProject.lastContent && reading.content !== previousProject.lastContent };
+  }
+
+  /**
+   * Pins the baseline that checks are compared with, switching the project to 'baseline' comparison mode
+   *
+   * @param projectId - Project to pin the baseline of
+   * @param logTimestamp - Log entry whose content becomes the baseline (default: the content of the last check)
+   * @returns Error message, or undefined on success
+   *
+   * @remarks
+   * The baseline also becomes the last reading, so that a page that already differs from it is new content
+   * for change confirmation and for checks compared with the previous check.
+   */
+  private async pinBaseline(projectId: string, logTimestamp?: string): Promise<string | undefined> {
+    let baseline: Baseline | null;
+    if (logTimestamp) {
+      const logs = await storageManager.getProjectLogs(projectId);
+      const entry = logs.find(log => log.timestamp === logTimestamp);
+      baseline = entry ? createBaselineFromLog(entry) : null;
+      if (!baseline) {
+        return 'Log entry has no content';
+      }
+    } else {
+      const project = (await storageManager.getProjects()).find(p => p.id === projectId);
+      if (!project) {
+        return 'Project not found';
+      }
+      baseline = createBaselineFromProject(project);
+      if (!baseline) {
+        return 'No content recorded yet';
+      }
+    }
+
+    const previousProject = await storageManager.updateProject(projectId, {
+      baseline,
+      comparisonMode: 'baseline',
+      ...getBaselineReading(baseline),
+      pendingChange: undefined
+    });
+    return previousProject ? undefined : 'Project not found';
+  }
+
+  /**
+   * Captures a thumbnail of the monitored element for visual comparison
+   *
+   * @param project - Project being checked
+   * @param tab - Tab the element was read from
+   * @returns The thumbnail, or the reason why none could be taken
+   *
+   * @remarks
+   * chrome.tabs.captureVisibleTab only captures what is on screen, so the tab must be the active tab
+   * of a window that is not minimized. The element is scrolled into view first; parts of it that
+   * still fall outside the viewport are cut off.
+   */
+  private async captureElement(project: Project, tab: chrome.tabs.Tab): Promise<VisualCapture> {
+    try {
+      if (tab.id === undefined) {
+        return { error: 'Tab created without ID' };
+      }
+      const currentTab = await chrome.tabs.get(tab.id);
+      const browserWindow = await chrome.windows.get(currentTab.windowId);
+      if (!currentTab.active || browserWindow.state === 'minimized') {
+        return { error: 'Tab is not visible' };
+      }
+
+      const location = await chrome.tabs.sendMessage(tab.id, {
+        action: 'locateElement',
+        selector: project.selector,
+        selectorType: project.selectorType
+      });
+      if (!location?.success) {
+        return { error: location?.error ?? 'Element not found' };
+      }
+
+      // Let the page repaint after scrolling
+      await new Promise(resolve => setTimeout(resolve, VISUAL.SCROLL_SETTLE_MS));
+
+      const capture = await chrome.tabs.captureVisibleTab(currentTab.windowId, { format: 'png' });
+      return { screenshot: await createThumbnail(capture, location.rect, location.viewportWidth) };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Builds the trigger state of the previous check from the stored project
+   * @returns The previous state, or undefined if no content has been recorded yet
+   */
+  private getPreviousTriggerState(previousProject: Project): TriggerState | undefined {
+    const present = previousProject.lastPresent ?? true;
+    if (present && previousProject.lastContent === undefined) {
+      return undefined;
+    }
+    return { present, content: present ? previousProject.lastContent ?? '' : '' };
+  }
+
+  /**
+   * Records a check where the selector matched nothing
+   * Transitions from present to absent count as a change; repeated absent checks do not
+   */
+  private async handleElementAbsent(project: Project, readiness?: ReadinessResult, stepResults?: StepResult[], live?: boolean): Promise<void> {
+    const previousProject = await storageManager.updateProject(project.id, {
+      lastPresent: false,
+      lastChecked: new Date().toISOString(),
+      sessionExpired: false,
+      // A change must be seen by consecutive checks, a missing element interrupts them
+      pendingChange: undefined
+    });
+
+    if (!previousProject) {
+      console.error(`[${project.name}] Project not found during update`);
+      return;
+    }
+
+    // Keep lastContent so that a reappearing element is compared with what was last seen
+    const wasPresent = previousProject.lastPresent ?? true;
+    const presenceChange: PresenceChange | undefined = wasPresent ? 'disappeared' : undefined;
+    const triggerOutcome = project.trigger
+      ? evaluateTriggerRule(project.trigger, this.getPreviousTriggerState(previousProject), { present: false, content: '' })
+      : undefined;
+    const shouldNotify = triggerOutcome ? triggerOutcome.fired : wasPresent;
+
+    if (shouldNotify) {
+      console.log(`[${project.name}] Element disappeared!`);
+      this.notifyChange(previousProject, previousProject.lastContent || '', '', { trigger: triggerOutcome, presenceChange });
+    } else {
+      console.log(`[${project.name}] Element not present`);
+    }
+
+    await this.addLog(project.id, {
+      timestamp: new Date().toISOString(),
+      content: '',
+      oldContent: wasPresent ? previousProject.lastContent || null : null,
+      changed: wasPresent,
+      success: true,
+      present: false,
+      presenceChange,
+      trigger: triggerOutcome,
+      waitedMs: readiness?.waited,
+      readyTimedOut: readiness?.timedOut || undefined,
+      steps: stepResults,
+      live: live || undefined
+    });
+
+    await this.adaptInterval(project, wasPresent, !!live);
+  }
+
+  /**
+   * Adapts the interval of an adaptive project to the outcome of a check and re-arms its alarm when the interval changes
+   * Live checks only run when the page changed, so they can return to the project interval but never back off
+   *
+   * @param changed - Whether the check detected a change
+   * @param live - Whether the check was started by a live change
+   */
+  private async adaptInterval(project: Project, changed: boolean, live: boolean): Promise<void> {
+    if (!project.adaptive?.enabled || (live && !changed)) {
+      return;
+    }
+
+    const adaptive = project.adaptive;
+    let effectiveInterval = project.interval;
+    const previousProject = await storageManager.updateProject(project.id, (currentProject) => {
+      effectiveInterval = getNextAdaptiveInterval(adaptive, currentProject.interval, currentProject.effectiveInterval, changed);
+      return { effectiveInterval };
+    });
+
+    // Projects checked manually while stopped have no alarm to re-arm
+    if (previousProject && getEffectiveInterval(previousProject) !== effectiveInterval && this.monitors.has(project.id)) {
+      console.log(`[${project.name}] Interval adapted to ${effectiveInterval / 1000}s`);
+      this.scheduleNextRun({ ...previousProject, effectiveInterval });
+    }
+  }
+
+  /**
+   * Records a check that landed on a login page instead of the monitored page
+   * Only the first check of an expired session notifies; the stored content is kept for when the session is back
+   */
+  private async handleSessionExpired(project: Project, reason: SessionExpiredReason): Promise<void> {
+    const previousProject = await storageManager.updateProject(project.id, { sessionExpired: true });
+
+    if (!previousProject) {
+      console.error(`[${project.name}] Project not found during update`);
+      return;
+    }
+
+    if (!previousProject.sessionExpired) {
+      console.warn(`[${project.name}] Session expired (${reason})`);
+      const lastContent = previousProject.lastContent || '';
+      this.notifyChange(previousProject, lastContent, lastContent, { sessionExpired: reason });
+    } else {
+      console.log(`[${project.name}] Session still expired`);
+    }
+
+    await this.addLog(project.id, {
+      timestamp: new Date().toISOString(),
+      error: 'Session expired',
+      success: false,
+      sessionExpired: reason
+    });
+  }
+
+  /**
+   * Checks whether a tab shows a login page instead of the monitored page
+   * @returns Reason of the violation, or null if the tab shows the expected page
+   */
+  private async detectTabSessionExpiry(check: SessionCheck, tabId: number): Promise<SessionExpiredReason | null> {
+    const tab = await chrome.tabs.get(tabId);
+    let loginIndicatorFound = false;
+    if (check.loginSelector?.trim()) {
+      const response: MessageResponse = await chrome.tabs.sendMessage(tabId, {
+        action: 'detectLogin',
+        selector: check.loginSelector
+      });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to look for the login indicator');
+      }
+      loginIndicatorFound = response.found;
+    }
+    return detectSessionExpiry(check, { url: tab.url, loginIndicatorFound });
+  }
+
+  /**
+   * Waits for dynamic content after the tab has loaded
+   * Without adaptive readiness the configured load delay is slept; otherwise the content script
+   * waits for the page (capped by the readiness timeout)
+   */
+  private async waitForPageReady(project: Project, tabId: number): Promise<ReadinessResult> {
+    if (!isAdaptiveReadiness(project.readiness)) {
+      // Defaulting to 0 for backwards compatibility
+      // (UI always sends loadDelay, but older saved projects or direct API calls may not have it)
+      const loadDelay = project.loadDelay ?? DEFAULTS.LOAD_DELAY_MS;
+      if (loadDelay > 0) {
+        console.log(`[${project.name}] Waiting ${loadDelay}ms for dynamic content...`);
+        await new Promise(resolve => setTimeout(resolve, loadDelay));
+      }
+      return { waited: loadDelay, timedOut: false };
+    }
+
+    console.log(`[${project.name}] Waiting for page to be ready (${project.readiness.mode})...`);
+    await this.injectContentScript(tabId);
+    const response: MessageResponse = await chrome.tabs.sendMessage(tabId, {
+      action: 'waitForReady',
+      readiness: project.readiness,
+      selector: project.selector,
+      selectorType: project.selectorType,
+      contentSource: project.contentSource
+    });
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to wait for page');
+    }
+    return { waited: response.waited, timedOut: response.timedOut };
+  }
+
+  /**
+   * Performs the project's interaction steps in the tab
+   * Failed steps are logged but do not fail the check
+   */
+  private async runInteractionSteps(project: Project, tabId: number): Promise<StepResult[]> {
+    console.log(`[${project.name}] Running ${project.steps?.length ?? 0} interaction steps...`);
+    const response: MessageResponse = await chrome.tabs.sendMessage(tabId, {
+      action: 'runSteps',
+      steps: project.steps
+    });
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to run interaction steps');
+    }
+    const results: StepResult[] = response.steps;
+    for (const [index, result] of results.entries()) {
+      if (!result.success) {
+        console.warn(`[${project.name}] Step ${index + 1} (${result.type}) failed: ${result.error}`);
+      }
+    }
+    return results;
+  }
+
   private async waitForTabLoad(tabId: number, timeout: number = TIMEOUTS.TAB_LOAD): Promise<void> {
     const startTime = Date.now();
 
@@ -715,6 +2023,14 @@ class MonitorManager {
     await storageManager.addLog(projectId, logEntry);
   }
 
+  /**
+   * Lists the previous or new values of changed fields, one "name: value" line each
+   * Used as old and new content of a notification about several fields
+   */
+  private formatFieldValues(fieldChanges: FieldChange[], side: 'from' | 'to'): string {
+    return fieldChanges.map(change => `${change.name}: ${change[side] ?? ''}`).join('\n');
+  }
+
   private async getProjectLogs(projectId: string): Promise<LogEntry[]> {
     return storageManager.getProjectLogs(projectId);
   }
@@ -723,16 +2039,89 @@ class MonitorManager {
     await storageManager.clearProjectLogs(projectId);
   }
 
-  private async notifyChange(project: Project, oldContent: string, newContent: string): Promise<void> {
-    const message = t('changeNotificationBody', [project.name, project.url]);
+  /**
+   * Builds the browser notification text, describing the most specific reason for the notification
+   */
+  private getChangeNotificationMessage(project: Project, details: ChangeDetails): string {
+    if (details.sessionExpired) {
+      return t('sessionExpiredNotificationBody', [project.name, project.url]);
+    }
+    if (details.fieldChangeOnly && details.fieldChanges) {
+      const [onlyChange] = details.fieldChanges;
+      if (details.fieldChanges.length === 1 && onlyChange) {
+        return t('fieldChangeNotificationBody', [
+          onlyChange.name,
+          onlyChange.from ?? t('fieldNotFound'),
+          onlyChange.to ?? t('fieldNotFound'),
+          project.name,
+          project.url
+        ]);
+      }
+      const changes = details.fieldChanges
+        .map(change => `${change.name}: ${change.from ?? t('fieldNotFound')} → ${change.to ?? t('fieldNotFound')}`)
+        .join('\n');
+      return t('fieldsChangeNotificationBody', [changes, project.name, project.url]);
+    }
+    if (details.trigger?.fired && project.trigger) {
+      return t('triggerNotificationBody', [describeTriggerRule(project.trigger), project.name, project.url]);
+    }
+    if (details.presenceChange) {
+      return t(details.presenceChange === 'appeared' ? 'elementAppearedNotificationBody' : 'elementDisappearedNotificationBody', [
+        project.name,
+        project.url
+      ]);
+    }
+    if (details.numericTrigger && details.numericValue !== undefined && details.numericValue !== null) {
+      return t('numericChangeNotificationBody', [
+        String(details.oldNumericValue ?? ''),
+        String(details.numericValue),
+        project.name,
+        project.url
+      ]);
+    }
+    if (details.listDiff) {
+      return t('listChangeNotificationBody', [
+        details.listDiff.added.length.toString(),
+        details.listDiff.removed.length.toString(),
+        details.listDiff.changed.length.toString(),
+        project.name,
+        project.url
+      ]);
+    }
+    if (details.tableDiff) {
+      return t('tableChangeNotificationBody', [
+        details.tableDiff.added.length.toString(),
+        details.tableDiff.removed.length.toString(),
+        details.tableDiff.modified.length.toString(),
+        project.name,
+        project.url
+      ]);
+    }
+    if (details.textDiff) {
+      const diff = formatTextDiff(details.textDiff);
+      return t('textChangeNotificationBody', [
+        diff.length > TEXT_DIFF.MAX_NOTIFICATION_LENGTH ? `${diff.substring(0, TEXT_DIFF.MAX_NOTIFICATION_LENGTH)}...` : diff,
+        project.name,
+        project.url
+      ]);
+    }
+    if (details.visualDifference !== undefined) {
+      return t('visualChangeNotificationBody', [details.visualDifference.toFixed(1), project.name, project.url]);
+    }
+    return t('changeNotificationBody', [project.name, project.url]);
+  }
+
+  private async notifyChange(project: Project, oldContent: string, newContent: string, details: ChangeDetails = {}): Promise<void> {
+    const message = this.getChangeNotificationMessage(project, details);
 
     // Browser notification
     if (project.browserNotification) {
       chrome.notifications.create(
         {
-          type: 'basic',
+          // Show the element thumbnail when the appearance changed
+          ...(details.screenshot ? { type: 'image', imageUrl: details.screenshot } : { type: 'basic' }),
           iconUrl: chrome.runtime.getURL('icons/icon128.png'),
-          title: t('changeNotificationTitleShort'),
+          title: details.sessionExpired ? t('sessionExpiredNotificationTitle') : t('changeNotificationTitleShort'),
           message: message,
           priority: NOTIFICATION.PRIORITY
         },
@@ -762,7 +2151,7 @@ class MonitorManager {
       }
 
       try {
-        await this.sendWebhook(webhook, project, oldContent, newContent);
+        await this.sendWebhook(webhook, project, oldContent, newContent, details);
         console.log('Webhook notification sent successfully');
 
         // Update lastWebhookTime after successful webhook call
@@ -808,6 +2197,10 @@ class MonitorManager {
     if (!template) return template;
 
     let result = template;
+    // JSON-valued variables that make up a whole string value are inserted as JSON (null when empty)
+    for (const key of JSON_WEBHOOK_VARIABLES) {
+      result = result.replace(new RegExp(`"\\{\\{${key}\\}\\}"`, 'g'), () => variables[key] || 'null');
+    }
     for (const [key, value] of Object.entries(variables)) {
       const regex = new RegExp(`\\{\\{${key}\\}\\}`, 'g');
       // Convert value to JSON string, then remove outer quotes
@@ -821,7 +2214,7 @@ class MonitorManager {
   }
 
   // Send webhook
-  private async sendWebhook(webhook: WebhookConfig, project: Project, oldContent: string, newContent: string): Promise<Response> {
+  private async sendWebhook(webhook: WebhookConfig, project: Project, oldContent: string, newContent: string, details: ChangeDetails = {}): Promise<Response> {
     const timestamp = new Date().toISOString();
 
     if (!webhook.url) {
@@ -847,7 +2240,17 @@ class MonitorManager {
       selector: project.selector,
       oldContent: oldContent,
       newContent: newContent,
-      timestamp: timestamp
+      timestamp: timestamp,
+      numericValue: details.numericValue?.toString() ?? '',
+      oldNumericValue: details.oldNumericValue?.toString() ?? '',
+      diff: details.textDiff ? formatTextDiff(details.textDiff) : '',
+      addedText: details.textDiff ? collectDiffText(details.textDiff, 'added') : '',
+      removedText: details.textDiff ? collectDiffText(details.textDiff, 'removed') : '',
+      tableDiff: details.tableDiff ? JSON.stringify(details.tableDiff) : '',
+      event: details.sessionExpired ? 'sessionExpired' : details.fieldChangeOnly ? 'fieldChange' : 'change',
+      field: details.fieldChanges?.map(change => change.name).join(', ') ?? '',
+      fieldChanges: details.fieldChanges ? JSON.stringify(details.fieldChanges) : '',
+      ...getFieldVariables(details.fieldValues ?? project.lastFields)
     };
 
     // Replace variables in URL
@@ -979,6 +2382,7 @@ class MonitorManager {
     }
 
     // Test variables
+    const testDiff = diffText(t('testOldContent'), t('testNewContent'));
     const variables: WebhookVariables = {
       projectId: 'test-project-id',
       projectName: t('testProjectName'),
@@ -986,7 +2390,19 @@ class MonitorManager {
       selector: '.test-selector',
       oldContent: t('testOldContent'),
       newContent: t('testNewContent'),
-      timestamp: timestamp
+      timestamp: timestamp,
+      numericValue: '199',
+      oldNumericValue: '249',
+      diff: formatTextDiff(testDiff),
+      addedText: collectDiffText(testDiff, 'added'),
+      removedText: collectDiffText(testDiff, 'removed'),
+      tableDiff: JSON.stringify(diffTables(
+        { headers: ['SKU', 'Price'], rows: [['A1', '$10'], ['B2', '$5']] },
+        { headers: ['SKU', 'Price'], rows: [['A1', '$12'], ['C3', '$7']] }
+      )),
+      event: 'change',
+      field: '',
+      fieldChanges: ''
     };
 
     // Replace variables in URL
@@ -1112,8 +2528,11 @@ chrome.alarms.onAlarm.addListener((alarm) => {
       const project = projects.find(p => p.id === projectId);
 
       if (project && project.active) {
-        // Perform check
-        monitorManager.checkElement(project);
+        // Monitor alarms are one-shot, arm the next run before checking
+        monitorManager.scheduleNextRun(project);
+
+        // Perform check once a slot in the check queue is free
+        monitorManager.queueCheck(project);
       } else {
         // Project does not exist or is inactive, clear alarm
         console.log(`Project ${projectId} not found or inactive, clearing alarm`);
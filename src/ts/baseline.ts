@@ -0,0 +1,73 @@
+/**
+ * Pinned baselines
+ * Reference content that checks are compared with instead of the previous check
+ */
+
+import { isSameContentSource } from './elementContent';
+import { isSameNormalization } from './normalize';
+import { isSameRegexExtraction } from './regex';
+import { DEFAULT_SELECTOR_TYPE } from './selector';
+import { Baseline, ComparisonMode, LogEntry, Project } from './types';
+
+/**
+ * Reading stored by a check, as compared with the next one
+ */
+export type StoredReading = Pick<Project, 'lastContent' | 'lastItems' | 'lastTable'>;
+
+/**
+ * Settings that decide what a check reads from the page
+ */
+export type ReadingSettings = Partial<Pick<Project, 'selector' | 'selectorType' | 'contentSource' | 'matchMode' | 'extractRegex' | 'normalization'>>;
+
+/**
+ * Compares the reading settings of a project before and after an edit
+ * A baseline pinned with other settings is no longer comparable with what checks read
+ */
+export function isSameReadingSettings(a: ReadingSettings, b: ReadingSettings): boolean {
+  return a.selector === b.selector
+    && (a.selectorType ?? DEFAULT_SELECTOR_TYPE) === (b.selectorType ?? DEFAULT_SELECTOR_TYPE)
+    && isSameContentSource(a.contentSource, b.contentSource)
+    && (a.matchMode ?? 'first') === (b.matchMode ?? 'first')
+    && isSameRegexExtraction(a.extractRegex, b.extractRegex)
+    && isSameNormalization(a.normalization, b.normalization);
+}
+
+/**
+ * Takes the baseline from the last reading of a project ("accept current as baseline")
+ * @returns The baseline, or null before the first reading
+ */
+export function createBaselineFromProject(project: Project, pinnedAt: string = new Date().toISOString()): Baseline | null {
+  if (project.lastContent === undefined) {
+    return null;
+  }
+  return { content: project.lastContent, items: project.lastItems, table: project.lastTable, pinnedAt };
+}
+
+/**
+ * Takes the baseline from a log entry ("revert to this version")
+ * Log entries only keep the content text, so such a baseline is compared by text even in list and table mode
+ *
+ * @returns The baseline, or null for failed checks and checks where the element was not present
+ */
+export function createBaselineFromLog(entry: LogEntry, pinnedAt: string = new Date().toISOString()): Baseline | null {
+  if (!entry.success || entry.present === false || entry.content === undefined) {
+    return null;
+  }
+  return { content: entry.content, pinnedAt, logTimestamp: entry.timestamp };
+}
+
+/**
+ * Gets the baseline a project's checks are compared with
+ * @returns The pinned baseline in 'baseline' comparison mode, undefined when checks are compared with the previous check
+ */
+export function getComparedBaseline(project: Pick<Project, 'baseline' | 'comparisonMode'>): Baseline | undefined {
+  const mode: ComparisonMode = project.comparisonMode ?? 'previous';
+  return mode === 'baseline' ? project.baseline : undefined;
+}
+
+/**
+ * Stored reading equivalent to a baseline, for comparing a check with it
+ */
+export function getBaselineReading(baseline: Baseline): StoredReading {
+  return { lastContent: baseline.content, lastItems: baseline.items, lastTable: baseline.table };
+}
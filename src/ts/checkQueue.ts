@@ -0,0 +1,133 @@
+/**
+ * Check queue
+ * Runs project checks a few at a time, by priority, so that many due projects do not open all their tabs at once
+ */
+
+import { CHECK_QUEUE } from './constants';
+import { CheckPriority, CheckQueueStatus, Settings } from './types';
+
+/**
+ * Order in which priorities are served (lower first)
+ */
+const PRIORITY_ORDER: Record<CheckPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/**
+ * Check waiting in the queue
+ */
+interface QueuedCheck {
+  projectId: string;
+  priority: CheckPriority;
+  queuedAt: number;
+  run: () => Promise<void>;
+}
+
+/**
+ * Queue of project checks with a concurrency limit
+ *
+ * @remarks
+ * A project is queued at most once: triggers arriving while its check waits are coalesced into it.
+ * A project whose check is running may be queued again, but two checks of the same project never run together.
+ * Higher priorities start first, checks of the same priority in the order they were queued.
+ *
+ * @example
+ * ```typescript
+ * const queue = new CheckQueue(2);
+ * queue.enqueue(project.id, project.priority ?? 'normal', () => monitorManager.checkElement(project));
+ * ```
+ */
+export class CheckQueue {
+  private queued: QueuedCheck[] = [];
+  private running = new Set<string>();
+
+  /**
+   * @param maxConcurrent - Maximum number of checks running at the same time
+   */
+  constructor(private maxConcurrent: number) {}
+
+  /**
+   * Changes the concurrency limit (checks already running are not interrupted)
+   */
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = maxConcurrent;
+    this.startNext();
+  }
+
+  /**
+   * Queues the check of a project
+   * @param run - Performs the check, the queue waits for the returned promise
+   * @returns false when the project is already waiting (the trigger is coalesced into the queued check)
+   */
+  enqueue(projectId: string, priority: CheckPriority, run: () => Promise<void>): boolean {
+    if (this.queued.some(check => check.projectId === projectId)) {
+      return false;
+    }
+    this.queued.push({ projectId, priority, queuedAt: Date.now(), run });
+    this.startNext();
+    return true;
+  }
+
+  /**
+   * Drops the waiting check of a project (a running check finishes)
+   */
+  remove(projectId: string): void {
+    this.queued = this.queued.filter(check => check.projectId !== projectId);
+  }
+
+  /**
+   * Waiting and running checks, for display
+   */
+  getStatus(): CheckQueueStatus {
+    return {
+      maxConcurrent: this.maxConcurrent,
+      running: [...this.running],
+      queued: [...this.queued]
+        .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+        .map(({ projectId, priority, queuedAt }) => ({ projectId, priority, queuedAt }))
+    };
+  }
+
+  /**
+   * Starts waiting checks while below the concurrency limit
+   */
+  private startNext(): void {
+    while (this.running.size < this.maxConcurrent) {
+      const check = this.takeNext();
+      if (!check) {
+        return;
+      }
+      this.running.add(check.projectId);
+      check.run()
+        .catch(error => console.error(`Queued check of project ${check.projectId} failed:`, error))
+        .finally(() => {
+          this.running.delete(check.projectId);
+          this.startNext();
+        });
+    }
+  }
+
+  /**
+   * Removes and returns the waiting check to start next (highest priority first, skipping projects already running)
+   */
+  private takeNext(): QueuedCheck | undefined {
+    let nextIndex = -1;
+    this.queued.forEach((check, index) => {
+      const next = this.queued[nextIndex];
+      if (!this.running.has(check.projectId) && (!next || PRIORITY_ORDER[check.priority] < PRIORITY_ORDER[next.priority])) {
+        nextIndex = index;
+      }
+    });
+    return nextIndex === -1 ? undefined : this.queued.splice(nextIndex, 1)[0];
+  }
+}
+
+/**
+ * Concurrency limit configured in the settings
+ * @returns The configured limit within 1..CHECK_QUEUE.MAX_CONCURRENT, or CHECK_QUEUE.DEFAULT_MAX_CONCURRENT when unset or not a number
+ */
+export function getMaxConcurrentChecks(settings: Pick<Settings, 'maxConcurrentChecks'>): number {
+  const value = settings.maxConcurrentChecks;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return CHECK_QUEUE.DEFAULT_MAX_CONCURRENT;
+  }
+  return Math.min(CHECK_QUEUE.MAX_CONCURRENT, Math.max(1, Math.floor(value)));
+}
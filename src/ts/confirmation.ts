@@ -0,0 +1,47 @@
+/**
+ * Change confirmation
+ * Waits for new content to be seen by several consecutive checks before it counts as a change
+ */
+
+import { PendingChange } from './types';
+
+/**
+ * Outcome of a check for change confirmation
+ * @property confirmed - Whether the reading becomes the new baseline (always true when nothing changed)
+ * @property pending - Candidate to remember until the next check (unconfirmed changes only)
+ */
+export interface ConfirmationResult {
+  confirmed: boolean;
+  pending?: PendingChange;
+}
+
+/**
+ * Decides whether the content read by a check is confirmed
+ *
+ * @param content - Content read by this check
+ * @param changed - Whether it differs from the baseline
+ * @param pending - Candidate seen by the previous checks
+ * @param required - Consecutive checks needed to confirm a change (default: 1, every change is confirmed at once)
+ * @returns Whether the reading is confirmed, or the updated candidate
+ *
+ * @remarks
+ * Only the same candidate seen in a row counts: a different new value starts over at 1,
+ * and a check that reads the baseline again drops the candidate.
+ *
+ * @example
+ * ```typescript
+ * confirmChange('Loading...', true, undefined, 2);                   // { confirmed: false, pending: { content: 'Loading...', count: 1 } }
+ * confirmChange('$42', true, { content: 'Loading...', count: 1 }, 2); // { confirmed: false, pending: { content: '$42', count: 1 } }
+ * confirmChange('$42', true, { content: '$42', count: 1 }, 2);        // { confirmed: true }
+ * ```
+ */
+export function confirmChange(content: string, changed: boolean, pending: PendingChange | undefined, required: number = 1): ConfirmationResult {
+  if (!changed) {
+    return { confirmed: true };
+  }
+  const count = pending?.content === content ? pending.count + 1 : 1;
+  if (count >= required) {
+    return { confirmed: true };
+  }
+  return { confirmed: false, pending: { content, count } };
+}
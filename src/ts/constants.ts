@@ -15,6 +15,8 @@ export const TIMEOUTS = {
   TAB_STATUS_CHECK: 100,
   /** Webhook request timeout */
   WEBHOOK_REQUEST: 10000,
+  /** Request timeout for HTTP endpoint projects */
+  HTTP_REQUEST: 30000,
 } as const;
 
 /**
@@ -45,6 +47,36 @@ export const LIMITS = {
   MAX_LOAD_DELAY_MS: 60000,
   /** Maximum page load delay in seconds */
   MAX_LOAD_DELAY_SECONDS: 60,
+  /** Maximum attribute/property name length for content sources */
+  MAX_CONTENT_SOURCE_NAME_LENGTH: 100,
+  /** Maximum number of items kept per check in 'all' match mode */
+  MAX_LIST_ITEMS: 500,
+  /** Maximum number of rows kept per check in 'table' match mode */
+  MAX_TABLE_ROWS: 500,
+  /** Maximum number of columns read per table row */
+  MAX_TABLE_COLUMNS: 50,
+  /** Maximum number of named fields per project */
+  MAX_FIELDS: 10,
+  /** Maximum field name length */
+  MAX_FIELD_NAME_LENGTH: 50,
+  /** Maximum cron expression length */
+  MAX_CRON_LENGTH: 100,
+  /** Maximum number of active-hours windows per project */
+  MAX_ACTIVE_WINDOWS: 10,
+  /** Maximum random variation of the check interval in percent */
+  MAX_JITTER_PERCENT: 50,
+  /** Maximum number of consecutive checks required to confirm a change */
+  MAX_CONFIRM_CHECKS: 10,
+  /** Maximum percent change threshold for numeric triggers */
+  MAX_NUMERIC_PERCENT_CHANGE: 10000,
+  /** Maximum length of user-supplied regex patterns */
+  MAX_REGEX_PATTERN_LENGTH: 500,
+  /** Maximum number of ignore patterns per project */
+  MAX_IGNORE_PATTERNS: 20,
+  /** Maximum trigger keyword length */
+  MAX_TRIGGER_VALUE_LENGTH: 500,
+  /** Maximum response size in bytes read by HTTP endpoint projects */
+  MAX_HTTP_RESPONSE_BYTES: 5000000,
 } as const;
 
 /**
@@ -66,6 +98,124 @@ export const DEFAULTS = {
   LOAD_DELAY_INPUT_STEP_SECONDS: 0.5,
 } as const;
 
+/**
+ * Text diff configuration
+ */
+export const TEXT_DIFF = {
+  /** Maximum token comparisons (old tokens x new tokens) before a block is reported as a whole replacement */
+  MAX_COMPARISONS: 1000000,
+  /** Unchanged characters kept on each side of a change when a diff is stored */
+  CONTEXT_CHARS: 40,
+  /** Maximum diff length shown in browser notifications */
+  MAX_NOTIFICATION_LENGTH: 150,
+} as const;
+
+/**
+ * Visual change detection configuration
+ */
+export const VISUAL = {
+  /** Default percentage of differing pixels that counts as a change */
+  DEFAULT_THRESHOLD_PERCENT: 1,
+  /** Maximum thumbnail width and height in pixels */
+  THUMBNAIL_MAX_SIZE: 240,
+  /** JPEG quality of stored thumbnails (0-1) */
+  THUMBNAIL_QUALITY: 0.7,
+  /** Maximum per-channel difference (0-255) for two pixels to count as equal, absorbs JPEG noise */
+  PIXEL_TOLERANCE: 32,
+  /** Delay after scrolling the element into view before capturing, for the page to repaint */
+  SCROLL_SETTLE_MS: 300,
+} as const;
+
+/**
+ * Page readiness detection configuration (in milliseconds)
+ */
+export const READINESS = {
+  /** Default maximum time to wait for a page to become ready */
+  DEFAULT_TIMEOUT_MS: 15000,
+  /** Minimum value for the maximum wait */
+  MIN_TIMEOUT_MS: 1000,
+  /** Default time without DOM mutations after which a page counts as settled */
+  DEFAULT_SETTLE_MS: 1000,
+  /** Minimum settle time */
+  MIN_SETTLE_MS: 100,
+  /** Maximum settle time */
+  MAX_SETTLE_MS: 10000,
+  /** Interval for re-checking the awaited condition between mutations */
+  POLL_INTERVAL_MS: 250,
+} as const;
+
+/**
+ * Pre-check interaction steps configuration
+ */
+export const INTERACTION = {
+  /** Maximum number of steps per project */
+  MAX_STEPS: 20,
+  /** Maximum duration of a wait step in milliseconds */
+  MAX_WAIT_MS: 30000,
+  /** Maximum length of text typed or option selected by a step */
+  MAX_VALUE_LENGTH: 500,
+  /** Pause after each click, scroll, type or select step for the page to react, in milliseconds */
+  STEP_SETTLE_MS: 300,
+} as const;
+
+/**
+ * Numeric trend history configuration
+ */
+export const NUMERIC_HISTORY = {
+  /** Maximum number of values kept per project (two weeks of checks at the minimum interval) */
+  MAX_POINTS: 20160,
+  /** Values drawn in the sparkline of a project card */
+  SPARKLINE_POINTS: 60,
+  /** Values drawn in the chart of the log view */
+  CHART_POINTS: 400,
+} as const;
+
+/**
+ * Check schedule configuration
+ */
+export const SCHEDULE = {
+  /** How far ahead the next run of a schedule is searched (a cron expression without a run in this time never runs) */
+  MAX_LOOKAHEAD_DAYS: 366,
+  /** Upcoming runs shown in the schedule editor */
+  PREVIEW_RUNS: 5,
+} as const;
+
+/**
+ * Adaptive check interval configuration
+ */
+export const ADAPTIVE_INTERVAL = {
+  /** Default longest interval in milliseconds (1 hour) */
+  DEFAULT_MAX_INTERVAL_MS: 3600000,
+  /** Default factor applied to the interval after a check without a change */
+  DEFAULT_BACKOFF_FACTOR: 1.5,
+  /** Maximum backoff factor */
+  MAX_BACKOFF_FACTOR: 10,
+} as const;
+
+/**
+ * Check queue configuration
+ */
+export const CHECK_QUEUE = {
+  /** Default maximum number of checks running at the same time */
+  DEFAULT_MAX_CONCURRENT: 2,
+  /** Highest configurable number of checks running at the same time */
+  MAX_CONCURRENT: 10,
+  /** Refresh interval of the queue status in the options page */
+  STATUS_REFRESH_MS: 2000,
+} as const;
+
+/**
+ * Live watching of open tabs configuration
+ */
+export const LIVE = {
+  /** Quiet time after the last DOM mutation before the element is read again */
+  DEBOUNCE_MS: 1000,
+  /** Longest time a continuously mutating page delays reading the element */
+  MAX_WAIT_MS: 10000,
+  /** Minimum time between two checks started by live changes of the same project */
+  MIN_CHECK_INTERVAL_MS: 5000,
+} as const;
+
 /**
  * Notification and alarm configurations
  */
@@ -74,11 +224,6 @@ export const NOTIFICATION = {
   PRIORITY: 2,
 } as const;
 
-export const ALARM = {
-  /** Initial alarm delay in minutes (0 = trigger immediately) */
-  INITIAL_DELAY_MINUTES: 0,
-} as const;
-
 /**
  * Webhook rate limiting configuration
  */
@@ -1,13 +1,49 @@
-import { DEFAULTS, LIMITS } from './constants';
+import { ADAPTIVE_INTERVAL, DEFAULTS, INTERACTION, LIMITS, READINESS, SCHEDULE, VISUAL } from './constants';
 import { t } from './i18n';
-import { MessageRequest, MessageResponse, Project, WebhookConfig } from './types';
-import { validateLoadDelay, ValidationErrorCode } from './validation';
+import { DEFAULT_CONTENT_SOURCE, isSameContentSource, MatchedContent, readElementContent, readMatchedContent } from './elementContent';
+import { applyNormalization, hasTextNormalization, isSameNormalization } from './normalize';
+import { extractFieldValues, readFieldValues } from './fields';
+import { ELEMENT_STEP_TYPES, runInteractionSteps } from './interaction';
+import { watchForChanges } from './liveWatch';
+import { parseNumber } from './numeric';
+import { ReadinessResult, waitForReadiness } from './readiness';
+import { ALLOWED_REGEX_FLAGS, applyRegexExtraction, isSameRegexExtraction } from './regex';
+import { formatActiveWindowLines, getUpcomingRunTimes, parseActiveWindowLines } from './schedule';
+import { DEFAULT_SELECTOR_TYPE, findElement, findElements, getPiercedRoot, getPiercingPath, getXPath, SelectorRoot } from './selector';
+import { matchesUrlPattern } from './session';
+import { isPresenceRule } from './trigger';
+import { AdaptiveIntervalConfig, CheckPriority, ContentSource, ContentSourceType, ElementRect, InteractionStep, InteractionStepType, MatchMode, MessageRequest, MessageResponse, NormalizationConfig, NumericConfig, Project, ProjectField, ReadinessConfig, ReadinessMode, RegexExtraction, Schedule, ScheduleMode, SelectorType, SessionCheck, TableData, TriggerConditionType, TriggerRule, VisualConfig, WebhookConfig } from './types';
+import { validateAdaptiveInterval, validateConfirmChecks, validateContentSource, validateInteractionSteps, validateJitter, validateLoadDelay, validateNormalizationConfig, validateNumericConfig, validateProjectFields, validateReadinessConfig, validateRegexExtraction, validateSchedule, validateSelector, validateSessionCheck, validateTriggerRule, ValidationErrorCode, validateVisualConfig } from './validation';
+
+// Locale keys of the interaction step types
+const STEP_TYPE_LABEL_KEYS: Record<InteractionStepType, string> = {
+  click: 'stepClick',
+  scroll: 'stepScroll',
+  type: 'stepType',
+  select: 'stepSelect',
+  wait: 'stepWait'
+};
+
+/**
+ * Element and settings of a live project, as needed to notice its changes
+ */
+interface LiveWatchTarget {
+  selector: string;
+  selectorType?: SelectorType;
+  contentSource?: ContentSource;
+  matchMode?: MatchMode;
+  excludeSelector?: string;
+  fields?: ProjectField[];
+}
 
 // Element selection mode
 class ElementSelector {
   private isSelecting: boolean = false;
   private highlightedElement: HTMLElement | null = null;
   private overlay: HTMLElement | null = null;
+  private listenedDocuments: Document[] = [];
+  private pickCallbacks: { onPick: (element: HTMLElement) => void; onCancel: () => void } | null = null;
+  private liveWatches: Map<string, () => void> = new Map(); // Stop function of each watched live project
 
   public start(): void {
     if (this.isSelecting) return;
@@ -18,10 +54,19 @@ class ElementSelector {
     document.body.style.cursor = 'crosshair';
   }
 
+  // Selects a single element for the caller instead of opening the config dialog (used to record interaction steps)
+  public pick(onPick: (element: HTMLElement) => void, onCancel: () => void): void {
+    if (this.isSelecting) return;
+
+    this.start();
+    this.pickCallbacks = { onPick, onCancel };
+  }
+
   public stop(): void {
     if (!this.isSelecting) return;
 
     this.isSelecting = false;
+    this.pickCallbacks = null;
     this.removeOverlay();
     this.removeEventListeners();
     document.body.style.cursor = '';
@@ -54,15 +99,17 @@ class ElementSelector {
     e.preventDefault();
     e.stopPropagation();
 
-    const element = e.target as HTMLElement;
+    // Events from inside shadow roots are retargeted to the host, the composed path keeps the inner element
+    const element = (e.composedPath()[0] ?? e.target) as HTMLElement;
     if (element === this.overlay) return;
 
     this.highlightedElement = element;
     const rect = element.getBoundingClientRect();
+    const frameOffset = this.getFrameOffset(element);
 
     if (this.overlay) {
-      this.overlay.style.top = (rect.top + window.scrollY) + 'px';
-      this.overlay.style.left = (rect.left + window.scrollX) + 'px';
+      this.overlay.style.top = (rect.top + frameOffset.top + window.scrollY) + 'px';
+      this.overlay.style.left = (rect.left + frameOffset.left + window.scrollX) + 'px';
       this.overlay.style.width = rect.width + 'px';
       this.overlay.style.height = rect.height + 'px';
     }
@@ -77,29 +124,73 @@ class ElementSelector {
     const element = this.highlightedElement;
     if (!element) return;
 
+    const pickCallbacks = this.pickCallbacks;
     this.stop();
-    this.showConfigDialog(element);
+    if (pickCallbacks) {
+      pickCallbacks.onPick(element);
+    } else {
+      this.showConfigDialog(element);
+    }
   }
 
   private handleKeyDown = (e: KeyboardEvent): void => {
     if (e.key === 'Escape' && this.isSelecting) {
+      const pickCallbacks = this.pickCallbacks;
       this.stop();
+      pickCallbacks?.onCancel();
     }
   }
 
   private attachEventListeners(): void {
-    document.addEventListener('mousemove', this.handleMouseMove, true);
-    document.addEventListener('click', this.handleClick, true);
-    document.addEventListener('keydown', this.handleKeyDown, true);
+    // Listen in same-origin frames too, so elements inside them can be picked
+    this.listenedDocuments = [document, ...this.getFrameDocuments(document)];
+    this.listenedDocuments.forEach(doc => {
+      doc.addEventListener('mousemove', this.handleMouseMove, true);
+      doc.addEventListener('click', this.handleClick, true);
+      doc.addEventListener('keydown', this.handleKeyDown, true);
+    });
   }
 
   private removeEventListeners(): void {
-    document.removeEventListener('mousemove', this.handleMouseMove, true);
-    document.removeEventListener('click', this.handleClick, true);
-    document.removeEventListener('keydown', this.handleKeyDown, true);
+    this.listenedDocuments.forEach(doc => {
+      doc.removeEventListener('mousemove', this.handleMouseMove, true);
+      doc.removeEventListener('click', this.handleClick, true);
+      doc.removeEventListener('keydown', this.handleKeyDown, true);
+    });
+    this.listenedDocuments = [];
+  }
+
+  // Documents of same-origin frames, including nested frames (cross-origin frames are not accessible)
+  private getFrameDocuments(doc: Document): Document[] {
+    const documents: Document[] = [];
+    doc.querySelectorAll('iframe, frame').forEach(frame => {
+      const frameDocument = getPiercedRoot(frame) as Document | null;
+      if (frameDocument) {
+        documents.push(frameDocument, ...this.getFrameDocuments(frameDocument));
+      }
+    });
+    return documents;
+  }
+
+  // Position of the viewport of the element's frame within the top-level viewport
+  private getFrameOffset(element: Element): { top: number; left: number } {
+    const offset = { top: 0, left: 0 };
+    let frame = element.ownerDocument.defaultView?.frameElement ?? null;
+    while (frame) {
+      const rect = frame.getBoundingClientRect();
+      offset.top += rect.top + frame.clientTop;
+      offset.left += rect.left + frame.clientLeft;
+      frame = frame.ownerDocument.defaultView?.frameElement ?? null;
+    }
+    return offset;
   }
 
+  // Elements inside shadow roots or same-origin frames get one selector per root, joined with >>>
   private getSelector(element: HTMLElement): string {
+    return getPiercingPath(element, (inner, root) => this.getSelectorInRoot(inner as HTMLElement, root));
+  }
+
+  private getSelectorInRoot(element: HTMLElement, root: SelectorRoot): string {
     // Prefer using ID
     if (element.id) {
       return `#${element.id}`;
@@ -112,7 +203,7 @@ class ElementSelector {
     if (classes) {
       const selector = `${tag}.${classes}`;
       // Check if selector is unique
-      if (document.querySelectorAll(selector).length === 1) {
+      if (root.querySelectorAll(selector).length === 1) {
         return selector;
       }
     }
@@ -122,22 +213,39 @@ class ElementSelector {
     if (parent) {
       const siblings = Array.from(parent.children);
       const index = siblings.indexOf(element) + 1;
-      const parentSelector = this.getSelector(parent);
+      const parentSelector = this.getSelectorInRoot(parent, root);
       return `${parentSelector} > ${tag}:nth-child(${index})`;
     }
 
     return tag;
   }
 
+  private generateSelector(element: HTMLElement, type: SelectorType): string {
+    return type === 'xpath' ? getXPath(element) : this.getSelector(element);
+  }
+
   public showConfigDialog(element: HTMLElement | null, existingProject?: Project): void {
-    const selector = existingProject ? existingProject.selector : (element ? this.getSelector(element) : '');
+    const selectorType: SelectorType = existingProject?.selectorType ?? DEFAULT_SELECTOR_TYPE;
+    const selector = existingProject ? existingProject.selector : (element ? this.generateSelector(element, selectorType) : '');
+    const contentSource = existingProject?.contentSource ?? DEFAULT_CONTENT_SOURCE;
+    const matchMode: MatchMode = existingProject?.matchMode ?? 'first';
+    const tableKeyColumn = existingProject?.tableKeyColumn ?? 0;
+    const readinessMode: ReadinessMode = existingProject?.readiness?.mode ?? 'delay';
+    const scheduleMode: ScheduleMode = existingProject?.schedule?.mode ?? 'interval';
+    const priority: CheckPriority = existingProject?.priority ?? 'normal';
+    const adaptive = existingProject?.adaptive;
+    const numeric: NumericConfig = existingProject?.numeric ?? { enabled: false };
+    const visual: VisualConfig = existingProject?.visual ?? { enabled: false };
+    const extractRegex = existingProject?.extractRegex;
+    const normalization = existingProject?.normalization;
+    const trigger = existingProject?.trigger;
 
     // Safely get initial content:
     // - For existing projects: use lastContent if available, otherwise try element if it exists, else empty string
     // - For new projects: element must exist
     const initialContent = existingProject
-      ? existingProject.lastContent || (element ? this.getElementContent(element) : '')
-      : (element ? this.getElementContent(element) : '');
+      ? existingProject.lastContent || (element ? this.getElementContent(element, contentSource) : '')
+      : (element ? this.getElementContent(element, contentSource) : '');
 
     // Create configuration dialog
     const dialog = document.createElement('div');
@@ -171,17 +279,267 @@ class ElementSelector {
 
         <div style="margin-bottom: 12px;">
           <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('selector')}:</label>
-          <input type="text" id="elementSelector" value="${this.escapeHtml(selector)}" style="
+          <div style="display: flex; gap: 8px;">
+            <select id="selectorType" style="
+              width: 90px;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+            ">
+              <option value="css" ${selectorType === 'css' ? 'selected' : ''}>${t('selectorTypeCss')}</option>
+              <option value="xpath" ${selectorType === 'xpath' ? 'selected' : ''}>${t('selectorTypeXpath')}</option>
+            </select>
+            <input type="text" id="elementSelector" value="${this.escapeHtml(selector)}" style="
+              flex: 1;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+              font-family: monospace;
+            ">
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('selectorTypeHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('matchMode')}:</label>
+          <select id="matchMode" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+            <option value="first" ${matchMode === 'first' ? 'selected' : ''}>${t('matchModeFirst')}</option>
+            <option value="all" ${matchMode === 'all' ? 'selected' : ''}>${t('matchModeAll')}</option>
+            <option value="count" ${matchMode === 'count' ? 'selected' : ''}>${t('matchModeCount')}</option>
+            <option value="table" ${matchMode === 'table' ? 'selected' : ''}>${t('matchModeTable')}</option>
+          </select>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('matchModeHint')}</div>
+        </div>
+
+        <div id="tableKeyColumnArea" style="margin-bottom: 12px; display: ${matchMode === 'table' ? 'block' : 'none'};">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('tableKeyColumn')}:</label>
+          <select id="tableKeyColumn" style="
             width: 100%;
             padding: 8px;
             border: 1px solid #ddd;
             border-radius: 4px;
             font-size: 14px;
+          ">
+            ${this.renderTableKeyOptions(existingProject?.lastTable, tableKeyColumn)}
+          </select>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('tableKeyColumnHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('contentSource')}:</label>
+          <div style="display: flex; gap: 8px;">
+            <select id="contentSourceType" style="
+              flex: 1;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+            ">
+              ${this.renderContentSourceOptions(contentSource.type)}
+            </select>
+            <input type="text" id="contentSourceName" value="${this.escapeHtml(contentSource.name || '')}" placeholder="${t('contentSourceNamePlaceholder')}" style="
+              flex: 1;
+              display: ${contentSource.type === 'attribute' || contentSource.type === 'property' ? 'block' : 'none'};
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+              font-family: monospace;
+            ">
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('contentSourceHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('extractRegexLabel')}:</label>
+          <div style="display: flex; gap: 8px;">
+            <input type="text" id="extractPattern" value="${this.escapeHtml(extractRegex?.pattern || '')}" placeholder="${t('extractRegexPlaceholder')}" style="
+              flex: 1;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 13px;
+              font-family: monospace;
+            ">
+            <input type="text" id="extractFlags" value="${this.escapeHtml(extractRegex?.flags || '')}" placeholder="${t('extractRegexFlags')}" maxlength="${ALLOWED_REGEX_FLAGS.length}" style="
+              width: 60px;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 13px;
+              font-family: monospace;
+            ">
+            <input type="number" id="extractGroup" value="${extractRegex?.group ?? ''}" placeholder="${t('extractRegexGroup')}" min="0" step="1" style="
+              width: 70px;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 13px;
+            ">
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('extractRegexHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('ignoreRules')}:</label>
+          <div style="display: flex; flex-wrap: wrap; gap: 12px; margin-bottom: 8px; font-size: 13px; color: #666;">
+            <label style="display: flex; align-items: center;">
+              <input type="checkbox" id="normalizeWhitespace" ${normalization?.collapseWhitespace ? 'checked' : ''} style="margin-right: 4px;">
+              ${t('ignoreWhitespace')}
+            </label>
+            <label style="display: flex; align-items: center;">
+              <input type="checkbox" id="normalizeCase" ${normalization?.caseFold ? 'checked' : ''} style="margin-right: 4px;">
+              ${t('ignoreCase')}
+            </label>
+            <label style="display: flex; align-items: center;">
+              <input type="checkbox" id="normalizeDigits" ${normalization?.stripDigits ? 'checked' : ''} style="margin-right: 4px;">
+              ${t('ignoreDigits')}
+            </label>
+          </div>
+          <textarea id="ignorePatterns" placeholder="${t('ignorePatternsPlaceholder')}" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 13px;
+            font-family: monospace;
+            min-height: 40px;
+            margin-bottom: 8px;
+          ">${this.escapeHtml((normalization?.ignorePatterns ?? []).join('\n'))}</textarea>
+          <input type="text" id="excludeSelector" value="${this.escapeHtml(normalization?.excludeSelector || '')}" placeholder="${t('excludeSelectorPlaceholder')}" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 13px;
             font-family: monospace;
           ">
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('ignoreRulesHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('triggerRule')}:</label>
+          <div style="display: flex; gap: 8px;">
+            <select id="triggerType" style="
+              flex: 1;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+            ">
+              ${this.renderTriggerTypeOptions(trigger?.type)}
+            </select>
+            <input type="text" id="triggerValue" value="${this.escapeHtml(trigger?.value || '')}" placeholder="${t('triggerValuePlaceholder')}" style="
+              flex: 1;
+              display: ${this.triggerNeedsValue(trigger?.type) ? 'block' : 'none'};
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 14px;
+            ">
+          </div>
+          <label id="triggerIgnoreCaseLabel" style="display: ${this.triggerNeedsValue(trigger?.type) ? 'flex' : 'none'}; align-items: center; margin-top: 4px; font-size: 13px; color: #666;">
+            <input type="checkbox" id="triggerIgnoreCase" ${trigger?.ignoreCase ? 'checked' : ''} style="margin-right: 4px;">
+            ${t('triggerIgnoreCase')}
+          </label>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('triggerHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: flex; align-items: center; font-size: 14px; color: #666;">
+            <input type="checkbox" id="numericEnabled" ${numeric.enabled ? 'checked' : ''} style="margin-right: 8px;">
+            ${t('numericEnabled')}
+          </label>
+          <div id="numericConfig" style="display: ${numeric.enabled ? 'block' : 'none'}; margin-top: 8px; border: 1px solid #ddd; border-radius: 4px; padding: 12px;">
+            <div style="margin-bottom: 8px;">
+              <label style="display: block; margin-bottom: 4px; font-size: 13px; color: #666;">${t('numericLocale')}:</label>
+              <input type="text" id="numericLocale" value="${this.escapeHtml(numeric.locale || '')}" placeholder="${t('numericLocalePlaceholder')}" style="
+                width: 100%;
+                padding: 8px;
+                border: 1px solid #ddd;
+                border-radius: 4px;
+                font-size: 13px;
+                font-family: monospace;
+              ">
+            </div>
+            <div style="display: flex; gap: 8px; margin-bottom: 8px;">
+              <div style="flex: 1;">
+                <label style="display: block; margin-bottom: 4px; font-size: 13px; color: #666;">${t('numericBelow')}:</label>
+                <input type="number" id="numericBelow" value="${numeric.below ?? ''}" step="any" style="
+                  width: 100%;
+                  padding: 8px;
+                  border: 1px solid #ddd;
+                  border-radius: 4px;
+                  font-size: 13px;
+                ">
+              </div>
+              <div style="flex: 1;">
+                <label style="display: block; margin-bottom: 4px; font-size: 13px; color: #666;">${t('numericAbove')}:</label>
+                <input type="number" id="numericAbove" value="${numeric.above ?? ''}" step="any" style="
+                  width: 100%;
+                  padding: 8px;
+                  border: 1px solid #ddd;
+                  border-radius: 4px;
+                  font-size: 13px;
+                ">
+              </div>
+              <div style="flex: 1;">
+                <label style="display: block; margin-bottom: 4px; font-size: 13px; color: #666;">${t('numericPercentChange')}:</label>
+                <input type="number" id="numericPercent" value="${numeric.percentChange ?? ''}" min="0" max="${LIMITS.MAX_NUMERIC_PERCENT_CHANGE}" step="any" style="
+                  width: 100%;
+                  padding: 8px;
+                  border: 1px solid #ddd;
+                  border-radius: 4px;
+                  font-size: 13px;
+                ">
+              </div>
+            </div>
+            <div id="numericPreview" style="font-size: 12px; color: #333; margin-bottom: 4px;"></div>
+            <div style="font-size: 12px; color: #999;">${t('numericHint')}</div>
+          </div>
         </div>
 
         <div style="margin-bottom: 12px;">
+          <label style="display: flex; align-items: center; font-size: 14px; color: #666;">
+            <input type="checkbox" id="visualEnabled" ${visual.enabled ? 'checked' : ''} style="margin-right: 8px;">
+            ${t('visualEnabled')}
+          </label>
+          <div id="visualConfig" style="display: ${visual.enabled ? 'block' : 'none'}; margin-top: 8px; border: 1px solid #ddd; border-radius: 4px; padding: 12px;">
+            <label style="display: block; margin-bottom: 4px; font-size: 13px; color: #666;">${t('visualThreshold')}:</label>
+            <input type="number" id="visualThreshold" value="${visual.threshold ?? VISUAL.DEFAULT_THRESHOLD_PERCENT}" min="0" max="100" step="any" style="
+              width: 100%;
+              padding: 8px;
+              border: 1px solid #ddd;
+              border-radius: 4px;
+              font-size: 13px;
+            ">
+            <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('visualHint')}</div>
+          </div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('scheduleMode')}:</label>
+          <select id="scheduleMode" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+            <option value="interval" ${scheduleMode === 'interval' ? 'selected' : ''}>${t('scheduleModeInterval')}</option>
+            <option value="cron" ${scheduleMode === 'cron' ? 'selected' : ''}>${t('scheduleModeCron')}</option>
+          </select>
+        </div>
+
+        <div id="intervalArea" style="margin-bottom: 12px; display: ${scheduleMode === 'interval' ? 'block' : 'none'};">
           <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('intervalSeconds')}:</label>
           <input type="number" id="refreshInterval" value="${existingProject ? existingProject.interval / 1000 : DEFAULTS.INTERVAL_SECONDS}" min="${LIMITS.MIN_INTERVAL_SECONDS}" style="
             width: 100%;
@@ -191,9 +549,128 @@ class ElementSelector {
             font-size: 14px;
           ">
           <div style="font-size: 12px; color: #FF9800; margin-top: 4px;">${t('minIntervalWarning', [LIMITS.MIN_INTERVAL_SECONDS.toString()])}</div>
+          <label style="display: block; margin: 8px 0 4px; font-size: 14px; color: #666;">${t('jitter')}:</label>
+          <input type="number" id="jitter" value="${existingProject?.jitter ?? 0}" min="0" max="${LIMITS.MAX_JITTER_PERCENT}" step="1" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('jitterHint')}</div>
+          <label style="display: flex; align-items: center; margin-top: 8px; font-size: 14px; color: #666;">
+            <input type="checkbox" id="adaptiveEnabled" ${adaptive?.enabled ? 'checked' : ''} style="margin-right: 8px;">
+            ${t('adaptiveInterval')}
+          </label>
+          <div id="adaptiveConfig" style="display: ${adaptive?.enabled ? 'flex' : 'none'}; gap: 8px; margin-top: 8px;">
+            <label style="flex: 1; font-size: 13px; color: #666;">
+              ${t('adaptiveMinMinutes')}:
+              <input type="number" id="adaptiveMinMinutes" value="${adaptive?.minInterval !== undefined ? adaptive.minInterval / 60000 : ''}" placeholder="${t('adaptiveMinPlaceholder')}" min="1" max="${LIMITS.MAX_INTERVAL_MS / 60000}" step="any" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;">
+            </label>
+            <label style="flex: 1; font-size: 13px; color: #666;">
+              ${t('adaptiveMaxMinutes')}:
+              <input type="number" id="adaptiveMaxMinutes" value="${(adaptive?.maxInterval ?? ADAPTIVE_INTERVAL.DEFAULT_MAX_INTERVAL_MS) / 60000}" min="1" max="${LIMITS.MAX_INTERVAL_MS / 60000}" step="any" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;">
+            </label>
+            <label style="flex: 1; font-size: 13px; color: #666;">
+              ${t('adaptiveBackoffFactor')}:
+              <input type="number" id="adaptiveBackoff" value="${adaptive?.backoffFactor ?? ADAPTIVE_INTERVAL.DEFAULT_BACKOFF_FACTOR}" min="1.1" max="${ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR}" step="0.1" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;">
+            </label>
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('adaptiveIntervalHint')}</div>
+        </div>
+
+        <div id="cronArea" style="margin-bottom: 12px; display: ${scheduleMode === 'cron' ? 'block' : 'none'};">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('cronExpression')}:</label>
+          <input type="text" id="cronExpression" value="${this.escapeHtml(existingProject?.schedule?.cron ?? '')}" placeholder="*/5 9-17 * * Mon-Fri" maxlength="${LIMITS.MAX_CRON_LENGTH}" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+            font-family: monospace;
+          ">
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('cronExpressionHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('activeWindows')}:</label>
+          <textarea id="activeWindows" rows="2" placeholder="Mon-Fri 09:00-18:00" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 13px;
+            font-family: monospace;
+            resize: vertical;
+          ">${this.escapeHtml(formatActiveWindowLines(existingProject?.schedule?.windows ?? []))}</textarea>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('activeWindowsHint')}</div>
+          <div id="schedulePreview" style="font-size: 12px; margin-top: 4px; white-space: pre-line;"></div>
         </div>
 
         <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('checkPriority')}:</label>
+          <select id="priority" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+            <option value="high" ${priority === 'high' ? 'selected' : ''}>${t('priorityHigh')}</option>
+            <option value="normal" ${priority === 'normal' ? 'selected' : ''}>${t('priorityNormal')}</option>
+            <option value="low" ${priority === 'low' ? 'selected' : ''}>${t('priorityLow')}</option>
+          </select>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('checkPriorityHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('confirmChecks')}:</label>
+          <input type="number" id="confirmChecks" value="${existingProject?.confirmChecks ?? 1}" min="1" max="${LIMITS.MAX_CONFIRM_CHECKS}" step="1" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('confirmChecksHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: flex; align-items: center; font-size: 14px; color: #666;">
+            <input type="checkbox" id="liveWatch" ${existingProject?.live ? 'checked' : ''} style="margin-right: 8px;">
+            ${t('liveWatch')}
+          </label>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('liveWatchHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('readinessMode')}:</label>
+          <select id="readinessMode" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+          ">
+            <option value="delay" ${readinessMode === 'delay' ? 'selected' : ''}>${t('readinessModeDelay')}</option>
+            <option value="element" ${readinessMode === 'element' ? 'selected' : ''}>${t('readinessModeElement')}</option>
+            <option value="content" ${readinessMode === 'content' ? 'selected' : ''}>${t('readinessModeContent')}</option>
+            <option value="settle" ${readinessMode === 'settle' ? 'selected' : ''}>${t('readinessModeSettle')}</option>
+          </select>
+          <div id="readinessConfig" style="display: ${readinessMode === 'delay' ? 'none' : 'flex'}; gap: 8px; margin-top: 8px;">
+            <label id="readinessSettleLabel" style="flex: 1; display: ${readinessMode === 'settle' ? 'block' : 'none'}; font-size: 13px; color: #666;">
+              ${t('readinessSettleSeconds')}:
+              <input type="number" id="readinessSettle" value="${(existingProject?.readiness?.settleTime ?? READINESS.DEFAULT_SETTLE_MS) / 1000}" min="${READINESS.MIN_SETTLE_MS / 1000}" max="${READINESS.MAX_SETTLE_MS / 1000}" step="0.1" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;">
+            </label>
+            <label style="flex: 1; font-size: 13px; color: #666;">
+              ${t('readinessTimeoutSeconds')}:
+              <input type="number" id="readinessTimeout" value="${(existingProject?.readiness?.timeout ?? READINESS.DEFAULT_TIMEOUT_MS) / 1000}" min="${READINESS.MIN_TIMEOUT_MS / 1000}" max="${LIMITS.MAX_LOAD_DELAY_SECONDS}" step="1" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;">
+            </label>
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('readinessHint')}</div>
+        </div>
+
+        <div id="loadDelayArea" style="margin-bottom: 12px; display: ${readinessMode === 'delay' ? 'block' : 'none'};">
           <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('loadDelaySeconds')}:</label>
           <input type="number" id="loadDelay" value="${existingProject && existingProject.loadDelay !== undefined ? existingProject.loadDelay / 1000 : 0}" min="0" max="${LIMITS.MAX_LOAD_DELAY_SECONDS}" step="${DEFAULTS.LOAD_DELAY_INPUT_STEP_SECONDS}" style="
             width: 100%;
@@ -206,6 +683,44 @@ class ElementSelector {
           <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('loadDelayHint')}</div>
         </div>
 
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('namedFields')}:</label>
+          <div id="fieldList"></div>
+          <button id="addField" style="margin-top: 4px; padding: 4px 12px; font-size: 12px; background: #f5f5f5; color: #333; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">${t('addField')}</button>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('namedFieldsHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('interactionSteps')}:</label>
+          <div id="stepList"></div>
+          <div style="display: flex; gap: 8px; margin-top: 4px;">
+            <button id="addStep" style="padding: 4px 12px; font-size: 12px; background: #f5f5f5; color: #333; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">${t('addStep')}</button>
+            <button id="recordStep" style="padding: 4px 12px; font-size: 12px; background: #2196F3; color: white; border: none; border-radius: 4px; cursor: pointer;">${t('recordStep')}</button>
+          </div>
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('interactionStepsHint')}</div>
+        </div>
+
+        <div style="margin-bottom: 12px;">
+          <label style="display: block; margin-bottom: 4px; font-size: 14px; color: #666;">${t('sessionCheck')}:</label>
+          <input type="text" id="sessionUrlPattern" value="${this.escapeHtml(existingProject?.sessionCheck?.urlPattern || '')}" placeholder="${t('sessionUrlPattern')}: ${this.escapeHtml(window.location.origin)}/*" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+            margin-bottom: 4px;
+          ">
+          <input type="text" id="loginSelector" value="${this.escapeHtml(existingProject?.sessionCheck?.loginSelector || '')}" placeholder="${t('loginIndicatorSelector')}: form#login" style="
+            width: 100%;
+            padding: 8px;
+            border: 1px solid #ddd;
+            border-radius: 4px;
+            font-size: 14px;
+            font-family: monospace;
+          ">
+          <div style="font-size: 12px; color: #999; margin-top: 4px;">${t('sessionCheckHint')}</div>
+        </div>
+
         <div style="margin-bottom: 12px; display: flex; align-items: center; justify-content: space-between;">
           <label style="display: flex; align-items: center; font-size: 14px; color: #666;">
             <input type="checkbox" id="browserNotification" ${existingProject ? (existingProject.browserNotification ? 'checked' : '') : 'checked'} style="margin-right: 8px;">
@@ -285,8 +800,8 @@ class ElementSelector {
 
         <div style="margin-bottom: 16px; padding: 12px; background: #f5f5f5; border-radius: 4px;">
           <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('currentContentPreview')}</div>
-          <div style="font-size: 13px; color: #333; max-height: 100px; overflow: auto; word-break: break-all;">
-            ${this.escapeHtml(initialContent.substring(0, 200))}${initialContent.length > 200 ? '...' : ''}
+          <div id="contentPreview" style="font-size: 13px; color: #333; max-height: 100px; overflow: auto; word-break: break-all;">
+            ${matchMode === 'first' ? this.formatPreview(initialContent) : this.formatMatchedPreview({ content: initialContent, items: existingProject?.lastItems, table: existingProject?.lastTable }, matchMode)}
           </div>
         </div>
 
@@ -331,8 +846,71 @@ class ElementSelector {
     const testWebhookBtn = dialog.querySelector<HTMLButtonElement>('#testWebhook');
     const loadDelayInput = dialog.querySelector<HTMLInputElement>('#loadDelay');
     const loadDelayError = dialog.querySelector<HTMLElement>('#loadDelayError');
-
-    if (!browserNotificationCheckbox || !enableWebhook || !webhookConfig || !testBrowserBtn || !testWebhookBtn || !loadDelayInput || !loadDelayError) {
+    const loadDelayArea = dialog.querySelector<HTMLElement>('#loadDelayArea');
+    const readinessModeSelect = dialog.querySelector<HTMLSelectElement>('#readinessMode');
+    const scheduleModeSelect = dialog.querySelector<HTMLSelectElement>('#scheduleMode');
+    const intervalArea = dialog.querySelector<HTMLElement>('#intervalArea');
+    const intervalInput = dialog.querySelector<HTMLInputElement>('#refreshInterval');
+    const adaptiveEnabledCheckbox = dialog.querySelector<HTMLInputElement>('#adaptiveEnabled');
+    const adaptiveConfigArea = dialog.querySelector<HTMLElement>('#adaptiveConfig');
+    const adaptiveMinInput = dialog.querySelector<HTMLInputElement>('#adaptiveMinMinutes');
+    const adaptiveMaxInput = dialog.querySelector<HTMLInputElement>('#adaptiveMaxMinutes');
+    const adaptiveBackoffInput = dialog.querySelector<HTMLInputElement>('#adaptiveBackoff');
+    const cronArea = dialog.querySelector<HTMLElement>('#cronArea');
+    const cronExpressionInput = dialog.querySelector<HTMLInputElement>('#cronExpression');
+    const activeWindowsTextarea = dialog.querySelector<HTMLTextAreaElement>('#activeWindows');
+    const schedulePreview = dialog.querySelector<HTMLElement>('#schedulePreview');
+    const readinessConfigArea = dialog.querySelector<HTMLElement>('#readinessConfig');
+    const readinessSettleLabel = dialog.querySelector<HTMLElement>('#readinessSettleLabel');
+    const readinessSettleInput = dialog.querySelector<HTMLInputElement>('#readinessSettle');
+    const readinessTimeoutInput = dialog.querySelector<HTMLInputElement>('#readinessTimeout');
+    const fieldList = dialog.querySelector<HTMLElement>('#fieldList');
+    const addFieldBtn = dialog.querySelector<HTMLButtonElement>('#addField');
+    const stepList = dialog.querySelector<HTMLElement>('#stepList');
+    const addStepBtn = dialog.querySelector<HTMLButtonElement>('#addStep');
+    const recordStepBtn = dialog.querySelector<HTMLButtonElement>('#recordStep');
+    const sessionUrlPatternInput = dialog.querySelector<HTMLInputElement>('#sessionUrlPattern');
+    const loginSelectorInput = dialog.querySelector<HTMLInputElement>('#loginSelector');
+    const contentSourceTypeSelect = dialog.querySelector<HTMLSelectElement>('#contentSourceType');
+    const contentSourceNameInput = dialog.querySelector<HTMLInputElement>('#contentSourceName');
+    const contentPreview = dialog.querySelector<HTMLElement>('#contentPreview');
+    const matchModeSelect = dialog.querySelector<HTMLSelectElement>('#matchMode');
+    const tableKeyColumnArea = dialog.querySelector<HTMLElement>('#tableKeyColumnArea');
+    const tableKeyColumnSelect = dialog.querySelector<HTMLSelectElement>('#tableKeyColumn');
+    const selectorInput = dialog.querySelector<HTMLInputElement>('#elementSelector');
+    const selectorTypeSelect = dialog.querySelector<HTMLSelectElement>('#selectorType');
+    const numericEnabledCheckbox = dialog.querySelector<HTMLInputElement>('#numericEnabled');
+    const numericConfigArea = dialog.querySelector<HTMLElement>('#numericConfig');
+    const numericLocaleInput = dialog.querySelector<HTMLInputElement>('#numericLocale');
+    const numericBelowInput = dialog.querySelector<HTMLInputElement>('#numericBelow');
+    const numericAboveInput = dialog.querySelector<HTMLInputElement>('#numericAbove');
+    const numericPercentInput = dialog.querySelector<HTMLInputElement>('#numericPercent');
+    const numericPreview = dialog.querySelector<HTMLElement>('#numericPreview');
+    const visualEnabledCheckbox = dialog.querySelector<HTMLInputElement>('#visualEnabled');
+    const visualConfigArea = dialog.querySelector<HTMLElement>('#visualConfig');
+    const visualThresholdInput = dialog.querySelector<HTMLInputElement>('#visualThreshold');
+    const extractPatternInput = dialog.querySelector<HTMLInputElement>('#extractPattern');
+    const extractFlagsInput = dialog.querySelector<HTMLInputElement>('#extractFlags');
+    const extractGroupInput = dialog.querySelector<HTMLInputElement>('#extractGroup');
+    const normalizeWhitespaceCheckbox = dialog.querySelector<HTMLInputElement>('#normalizeWhitespace');
+    const normalizeCaseCheckbox = dialog.querySelector<HTMLInputElement>('#normalizeCase');
+    const normalizeDigitsCheckbox = dialog.querySelector<HTMLInputElement>('#normalizeDigits');
+    const ignorePatternsTextarea = dialog.querySelector<HTMLTextAreaElement>('#ignorePatterns');
+    const excludeSelectorInput = dialog.querySelector<HTMLInputElement>('#excludeSelector');
+    const triggerTypeSelect = dialog.querySelector<HTMLSelectElement>('#triggerType');
+    const triggerValueInput = dialog.querySelector<HTMLInputElement>('#triggerValue');
+    const triggerIgnoreCaseLabel = dialog.querySelector<HTMLElement>('#triggerIgnoreCaseLabel');
+    const triggerIgnoreCaseCheckbox = dialog.querySelector<HTMLInputElement>('#triggerIgnoreCase');
+
+    if (!browserNotificationCheckbox || !enableWebhook || !webhookConfig || !testBrowserBtn || !testWebhookBtn || !loadDelayInput || !loadDelayError
+      || !loadDelayArea || !readinessModeSelect || !readinessConfigArea || !readinessSettleLabel || !readinessSettleInput || !readinessTimeoutInput
+      || !scheduleModeSelect || !intervalArea || !intervalInput || !adaptiveEnabledCheckbox || !adaptiveConfigArea || !adaptiveMinInput || !adaptiveMaxInput || !adaptiveBackoffInput || !cronArea || !cronExpressionInput || !activeWindowsTextarea || !schedulePreview
+      || !fieldList || !addFieldBtn || !stepList || !addStepBtn || !recordStepBtn || !sessionUrlPatternInput || !loginSelectorInput
+      || !contentSourceTypeSelect || !contentSourceNameInput || !contentPreview || !matchModeSelect || !tableKeyColumnArea || !tableKeyColumnSelect || !selectorInput || !selectorTypeSelect
+      || !numericEnabledCheckbox || !numericConfigArea || !numericLocaleInput || !numericBelowInput || !numericAboveInput
+      || !numericPercentInput || !numericPreview || !visualEnabledCheckbox || !visualConfigArea || !visualThresholdInput || !extractPatternInput || !extractFlagsInput || !extractGroupInput
+      || !normalizeWhitespaceCheckbox || !normalizeCaseCheckbox || !normalizeDigitsCheckbox || !ignorePatternsTextarea || !excludeSelectorInput
+      || !triggerTypeSelect || !triggerValueInput || !triggerIgnoreCaseLabel || !triggerIgnoreCaseCheckbox) {
       console.error('Failed to find required dialog elements');
       dialog.remove();
       return;
@@ -349,6 +927,336 @@ class ElementSelector {
       testWebhookBtn.disabled = !enableWebhook.checked;
     });
 
+    // Read the content source currently configured in the dialog
+    const getDialogContentSource = (): ContentSource => {
+      const type = contentSourceTypeSelect.value as ContentSourceType;
+      return type === 'attribute' || type === 'property'
+        ? { type, name: contentSourceNameInput.value.trim() }
+        : { type };
+    };
+
+    // Trigger type change - keyword and case options only apply to content conditions
+    triggerTypeSelect.addEventListener('change', () => {
+      const needsValue = this.triggerNeedsValue(triggerTypeSelect.value as TriggerConditionType);
+      triggerValueInput.style.display = needsValue ? 'block' : 'none';
+      triggerIgnoreCaseLabel.style.display = needsValue ? 'flex' : 'none';
+    });
+
+    // Read the trigger rule currently configured in the dialog (undefined means notify on any change)
+    const getDialogTriggerRule = (): TriggerRule | undefined => {
+      const type = triggerTypeSelect.value as TriggerConditionType | '';
+      if (!type) {
+        return undefined;
+      }
+      return this.triggerNeedsValue(type)
+        ? { type, value: triggerValueInput.value, ignoreCase: triggerIgnoreCaseCheckbox.checked || undefined }
+        : { type };
+    };
+
+    // Read the regex extraction currently configured in the dialog (empty pattern means none)
+    const getDialogRegexExtraction = (): RegexExtraction | undefined => {
+      const pattern = extractPatternInput.value;
+      if (!pattern) {
+        return undefined;
+      }
+      const flags = extractFlagsInput.value.trim();
+      const group = extractGroupInput.value.trim();
+      return {
+        pattern,
+        flags: flags || undefined,
+        group: group === '' ? undefined : Number(group)
+      };
+    };
+
+    // Read the ignore rules currently configured in the dialog (undefined when none are set)
+    const getDialogNormalization = (): NormalizationConfig | undefined => {
+      const config: NormalizationConfig = {
+        collapseWhitespace: normalizeWhitespaceCheckbox.checked || undefined,
+        caseFold: normalizeCaseCheckbox.checked || undefined,
+        stripDigits: normalizeDigitsCheckbox.checked || undefined,
+        ignorePatterns: ignorePatternsTextarea.value.split('\n').filter(pattern => pattern.length > 0),
+        excludeSelector: excludeSelectorInput.value.trim() || undefined
+      };
+      if (config.ignorePatterns?.length === 0) {
+        config.ignorePatterns = undefined;
+      }
+      return hasTextNormalization(config) || config.excludeSelector ? config : undefined;
+    };
+
+    // Read content from the page using the settings currently configured in the dialog
+    // In 'first' mode the picked element is used as long as the selector is unchanged
+    const readDialogContent = (): MatchedContent | null => {
+      const mode = matchModeSelect.value as MatchMode;
+      const source = getDialogContentSource();
+      let normalizationConfig = getDialogNormalization();
+      if (normalizationConfig && !validateNormalizationConfig(normalizationConfig).valid) {
+        normalizationConfig = undefined;
+      }
+      const excludeSelector = normalizationConfig?.excludeSelector;
+      const type = selectorTypeSelect.value as SelectorType;
+      let reading = mode === 'first' && element && selectorInput.value === selector && type === selectorType
+        ? readMatchedContent([element], 'first', source, excludeSelector)
+        : this.readMatches(selectorInput.value, mode, source, excludeSelector, type);
+      const extraction = getDialogRegexExtraction();
+      if (reading && extraction && validateRegexExtraction(extraction).valid) {
+        reading = applyRegexExtraction(reading, extraction);
+      }
+      if (reading && normalizationConfig && hasTextNormalization(normalizationConfig) && mode !== 'count') {
+        reading = applyNormalization(reading, normalizationConfig);
+      }
+      return reading;
+    };
+
+    // Content source or match mode change - toggle name input and key column, refresh preview from the live page
+    const refreshContentPreview = () => {
+      const source = getDialogContentSource();
+      contentSourceNameInput.style.display = source.type === 'attribute' || source.type === 'property' ? 'block' : 'none';
+      tableKeyColumnArea.style.display = matchModeSelect.value === 'table' ? 'block' : 'none';
+      if (!validateContentSource(source).valid) {
+        return;
+      }
+      const reading = readDialogContent();
+      if (reading) {
+        contentPreview.innerHTML = this.formatMatchedPreview(reading, matchModeSelect.value as MatchMode);
+      }
+      // Name the key column choices after the headers of the table now on the page
+      if (reading?.table) {
+        tableKeyColumnSelect.innerHTML = this.renderTableKeyOptions(reading.table, Number(tableKeyColumnSelect.value));
+      }
+    };
+
+    // Read the numeric settings currently configured in the dialog (empty inputs are unset)
+    const getDialogNumericConfig = (): NumericConfig => {
+      const readOptional = (input: HTMLInputElement): number | undefined =>
+        input.value.trim() === '' ? undefined : parseFloat(input.value);
+      const locale = numericLocaleInput.value.trim();
+      return {
+        enabled: numericEnabledCheckbox.checked,
+        locale: locale || undefined,
+        below: readOptional(numericBelowInput),
+        above: readOptional(numericAboveInput),
+        percentChange: readOptional(numericPercentInput)
+      };
+    };
+
+    // Show the number that would be extracted from the current content
+    const refreshNumericPreview = () => {
+      const config = getDialogNumericConfig();
+      numericConfigArea.style.display = config.enabled ? 'block' : 'none';
+      if (!config.enabled || !validateNumericConfig(config).valid) {
+        numericPreview.textContent = '';
+        return;
+      }
+      const reading = readDialogContent();
+      const value = reading ? parseNumber(reading.content, config.locale) : null;
+      numericPreview.textContent = value === null ? t('numericPreviewNone') : t('numericPreview', [value.toString()]);
+    };
+    numericEnabledCheckbox.addEventListener('change', refreshNumericPreview);
+    numericLocaleInput.addEventListener('input', refreshNumericPreview);
+    refreshNumericPreview();
+
+    // Readiness mode - the fixed delay applies only in 'delay' mode
+    readinessModeSelect.addEventListener('change', () => {
+      const mode = readinessModeSelect.value as ReadinessMode;
+      loadDelayArea.style.display = mode === 'delay' ? 'block' : 'none';
+      readinessConfigArea.style.display = mode === 'delay' ? 'none' : 'flex';
+      readinessSettleLabel.style.display = mode === 'settle' ? 'block' : 'none';
+    });
+
+    // Schedule - a cron expression replaces the interval, the preview lists the next runs
+    const readSchedule = (): Schedule | null => {
+      const windows = parseActiveWindowLines(activeWindowsTextarea.value);
+      if (!windows) {
+        return null;
+      }
+      const mode = scheduleModeSelect.value as ScheduleMode;
+      return { mode, cron: mode === 'cron' ? cronExpressionInput.value.trim() : undefined, windows: windows.length > 0 ? windows : undefined };
+    };
+    const refreshSchedulePreview = (): void => {
+      const schedule = readSchedule();
+      const validation = schedule ? validateSchedule(schedule) : { valid: false, error: t('activeWindowsInvalid') };
+      if (!schedule || !validation.valid) {
+        schedulePreview.style.color = '#FF9800';
+        schedulePreview.textContent = t('scheduleInvalid', [validation.error ?? '']);
+        return;
+      }
+      const intervalSeconds = Number(intervalInput.value);
+      const interval = intervalSeconds >= LIMITS.MIN_INTERVAL_SECONDS ? intervalSeconds * 1000 : DEFAULTS.INTERVAL_MS;
+      const runs = getUpcomingRunTimes(schedule, interval, Date.now(), SCHEDULE.PREVIEW_RUNS);
+      schedulePreview.style.color = '#666';
+      schedulePreview.textContent = [`${t('nextRuns')}:`, ...runs.map(run => new Date(run).toLocaleString())].join('\n');
+    };
+    adaptiveEnabledCheckbox.addEventListener('change', () => {
+      adaptiveConfigArea.style.display = adaptiveEnabledCheckbox.checked ? 'flex' : 'none';
+    });
+    scheduleModeSelect.addEventListener('change', () => {
+      intervalArea.style.display = scheduleModeSelect.value === 'cron' ? 'none' : 'block';
+      cronArea.style.display = scheduleModeSelect.value === 'cron' ? 'block' : 'none';
+      refreshSchedulePreview();
+    });
+    intervalInput.addEventListener('input', refreshSchedulePreview);
+    cronExpressionInput.addEventListener('input', refreshSchedulePreview);
+    activeWindowsTextarea.addEventListener('input', refreshSchedulePreview);
+    refreshSchedulePreview();
+
+    // Named fields - each row shows the value currently read from the page
+    const fields: ProjectField[] = (existingProject?.fields ?? []).map(field => ({ ...field }));
+    const readFieldPreview = (field: ProjectField): string => {
+      try {
+        const value = extractFieldValues([field], readFieldValues(document, [field], selectorTypeSelect.value as SelectorType))[field.name];
+        return value === null || value === undefined ? t('fieldNotFound') : value;
+      } catch {
+        // Pattern is still being typed
+        return t('regexInvalid');
+      }
+    };
+    const renderFields = (): void => {
+      fieldList.innerHTML = fields.map((field, index) => this.renderFieldRow(field, index, readFieldPreview(field))).join('');
+    };
+    const getFieldIndex = (target: EventTarget | null): number =>
+      Number((target as HTMLElement | null)?.closest<HTMLElement>('[data-field-index]')?.dataset.fieldIndex ?? -1);
+    fieldList.addEventListener('input', (e) => {
+      const index = getFieldIndex(e.target);
+      const field = fields[index];
+      const input = e.target as HTMLInputElement | HTMLSelectElement;
+      if (!field) return;
+      if (input.dataset.field === 'sourceType') {
+        // Visible text is the default, attribute and property sources keep the name typed so far
+        const type = input.value as ContentSourceType;
+        field.contentSource = type === 'text' ? undefined : { type, name: field.contentSource?.name };
+        renderFields();
+        return;
+      } else if (input.dataset.field === 'sourceName' && field.contentSource) {
+        field.contentSource = { ...field.contentSource, name: input.value.trim() || undefined };
+      } else if (input.dataset.field === 'name') {
+        field.name = input.value.trim();
+      } else if (input.dataset.field === 'selector') {
+        field.selector = input.value.trim();
+      } else if (input.dataset.field === 'pattern') {
+        field.extractRegex = input.value ? { pattern: input.value } : undefined;
+      }
+      const preview = fieldList.querySelector<HTMLElement>(`[data-field-index="${index}"] [data-field="preview"]`);
+      if (preview) {
+        preview.textContent = readFieldPreview(field);
+      }
+    });
+    fieldList.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).dataset.field;
+      const index = getFieldIndex(e.target);
+      if (action === 'remove') {
+        e.preventDefault();
+        fields.splice(index, 1);
+        renderFields();
+      } else if (action === 'pick') {
+        // Picking hides the dialog, the clicked element becomes the field's selector
+        e.preventDefault();
+        dialog.style.display = 'none';
+        this.pick((element) => {
+          dialog.style.display = '';
+          const field = fields[index];
+          if (field) {
+            field.selector = this.generateSelector(element, selectorTypeSelect.value as SelectorType);
+          }
+          renderFields();
+        }, () => {
+          dialog.style.display = '';
+        });
+      }
+    });
+    addFieldBtn.addEventListener('click', (e) => {
+      e.preventDefault();
+      fields.push({ name: `field${fields.length + 1}`, selector: '' });
+      renderFields();
+    });
+    renderFields();
+
+    // Interaction steps - edited in place, rows are re-rendered when steps are added, removed or change type
+    const steps: InteractionStep[] = (existingProject?.steps ?? []).map(step => ({ ...step }));
+    const renderSteps = (): void => {
+      stepList.innerHTML = steps.map((step, index) => this.renderStepRow(step, index)).join('');
+    };
+    const getStepIndex = (target: EventTarget | null): number =>
+      Number((target as HTMLElement | null)?.closest<HTMLElement>('[data-step-index]')?.dataset.stepIndex ?? -1);
+    stepList.addEventListener('input', (e) => {
+      const step = steps[getStepIndex(e.target)];
+      const field = e.target as HTMLInputElement | HTMLSelectElement;
+      if (!step) return;
+      if (field.dataset.field === 'type') {
+        step.type = field.value as InteractionStepType;
+        renderSteps();
+      } else if (field.dataset.field === 'selector') {
+        step.selector = field.value;
+      } else if (field.dataset.field === 'value') {
+        if (step.type === 'wait') {
+          step.duration = Math.round(parseFloat(field.value) * 1000);
+        } else {
+          step.value = field.value;
+        }
+      }
+    });
+    stepList.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).dataset.field !== 'remove') return;
+      e.preventDefault();
+      steps.splice(getStepIndex(e.target), 1);
+      renderSteps();
+    });
+    addStepBtn.addEventListener('click', (e) => {
+      e.preventDefault();
+      steps.push({ type: 'click', selector: '' });
+      renderSteps();
+    });
+    // Recording hides the dialog, the next clicked element becomes a step (typing into fields, choosing in select boxes, clicking anything else)
+    recordStepBtn.addEventListener('click', (e) => {
+      e.preventDefault();
+      dialog.style.display = 'none';
+      this.pick((element) => {
+        dialog.style.display = '';
+        const stepSelector = this.getSelector(element);
+        if (element.localName === 'input' || element.localName === 'textarea') {
+          steps.push({ type: 'type', selector: stepSelector, value: '' });
+        } else if (element.localName === 'select') {
+          steps.push({ type: 'select', selector: stepSelector, value: (element as HTMLSelectElement).value });
+        } else {
+          steps.push({ type: 'click', selector: stepSelector });
+        }
+        renderSteps();
+      }, () => {
+        dialog.style.display = '';
+      });
+    });
+    renderSteps();
+
+    visualEnabledCheckbox.addEventListener('change', () => {
+      visualConfigArea.style.display = visualEnabledCheckbox.checked ? 'block' : 'none';
+    });
+
+    const refreshReadings = () => {
+      refreshContentPreview();
+      refreshNumericPreview();
+    };
+    contentSourceTypeSelect.addEventListener('change', refreshReadings);
+    contentSourceNameInput.addEventListener('input', refreshReadings);
+    matchModeSelect.addEventListener('change', refreshReadings);
+    selectorInput.addEventListener('change', refreshReadings);
+
+    // Selector type change - replace a generated selector with the other kind for the same element
+    let previousSelectorType = selectorType;
+    selectorTypeSelect.addEventListener('change', () => {
+      const type = selectorTypeSelect.value as SelectorType;
+      if (element && selectorInput.value === this.generateSelector(element, previousSelectorType)) {
+        selectorInput.value = this.generateSelector(element, type);
+      }
+      previousSelectorType = type;
+      refreshReadings();
+      // Field selectors are read with the project's selector type
+      renderFields();
+    });
+    extractPatternInput.addEventListener('change', refreshReadings);
+    extractFlagsInput.addEventListener('change', refreshReadings);
+    extractGroupInput.addEventListener('change', refreshReadings);
+    [normalizeWhitespaceCheckbox, normalizeCaseCheckbox, normalizeDigitsCheckbox, ignorePatternsTextarea, excludeSelectorInput]
+      .forEach(input => input.addEventListener('change', refreshReadings));
+
     // Real-time validation for load delay
     const validateLoadDelayInput = () => {
       const loadDelayValue = parseFloat(loadDelayInput.value);
@@ -523,18 +1431,89 @@ class ElementSelector {
     const confirmBtn = dialog.querySelector<HTMLButtonElement>('#confirmBtn');
     if (confirmBtn) {
       confirmBtn.addEventListener('click', () => {
-        // Validate refresh interval
-        const intervalInput = dialog.querySelector<HTMLInputElement>('#refreshInterval');
-        if (!intervalInput) {
-          console.error('Failed to find interval input');
+        // Validate refresh interval (hidden and unused with a cron expression)
+        let intervalValue = parseInt(intervalInput.value);
+
+        if (isNaN(intervalValue) || intervalValue < LIMITS.MIN_INTERVAL_SECONDS) {
+          if (scheduleModeSelect.value !== 'cron') {
+            alert(t('intervalTooSmall', [LIMITS.MIN_INTERVAL_SECONDS.toString()]));
+            intervalInput.focus();
+            return;
+          }
+          intervalValue = DEFAULTS.INTERVAL_SECONDS;
+        }
+
+        // Validate jitter (unused with a cron expression)
+        const jitterInput = dialog.querySelector<HTMLInputElement>('#jitter');
+        if (!jitterInput) {
+          console.error('Failed to find jitter input');
+          return;
+        }
+
+        const jitterValue = scheduleModeSelect.value === 'cron' ? 0 : Number(jitterInput.value);
+        if (!validateJitter(jitterValue).valid) {
+          alert(t('jitterInvalid', [LIMITS.MAX_JITTER_PERCENT.toString()]));
+          jitterInput.focus();
+          return;
+        }
+
+        // Validate adaptive interval (unused with a cron expression)
+        const selectedAdaptive: AdaptiveIntervalConfig | undefined = adaptiveEnabledCheckbox.checked && scheduleModeSelect.value !== 'cron'
+          ? {
+            enabled: true,
+            // Empty: back to the check interval after a change
+            minInterval: adaptiveMinInput.value ? Math.round(Number(adaptiveMinInput.value) * 60000) : undefined,
+            maxInterval: Math.round(Number(adaptiveMaxInput.value) * 60000),
+            backoffFactor: Number(adaptiveBackoffInput.value)
+          }
+          : undefined;
+        const adaptiveValidation = selectedAdaptive ? validateAdaptiveInterval(selectedAdaptive, intervalValue * 1000) : { valid: true };
+        if (!adaptiveValidation.valid) {
+          if (adaptiveValidation.errorCode === ValidationErrorCode.ADAPTIVE_BACKOFF_INVALID) {
+            alert(t('adaptiveBackoffInvalid', [ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR.toString()]));
+            adaptiveBackoffInput.focus();
+          } else if (adaptiveValidation.errorCode === ValidationErrorCode.ADAPTIVE_MIN_INTERVAL_INVALID) {
+            alert(t('adaptiveMinIntervalInvalid'));
+            adaptiveMinInput.focus();
+          } else {
+            alert(t('adaptiveMaxIntervalInvalid'));
+            adaptiveMaxInput.focus();
+          }
           return;
         }
 
-        const intervalValue = parseInt(intervalInput.value);
+        // Validate schedule
+        const selectedSchedule = readSchedule();
+        if (!selectedSchedule) {
+          alert(t('activeWindowsInvalid'));
+          activeWindowsTextarea.focus();
+          return;
+        }
+        const scheduleValidation = validateSchedule(selectedSchedule);
+        if (!scheduleValidation.valid) {
+          alert(t('scheduleInvalid', [scheduleValidation.error ?? '']));
+          const cronError = scheduleValidation.errorCode === ValidationErrorCode.CRON_INVALID || scheduleValidation.errorCode === ValidationErrorCode.SCHEDULE_NEVER_RUNS;
+          (cronError ? cronExpressionInput : activeWindowsTextarea).focus();
+          return;
+        }
 
-        if (isNaN(intervalValue) || intervalValue < LIMITS.MIN_INTERVAL_SECONDS) {
-          alert(t('intervalTooSmall', [LIMITS.MIN_INTERVAL_SECONDS.toString()]));
-          intervalInput.focus();
+        // Validate change confirmation
+        const confirmChecksInput = dialog.querySelector<HTMLInputElement>('#confirmChecks');
+        if (!confirmChecksInput) {
+          console.error('Failed to find confirmation checks input');
+          return;
+        }
+
+        const confirmChecksValue = Number(confirmChecksInput.value);
+        if (!validateConfirmChecks(confirmChecksValue).valid) {
+          alert(t('confirmChecksInvalid', [LIMITS.MAX_CONFIRM_CHECKS.toString()]));
+          confirmChecksInput.focus();
+          return;
+        }
+
+        const prioritySelect = dialog.querySelector<HTMLSelectElement>('#priority');
+        if (!prioritySelect) {
+          console.error('Failed to find priority select');
           return;
         }
 
@@ -570,12 +1549,213 @@ class ElementSelector {
           return;
         }
 
+        // Validate selector
+        const selectedSelectorType = selectorTypeSelect.value as SelectorType;
+        const selectorValidation = validateSelector(selectorInput.value, selectedSelectorType);
+        if (!selectorValidation.valid) {
+          if (selectorValidation.errorCode === ValidationErrorCode.SELECTOR_INVALID_SYNTAX) {
+            alert(t(selectedSelectorType === 'xpath' ? 'xpathInvalidSyntax' : 'selectorInvalidSyntax'));
+          } else if (selectorValidation.errorCode === ValidationErrorCode.SELECTOR_TOO_LONG) {
+            alert(t('selectorTooLong', [LIMITS.MAX_SELECTOR_LENGTH.toString()]));
+          } else {
+            alert(t('selectorRequired'));
+          }
+          selectorInput.focus();
+          return;
+        }
+
+        // Validate content source
+        const selectedContentSource = getDialogContentSource();
+        const contentSourceValidation = validateContentSource(selectedContentSource);
+        if (!contentSourceValidation.valid) {
+          alert(contentSourceValidation.errorCode === ValidationErrorCode.CONTENT_SOURCE_NAME_REQUIRED
+            ? t('contentSourceNameRequired')
+            : t('contentSourceNameInvalid'));
+          contentSourceNameInput.focus();
+          return;
+        }
+
+        // Validate regex extraction
+        const selectedExtraction = getDialogRegexExtraction();
+        const extractionValidation = selectedExtraction ? validateRegexExtraction(selectedExtraction) : { valid: true };
+        if (!extractionValidation.valid) {
+          switch (extractionValidation.errorCode) {
+            case ValidationErrorCode.REGEX_PATTERN_TOO_LONG:
+              alert(t('regexTooLong', [LIMITS.MAX_REGEX_PATTERN_LENGTH.toString()]));
+              break;
+            case ValidationErrorCode.REGEX_PATTERN_UNSAFE:
+              alert(t('regexUnsafe'));
+              break;
+            case ValidationErrorCode.REGEX_FLAGS_INVALID:
+              alert(t('regexFlagsInvalid', [ALLOWED_REGEX_FLAGS]));
+              extractFlagsInput.focus();
+              return;
+            case ValidationErrorCode.REGEX_GROUP_INVALID:
+              alert(t('regexGroupInvalid'));
+              extractGroupInput.focus();
+              return;
+            default:
+              alert(t('regexInvalid'));
+          }
+          extractPatternInput.focus();
+          return;
+        }
+
+        // Validate ignore rules
+        const selectedNormalization = getDialogNormalization();
+        const normalizationValidation = selectedNormalization ? validateNormalizationConfig(selectedNormalization) : { valid: true };
+        if (!normalizationValidation.valid) {
+          switch (normalizationValidation.errorCode) {
+            case ValidationErrorCode.EXCLUDE_SELECTOR_INVALID:
+              alert(t('excludeSelectorInvalid'));
+              excludeSelectorInput.focus();
+              return;
+            case ValidationErrorCode.IGNORE_PATTERNS_TOO_MANY:
+              alert(t('ignorePatternsTooMany', [LIMITS.MAX_IGNORE_PATTERNS.toString()]));
+              break;
+            case ValidationErrorCode.REGEX_PATTERN_TOO_LONG:
+              alert(t('regexTooLong', [LIMITS.MAX_REGEX_PATTERN_LENGTH.toString()]));
+              break;
+            case ValidationErrorCode.REGEX_PATTERN_UNSAFE:
+              alert(t('regexUnsafe'));
+              break;
+            default:
+              alert(t('ignorePatternInvalid'));
+          }
+          ignorePatternsTextarea.focus();
+          return;
+        }
+
+        // Validate trigger rule
+        const selectedTrigger = getDialogTriggerRule();
+        const triggerValidation = selectedTrigger ? validateTriggerRule(selectedTrigger) : { valid: true };
+        if (!triggerValidation.valid) {
+          switch (triggerValidation.errorCode) {
+            case ValidationErrorCode.TRIGGER_VALUE_REQUIRED:
+              alert(t('triggerValueRequired'));
+              break;
+            case ValidationErrorCode.TRIGGER_VALUE_TOO_LONG:
+              alert(t('triggerValueTooLong', [LIMITS.MAX_TRIGGER_VALUE_LENGTH.toString()]));
+              break;
+            case ValidationErrorCode.REGEX_PATTERN_UNSAFE:
+              alert(t('regexUnsafe'));
+              break;
+            default:
+              alert(t('regexInvalid'));
+          }
+          triggerValueInput.focus();
+          return;
+        }
+
+        // Validate numeric settings
+        const selectedNumeric = getDialogNumericConfig();
+        const numericValidation = validateNumericConfig(selectedNumeric);
+        if (!numericValidation.valid) {
+          switch (numericValidation.errorCode) {
+            case ValidationErrorCode.NUMERIC_LOCALE_INVALID:
+              alert(t('numericLocaleInvalid'));
+              numericLocaleInput.focus();
+              break;
+            case ValidationErrorCode.NUMERIC_PERCENT_INVALID:
+              alert(t('numericPercentInvalid', [LIMITS.MAX_NUMERIC_PERCENT_CHANGE.toString()]));
+              numericPercentInput.focus();
+              break;
+            default:
+              alert(t('numericThresholdInvalid'));
+              numericBelowInput.focus();
+          }
+          return;
+        }
+
+        // Validate visual settings
+        const selectedVisual: VisualConfig = {
+          enabled: visualEnabledCheckbox.checked,
+          threshold: visualThresholdInput.value.trim() === '' ? undefined : Number(visualThresholdInput.value)
+        };
+        if (!validateVisualConfig(selectedVisual).valid) {
+          alert(t('visualThresholdInvalid'));
+          visualThresholdInput.focus();
+          return;
+        }
+
+        // Validate readiness settings
+        const selectedReadinessMode = readinessModeSelect.value as ReadinessMode;
+        const selectedReadiness: ReadinessConfig | undefined = selectedReadinessMode === 'delay' ? undefined : {
+          mode: selectedReadinessMode,
+          settleTime: selectedReadinessMode === 'settle' ? Math.round(parseFloat(readinessSettleInput.value) * 1000) : undefined,
+          timeout: Math.round(parseFloat(readinessTimeoutInput.value) * 1000)
+        };
+        const readinessValidation = selectedReadiness ? validateReadinessConfig(selectedReadiness) : { valid: true };
+        if (!readinessValidation.valid) {
+          if (readinessValidation.errorCode === ValidationErrorCode.READINESS_SETTLE_INVALID) {
+            alert(t('readinessSettleInvalid', [(READINESS.MIN_SETTLE_MS / 1000).toString(), (READINESS.MAX_SETTLE_MS / 1000).toString()]));
+            readinessSettleInput.focus();
+          } else {
+            alert(t('readinessTimeoutInvalid', [(READINESS.MIN_TIMEOUT_MS / 1000).toString(), LIMITS.MAX_LOAD_DELAY_SECONDS.toString()]));
+            readinessTimeoutInput.focus();
+          }
+          return;
+        }
+
+        // Validate named fields
+        const fieldsValidation = validateProjectFields(fields, false, selectorTypeSelect.value as SelectorType);
+        if (!fieldsValidation.valid) {
+          alert(t('namedFieldsInvalid', [fieldsValidation.error ?? '']));
+          return;
+        }
+
+        // Validate interaction steps
+        const stepsValidation = validateInteractionSteps(steps);
+        if (!stepsValidation.valid) {
+          alert(t('interactionStepsInvalid', [stepsValidation.error ?? '']));
+          return;
+        }
+
+        // Validate expected page checks
+        const selectedSessionCheck: SessionCheck = {
+          urlPattern: sessionUrlPatternInput.value.trim() || undefined,
+          loginSelector: loginSelectorInput.value.trim() || undefined
+        };
+        const sessionCheckValidation = validateSessionCheck(selectedSessionCheck);
+        if (!sessionCheckValidation.valid) {
+          if (sessionCheckValidation.errorCode === ValidationErrorCode.SESSION_URL_PATTERN_INVALID) {
+            alert(t('sessionUrlPatternInvalid'));
+            sessionUrlPatternInput.focus();
+          } else {
+            alert(t('loginIndicatorSelectorInvalid'));
+            loginSelectorInput.focus();
+          }
+          return;
+        }
+        if (selectedSessionCheck.urlPattern && !matchesUrlPattern(window.location.href, selectedSessionCheck.urlPattern)
+          && !confirm(t('sessionUrlPatternMismatch'))) {
+          sessionUrlPatternInput.focus();
+          return;
+        }
+
+        // Content read with different settings is not comparable with the stored content,
+        // so take a fresh reading from the page when source, match mode, selector, extraction or ignore rules changed
+        const selectedMatchMode = matchModeSelect.value as MatchMode;
+        const settingsChanged = !isSameContentSource(selectedContentSource, contentSource)
+          || selectedMatchMode !== matchMode
+          || selectorInput.value !== selector
+          || selectedSelectorType !== selectorType
+          || !isSameRegexExtraction(selectedExtraction, extractRegex)
+          || !isSameNormalization(selectedNormalization, normalization);
+        const freshReading = settingsChanged || (!existingProject && (selectedMatchMode !== 'first' || selectedExtraction || selectedNormalization))
+          ? readDialogContent()
+          : null;
+        const contentToSave = freshReading ? freshReading.content : initialContent;
+        const itemsToSave = freshReading ? freshReading.items : existingProject?.lastItems;
+        const tableToSave = freshReading ? freshReading.table : existingProject?.lastTable;
+
         // Get all required form fields
         const projectNameInput = dialog.querySelector<HTMLInputElement>('#projectName');
         const elementSelectorInput = dialog.querySelector<HTMLInputElement>('#elementSelector');
         const browserNotificationCheckbox = dialog.querySelector<HTMLInputElement>('#browserNotification');
+        const liveWatchCheckbox = dialog.querySelector<HTMLInputElement>('#liveWatch');
 
-        if (!projectNameInput || !elementSelectorInput || !browserNotificationCheckbox) {
+        if (!projectNameInput || !elementSelectorInput || !browserNotificationCheckbox || !liveWatchCheckbox) {
           console.error('Failed to find required form fields');
           return;
         }
@@ -585,11 +1765,33 @@ class ElementSelector {
           action: existingProject ? 'updateProject' : 'elementSelected',
           name: projectNameInput.value,
           selector: elementSelectorInput.value,
+          selectorType: selectedSelectorType,
           interval: intervalValue * 1000,
+          schedule: selectedSchedule,
+          jitter: jitterValue,
+          priority: prioritySelect.value as CheckPriority,
+          adaptive: selectedAdaptive,
+          confirmChecks: confirmChecksValue,
+          live: liveWatchCheckbox.checked,
           loadDelay: loadDelayMs, // Use the rounded value to ensure consistency with validation
+          readiness: selectedReadiness,
+          fields: fields,
+          initialFields: extractFieldValues(fields, readFieldValues(document, fields, selectorTypeSelect.value as SelectorType)),
+          steps: steps,
+          sessionCheck: selectedSessionCheck,
+          contentSource: selectedContentSource,
+          matchMode: selectedMatchMode,
+          tableKeyColumn: Number(tableKeyColumnSelect.value),
+          numeric: selectedNumeric,
+          visual: selectedVisual,
+          extractRegex: selectedExtraction,
+          normalization: selectedNormalization,
+          trigger: selectedTrigger,
           browserNotification: browserNotificationCheckbox.checked,
           url: existingProject ? existingProject.url : window.location.href,
-          initialContent: initialContent
+          initialContent: contentToSave,
+          initialItems: itemsToSave,
+          initialTable: tableToSave
         };
 
         // Webhook configuration
@@ -654,12 +1856,216 @@ class ElementSelector {
     }
   }
 
-  public getElementContent(element: HTMLElement | null): string {
-    // Get element text content and HTML
+  public getElementContent(element: HTMLElement | null, source?: ContentSource): string {
+    // Get element content according to configured source (visible text by default)
+    return readElementContent(element, source);
+  }
+
+  private renderContentSourceOptions(selected: ContentSourceType): string {
+    const options: Array<[ContentSourceType, string]> = [
+      ['text', t('contentSourceText')],
+      ['innerHTML', t('contentSourceInnerHtml')],
+      ['outerHTML', t('contentSourceOuterHtml')],
+      ['attribute', t('contentSourceAttribute')],
+      ['property', t('contentSourceProperty')]
+    ];
+    return options
+      .map(([value, label]) => `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`)
+      .join('');
+  }
+
+  // Key column choices, named after the table headers where available
+  private renderTableKeyOptions(table: TableData | undefined, selected: number): string {
+    const widths = (table?.rows ?? []).map(row => row.length);
+    const columnCount = Math.min(LIMITS.MAX_TABLE_COLUMNS, Math.max(1, selected + 1, table?.headers.length ?? 0, ...widths));
+    return Array.from({ length: columnCount }, (_, column) => {
+      const label = table?.headers[column] || t('tableColumn', [(column + 1).toString()]);
+      return `<option value="${column}" ${column === selected ? 'selected' : ''}>${this.escapeHtml(label)}</option>`;
+    }).join('');
+  }
+
+  private triggerNeedsValue(type: TriggerConditionType | '' | undefined): boolean {
+    return !!type && !isPresenceRule({ type });
+  }
+
+  private renderTriggerTypeOptions(selected: TriggerConditionType | undefined): string {
+    const options: Array<[TriggerConditionType | '', string]> = [
+      ['', t('triggerAnyChange')],
+      ['contains', t('triggerContains')],
+      ['notContains', t('triggerNotContains')],
+      ['matches', t('triggerMatches')],
+      ['notMatches', t('triggerNotMatches')],
+      ['appears', t('triggerAppears')],
+      ['disappears', t('triggerDisappears')]
+    ];
+    return options
+      .map(([value, label]) => `<option value="${value}" ${value === (selected ?? '') ? 'selected' : ''}>${label}</option>`)
+      .join('');
+  }
+
+  /**
+   * Scrolls the first element matching a selector into view and measures it for a screenshot
+   * @returns Element rect relative to the top-level viewport and the viewport width (CSS pixels), or null when nothing matches
+   * @throws Same errors as findElement for invalid selectors
+   */
+  public locateElement(selectorText: string, selectorType?: SelectorType): { rect: ElementRect; viewportWidth: number } | null {
+    const element = findElement(document, selectorText, selectorType);
     if (!element) {
-      return '';
+      return null;
+    }
+
+    element.scrollIntoView({ block: 'center', inline: 'nearest' });
+    const bounds = element.getBoundingClientRect();
+    const frameOffset = this.getFrameOffset(element);
+    return {
+      rect: { x: bounds.left + frameOffset.left, y: bounds.top + frameOffset.top, width: bounds.width, height: bounds.height },
+      viewportWidth: window.innerWidth
+    };
+  }
+
+  /**
+   * Waits until the page is ready to be checked (see waitForReadiness)
+   * An invalid selector never becomes ready, so waiting ends at the timeout and the check reports the error
+   */
+  public waitForReady(config: ReadinessConfig, selectorText: string, selectorType?: SelectorType, source?: ContentSource): Promise<ReadinessResult> {
+    const findTarget = (): Element | null => {
+      try {
+        return findElement(document, selectorText, selectorType);
+      } catch {
+        return null;
+      }
+    };
+
+    return waitForReadiness(config, {
+      isReady: () => {
+        const element = findTarget();
+        return !!element && (config.mode !== 'content' || readElementContent(element, source).trim() !== '');
+      },
+      observe: (onMutation) => {
+        // Attribute changes (animations, hover styles) are not counted, they rarely mean content is still loading
+        const observer = new MutationObserver(onMutation);
+        observer.observe(document, { childList: true, subtree: true, characterData: true });
+        return () => observer.disconnect();
+      }
+    });
+  }
+
+  /**
+   * Reads monitored content for a selector in the given match mode
+   * @returns Matched content, or null when the selector is invalid or (in 'first' and 'table' mode) matches nothing
+   */
+  public readMatches(selectorText: string, mode: MatchMode = 'first', source?: ContentSource, excludeSelector?: string, selectorType?: SelectorType): MatchedContent | null {
+    let elements: Element[];
+    try {
+      elements = findElements(document, selectorText, selectorType);
+    } catch {
+      return null;
+    }
+    if ((mode === 'first' || mode === 'table') && elements.length === 0) {
+      return null;
+    }
+    return readMatchedContent(elements, mode, source, excludeSelector);
+  }
+
+  /**
+   * Watches the element of a live project and tells the background when it changes
+   * Watching a project again replaces its previous watch (the settings may have been edited)
+   */
+  public watchLive(projectId: string, target: LiveWatchTarget): void {
+    this.unwatchLive(projectId);
+
+    const stop = watchForChanges({
+      read: () => JSON.stringify({
+        content: this.readMatches(target.selector, target.matchMode, target.contentSource, target.excludeSelector, target.selectorType),
+        fields: target.fields ? readFieldValues(document, target.fields, target.selectorType) : undefined
+      }),
+      observe: (onMutation) => {
+        // Attribute changes are only relevant when an attribute is monitored
+        const observer = new MutationObserver(onMutation);
+        observer.observe(document, { childList: true, subtree: true, characterData: true, attributes: target.contentSource?.type === 'attribute' });
+        return () => observer.disconnect();
+      }
+    }, () => {
+      chrome.runtime.sendMessage({ action: 'liveChange', projectId }).catch(() => {
+        // The extension was reloaded or removed, nothing is listening anymore
+        this.unwatchLive(projectId);
+      });
+    });
+    this.liveWatches.set(projectId, stop);
+  }
+
+  public unwatchLive(projectId: string): void {
+    this.liveWatches.get(projectId)?.();
+    this.liveWatches.delete(projectId);
+  }
+
+  private formatPreview(content: string): string {
+    return this.escapeHtml(content.substring(0, 200)) + (content.length > 200 ? '...' : '');
+  }
+
+  private formatMatchedPreview(reading: MatchedContent, mode: MatchMode): string {
+    if (mode === 'count') {
+      return this.escapeHtml(t('matchCountPreview', [reading.content]));
+    }
+    if (mode === 'all' && reading.items) {
+      return `<div style="color: #666; margin-bottom: 4px;">${this.escapeHtml(t('matchCountPreview', [reading.items.length.toString()]))}</div>${this.formatPreview(reading.content)}`;
+    }
+    if (mode === 'table' && reading.table) {
+      return `<div style="color: #666; margin-bottom: 4px;">${this.escapeHtml(t('tableRowsPreview', [reading.table.rows.length.toString()]))}</div>${this.formatPreview(reading.content)}`;
+    }
+    return this.formatPreview(reading.content);
+  }
+
+  // One editable row of the named field list, with what to read and the value currently read from the page
+  private renderFieldRow(field: ProjectField, index: number, preview: string): string {
+    const fieldStyle = 'padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px; min-width: 0;';
+    const attribute = (value: string): string => this.escapeHtml(value).replace(/"/g, '&quot;');
+    const sourceType = field.contentSource?.type ?? 'text';
+    const sourceName = sourceType === 'attribute' || sourceType === 'property'
+      ? `<input type="text" data-field="sourceName" value="${attribute(field.contentSource?.name || '')}" placeholder="${t('contentSourceNamePlaceholder')}" style="flex: 1; font-family: monospace; ${fieldStyle}">`
+      : '';
+    return `
+      <div data-field-index="${index}" style="margin-bottom: 6px;">
+        <div style="display: flex; gap: 4px; align-items: center;">
+          <input type="text" data-field="name" value="${attribute(field.name)}" placeholder="${t('fieldNamePlaceholder')}" maxlength="${LIMITS.MAX_FIELD_NAME_LENGTH}" style="flex: 1; ${fieldStyle}">
+          <input type="text" data-field="selector" value="${attribute(field.selector)}" placeholder="${t('stepSelectorPlaceholder')}" style="flex: 2; font-family: monospace; ${fieldStyle}">
+          <input type="text" data-field="pattern" value="${attribute(field.extractRegex?.pattern || '')}" placeholder="${t('fieldPatternPlaceholder')}" style="flex: 1; font-family: monospace; ${fieldStyle}">
+          <button data-field="pick" title="${t('pickElement')}" style="padding: 4px 8px; font-size: 12px; background: none; color: #2196F3; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">⌖</button>
+          <button data-field="remove" title="${t('removeField')}" style="padding: 4px 8px; font-size: 12px; background: none; color: #f44336; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">✕</button>
+        </div>
+        <div style="display: flex; gap: 4px; align-items: center; margin-top: 4px;">
+          <select data-field="sourceType" title="${t('contentSource')}" style="flex: 1; ${fieldStyle}">${this.renderContentSourceOptions(sourceType)}</select>
+          ${sourceName}
+        </div>
+        <div data-field="preview" style="font-size: 12px; color: #999; margin-top: 2px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;">${this.escapeHtml(preview)}</div>
+      </div>
+    `;
+  }
+
+  // One editable row of the interaction step list (selector for element steps, value for type/select, seconds for wait)
+  private renderStepRow(step: InteractionStep, index: number): string {
+    const fieldStyle = 'padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px;';
+    const typeOptions = (['click', 'scroll', 'type', 'select', 'wait'] as const)
+      .map(type => `<option value="${type}" ${step.type === type ? 'selected' : ''}>${t(STEP_TYPE_LABEL_KEYS[type])}</option>`)
+      .join('');
+    const selectorField = ELEMENT_STEP_TYPES.includes(step.type)
+      ? `<input type="text" data-field="selector" value="${this.escapeHtml(step.selector || '').replace(/"/g, '&quot;')}" placeholder="${t('stepSelectorPlaceholder')}" style="flex: 2; min-width: 0; ${fieldStyle}">`
+      : '';
+    let valueField = '';
+    if (step.type === 'type' || step.type === 'select') {
+      valueField = `<input type="text" data-field="value" value="${this.escapeHtml(step.value || '').replace(/"/g, '&quot;')}" placeholder="${t('stepValuePlaceholder')}" maxlength="${INTERACTION.MAX_VALUE_LENGTH}" style="flex: 1; min-width: 0; ${fieldStyle}">`;
+    } else if (step.type === 'wait') {
+      valueField = `<input type="number" data-field="value" value="${(step.duration ?? 1000) / 1000}" min="0.1" max="${INTERACTION.MAX_WAIT_MS / 1000}" step="0.1" title="${t('stepWaitSeconds')}" style="flex: 1; min-width: 0; ${fieldStyle}">`;
     }
-    return element.innerText || element.textContent || element.innerHTML;
+    return `
+      <div data-step-index="${index}" style="display: flex; gap: 4px; align-items: center; margin-bottom: 4px;">
+        <span style="font-size: 12px; color: #999; width: 16px;">${index + 1}.</span>
+        <select data-field="type" style="${fieldStyle}">${typeOptions}</select>
+        ${selectorField}
+        ${valueField}
+        <button data-field="remove" title="${t('removeStep')}" style="padding: 4px 8px; font-size: 12px; background: none; color: #f44336; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">✕</button>
+      </div>
+    `;
   }
 
   private escapeHtml(text: string): string {
@@ -700,7 +2106,7 @@ if (!window.__divPingContentScriptLoaded) {
       let element: HTMLElement | null = null;
       try {
         if (message.project) {
-          element = document.querySelector<HTMLElement>(message.project.selector);
+          element = findElement(document, message.project.selector, message.project.selectorType) as HTMLElement | null;
         }
       } catch {
         // Selector may be invalid, use saved content
@@ -718,17 +2124,72 @@ if (!window.__divPingContentScriptLoaded) {
         sendResponse({ success: false, error: 'Selector is required' });
         return true;
       }
-      const element = document.querySelector<HTMLElement>(message.selector);
-      if (element) {
-        const content = selector.getElementContent(element);
-        sendResponse({ success: true, content });
+      // Validate selector syntax first so that syntax errors are reported as such
+      findElement(document, message.selector, message.selectorType);
+      const result = selector.readMatches(message.selector, message.matchMode, message.contentSource, message.excludeSelector, message.selectorType);
+      if (result) {
+        const fields = message.fields ? readFieldValues(document, message.fields, message.selectorType) : undefined;
+        sendResponse({ success: true, content: result.content, items: result.items, table: result.table, fields });
       } else {
-        sendResponse({ success: false, error: 'Element not found' });
+        sendResponse({ success: false, error: 'Element not found', notFound: true });
       }
     } catch (error) {
       sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
     }
     return true; // Keep message channel open
+  } else if (message.action === 'waitForReady') {
+    // Wait until the page is ready to be checked
+    selector.waitForReady(message.readiness, message.selector, message.selectorType, message.contentSource)
+      .then(result => sendResponse({ success: true, waited: result.waited, timedOut: result.timedOut }))
+      .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }));
+    return true;
+  } else if (message.action === 'watchLive') {
+    // Report changes of a live project's element between scheduled checks
+    if (!message.projectId || !message.selector) {
+      sendResponse({ success: false, error: 'ProjectId and selector are required' });
+      return true;
+    }
+    selector.watchLive(message.projectId, {
+      selector: message.selector,
+      selectorType: message.selectorType,
+      contentSource: message.contentSource,
+      matchMode: message.matchMode,
+      excludeSelector: message.excludeSelector,
+      fields: message.fields
+    });
+    sendResponse({ success: true });
+    return true;
+  } else if (message.action === 'unwatchLive') {
+    selector.unwatchLive(message.projectId);
+    sendResponse({ success: true });
+    return true;
+  } else if (message.action === 'detectLogin') {
+    // Look for the login indicator of an expired session
+    try {
+      sendResponse({ success: true, found: findElement(document, message.selector) !== null });
+    } catch (error) {
+      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    return true;
+  } else if (message.action === 'runSteps') {
+    // Interact with the page before the element is read
+    runInteractionSteps(document, message.steps ?? [])
+      .then(steps => sendResponse({ success: true, steps }))
+      .catch(error => sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' }));
+    return true;
+  } else if (message.action === 'locateElement') {
+    // Measure element for a visual check screenshot
+    try {
+      const location = selector.locateElement(message.selector, message.selectorType);
+      if (location) {
+        sendResponse({ success: true, rect: location.rect, viewportWidth: location.viewportWidth });
+      } else {
+        sendResponse({ success: false, error: 'Element not found', notFound: true });
+      }
+    } catch (error) {
+      sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    return true;
   }
   return false;
   });
@@ -0,0 +1,344 @@
+/**
+ * Change comparison utilities
+ * Computes structured differences between the previous and current check results
+ */
+
+import { TEXT_DIFF } from './constants';
+import { ListDiff, TableCellChange, TableData, TableDiff, TextDiffPart, TextDiffPartType } from './types';
+
+/**
+ * Compares two ordered item lists
+ *
+ * @param oldItems - Items from the previous check
+ * @param newItems - Items from the current check
+ * @returns Added, removed and changed items
+ *
+ * @remarks
+ * - Items are matched by content first (as a multiset), so reordering alone produces no differences
+ * - Remaining unmatched items at the same position in both lists are reported as changed
+ * - Everything else is reported as added (only in new list) or removed (only in old list)
+ *
+ * @example
+ * ```typescript
+ * diffItemLists(['A', 'B', 'C'], ['C', 'A', 'B']);   // { added: [], removed: [], changed: [] }
+ * diffItemLists(['A $10', 'B'], ['A $12', 'B', 'D']); // { added: ['D'], removed: [], changed: [{ from: 'A $10', to: 'A $12' }] }
+ * ```
+ */
+export function diffItemLists(oldItems: string[], newItems: string[]): ListDiff {
+  // Count remaining occurrences of each old item
+  const remaining = new Map<string, number>();
+  for (const item of oldItems) {
+    remaining.set(item, (remaining.get(item) ?? 0) + 1);
+  }
+
+  // Items in the new list without a counterpart in the old list (index -> item)
+  const unmatchedNew = new Map<number, string>();
+  newItems.forEach((item, index) => {
+    const count = remaining.get(item) ?? 0;
+    if (count > 0) {
+      remaining.set(item, count - 1);
+    } else {
+      unmatchedNew.set(index, item);
+    }
+  });
+
+  // Items in the old list without a counterpart in the new list (index -> item)
+  // Walk from the end so that duplicates consume their last occurrences
+  const unmatchedOld = new Map<number, string>();
+  for (let index = oldItems.length - 1; index >= 0; index--) {
+    const item = oldItems[index] as string;
+    const count = remaining.get(item) ?? 0;
+    if (count > 0) {
+      remaining.set(item, count - 1);
+      unmatchedOld.set(index, item);
+    }
+  }
+
+  const diff: ListDiff = { added: [], removed: [], changed: [] };
+
+  // Same-position leftovers are the same entry with new content
+  for (const [index, to] of unmatchedNew) {
+    const from = unmatchedOld.get(index);
+    if (from !== undefined) {
+      diff.changed.push({ from, to });
+      unmatchedOld.delete(index);
+    } else {
+      diff.added.push(to);
+    }
+  }
+
+  diff.removed = Array.from(unmatchedOld.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, item]) => item);
+
+  return diff;
+}
+
+/**
+ * Whether a list diff contains any reportable change
+ */
+export function hasListChanges(diff: ListDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+}
+
+/**
+ * Compares two tables row by row
+ *
+ * @param oldTable - Table from the previous check
+ * @param newTable - Table from the current check
+ * @param keyColumn - Column (0-based) whose cell identifies a row
+ * @returns Added and removed rows, and modified rows with their changed cells
+ *
+ * @remarks
+ * - Rows are matched by key, so reordering alone produces no differences
+ * - Rows sharing a key are paired in page order; extra ones are added or removed
+ * - Cells are compared by column index and named after the current table's headers (header changes alone are not reported)
+ *
+ * @example
+ * ```typescript
+ * const before = { headers: ['SKU', 'Price'], rows: [['A1', '$10'], ['B2', '$5']] };
+ * const after = { headers: ['SKU', 'Price'], rows: [['A1', '$12'], ['C3', '$7']] };
+ * diffTables(before, after, 0);
+ * // { headers: ['SKU', 'Price'], added: [['C3', '$7']], removed: [['B2', '$5']],
+ * //   modified: [{ key: 'A1', cells: [{ column: 1, header: 'Price', from: '$10', to: '$12' }] }] }
+ * ```
+ */
+export function diffTables(oldTable: TableData, newTable: TableData, keyColumn: number = 0): TableDiff {
+  // Unpaired old rows per key, in page order
+  const oldRowsByKey = new Map<string, string[][]>();
+  for (const row of oldTable.rows) {
+    const key = row[keyColumn] ?? '';
+    oldRowsByKey.set(key, [...(oldRowsByKey.get(key) ?? []), row]);
+  }
+
+  const diff: TableDiff = { headers: newTable.headers, added: [], removed: [], modified: [] };
+
+  for (const row of newTable.rows) {
+    const key = row[keyColumn] ?? '';
+    const oldRow = oldRowsByKey.get(key)?.shift();
+    if (!oldRow) {
+      diff.added.push(row);
+      continue;
+    }
+
+    const cells: TableCellChange[] = [];
+    for (let column = 0; column < Math.max(oldRow.length, row.length); column++) {
+      const from = oldRow[column] ?? '';
+      const to = row[column] ?? '';
+      if (from !== to) {
+        const header = newTable.headers[column];
+        cells.push(header ? { column, header, from, to } : { column, from, to });
+      }
+    }
+    if (cells.length > 0) {
+      diff.modified.push({ key, cells });
+    }
+  }
+
+  // Old rows left unpaired, in their original order
+  const unpaired = new Set(Array.from(oldRowsByKey.values()).flat());
+  diff.removed = oldTable.rows.filter(row => unpaired.has(row));
+
+  return diff;
+}
+
+/**
+ * Whether a table diff contains any reportable change
+ */
+export function hasTableChanges(diff: TableDiff): boolean {
+  return diff.added.length > 0 || diff.removed.length > 0 || diff.modified.length > 0;
+}
+
+/**
+ * Splits text into lines, keeping each line's terminator so that joining the lines restores the text
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+/g) ?? [];
+}
+
+/**
+ * Splits text into words, whitespace runs and punctuation
+ * Han and kana characters are split individually because those scripts do not separate words with spaces
+ */
+function splitWords(text: string): string[] {
+  return text.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|\s+|[\p{L}\p{N}_]+|[^\s]/gu) ?? [];
+}
+
+/**
+ * Appends text to a diff, merging it into the last part when the type matches
+ */
+function pushPart(parts: TextDiffPart[], type: TextDiffPartType, text: string): void {
+  if (!text) {
+    return;
+  }
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+/**
+ * Diffs two token sequences with a longest common subsequence table
+ * Blocks too large to compare are reported as a whole replacement
+ */
+function diffTokens(oldTokens: string[], newTokens: string[]): TextDiffPart[] {
+  // Common prefix and suffix are unchanged and left out of the table
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let oldEnd = oldTokens.length;
+  let newEnd = newTokens.length;
+  while (oldEnd > start && newEnd > start && oldTokens[oldEnd - 1] === newTokens[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const parts: TextDiffPart[] = [];
+  pushPart(parts, 'equal', oldTokens.slice(0, start).join(''));
+
+  const oldMiddle = oldTokens.slice(start, oldEnd);
+  const newMiddle = newTokens.slice(start, newEnd);
+  const rows = oldMiddle.length;
+  const cols = newMiddle.length;
+
+  if (rows * cols > TEXT_DIFF.MAX_COMPARISONS) {
+    pushPart(parts, 'removed', oldMiddle.join(''));
+    pushPart(parts, 'added', newMiddle.join(''));
+  } else {
+    // Entry i * (cols + 1) + j holds the LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lcs = new Uint32Array((rows + 1) * (cols + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = cols - 1; j >= 0; j--) {
+        lcs[i * (cols + 1) + j] = oldMiddle[i] === newMiddle[j]
+          ? (lcs[(i + 1) * (cols + 1) + j + 1] ?? 0) + 1
+          : Math.max(lcs[(i + 1) * (cols + 1) + j] ?? 0, lcs[i * (cols + 1) + j + 1] ?? 0);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < cols) {
+      if (i < rows && j < cols && oldMiddle[i] === newMiddle[j]) {
+        pushPart(parts, 'equal', oldMiddle[i++] as string);
+        j++;
+      } else if (i < rows && (j === cols || (lcs[(i + 1) * (cols + 1) + j] ?? 0) >= (lcs[i * (cols + 1) + j + 1] ?? 0))) {
+        // Removals first, so a replacement reads as old text followed by new text
+        pushPart(parts, 'removed', oldMiddle[i++] as string);
+      } else {
+        pushPart(parts, 'added', newMiddle[j++] as string);
+      }
+    }
+  }
+
+  pushPart(parts, 'equal', oldTokens.slice(oldEnd).join(''));
+  return parts;
+}
+
+/**
+ * Computes a line/word-level diff between two texts
+ *
+ * @param oldText - Content from the previous check
+ * @param newText - Content from the current check
+ * @returns Ordered parts; adjacent parts never share a type
+ *
+ * @remarks
+ * Lines are compared first, then each block of replaced lines is compared word by word,
+ * so a changed price inside a paragraph is reported as a single word change.
+ *
+ * @example
+ * ```typescript
+ * diffText('Price: $10\nIn stock', 'Price: $12\nIn stock');
+ * // [{ type: 'equal', text: 'Price: $' }, { type: 'removed', text: '10' }, { type: 'added', text: '12' }, { type: 'equal', text: '\nIn stock' }]
+ * ```
+ */
+export function diffText(oldText: string, newText: string): TextDiffPart[] {
+  const lineParts = diffTokens(splitLines(oldText), splitLines(newText));
+  const parts: TextDiffPart[] = [];
+
+  for (let index = 0; index < lineParts.length; index++) {
+    const part = lineParts[index] as TextDiffPart;
+    const next = lineParts[index + 1];
+    if (part.type === 'removed' && next?.type === 'added') {
+      // Refine replaced lines word by word
+      for (const wordPart of diffTokens(splitWords(part.text), splitWords(next.text))) {
+        pushPart(parts, wordPart.type, wordPart.text);
+      }
+      index++;
+    } else {
+      pushPart(parts, part.type, part.text);
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Whether a text diff contains any added or removed text
+ */
+export function hasTextChanges(parts: TextDiffPart[]): boolean {
+  return parts.some(part => part.type !== 'equal');
+}
+
+/**
+ * Shortens long unchanged runs so a diff can be stored and displayed compactly
+ *
+ * @param parts - Diff from diffText
+ * @param context - Unchanged characters kept next to each change
+ * @returns Diff with shortened equal parts; omitted text is replaced with '…'
+ */
+export function compactTextDiff(parts: TextDiffPart[], context: number = TEXT_DIFF.CONTEXT_CHARS): TextDiffPart[] {
+  return parts.map((part, index) => {
+    if (part.type !== 'equal') {
+      return part;
+    }
+    const isFirst = index === 0;
+    const isLast = index === parts.length - 1;
+    const text = part.text;
+
+    if (isFirst && isLast) {
+      return part;
+    }
+    if (isFirst) {
+      return text.length > context ? { type: 'equal', text: `\u2026${text.slice(-context)}` } : part;
+    }
+    if (isLast) {
+      return text.length > context ? { type: 'equal', text: `${text.slice(0, context)}\u2026` } : part;
+    }
+    return text.length > context * 2 ? { type: 'equal', text: `${text.slice(0, context)}\u2026${text.slice(-context)}` } : part;
+  });
+}
+
+/**
+ * Formats a diff as plain text, marking removed text as [-text-] and added text as {+text+}
+ *
+ * @example
+ * ```typescript
+ * formatTextDiff(diffText('Price: $10', 'Price: $12'));  // 'Price: $[-10-]{+12+}'
+ * ```
+ */
+export function formatTextDiff(parts: TextDiffPart[]): string {
+  return parts.map(part => {
+    switch (part.type) {
+      case 'added':
+        return `{+${part.text}+}`;
+      case 'removed':
+        return `[-${part.text}-]`;
+      default:
+        return part.text;
+    }
+  }).join('');
+}
+
+/**
+ * Collects the added or removed text of a diff, one trimmed run per line
+ */
+export function collectDiffText(parts: TextDiffPart[], type: 'added' | 'removed'): string {
+  return parts
+    .filter(part => part.type === type)
+    .map(part => part.text.trim())
+    .filter(text => text.length > 0)
+    .join('\n');
+}
@@ -0,0 +1,202 @@
+/**
+ * Element content extraction
+ * Reads the monitored value from a DOM element according to the project's content source
+ */
+
+import { LIMITS } from './constants';
+import { ContentSource, MatchMode, TableData } from './types';
+
+/**
+ * Default content source (visible text), used when a project has none configured
+ */
+export const DEFAULT_CONTENT_SOURCE: ContentSource = { type: 'text' };
+
+/**
+ * Converts a DOM property value into comparable string content
+ * Objects (e.g. style, dataset) are not meaningful to compare and yield an empty string
+ */
+function stringifyPropertyValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  return '';
+}
+
+/**
+ * Reads content from an element according to the given content source
+ *
+ * @param element - The element to read from (null yields an empty string)
+ * @param source - What to read; defaults to visible text for backwards compatibility
+ * @returns The extracted content as a string
+ *
+ * @example
+ * ```typescript
+ * readElementContent(link, { type: 'attribute', name: 'href' });   // 'https://example.com/file.zip'
+ * readElementContent(input, { type: 'property', name: 'checked' }); // 'true'
+ * ```
+ */
+export function readElementContent(element: Element | null, source: ContentSource = DEFAULT_CONTENT_SOURCE): string {
+  if (!element) {
+    return '';
+  }
+
+  switch (source.type) {
+    case 'innerHTML':
+      return element.innerHTML;
+    case 'outerHTML':
+      return element.outerHTML;
+    case 'attribute':
+      return source.name ? element.getAttribute(source.name) ?? '' : '';
+    case 'property':
+      return source.name ? stringifyPropertyValue((element as unknown as Record<string, unknown>)[source.name]) : '';
+    case 'text':
+    default: {
+      const htmlElement = element as HTMLElement;
+      return htmlElement.innerText || htmlElement.textContent || htmlElement.innerHTML;
+    }
+  }
+}
+
+/**
+ * Compares two content sources for equality (missing source equals the default text source)
+ */
+export function isSameContentSource(a: ContentSource | undefined, b: ContentSource | undefined): boolean {
+  const left = a ?? DEFAULT_CONTENT_SOURCE;
+  const right = b ?? DEFAULT_CONTENT_SOURCE;
+  return left.type === right.type && (left.name ?? '') === (right.name ?? '');
+}
+
+/**
+ * Returns the element without the descendants matched by an exclusion selector
+ *
+ * @param element - Element to read from
+ * @param excludeSelector - Selector for descendants to ignore (e.g. ads, relative timestamps)
+ * @returns A detached clone without excluded descendants, or the element itself if nothing is excluded
+ *
+ * @remarks
+ * The clone is not rendered, so its innerText falls back to textContent (line breaks from layout are lost).
+ * An invalid selector throws a SyntaxError like querySelectorAll does.
+ */
+export function excludeDescendants(element: Element, excludeSelector?: string): Element {
+  if (!excludeSelector || !element.querySelector(excludeSelector)) {
+    return element;
+  }
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll(excludeSelector).forEach(excluded => excluded.remove());
+  return clone;
+}
+
+/**
+ * Separator between cells when a table is written out as text
+ */
+export const TABLE_CELL_SEPARATOR = ' | ';
+
+/**
+ * Finds the table a matched element refers to
+ * @returns The element itself if it is a table, else the table containing it, else the first table inside it
+ */
+export function findTable(element: Element): HTMLTableElement | null {
+  if (element.localName === 'table') {
+    return element as HTMLTableElement;
+  }
+  return element.closest('table') ?? element.querySelector('table');
+}
+
+// Visible text of a cell on a single line
+function readCellText(cell: Element): string {
+  return readElementContent(cell).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads the cell texts of a table
+ *
+ * @param table - Table element
+ * @returns Header cells and body rows
+ *
+ * @remarks
+ * The header is the first row of the table head, or else a first row made only of `th` cells.
+ * Other rows of the table head are skipped. Rows of nested tables are not included.
+ * Rows and columns are capped at LIMITS.MAX_TABLE_ROWS and LIMITS.MAX_TABLE_COLUMNS.
+ */
+export function readTable(table: HTMLTableElement): TableData {
+  const readRow = (row: HTMLTableRowElement): string[] =>
+    Array.from(row.cells).slice(0, LIMITS.MAX_TABLE_COLUMNS).map(readCellText);
+
+  let rows = Array.from(table.rows);
+  let header: HTMLTableRowElement | undefined;
+  if (table.tHead && table.tHead.rows.length > 0) {
+    header = table.tHead.rows[0];
+    rows = rows.filter(row => row.parentElement !== table.tHead);
+  } else if (rows[0] && rows[0].cells.length > 0 && Array.from(rows[0].cells).every(cell => cell.localName === 'th')) {
+    header = rows.shift();
+  }
+
+  return {
+    headers: header ? readRow(header) : [],
+    rows: rows.slice(0, LIMITS.MAX_TABLE_ROWS).map(readRow)
+  };
+}
+
+/**
+ * Writes a table out as text, one line per row (header first) with cells separated by TABLE_CELL_SEPARATOR
+ */
+export function formatTable(table: TableData): string {
+  const lines = table.headers.length > 0 ? [table.headers, ...table.rows] : table.rows;
+  return lines.map(cells => cells.join(TABLE_CELL_SEPARATOR)).join('\n');
+}
+
+/**
+ * Result of reading all matches of a selector
+ * @property content - Comparable content (first match text, joined items, match count or table text)
+ * @property items - Individual item contents ('all' match mode only)
+ * @property table - Table cells ('table' match mode only)
+ */
+export interface MatchedContent {
+  content: string;
+  items?: string[];
+  table?: TableData;
+}
+
+/**
+ * Reads monitored content from the elements matched by a selector
+ *
+ * @param elements - All matching elements in document order
+ * @param mode - Match mode ('first' reads only the first element)
+ * @param source - Content source applied to each element
+ * @param excludeSelector - Descendants to ignore in each element (see excludeDescendants)
+ * @returns Content for comparison, plus the item list in 'all' mode and the table in 'table' mode
+ *
+ * @remarks
+ * In 'all' mode items are trimmed and capped at LIMITS.MAX_LIST_ITEMS to bound storage usage.
+ * The joined content uses newlines so that logs and notifications remain readable.
+ * In 'table' mode the table of the first element is read as visible text (the content source does not apply);
+ * an element without a table yields an empty table.
+ */
+export function readMatchedContent(elements: Element[], mode: MatchMode = 'first', source?: ContentSource, excludeSelector?: string): MatchedContent {
+  switch (mode) {
+    case 'count':
+      return { content: String(elements.length) };
+    case 'all': {
+      const items = elements
+        .slice(0, LIMITS.MAX_LIST_ITEMS)
+        .map(element => readElementContent(excludeDescendants(element, excludeSelector), source).trim());
+      return { content: items.join('\n'), items };
+    }
+    case 'table': {
+      const element = elements[0];
+      const tableElement = element ? findTable(element) : null;
+      const table = tableElement
+        ? readTable(excludeDescendants(tableElement, excludeSelector) as HTMLTableElement)
+        : { headers: [], rows: [] };
+      return { content: formatTable(table), table };
+    }
+    case 'first':
+    default: {
+      const element = elements[0];
+      return { content: readElementContent(element ? excludeDescendants(element, excludeSelector) : null, source) };
+    }
+  }
+}
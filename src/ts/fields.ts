@@ -0,0 +1,126 @@
+/**
+ * Named fields
+ * Reads several values of a page in one check and detects changes per field
+ */
+
+import { readElementContent } from './elementContent';
+import { readJsonMatches } from './jsonPath';
+import { extractWithRegex } from './regex';
+import { DEFAULT_SELECTOR_TYPE, findElement } from './selector';
+import { FieldChange, FieldValues, ProjectField, SelectorType } from './types';
+
+/**
+ * Allowed field names, usable in webhook variables like `{{fields.price}}`
+ */
+export const FIELD_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Reads the raw text of each field from a document
+ *
+ * @param doc - Page or parsed HTML document
+ * @param fields - Fields to read, each from its own content source
+ * @param selectorType - Kind of the field selectors, the project's selector type (default: 'css')
+ * @returns Trimmed text by field name, null for fields whose element was not found or whose selector is invalid
+ */
+export function readFieldValues(doc: Document, fields: ProjectField[], selectorType: SelectorType = DEFAULT_SELECTOR_TYPE): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    try {
+      const element = findElement(doc, field.selector, selectorType);
+      values[field.name] = element ? readElementContent(element, field.contentSource).trim() : null;
+    } catch {
+      values[field.name] = null;
+    }
+  }
+  return values;
+}
+
+/**
+ * Reads each field from a JSON document, the selector being a JSON path (first match only)
+ * @returns Value by field name, null when the path matches nothing or is malformed
+ */
+export function readJsonFieldValues(data: unknown, fields: ProjectField[]): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    try {
+      values[field.name] = readJsonMatches(data, field.selector, 'first')?.content ?? null;
+    } catch {
+      values[field.name] = null;
+    }
+  }
+  return values;
+}
+
+/**
+ * Applies each field's regex extraction to its raw value
+ *
+ * @param fields - Field settings
+ * @param raw - Raw values as read from the page (missing names count as not found)
+ * @returns Extracted values (empty string when the regex does not match, null stays null)
+ */
+export function extractFieldValues(fields: ProjectField[], raw: FieldValues): FieldValues {
+  const values: FieldValues = {};
+  for (const field of fields) {
+    const value = raw[field.name] ?? null;
+    values[field.name] = value !== null && field.extractRegex ? extractWithRegex(value, field.extractRegex) ?? '' : value;
+  }
+  return values;
+}
+
+/**
+ * Compares field values of two checks
+ *
+ * @param previous - Values from the previous check (undefined before the first reading)
+ * @param current - Values from this check
+ * @returns Changes in field order; fields without a previous value only set the baseline
+ *
+ * @example
+ * ```typescript
+ * diffFields({ price: '19.99', stock: 'In stock' }, { price: '17.99', stock: 'In stock', shipping: '2 days' });
+ * // [{ name: 'price', from: '19.99', to: '17.99' }]
+ * ```
+ */
+export function diffFields(previous: FieldValues | undefined, current: FieldValues): FieldChange[] {
+  if (!previous) {
+    return [];
+  }
+  return Object.entries(current)
+    .filter(([name, value]) => Object.prototype.hasOwnProperty.call(previous, name) && previous[name] !== value)
+    .map(([name, value]) => ({ name, from: previous[name] ?? null, to: value }));
+}
+
+/**
+ * Builds the `fields.<name>` webhook variables (empty string for fields that were not found)
+ */
+export function getFieldVariables(values: FieldValues | undefined): Record<`fields.${string}`, string> {
+  return Object.fromEntries(Object.entries(values ?? {}).map(([name, value]) => [`fields.${name}`, value ?? '']));
+}
+
+/**
+ * Parses fields written one per line as `name = selector`
+ * Blank lines are skipped; a line without `=` becomes a field without selector (rejected by validation)
+ *
+ * @example
+ * ```typescript
+ * parseFieldLines('price = $.data.price\nstock = $.data.stock');
+ * // [{ name: 'price', selector: '$.data.price' }, { name: 'stock', selector: '$.data.stock' }]
+ * ```
+ */
+export function parseFieldLines(text: string): ProjectField[] {
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const separator = line.indexOf('=');
+      return separator === -1
+        ? { name: line.trim(), selector: '' }
+        : { name: line.slice(0, separator).trim(), selector: line.slice(separator + 1).trim() };
+    });
+}
+
+/**
+ * Writes fields one per line as `name = selector` (the inverse of parseFieldLines)
+ */
+export function formatFieldLines(fields: ProjectField[]): string {
+  return fields.map(field => `${field.name} = ${field.selector}`).join('\n');
+}
@@ -0,0 +1,129 @@
+/**
+ * Pre-check interaction steps
+ * Clicks, scrolls, types and selects options on the page before the monitored element is read
+ */
+
+import { INTERACTION } from './constants';
+import { findElement } from './selector';
+import { InteractionStep, InteractionStepType, StepResult } from './types';
+
+/**
+ * Step types that act on an element and need a selector
+ */
+export const ELEMENT_STEP_TYPES: readonly InteractionStepType[] = ['click', 'type', 'select'];
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+function dispatch(element: Element, type: string): void {
+  element.dispatchEvent(new Event(type, { bubbles: true }));
+}
+
+/**
+ * Sets the value of a text field the way typing would
+ * Frameworks such as React track the value through the prototype setter, so assigning the property is not enough
+ */
+function setFieldValue(field: HTMLInputElement | HTMLTextAreaElement, value: string): void {
+  const setter = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(field), 'value')?.set;
+  if (setter) {
+    setter.call(field, value);
+  } else {
+    field.value = value;
+  }
+  dispatch(field, 'input');
+  dispatch(field, 'change');
+}
+
+/**
+ * Chooses an option of a select element by value, falling back to the visible label
+ * @throws Error if no option matches
+ */
+function selectOption(select: HTMLSelectElement, value: string): void {
+  const options = Array.from(select.options);
+  const option = options.find(candidate => candidate.value === value)
+    ?? options.find(candidate => candidate.text.trim() === value.trim());
+  if (!option) {
+    throw new Error(`Option not found: ${value}`);
+  }
+  select.value = option.value;
+  dispatch(select, 'input');
+  dispatch(select, 'change');
+}
+
+/**
+ * Performs a single interaction step
+ *
+ * @param doc - Document of the monitored page
+ * @param step - Step to perform
+ * @throws Error if the target element is missing or cannot take the interaction
+ *
+ * @remarks
+ * Every step except 'wait' is followed by a short pause (INTERACTION.STEP_SETTLE_MS) for the page to react.
+ */
+export async function performStep(doc: Document, step: InteractionStep): Promise<void> {
+  if (step.type === 'wait') {
+    await sleep(step.duration ?? 0);
+    return;
+  }
+
+  if (step.type === 'scroll') {
+    const root = doc.scrollingElement ?? doc.documentElement;
+    doc.defaultView?.scrollTo(0, root.scrollHeight);
+  } else {
+    const element = findElement(doc, step.selector ?? '');
+    if (!element) {
+      throw new Error('Element not found');
+    }
+
+    switch (step.type) {
+      case 'click':
+        (element as HTMLElement).click();
+        break;
+      case 'type':
+        if (element.localName !== 'input' && element.localName !== 'textarea') {
+          throw new Error('Element is not a text field');
+        }
+        (element as HTMLElement).focus();
+        setFieldValue(element as HTMLInputElement | HTMLTextAreaElement, step.value ?? '');
+        break;
+      case 'select':
+        if (element.localName !== 'select') {
+          throw new Error('Element is not a select box');
+        }
+        selectOption(element as HTMLSelectElement, step.value ?? '');
+        break;
+    }
+  }
+
+  await sleep(INTERACTION.STEP_SETTLE_MS);
+}
+
+/**
+ * Performs interaction steps in order
+ *
+ * @param doc - Document of the monitored page
+ * @param steps - Steps to perform
+ * @returns Outcome of every step; a failed step does not stop the following ones
+ * (an optional step such as closing a cookie banner may not apply on every check)
+ *
+ * @example
+ * ```typescript
+ * await runInteractionSteps(document, [{ type: 'click', selector: '#accept' }, { type: 'scroll' }]);
+ * // [{ type: 'click', selector: '#accept', success: false, error: 'Element not found' }, { type: 'scroll', success: true }]
+ * ```
+ */
+export async function runInteractionSteps(doc: Document, steps: InteractionStep[]): Promise<StepResult[]> {
+  const results: StepResult[] = [];
+  for (const step of steps) {
+    const result: StepResult = ELEMENT_STEP_TYPES.includes(step.type)
+      ? { type: step.type, selector: step.selector, success: true }
+      : { type: step.type, success: true };
+    try {
+      await performStep(doc, step);
+    } catch (error) {
+      result.success = false;
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    results.push(result);
+  }
+  return results;
+}
@@ -0,0 +1,224 @@
+/**
+ * JSON path evaluation
+ * Selects values from JSON responses of HTTP endpoint projects
+ */
+
+import { LIMITS } from './constants';
+import { MatchedContent } from './elementContent';
+import { MatchMode } from './types';
+
+/**
+ * What a path segment selects from each node
+ */
+export type JsonPathSelector =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+/**
+ * One step of a parsed path
+ * @property descendant - Applies the selector to the node and all of its descendants (`..`)
+ */
+export interface JsonPathSegment {
+  descendant: boolean;
+  selector: JsonPathSelector;
+}
+
+const NAME_END = /[.[\]]/;
+
+/**
+ * Parses a JSONPath expression or a plain dot path
+ *
+ * @param expression - JSONPath (`$.items[0].price`, `$..id`, `$.list[*]`, `$['odd key']`)
+ * or dot path (`items.0.price`)
+ * @returns Segments to evaluate from the root value
+ * @throws Error if the expression is empty or malformed (filter expressions and slices are not supported)
+ *
+ * @example
+ * ```typescript
+ * parseJsonPath('$.data[-1].name');
+ * // [{ descendant: false, selector: { type: 'name', name: 'data' } },
+ * //  { descendant: false, selector: { type: 'index', index: -1 } },
+ * //  { descendant: false, selector: { type: 'name', name: 'name' } }]
+ * ```
+ */
+export function parseJsonPath(expression: string): JsonPathSegment[] {
+  const path = expression.trim();
+  if (!path) {
+    throw new Error('JSON path cannot be empty');
+  }
+
+  const segments: JsonPathSegment[] = [];
+  let i = 0;
+
+  const readName = (descendant: boolean): void => {
+    const rest = path.slice(i);
+    const end = rest.search(NAME_END);
+    const name = end === -1 ? rest : rest.slice(0, end);
+    if (!name) {
+      throw new Error(`Expected a property name at position ${i}`);
+    }
+    segments.push({ descendant, selector: name === '*' ? { type: 'wildcard' } : { type: 'name', name } });
+    i += name.length;
+  };
+
+  const readBracket = (descendant: boolean): void => {
+    const close = (position: number): void => {
+      if (path[position] !== ']') {
+        throw new Error(`Expected ']' at position ${position}`);
+      }
+      i = position + 1;
+    };
+
+    let position = i + 1;
+    const quote = path[position];
+    if (quote === '"' || quote === "'") {
+      let name = '';
+      position++;
+      while (position < path.length && path[position] !== quote) {
+        if (path[position] === '\\') {
+          position++;
+        }
+        name += path[position] ?? '';
+        position++;
+      }
+      if (position >= path.length) {
+        throw new Error('Unterminated string in JSON path');
+      }
+      segments.push({ descendant, selector: { type: 'name', name } });
+      close(position + 1);
+      return;
+    }
+
+    const end = path.indexOf(']', position);
+    if (end === -1) {
+      throw new Error(`Expected ']' after position ${i}`);
+    }
+    const content = path.slice(position, end).trim();
+    if (content === '*') {
+      segments.push({ descendant, selector: { type: 'wildcard' } });
+    } else if (/^-?\d+$/.test(content)) {
+      segments.push({ descendant, selector: { type: 'index', index: Number(content) } });
+    } else {
+      throw new Error(`Unsupported bracket expression '[${content}]'`);
+    }
+    close(end);
+  };
+
+  if (path[0] === '$') {
+    i = 1;
+  } else if (path[0] !== '.' && path[0] !== '[') {
+    // Dot path: starts with a property name
+    readName(false);
+  }
+
+  while (i < path.length) {
+    if (path.startsWith('..', i)) {
+      i += 2;
+      if (path[i] === '[') {
+        readBracket(true);
+      } else {
+        readName(true);
+      }
+    } else if (path[i] === '.') {
+      i++;
+      readName(false);
+    } else if (path[i] === '[') {
+      readBracket(false);
+    } else {
+      throw new Error(`Unexpected character '${path[i]}' at position ${i}`);
+    }
+  }
+
+  return segments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function selectChildren(node: unknown, selector: JsonPathSelector): unknown[] {
+  switch (selector.type) {
+    case 'wildcard':
+      if (Array.isArray(node)) return node;
+      return isObject(node) ? Object.values(node) : [];
+    case 'index':
+      if (Array.isArray(node)) {
+        const index = selector.index < 0 ? node.length + selector.index : selector.index;
+        return index >= 0 && index < node.length ? [node[index]] : [];
+      }
+      return selectChildren(node, { type: 'name', name: String(selector.index) });
+    case 'name':
+      // Numeric names index arrays, so dot paths like `items.0` work
+      if (Array.isArray(node)) {
+        return /^\d+$/.test(selector.name) ? selectChildren(node, { type: 'index', index: Number(selector.name) }) : [];
+      }
+      return isObject(node) && Object.prototype.hasOwnProperty.call(node, selector.name) ? [node[selector.name]] : [];
+  }
+}
+
+// The node followed by all nested values in document order
+function collectDescendants(node: unknown): unknown[] {
+  const children = Array.isArray(node) ? node : isObject(node) ? Object.values(node) : [];
+  return [node, ...children.flatMap(collectDescendants)];
+}
+
+/**
+ * Evaluates a path against parsed JSON
+ *
+ * @param data - Parsed JSON value
+ * @param expression - JSONPath or dot path (see parseJsonPath)
+ * @returns All selected values in document order (empty if nothing matches)
+ * @throws Error if the expression is malformed
+ *
+ * @example
+ * ```typescript
+ * const data = { items: [{ price: 5 }, { price: 7 }] };
+ * evaluateJsonPath(data, '$.items[*].price');  // [5, 7]
+ * evaluateJsonPath(data, 'items.1.price');     // [7]
+ * evaluateJsonPath(data, '$..price');          // [5, 7]
+ * ```
+ */
+export function evaluateJsonPath(data: unknown, expression: string): unknown[] {
+  let nodes: unknown[] = [data];
+  for (const segment of parseJsonPath(expression)) {
+    const candidates = segment.descendant ? nodes.flatMap(collectDescendants) : nodes;
+    nodes = candidates.flatMap(node => selectChildren(node, segment.selector));
+  }
+  return nodes;
+}
+
+/**
+ * Converts a selected value to monitored text
+ * Strings are used as is, everything else as compact JSON
+ */
+export function formatJsonValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value) ?? '';
+}
+
+/**
+ * Reads monitored content from a JSON document in the given match mode
+ *
+ * @param data - Parsed JSON value
+ * @param expression - JSONPath or dot path
+ * @param mode - Match mode ('first' reads only the first value)
+ * @returns Matched content (same shape as element matches), or null when nothing matches in 'first' mode
+ * @throws Error if the expression is malformed
+ */
+export function readJsonMatches(data: unknown, expression: string, mode: MatchMode = 'first'): MatchedContent | null {
+  const values = evaluateJsonPath(data, expression);
+  switch (mode) {
+    case 'count':
+      return { content: String(values.length) };
+    case 'all': {
+      const items = values.slice(0, LIMITS.MAX_LIST_ITEMS).map(value => formatJsonValue(value).trim());
+      return { content: items.join('\n'), items };
+    }
+    case 'first':
+    default:
+      return values.length > 0 ? { content: formatJsonValue(values[0]) } : null;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Live watching
+ * Notices changes of the monitored element in an open tab as they happen, between scheduled checks
+ */
+
+import { LIVE } from './constants';
+import { Project } from './types';
+
+/**
+ * Page access used while watching
+ * @property read - Reads the monitored element (any string that changes when the element does)
+ * @property observe - Subscribes to DOM mutations, returns a function that unsubscribes
+ */
+export interface LiveWatchProbe {
+  read: () => string;
+  observe: (onMutation: () => void) => () => void;
+}
+
+/**
+ * Timing of a live watch
+ * @property debounceMs - Quiet time after the last mutation before the element is read again
+ * @property maxWaitMs - Longest time a burst of mutations delays reading the element
+ */
+export interface LiveWatchTiming {
+  debounceMs: number;
+  maxWaitMs: number;
+}
+
+/**
+ * Watches the monitored element and reports when its reading differs from the last one
+ *
+ * @param probe - Element reading and mutation subscription for the page
+ * @param onChange - Called with the new reading after a change
+ * @param timing - Debounce settings (default: LIVE.DEBOUNCE_MS and LIVE.MAX_WAIT_MS)
+ * @returns Function that stops watching
+ *
+ * @remarks
+ * Mutations are only a hint: the element is read once the page has been quiet for the debounce time
+ * (or after the maximum wait on pages that never stop mutating, such as a ticking clock), and
+ * mutations that leave the reading unchanged are not reported.
+ *
+ * @example
+ * ```typescript
+ * const stop = watchForChanges(probe, () => chrome.runtime.sendMessage({ action: 'liveChange', projectId }));
+ * ```
+ */
+export function watchForChanges(
+  probe: LiveWatchProbe,
+  onChange: (reading: string) => void,
+  timing: LiveWatchTiming = { debounceMs: LIVE.DEBOUNCE_MS, maxWaitMs: LIVE.MAX_WAIT_MS }
+): () => void {
+  let lastReading = probe.read();
+  let debounceTimer: ReturnType<typeof setTimeout> | undefined;
+  let maxWaitTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = (): void => {
+    clearTimeout(debounceTimer);
+    clearTimeout(maxWaitTimer);
+    debounceTimer = undefined;
+    maxWaitTimer = undefined;
+    const reading = probe.read();
+    if (reading !== lastReading) {
+      lastReading = reading;
+      onChange(reading);
+    }
+  };
+
+  const unsubscribe = probe.observe(() => {
+    clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(flush, timing.debounceMs);
+    if (maxWaitTimer === undefined) {
+      maxWaitTimer = setTimeout(flush, timing.maxWaitMs);
+    }
+  });
+
+  return () => {
+    clearTimeout(debounceTimer);
+    clearTimeout(maxWaitTimer);
+    unsubscribe();
+  };
+}
+
+/**
+ * Whether a project's open tabs are watched for live changes (endpoint projects have no tab to watch)
+ */
+export function isLiveProject(project: Pick<Project, 'type' | 'live'>): boolean {
+  return !!project.live && project.type !== 'http';
+}
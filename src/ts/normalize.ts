@@ -0,0 +1,90 @@
+/**
+ * Content normalization
+ * Removes noise (whitespace reflow, relative timestamps, counters) before content is compared
+ */
+
+import { formatTable, MatchedContent } from './elementContent';
+import { NormalizationConfig } from './types';
+
+/**
+ * Checks whether a normalization config changes the text at all
+ * (the exclusion selector is applied in the page, not on the text)
+ */
+export function hasTextNormalization(config: NormalizationConfig | undefined): boolean {
+  return !!config && (!!config.collapseWhitespace || !!config.caseFold || !!config.stripDigits || (config.ignorePatterns?.length ?? 0) > 0);
+}
+
+/**
+ * Normalizes content text according to the project's ignore rules
+ *
+ * @param content - Content read from the page
+ * @param config - Normalization settings
+ * @returns Normalized content
+ *
+ * @remarks
+ * Steps are applied in this order so that ignore patterns see the original text:
+ * 1. Remove text matched by ignore patterns
+ * 2. Strip digits
+ * 3. Case-fold
+ * 4. Collapse whitespace runs into single spaces and trim
+ *
+ * @example
+ * ```typescript
+ * normalizeContent('Posted 3 minutes ago\n\n  New  Item', {
+ *   ignorePatterns: ['Posted .* ago'],
+ *   collapseWhitespace: true
+ * });  // 'New Item'
+ * ```
+ */
+export function normalizeContent(content: string, config: NormalizationConfig): string {
+  let result = content;
+
+  for (const pattern of config.ignorePatterns ?? []) {
+    result = result.replace(new RegExp(pattern, 'g'), '');
+  }
+
+  if (config.stripDigits) {
+    result = result.replace(/\d/g, '');
+  }
+
+  if (config.caseFold) {
+    result = result.toLowerCase();
+  }
+
+  if (config.collapseWhitespace) {
+    result = result.replace(/\s+/g, ' ').trim();
+  }
+
+  return result;
+}
+
+/**
+ * Normalizes content read with any match mode
+ * In 'all' mode each item is normalized and the content is rebuilt from the items,
+ * in 'table' mode each cell is normalized and the content is rebuilt from the table
+ */
+export function applyNormalization(matched: MatchedContent, config: NormalizationConfig): MatchedContent {
+  if (matched.table) {
+    const normalizeCells = (cells: string[]) => cells.map(cell => normalizeContent(cell, config));
+    const table = { headers: normalizeCells(matched.table.headers), rows: matched.table.rows.map(normalizeCells) };
+    return { content: formatTable(table), table };
+  }
+  if (matched.items) {
+    const items = matched.items.map(item => normalizeContent(item, config));
+    return { content: items.join('\n'), items };
+  }
+  return { content: normalizeContent(matched.content, config) };
+}
+
+/**
+ * Compares two normalization configs for equality (undefined means no normalization)
+ */
+export function isSameNormalization(a: NormalizationConfig | undefined, b: NormalizationConfig | undefined): boolean {
+  const left = a ?? {};
+  const right = b ?? {};
+  return !!left.collapseWhitespace === !!right.collapseWhitespace
+    && !!left.caseFold === !!right.caseFold
+    && !!left.stripDigits === !!right.stripDigits
+    && (left.excludeSelector ?? '') === (right.excludeSelector ?? '')
+    && (left.ignorePatterns ?? []).join('\n') === (right.ignorePatterns ?? []).join('\n');
+}
@@ -0,0 +1,176 @@
+/**
+ * Numeric value extraction and trigger evaluation
+ * Parses prices, stock counts and similar numbers out of monitored content
+ */
+
+import { NumericConfig, NumericTriggerReason } from './types';
+
+/**
+ * Separator characters treated as whitespace thousands separators
+ */
+const SPACE_SEPARATORS = ' \u00A0\u202F';
+
+function escapeForCharClass(chars: string): string {
+  return chars.replace(/[\\\]^-]/g, '\\$&');
+}
+
+/**
+ * Determines decimal and group separators for a locale via Intl.NumberFormat
+ * @throws RangeError if the locale is invalid
+ */
+function getLocaleSeparators(locale: string): { decimal: string; group: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+  return {
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+    group: parts.find(part => part.type === 'group')?.value ?? ','
+  };
+}
+
+function toNumber(sign: string, digits: string): number | null {
+  const value = parseFloat(digits);
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+  return sign ? -value : value;
+}
+
+/**
+ * Parses a number with the separators of a known locale
+ */
+function parseWithLocale(text: string, locale: string): number | null {
+  const { decimal, group } = getLocaleSeparators(locale);
+  // Pages often use a plain or no-break space where the locale specifies a narrow one
+  let groupChars = SPACE_SEPARATORS.includes(group) ? SPACE_SEPARATORS : group;
+  if (group === '\u2019') {
+    groupChars += '\'';
+  }
+
+  const groupClass = escapeForCharClass(groupChars);
+  const decimalClass = escapeForCharClass(decimal);
+  const pattern = new RegExp(`([-\u2212]?)(\\d+(?:[${groupClass}]\\d{2,3}(?!\\d))*(?:[${decimalClass}]\\d+)?)`);
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const digits = (match[2] as string)
+    .replace(new RegExp(`[${groupClass}]`, 'g'), '')
+    .replace(decimal, '.');
+  return toNumber(match[1] as string, digits);
+}
+
+/**
+ * Parses a number guessing separators from the number's shape
+ */
+function parseAuto(text: string): number | null {
+  const pattern = /([-\u2212]?)(\d+(?:[.,'\u2019 \u00A0\u202F]\d{3}(?!\d))*(?:[.,]\d+)?)/;
+  const match = pattern.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  // Spaces and apostrophes are always thousands separators
+  let token = (match[2] as string).replace(/['\u2019 \u00A0\u202F]/g, '');
+  const lastDot = token.lastIndexOf('.');
+  const lastComma = token.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    // Both present: the last one is the decimal separator
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const group = decimal === '.' ? ',' : '.';
+    token = token.split(group).join('').replace(decimal, '.');
+  } else if (lastDot !== -1 || lastComma !== -1) {
+    const separator = lastDot !== -1 ? '.' : ',';
+    const parts = token.split(separator);
+    // A single separator followed by exactly three digits is a thousands separator ("1,299"),
+    // unless the integer part is zero ("0.299")
+    const isGroup = parts.length > 2 || ((parts[1] as string).length === 3 && parts[0] !== '0');
+    token = isGroup ? parts.join('') : parts.join('.');
+  }
+
+  return toNumber(match[1] as string, token);
+}
+
+/**
+ * Extracts the first number from text, handling currency symbols and thousands separators
+ *
+ * @param text - Content to parse (e.g. "Price: $1,299.99", "1.299,00 €", "Only 3 left")
+ * @param locale - BCP 47 locale (e.g. 'en-US', 'de-DE'); separators are guessed when omitted
+ * @returns The parsed number, or null if the text contains no number
+ *
+ * @example
+ * ```typescript
+ * parseNumber('$1,299.99');            // 1299.99
+ * parseNumber('1.299,00 €', 'de-DE');  // 1299
+ * parseNumber('CHF 1’299.50');         // 1299.5
+ * parseNumber('Only 3 left');          // 3
+ * parseNumber('Sold out');             // null
+ * ```
+ */
+export function parseNumber(text: string, locale?: string): number | null {
+  if (!text) {
+    return null;
+  }
+  return locale ? parseWithLocale(text, locale) : parseAuto(text);
+}
+
+/**
+ * Checks whether a locale is supported by Intl.NumberFormat
+ */
+export function isValidNumberLocale(locale: string): boolean {
+  try {
+    getLocaleSeparators(locale);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decides whether a numeric value change should trigger a notification
+ *
+ * @param config - Numeric trigger configuration
+ * @param previous - Value from the previous successful parse (undefined on first reading)
+ * @param current - Value from this check (null if no number could be parsed)
+ * @returns The reason the trigger fired, or null if it did not fire
+ *
+ * @remarks
+ * - 'below' / 'above' fire only when the value crosses the threshold, not while it stays beyond it
+ * - 'percent' fires when the value moves by more than the configured percentage of the previous value
+ * - Without any configured condition, any change of the value fires ('change')
+ * - The first reading and unparseable content never fire
+ *
+ * @example
+ * ```typescript
+ * evaluateNumericTrigger({ enabled: true, below: 199 }, 249, 189);        // 'below'
+ * evaluateNumericTrigger({ enabled: true, below: 199 }, 189, 179);        // null (already below)
+ * evaluateNumericTrigger({ enabled: true, percentChange: 10 }, 100, 85);  // 'percent'
+ * ```
+ */
+export function evaluateNumericTrigger(config: NumericConfig, previous: number | undefined, current: number | null): NumericTriggerReason | null {
+  if (current === null || previous === undefined) {
+    return null;
+  }
+
+  if (config.below !== undefined && previous >= config.below && current < config.below) {
+    return 'below';
+  }
+
+  if (config.above !== undefined && previous <= config.above && current > config.above) {
+    return 'above';
+  }
+
+  if (config.percentChange !== undefined && current !== previous) {
+    const percent = previous === 0 ? Infinity : Math.abs(current - previous) / Math.abs(previous) * 100;
+    if (percent > config.percentChange) {
+      return 'percent';
+    }
+  }
+
+  const hasConditions = config.below !== undefined || config.above !== undefined || config.percentChange !== undefined;
+  if (!hasConditions && current !== previous) {
+    return 'change';
+  }
+
+  return null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Numeric trend history
+ * Keeps the numeric value of every check in a compact time series and prepares it for charts
+ */
+
+import { NUMERIC_HISTORY } from './constants';
+import { NumericPoint } from './types';
+
+/**
+ * Statistics of a numeric series
+ * @property min - Lowest value
+ * @property max - Highest value
+ * @property average - Mean of all values
+ * @property last - Most recent value
+ * @property count - Number of values
+ */
+export interface NumericSummary {
+  min: number;
+  max: number;
+  average: number;
+  last: number;
+  count: number;
+}
+
+/**
+ * Value positioned in a chart area
+ * @property x - Horizontal position (time)
+ * @property y - Vertical position (value, 0 at the top)
+ * @property time - Time of the value in milliseconds since epoch
+ * @property value - Value drawn at this position
+ */
+export interface ChartPoint {
+  x: number;
+  y: number;
+  time: number;
+  value: number;
+}
+
+/**
+ * Appends the value of a check to a series, dropping the oldest values beyond the cap
+ *
+ * @param history - Series in chronological order
+ * @param point - Value of the new check
+ * @param maxPoints - Maximum number of values kept (default: NUMERIC_HISTORY.MAX_POINTS)
+ * @returns The new series (the given one is not modified)
+ */
+export function appendNumericPoint(history: NumericPoint[], point: NumericPoint, maxPoints: number = NUMERIC_HISTORY.MAX_POINTS): NumericPoint[] {
+  const next = [...history, point];
+  return next.length > maxPoints ? next.slice(next.length - maxPoints) : next;
+}
+
+/**
+ * Keeps the values recorded at or after a time
+ * @param since - Start of the range in milliseconds since epoch
+ */
+export function getNumericPointsSince(history: NumericPoint[], since: number): NumericPoint[] {
+  return history.filter(([time]) => time >= since);
+}
+
+/**
+ * Computes min, max and average of a series
+ * @returns The statistics, or null for an empty series
+ *
+ * @example
+ * ```typescript
+ * summarizeNumericHistory([[1000, 10], [2000, 30], [3000, 20]]);
+ * // { min: 10, max: 30, average: 20, last: 20, count: 3 }
+ * ```
+ */
+export function summarizeNumericHistory(history: NumericPoint[]): NumericSummary | null {
+  const last = history[history.length - 1];
+  if (!last) {
+    return null;
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (const [, value] of history) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+    sum += value;
+  }
+  return { min, max, average: sum / history.length, last: last[1], count: history.length };
+}
+
+/**
+ * Reduces a series to at most maxPoints values for drawing
+ * Consecutive values are grouped into equal buckets, each drawn at its mean time and value
+ * (short spikes are smoothed out, the statistics should be computed on the full series)
+ */
+export function downsampleNumericHistory(history: NumericPoint[], maxPoints: number): NumericPoint[] {
+  if (history.length <= maxPoints) {
+    return history;
+  }
+  const bucketSize = history.length / maxPoints;
+  const result: NumericPoint[] = [];
+  for (let bucket = 0; bucket < maxPoints; bucket++) {
+    const points = history.slice(Math.floor(bucket * bucketSize), Math.floor((bucket + 1) * bucketSize));
+    const time = points.reduce((sum, [pointTime]) => sum + pointTime, 0) / points.length;
+    const value = points.reduce((sum, [, pointValue]) => sum + pointValue, 0) / points.length;
+    result.push([Math.round(time), value]);
+  }
+  return result;
+}
+
+/**
+ * Positions the values of a series in a chart area
+ * Time runs along the x axis and the value range fills the height (a constant series is drawn in the middle)
+ *
+ * @param history - Series in chronological order
+ * @param width - Width of the chart area
+ * @param height - Height of the chart area
+ */
+export function scaleNumericPoints(history: NumericPoint[], width: number, height: number): ChartPoint[] {
+  const first = history[0];
+  const last = history[history.length - 1];
+  if (!first || !last) {
+    return [];
+  }
+  const values = history.map(([, value]) => value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const timeRange = last[0] - first[0];
+
+  return history.map(([time, value]) => ({
+    x: timeRange > 0 ? (time - first[0]) / timeRange * width : width / 2,
+    y: max > min ? (max - value) / (max - min) * height : height / 2,
+    time,
+    value
+  }));
+}
@@ -0,0 +1,38 @@
+/**
+ * Offscreen document
+ * Parses HTML fetched by HTTP endpoint projects (DOMParser is not available in the service worker)
+ */
+
+import { readMatchedContent } from './elementContent';
+import { readFieldValues } from './fields';
+import { findElement, findElements } from './selector';
+import { MessageRequest, MessageResponse } from './types';
+
+chrome.runtime.onMessage.addListener((message: MessageRequest, _sender: chrome.runtime.MessageSender, sendResponse: (response: MessageResponse) => void) => {
+  // Other runtime messages are meant for the service worker
+  if (message.action !== 'parseHtml') {
+    return false;
+  }
+
+  try {
+    // Parsed documents are inert: scripts do not run and resources are not loaded
+    const doc = new DOMParser().parseFromString(message.html, 'text/html');
+    // A login form served in place of the monitored page means the session has expired
+    if (message.loginSelector && findElement(doc, message.loginSelector)) {
+      sendResponse({ success: false, error: 'Session expired', sessionExpired: 'loginIndicator' });
+      return false;
+    }
+    const elements = findElements(doc, message.selector, message.selectorType);
+    const matchMode = message.matchMode ?? 'first';
+    if ((matchMode === 'first' || matchMode === 'table') && elements.length === 0) {
+      sendResponse({ success: false, error: 'Element not found', notFound: true });
+    } else {
+      const result = readMatchedContent(elements, message.matchMode, message.contentSource, message.excludeSelector);
+      const fields = message.fields ? readFieldValues(doc, message.fields, message.selectorType) : undefined;
+      sendResponse({ success: true, content: result.content, items: result.items, table: result.table, fields });
+    }
+  } catch (error) {
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+  return false;
+});
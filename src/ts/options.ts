@@ -1,8 +1,8 @@
 import { initI18nForHTML, t } from './i18n';
 import { storageManager } from './storageManager';
-import { ExportData, Settings } from './types';
+import { CheckQueueStatus, ExportData, MessageResponse, Settings } from './types';
 
-import { DEFAULTS } from './constants';
+import { CHECK_QUEUE, DEFAULTS } from './constants';
 
 // Options page logic
 class OptionsManager {
@@ -14,7 +14,8 @@ class OptionsManager {
     webhookTimeout: 10,
     autoReload: true,
     soundNotification: false,
-    maxRetries: 3
+    maxRetries: 3,
+    maxConcurrentChecks: CHECK_QUEUE.DEFAULT_MAX_CONCURRENT
   };
 
   constructor() {
@@ -27,6 +28,10 @@ class OptionsManager {
     await this.loadStats();
     this.attachEventListeners();
     this.updateVariablesList();
+
+    // The queue changes with every check, keep its figures current while the page is open
+    await this.loadCheckQueue();
+    setInterval(() => this.loadCheckQueue(), CHECK_QUEUE.STATUS_REFRESH_MS);
   }
 
   private async loadSettings(): Promise<void> {
@@ -42,6 +47,7 @@ class OptionsManager {
     this.getElement<HTMLInputElement>('autoReload').checked = settings.autoReload;
     this.getElement<HTMLInputElement>('soundNotification').checked = settings.soundNotification;
     this.getElement<HTMLInputElement>('maxRetries').value = settings.maxRetries.toString();
+    this.getElement<HTMLInputElement>('maxConcurrentChecks').value = String(settings.maxConcurrentChecks ?? CHECK_QUEUE.DEFAULT_MAX_CONCURRENT);
   }
 
   private async loadStats(): Promise<void> {
@@ -52,6 +58,37 @@ class OptionsManager {
     this.getElement('pausedProjects').textContent = projects.filter(p => !p.active).length.toString();
   }
 
+  /**
+   * Shows the waiting and running checks of the background check queue
+   */
+  private async loadCheckQueue(): Promise<void> {
+    let queue: CheckQueueStatus;
+    try {
+      const response: MessageResponse = await chrome.runtime.sendMessage({ action: 'getCheckQueue' });
+      if (!response?.success) {
+        return;
+      }
+      queue = response.queue;
+    } catch (error) {
+      console.warn('Failed to load check queue:', error);
+      return;
+    }
+
+    const projects = await storageManager.getProjects();
+    const projectName = (projectId: string): string => projects.find(p => p.id === projectId)?.name ?? projectId;
+
+    this.getElement('queuedChecks').textContent = queue.queued.length.toString();
+    this.getElement('runningChecks').textContent = `${queue.running.length} / ${queue.maxConcurrent}`;
+    const details: string[] = [];
+    if (queue.running.length > 0) {
+      details.push(t('runningChecksList', [queue.running.map(projectName).join(', ')]));
+    }
+    if (queue.queued.length > 0) {
+      details.push(t('queuedChecksList', [queue.queued.map(check => projectName(check.projectId)).join(', ')]));
+    }
+    this.getElement('checkQueueDetails').textContent = details.join(' · ');
+  }
+
   private updateVariablesList(): void {
     const variablesList = this.getElement('variablesList');
     if (variablesList) {
@@ -61,7 +98,17 @@ class OptionsManager {
 {{selector}}       - ${t('variablesSelector')}
 {{oldContent}}     - ${t('variablesOldContent')}
 {{newContent}}     - ${t('variablesNewContent')}
-{{timestamp}}      - ${t('variablesTimestamp')}`;
+{{timestamp}}      - ${t('variablesTimestamp')}
+{{numericValue}}   - ${t('variablesNumericValue')}
+{{oldNumericValue}} - ${t('variablesOldNumericValue')}
+{{diff}}           - ${t('variablesDiff')}
+{{addedText}}      - ${t('variablesAddedText')}
+{{removedText}}    - ${t('variablesRemovedText')}
+{{tableDiff}}      - ${t('variablesTableDiff')}
+{{event}}          - ${t('variablesEvent')}
+{{field}}          - ${t('variablesField')}
+{{fieldChanges}}   - ${t('variablesFieldChanges')}
+{{fields.<name>}}  - ${t('variablesFields')}`;
     }
   }
 
@@ -74,7 +121,8 @@ class OptionsManager {
       webhookTimeout: parseInt(this.getElement<HTMLInputElement>('webhookTimeout').value),
       autoReload: this.getElement<HTMLInputElement>('autoReload').checked,
       soundNotification: this.getElement<HTMLInputElement>('soundNotification').checked,
-      maxRetries: parseInt(this.getElement<HTMLInputElement>('maxRetries').value)
+      maxRetries: parseInt(this.getElement<HTMLInputElement>('maxRetries').value),
+      maxConcurrentChecks: parseInt(this.getElement<HTMLInputElement>('maxConcurrentChecks').value)
     };
 
     await storageManager.setSettings(settings);
@@ -1,6 +1,16 @@
+import { ADAPTIVE_INTERVAL, DEFAULTS, LIMITS, NUMERIC_HISTORY, SCHEDULE, VISUAL } from './constants';
 import { initI18nForHTML, t } from './i18n';
 import { storageManager } from './storageManager';
-import { LogEntry, MessageResponse, Project } from './types';
+import { getEffectiveInterval } from './adaptiveInterval';
+import { getComparedBaseline } from './baseline';
+import { TABLE_CELL_SEPARATOR } from './elementContent';
+import { formatFieldLines, parseFieldLines } from './fields';
+import { isLiveProject } from './liveWatch';
+import { ChartPoint, downsampleNumericHistory, getNumericPointsSince, scaleNumericPoints, summarizeNumericHistory } from './numericHistory';
+import { formatActiveWindowLines, getUpcomingRunTimes, parseActiveWindowLines } from './schedule';
+import { describeTriggerRule } from './trigger';
+import { AdaptiveIntervalConfig, CheckPriority, ComparisonMode, FieldChange, FieldValues, HttpResponseFormat, ListDiff, LogEntry, MatchMode, MessageResponse, NumericPoint, NumericTriggerReason, Project, ReadinessMode, Schedule, ScheduleMode, SelectorType, SessionCheck, SessionExpiredReason, TableCellChange, TableDiff, TextDiffPart } from './types';
+import { validateAdaptiveInterval, validateConfirmChecks, validateJitter, validateJsonPath, validateProjectFields, validateSchedule, validateSelector, validateSessionCheck, validateUrl, ValidationErrorCode } from './validation';
 
 /**
  * Ensure content script is injected into a tab before sending messages
@@ -38,9 +48,23 @@ async function ensureContentScriptInjected(tabId: number): Promise<boolean> {
   }
 }
 
+// Time ranges of the numeric trend chart (locale key of the label, length in milliseconds or null for the whole history)
+const CHART_RANGES: ReadonlyArray<[string, number | null]> = [
+  ['chartRangeDay', 24 * 60 * 60 * 1000],
+  ['chartRangeWeek', 7 * 24 * 60 * 60 * 1000],
+  ['chartRangeMonth', 30 * 24 * 60 * 60 * 1000],
+  ['chartRangeAll', null]
+];
+
+// Size of the drawing area of the numeric trend chart (scaled to the dialog width)
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 120;
+
 // Monitor project management
 class ProjectManager {
   private projects: Project[] = [];
+  private numericHistories: Record<string, NumericPoint[]> = {};
+  private nextChecks: Record<string, number> = {};
 
   constructor() {
     this.init();
@@ -54,6 +78,14 @@ class ProjectManager {
 
   public async loadProjects(): Promise<void> {
     this.projects = await storageManager.getProjects();
+    const numericProjectIds = this.projects.filter(project => project.numeric?.enabled).map(project => project.id);
+    this.numericHistories = numericProjectIds.length > 0 ? await storageManager.getNumericHistories(numericProjectIds) : {};
+
+    // Next checks as armed by the background (jitter and schedules make them irregular)
+    const alarms = await chrome.alarms.getAll();
+    this.nextChecks = Object.fromEntries(alarms
+      .filter(alarm => alarm.name.startsWith('monitor_'))
+      .map(alarm => [alarm.name.slice('monitor_'.length), alarm.scheduledTime]));
   }
 
   private async saveProjects(): Promise<void> {
@@ -113,9 +145,29 @@ class ProjectManager {
           </div>
         </div>
         <div class="project-info">
-          <div>${t('page')}: ${this.escapeHtml(project.url)}</div>
-          <div>${t('selector')}: ${this.escapeHtml(project.selector)}</div>
-          <div>${t('refreshInterval')}: ${project.interval / 1000}${t('seconds')}</div>
+          <div>${project.type === 'http' ? t('endpointUrl') : t('page')}: ${this.escapeHtml(project.url)}</div>
+          <div>${project.type === 'http' && project.responseFormat !== 'html' ? t('jsonPath') : t('selector')}${project.selectorType === 'xpath' ? ` (${t('selectorTypeXpath')})` : ''}: ${this.escapeHtml(project.selector)}</div>
+          ${project.lastPresent === false ? `<div style="color: #FF9800;">${t('elementNotPresent')}</div>` : ''}
+          ${project.sessionExpired ? `<div style="color: #f44336; font-weight: bold;">${t('sessionExpired')}</div>` : ''}
+          ${project.matchMode && project.matchMode !== 'first' ? `<div>${t('matchMode')}: ${this.getMatchModeLabel(project.matchMode)}</div>` : ''}
+          ${project.readiness && project.readiness.mode !== 'delay' ? `<div>${t('readinessMode')}: ${this.getReadinessModeLabel(project.readiness.mode)}</div>` : ''}
+          ${project.steps?.length ? `<div>${t('interactionSteps')}: ${project.steps.length}</div>` : ''}
+          ${project.fields?.length ? `<div>${t('namedFields')}: ${project.fields.map(field => `${this.escapeHtml(field.name)} = ${this.escapeHtml(project.lastFields?.[field.name] ?? '–')}`).join(', ')}</div>` : ''}
+          ${project.contentSource && project.contentSource.type !== 'text' ? `<div>${t('contentSource')}: ${this.escapeHtml(this.getContentSourceLabel(project))}</div>` : ''}
+          ${project.extractRegex ? `<div>${t('extractRegex')}: <code>/${this.escapeHtml(project.extractRegex.pattern)}/${this.escapeHtml(project.extractRegex.flags || '')}</code></div>` : ''}
+          ${project.normalization ? `<div>${t('ignoreRulesSummary')}: ${this.escapeHtml(this.getIgnoreRulesSummary(project))}</div>` : ''}
+          ${project.trigger ? `<div>${t('triggerRule')}: ${this.escapeHtml(describeTriggerRule(project.trigger))}</div>` : ''}
+          ${project.numeric?.enabled ? `<div>${t('numericValue')}: ${project.lastNumericValue ?? '-'}${this.getNumericConditions(project)}</div>${this.renderSparkline(project)}` : ''}
+          ${project.visual?.enabled ? `<div>${t('visualMonitoring')}: ${t('visualThresholdSummary', [String(project.visual.threshold ?? VISUAL.DEFAULT_THRESHOLD_PERCENT)])}</div>` : ''}
+          <div>${project.schedule?.mode === 'cron' ? t('cronSummary', [this.escapeHtml(project.schedule.cron ?? '')]) : `${t('refreshInterval')}: ${project.interval / 1000}${t('seconds')}${project.jitter ? ` ±${project.jitter}%` : ''}`}</div>
+          ${project.adaptive?.enabled && project.schedule?.mode !== 'cron' ? `<div>${t('adaptiveIntervalSummary', [`${Math.round(getEffectiveInterval(project) / 1000)}${t('seconds')}`, `${Math.round(project.adaptive.maxInterval / 1000)}${t('seconds')}`])}</div>` : ''}
+          ${project.active && this.nextChecks[project.id] ? `<div>${t('nextCheck', [new Date(this.nextChecks[project.id] ?? 0).toLocaleString('zh-CN')])}</div>` : ''}
+          ${project.priority && project.priority !== 'normal' ? `<div>${t('checkPriority')}: ${t(project.priority === 'high' ? 'priorityHigh' : 'priorityLow')}</div>` : ''}
+          ${project.schedule?.windows?.length ? `<div>${t('activeWindowsSummary', [this.escapeHtml(formatActiveWindowLines(project.schedule.windows).split('\n').join('; '))])}</div>` : ''}
+          ${isLiveProject(project) ? `<div style="color: #2196F3;">${t('liveWatchSummary')}</div>` : ''}
+          ${project.baseline && getComparedBaseline(project) ? `<div>${t('baselinePinnedAt', [new Date(project.baseline.pinnedAt).toLocaleString('zh-CN')])}</div>` : ''}
+          ${project.confirmChecks && project.confirmChecks > 1 ? `<div>${t('confirmChecksSummary', [project.confirmChecks.toString()])}</div>` : ''}
+          ${project.pendingChange ? `<div style="color: #FF9800;">${t('changePending', [project.pendingChange.count.toString(), (project.confirmChecks ?? 1).toString()])}</div>` : ''}
           ${project.loadDelay ? `<div>${t('loadDelaySeconds')}: ${project.loadDelay / 1000}${t('seconds')}</div>` : ''}
           <div>${t('notificationMethod')}: ${this.getNotificationMethods(project)}</div>
         </div>
@@ -131,6 +183,16 @@ class ProjectManager {
     `).join('');
   }
 
+  // Trend of the numeric value on the project card
+  private renderSparkline(project: Project): string {
+    const history = downsampleNumericHistory(this.numericHistories[project.id] ?? [], NUMERIC_HISTORY.SPARKLINE_POINTS);
+    if (history.length < 2) return '';
+    const points = scaleNumericPoints(history, 200, 24).map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ');
+    return `<svg viewBox="0 -2 200 28" preserveAspectRatio="none" style="width: 100%; height: 28px; display: block; margin: 2px 0;">
+            <polyline points="${points}" fill="none" stroke="#2196F3" stroke-width="1.5" vector-effect="non-scaling-stroke"/>
+          </svg>`;
+  }
+
   private getNotificationMethods(project: Project): string {
     const methods: string[] = [];
     if (project.browserNotification) methods.push(t('browserNotification'));
@@ -141,6 +203,214 @@ class ProjectManager {
     return methods.length > 0 ? methods.join(', ') : t('none');
   }
 
+  private getMatchModeLabel(mode: MatchMode): string {
+    switch (mode) {
+      case 'all':
+        return t('matchModeAll');
+      case 'count':
+        return t('matchModeCount');
+      case 'table':
+        return t('matchModeTable');
+      default:
+        return t('matchModeFirst');
+    }
+  }
+
+  private getReadinessModeLabel(mode: ReadinessMode): string {
+    switch (mode) {
+      case 'element':
+        return t('readinessModeElement');
+      case 'content':
+        return t('readinessModeContent');
+      case 'settle':
+        return t('readinessModeSettle');
+      default:
+        return t('readinessModeDelay');
+    }
+  }
+
+  private getContentSourceLabel(project: Project): string {
+    const source = project.contentSource;
+    switch (source?.type) {
+      case 'innerHTML':
+        return t('contentSourceInnerHtml');
+      case 'outerHTML':
+        return t('contentSourceOuterHtml');
+      case 'attribute':
+        return `${t('contentSourceAttribute')} [${source.name || ''}]`;
+      case 'property':
+        return `${t('contentSourceProperty')} .${source.name || ''}`;
+      default:
+        return t('contentSourceText');
+    }
+  }
+
+  private getIgnoreRulesSummary(project: Project): string {
+    const normalization = project.normalization;
+    if (!normalization) return '';
+    const rules: string[] = [];
+    if (normalization.collapseWhitespace) rules.push(t('ignoreWhitespace'));
+    if (normalization.caseFold) rules.push(t('ignoreCase'));
+    if (normalization.stripDigits) rules.push(t('ignoreDigits'));
+    if (normalization.ignorePatterns?.length) rules.push(t('ignorePatternsCount', [normalization.ignorePatterns.length.toString()]));
+    if (normalization.excludeSelector) rules.push(normalization.excludeSelector);
+    return rules.join(', ');
+  }
+
+  private getNumericConditions(project: Project): string {
+    const numeric = project.numeric;
+    if (!numeric) return '';
+    const conditions: string[] = [];
+    if (numeric.below !== undefined) conditions.push(`< ${numeric.below}`);
+    if (numeric.above !== undefined) conditions.push(`> ${numeric.above}`);
+    if (numeric.percentChange !== undefined) conditions.push(`±${numeric.percentChange}%`);
+    return conditions.length > 0 ? ` (${conditions.join(', ')})` : '';
+  }
+
+  private renderNumericInfo(log: LogEntry): string {
+    if (log.numericValue === undefined) return '';
+    if (log.numericValue === null) {
+      return ` <span style="color: #FF9800;">${t('numericValueNone')}</span>`;
+    }
+    const triggerLabels: Record<NumericTriggerReason, string> = {
+      below: t('numericTriggerBelow'),
+      above: t('numericTriggerAbove'),
+      percent: t('numericTriggerPercent'),
+      change: t('numericTriggerChange')
+    };
+    const trigger = log.numericTrigger ? ` - <span style="color: #4CAF50;">${triggerLabels[log.numericTrigger]}</span>` : '';
+    return ` <span style="color: #333;">${t('numericValue')}: ${log.numericValue}</span>${trigger}`;
+  }
+
+  private renderVisualInfo(log: LogEntry): string {
+    if (log.visualError) {
+      return ` <span style="color: #FF9800;">${t('visualCaptureFailed', [this.escapeHtml(log.visualError)])}</span>`;
+    }
+    if (log.visualDifference === undefined) return '';
+    return ` <span style="color: #333;">${t('visualDifference')}: ${log.visualDifference.toFixed(1)}%</span>`;
+  }
+
+  private renderReadinessInfo(log: LogEntry): string {
+    if (log.waitedMs === undefined || (log.waitedMs === 0 && !log.readyTimedOut)) return '';
+    const seconds = (log.waitedMs / 1000).toFixed(1);
+    return log.readyTimedOut
+      ? ` <span style="color: #FF9800;">${t('readyTimedOut', [seconds])}</span>`
+      : ` <span style="color: #999;">${t('waitedSeconds', [seconds])}</span>`;
+  }
+
+  private renderFieldChanges(changes: FieldChange[]): string {
+    const value = (text: string | null): string => text === null ? `<i>${t('fieldNotFound')}</i>` : this.escapeHtml(text);
+    const rows = changes.map(change => `
+            <div style="margin-bottom: 2px;"><b>${this.escapeHtml(change.name)}</b>: <span style="background: #ffebee; text-decoration: line-through;">${value(change.from)}</span> → <span style="background: #e8f5e9;">${value(change.to)}</span></div>`).join('');
+    return `
+          <div style="margin-top: 8px;">
+            <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('fieldChanges')}:</div>
+            <div style="font-family: monospace; font-size: 13px; padding: 8px; background: white; border-radius: 4px; max-height: 150px; overflow: auto; word-break: break-all;">${rows}</div>
+          </div>`;
+  }
+
+  private renderFieldValues(values: FieldValues): string {
+    const rows = Object.entries(values).map(([name, value]) => `
+            <div><b>${this.escapeHtml(name)}</b>: ${value === null ? `<i>${t('fieldNotFound')}</i>` : this.escapeHtml(value)}</div>`).join('');
+    return `
+          <div style="font-size: 12px; color: #666; margin: 8px 0 4px;">${t('namedFields')}:</div>
+          <div style="font-family: monospace; font-size: 13px; padding: 8px; background: white; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${rows}</div>`;
+  }
+
+  private getSessionExpiredReasonLabel(reason: SessionExpiredReason): string {
+    return reason === 'urlMismatch' ? t('sessionExpiredUrlMismatch') : t('sessionExpiredLoginIndicator');
+  }
+
+  // Failed steps are listed in the tooltip
+  private renderStepsInfo(log: LogEntry): string {
+    if (!log.steps?.length) return '';
+    const failed = log.steps
+      .map((step, index) => ({ step, index }))
+      .filter(({ step }) => !step.success);
+    if (failed.length === 0) {
+      return ` <span style="color: #999;">${t('stepsSucceeded', [log.steps.length.toString()])}</span>`;
+    }
+    const details = failed
+      .map(({ step, index }) => `${index + 1}. ${step.type}${step.selector ? ` (${step.selector})` : ''}: ${step.error ?? ''}`)
+      .join('\n');
+    return ` <span style="color: #FF9800;" title="${this.escapeHtml(details).replace(/"/g, '&quot;')}">${t('stepsFailed', [failed.length.toString(), log.steps.length.toString()])}</span>`;
+  }
+
+  // New content not confirmed by enough consecutive checks yet
+  private renderPendingInfo(log: LogEntry): string {
+    if (!log.pendingConfirmation) return '';
+    const { count, required } = log.pendingConfirmation;
+    return ` <span style="color: #FF9800;">${t('changePending', [count.toString(), required.toString()])}</span>`;
+  }
+
+  // Checks started by a change seen in an open tab
+  private renderLiveInfo(log: LogEntry): string {
+    return log.live ? ` <span style="color: #2196F3;">${t('liveCheck')}</span>` : '';
+  }
+
+  private renderScreenshots(log: LogEntry): string {
+    const image = (title: string, src?: string): string => !src ? '' : `
+      <div style="flex: 1; min-width: 0;">
+        <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${title}:</div>
+        <img src="${this.escapeHtml(src)}" alt="${title}" style="max-width: 100%; border: 1px solid #ddd; border-radius: 4px; background: white;">
+      </div>`;
+    return `
+          <div style="display: flex; gap: 8px; margin-bottom: 8px;">${image(t('oldScreenshot'), log.oldScreenshot)}${image(t('newScreenshot'), log.screenshot)}</div>`;
+  }
+
+  private renderTriggerInfo(log: LogEntry): string {
+    if (!log.trigger) return '';
+    if (log.trigger.fired) {
+      return ` - <span style="color: #4CAF50;">${t('triggerFired')}</span>`;
+    }
+    return ` - <span style="color: #999;">${log.trigger.conditionMet ? t('triggerStillMet') : t('triggerNotMet')}</span>`;
+  }
+
+  private renderListDiff(listDiff: ListDiff): string {
+    const itemStyle = 'font-family: monospace; font-size: 13px; padding: 4px 8px; border-radius: 4px; margin-bottom: 4px; word-break: break-all;';
+    const preview = (item: string): string => this.escapeHtml(item.substring(0, 200)) + (item.length > 200 ? '...' : '');
+    const section = (title: string, rows: string[]): string => rows.length === 0 ? '' : `
+      <div style="margin-bottom: 8px;">
+        <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${title} (${rows.length}):</div>
+        ${rows.join('')}
+      </div>`;
+
+    return section(t('itemsAdded'), listDiff.added.map(item => `<div style="${itemStyle} background: #e8f5e9;">+ ${preview(item)}</div>`))
+      + section(t('itemsRemoved'), listDiff.removed.map(item => `<div style="${itemStyle} background: #ffebee;">- ${preview(item)}</div>`))
+      + section(t('itemsChanged'), listDiff.changed.map(({ from, to }) => `<div style="${itemStyle} background: #fff3e0;">${preview(from)} → ${preview(to)}</div>`));
+  }
+
+  private renderTableDiff(tableDiff: TableDiff): string {
+    const rowStyle = 'font-family: monospace; font-size: 13px; padding: 4px 8px; border-radius: 4px; margin-bottom: 4px; word-break: break-all;';
+    const preview = (text: string): string => this.escapeHtml(text.substring(0, 200)) + (text.length > 200 ? '...' : '');
+    const section = (title: string, rows: string[]): string => rows.length === 0 ? '' : `
+      <div style="margin-bottom: 8px;">
+        <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${title} (${rows.length}):</div>
+        ${rows.join('')}
+      </div>`;
+    const cellChange = (cell: TableCellChange): string =>
+      `<div>${this.escapeHtml(cell.header || t('tableColumn', [(cell.column + 1).toString()]))}: ${preview(cell.from)} → ${preview(cell.to)}</div>`;
+
+    return section(t('rowsAdded'), tableDiff.added.map(row => `<div style="${rowStyle} background: #e8f5e9;">+ ${preview(row.join(TABLE_CELL_SEPARATOR))}</div>`))
+      + section(t('rowsRemoved'), tableDiff.removed.map(row => `<div style="${rowStyle} background: #ffebee;">- ${preview(row.join(TABLE_CELL_SEPARATOR))}</div>`))
+      + section(t('rowsModified'), tableDiff.modified.map(({ key, cells }) =>
+        `<div style="${rowStyle} background: #fff3e0;"><div style="font-weight: bold;">${preview(key)}</div>${cells.map(cellChange).join('')}</div>`));
+  }
+
+  private renderTextDiff(parts: TextDiffPart[]): string {
+    return parts.map(part => {
+      const text = this.escapeHtml(part.text);
+      switch (part.type) {
+        case 'added':
+          return `<span style="background: #c8e6c9; color: #1b5e20;">${text}</span>`;
+        case 'removed':
+          return `<span style="background: #ffcdd2; color: #b71c1c; text-decoration: line-through;">${text}</span>`;
+        default:
+          return text;
+      }
+    }).join('');
+  }
+
   private escapeHtml(text: string): string {
     const div = document.createElement('div');
     div.textContent = text;
@@ -186,6 +456,12 @@ class ProjectManager {
     const project = this.projects.find(p => p.id === projectId);
     if (!project) return;
 
+    // Endpoint projects have no page to pick from, they are edited in the popup
+    if (project.type === 'http') {
+      this.displayEndpointDialog(project);
+      return;
+    }
+
     // Get tab corresponding to project
     const tabs = await chrome.tabs.query({ url: project.url });
     let targetTab: chrome.tabs.Tab | undefined = tabs.length > 0 ? tabs[0] : undefined;
@@ -245,6 +521,399 @@ class ProjectManager {
     window.close();
   }
 
+  /**
+   * Shows the dialog for creating or editing an HTTP endpoint project
+   * @param existingProject - Project to edit (omit to create a new one)
+   */
+  public displayEndpointDialog(existingProject?: Project): void {
+    const format: HttpResponseFormat = existingProject?.responseFormat ?? 'json';
+    const selectorType: SelectorType = existingProject?.selectorType ?? 'css';
+    const matchMode: MatchMode = existingProject?.matchMode ?? 'first';
+    const scheduleMode: ScheduleMode = existingProject?.schedule?.mode ?? 'interval';
+    const priority: CheckPriority = existingProject?.priority ?? 'normal';
+    const inputStyle = 'width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px; margin-bottom: 8px;';
+    const labelStyle = 'display: block; font-size: 12px; color: #666; margin-bottom: 4px;';
+    const option = (value: string, label: string, selected: string): string =>
+      `<option value="${value}" ${value === selected ? 'selected' : ''}>${label}</option>`;
+
+    const dialog = document.createElement('div');
+    dialog.innerHTML = `
+      <div style="position: fixed; top: 0; left: 0; right: 0; bottom: 0; background: rgba(0,0,0,0.5); z-index: 999999; display: flex; align-items: center; justify-content: center;">
+        <div style="background: white; width: 90%; max-height: 90vh; overflow-y: auto; border-radius: 8px; padding: 16px; box-shadow: 0 4px 20px rgba(0,0,0,0.3);">
+          <h2 style="margin: 0 0 12px; font-size: 16px;">${t('endpointDialogTitle')}</h2>
+          <label style="${labelStyle}">${t('projectName')}:</label>
+          <input type="text" id="endpointName" value="${this.escapeHtml(existingProject?.name ?? '')}" placeholder="${t('projectNamePlaceholder')}" style="${inputStyle}">
+          <label style="${labelStyle}">${t('endpointUrl')}:</label>
+          <input type="text" id="endpointUrl" value="${this.escapeHtml(existingProject?.url ?? '')}" placeholder="https://api.example.com/status.json" style="${inputStyle}" ${existingProject ? 'disabled' : ''}>
+          <label style="${labelStyle}">${t('endpointFormat')}:</label>
+          <select id="endpointFormat" style="${inputStyle}">
+            ${option('json', t('endpointFormatJson'), format)}
+            ${option('html', t('endpointFormatHtml'), format)}
+          </select>
+          <label id="endpointSelectorLabel" style="${labelStyle}"></label>
+          <div style="display: flex; gap: 8px;">
+            <input type="text" id="endpointSelector" value="${this.escapeHtml(existingProject?.selector ?? '')}" style="${inputStyle} font-family: monospace; flex: 1;">
+            <select id="endpointSelectorType" style="${inputStyle} width: auto;">
+              ${option('css', t('selectorTypeCss'), selectorType)}
+              ${option('xpath', t('selectorTypeXpath'), selectorType)}
+            </select>
+          </div>
+          <label style="${labelStyle}">${t('matchMode')}:</label>
+          <select id="endpointMatchMode" style="${inputStyle}">
+            ${option('first', t('matchModeFirst'), matchMode)}
+            ${option('all', t('matchModeAll'), matchMode)}
+            ${option('count', t('matchModeCount'), matchMode)}
+          </select>
+          <label style="${labelStyle}">${t('namedFields')}:</label>
+          <textarea id="endpointFields" rows="2" placeholder="${t('endpointFieldsPlaceholder')}" style="${inputStyle} font-family: monospace; resize: vertical;">${this.escapeHtml(formatFieldLines(existingProject?.fields ?? []))}</textarea>
+          <label style="${labelStyle}">${t('scheduleMode')}:</label>
+          <select id="endpointScheduleMode" style="${inputStyle}">
+            ${option('interval', t('scheduleModeInterval'), scheduleMode)}
+            ${option('cron', t('scheduleModeCron'), scheduleMode)}
+          </select>
+          <div id="endpointIntervalArea">
+            <label style="${labelStyle}">${t('intervalSeconds')}:</label>
+            <input type="number" id="endpointInterval" value="${existingProject ? existingProject.interval / 1000 : DEFAULTS.INTERVAL_SECONDS}" min="${LIMITS.MIN_INTERVAL_SECONDS}" style="${inputStyle}">
+            <label style="${labelStyle}">${t('jitter')}:</label>
+            <input type="number" id="endpointJitter" value="${existingProject?.jitter ?? 0}" min="0" max="${LIMITS.MAX_JITTER_PERCENT}" step="1" title="${t('jitterHint')}" style="${inputStyle}">
+            <label style="display: flex; align-items: center; font-size: 13px; color: #666; margin-bottom: 8px;" title="${t('adaptiveIntervalHint')}">
+              <input type="checkbox" id="endpointAdaptive" ${existingProject?.adaptive?.enabled ? 'checked' : ''} style="margin-right: 6px;">
+              ${t('adaptiveInterval')}
+            </label>
+            <div id="endpointAdaptiveConfig" style="display: flex; gap: 8px;">
+              <div style="flex: 1;">
+                <label style="${labelStyle}">${t('adaptiveMinMinutes')}:</label>
+                <input type="number" id="endpointAdaptiveMin" value="${existingProject?.adaptive?.minInterval !== undefined ? existingProject.adaptive.minInterval / 60000 : ''}" placeholder="${t('adaptiveMinPlaceholder')}" min="1" max="${LIMITS.MAX_INTERVAL_MS / 60000}" step="any" style="${inputStyle}">
+              </div>
+              <div style="flex: 1;">
+                <label style="${labelStyle}">${t('adaptiveMaxMinutes')}:</label>
+                <input type="number" id="endpointAdaptiveMax" value="${(existingProject?.adaptive?.maxInterval ?? ADAPTIVE_INTERVAL.DEFAULT_MAX_INTERVAL_MS) / 60000}" min="1" max="${LIMITS.MAX_INTERVAL_MS / 60000}" step="any" style="${inputStyle}">
+              </div>
+              <div style="flex: 1;">
+                <label style="${labelStyle}">${t('adaptiveBackoffFactor')}:</label>
+                <input type="number" id="endpointAdaptiveBackoff" value="${existingProject?.adaptive?.backoffFactor ?? ADAPTIVE_INTERVAL.DEFAULT_BACKOFF_FACTOR}" min="1.1" max="${ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR}" step="0.1" style="${inputStyle}">
+              </div>
+            </div>
+          </div>
+          <div id="endpointCronArea">
+            <label style="${labelStyle}">${t('cronExpression')}:</label>
+            <input type="text" id="endpointCron" value="${this.escapeHtml(existingProject?.schedule?.cron ?? '')}" placeholder="*/5 9-17 * * Mon-Fri" maxlength="${LIMITS.MAX_CRON_LENGTH}" title="${t('cronExpressionHint')}" style="${inputStyle} font-family: monospace;">
+          </div>
+          <label style="${labelStyle}">${t('activeWindows')}:</label>
+          <textarea id="endpointActiveWindows" rows="2" placeholder="Mon-Fri 09:00-18:00" title="${t('activeWindowsHint')}" style="${inputStyle} font-family: monospace; resize: vertical;">${this.escapeHtml(formatActiveWindowLines(existingProject?.schedule?.windows ?? []))}</textarea>
+          <div id="endpointSchedulePreview" style="font-size: 12px; margin-bottom: 8px; white-space: pre-line;"></div>
+          <label style="${labelStyle}">${t('checkPriority')}:</label>
+          <select id="endpointPriority" title="${t('checkPriorityHint')}" style="${inputStyle}">
+            ${option('high', t('priorityHigh'), priority)}
+            ${option('normal', t('priorityNormal'), priority)}
+            ${option('low', t('priorityLow'), priority)}
+          </select>
+          <label style="${labelStyle}">${t('confirmChecks')}:</label>
+          <input type="number" id="endpointConfirmChecks" value="${existingProject?.confirmChecks ?? 1}" min="1" max="${LIMITS.MAX_CONFIRM_CHECKS}" step="1" title="${t('confirmChecksHint')}" style="${inputStyle}">
+          <label style="display: flex; align-items: center; font-size: 13px; color: #666; margin-bottom: 8px;">
+            <input type="checkbox" id="endpointBrowserNotification" ${existingProject?.browserNotification === false ? '' : 'checked'} style="margin-right: 6px;">
+            ${t('enableBrowserNotification')}
+          </label>
+          <label style="${labelStyle}">${t('webhookUrl')}:</label>
+          <input type="text" id="endpointWebhookUrl" value="${this.escapeHtml(existingProject?.webhook?.enabled ? existingProject.webhook.url ?? '' : '')}" placeholder="${t('webhookUrlPlaceholder')}" style="${inputStyle}">
+          <label style="${labelStyle}">${t('sessionUrlPattern')}:</label>
+          <input type="text" id="endpointSessionUrl" value="${this.escapeHtml(existingProject?.sessionCheck?.urlPattern ?? '')}" placeholder="https://api.example.com/*" style="${inputStyle}">
+          <div id="endpointLoginSelectorArea">
+            <label style="${labelStyle}">${t('loginIndicatorSelector')}:</label>
+            <input type="text" id="endpointLoginSelector" value="${this.escapeHtml(existingProject?.sessionCheck?.loginSelector ?? '')}" placeholder="form#login" style="${inputStyle} font-family: monospace;">
+          </div>
+          <div style="font-size: 12px; color: #999; margin-bottom: 8px;">${t('sessionCheckHint')}</div>
+          <div style="font-size: 12px; color: #999; margin-bottom: 8px;">${t('endpointHint')}</div>
+          <div id="endpointPreview" style="display: none; font-family: monospace; font-size: 12px; padding: 8px; background: #f5f5f5; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all; margin-bottom: 8px;"></div>
+          <div style="display: flex; justify-content: flex-end; gap: 8px;">
+            <button id="endpointPreviewBtn" class="btn-small" style="background: #9C27B0; color: white;">${t('preview')}</button>
+            <button id="endpointCancelBtn" class="btn-small" style="background: #999; color: white;">${t('cancel')}</button>
+            <button id="endpointSaveBtn" class="btn-small btn-primary">${t('save')}</button>
+          </div>
+        </div>
+      </div>
+    `;
+    document.body.appendChild(dialog);
+
+    const nameInput = dialog.querySelector<HTMLInputElement>('#endpointName');
+    const urlInput = dialog.querySelector<HTMLInputElement>('#endpointUrl');
+    const formatSelect = dialog.querySelector<HTMLSelectElement>('#endpointFormat');
+    const selectorLabel = dialog.querySelector<HTMLElement>('#endpointSelectorLabel');
+    const selectorInput = dialog.querySelector<HTMLInputElement>('#endpointSelector');
+    const selectorTypeSelect = dialog.querySelector<HTMLSelectElement>('#endpointSelectorType');
+    const matchModeSelect = dialog.querySelector<HTMLSelectElement>('#endpointMatchMode');
+    const fieldsTextarea = dialog.querySelector<HTMLTextAreaElement>('#endpointFields');
+    const scheduleModeSelect = dialog.querySelector<HTMLSelectElement>('#endpointScheduleMode');
+    const intervalArea = dialog.querySelector<HTMLElement>('#endpointIntervalArea');
+    const intervalInput = dialog.querySelector<HTMLInputElement>('#endpointInterval');
+    const jitterInput = dialog.querySelector<HTMLInputElement>('#endpointJitter');
+    const adaptiveCheckbox = dialog.querySelector<HTMLInputElement>('#endpointAdaptive');
+    const adaptiveConfigArea = dialog.querySelector<HTMLElement>('#endpointAdaptiveConfig');
+    const adaptiveMinInput = dialog.querySelector<HTMLInputElement>('#endpointAdaptiveMin');
+    const adaptiveMaxInput = dialog.querySelector<HTMLInputElement>('#endpointAdaptiveMax');
+    const adaptiveBackoffInput = dialog.querySelector<HTMLInputElement>('#endpointAdaptiveBackoff');
+    const cronArea = dialog.querySelector<HTMLElement>('#endpointCronArea');
+    const cronInput = dialog.querySelector<HTMLInputElement>('#endpointCron');
+    const activeWindowsTextarea = dialog.querySelector<HTMLTextAreaElement>('#endpointActiveWindows');
+    const schedulePreview = dialog.querySelector<HTMLElement>('#endpointSchedulePreview');
+    const prioritySelect = dialog.querySelector<HTMLSelectElement>('#endpointPriority');
+    const confirmChecksInput = dialog.querySelector<HTMLInputElement>('#endpointConfirmChecks');
+    const browserNotificationCheckbox = dialog.querySelector<HTMLInputElement>('#endpointBrowserNotification');
+    const webhookUrlInput = dialog.querySelector<HTMLInputElement>('#endpointWebhookUrl');
+    const sessionUrlInput = dialog.querySelector<HTMLInputElement>('#endpointSessionUrl');
+    const loginSelectorArea = dialog.querySelector<HTMLElement>('#endpointLoginSelectorArea');
+    const loginSelectorInput = dialog.querySelector<HTMLInputElement>('#endpointLoginSelector');
+    const preview = dialog.querySelector<HTMLElement>('#endpointPreview');
+    const previewBtn = dialog.querySelector<HTMLButtonElement>('#endpointPreviewBtn');
+    const cancelBtn = dialog.querySelector<HTMLButtonElement>('#endpointCancelBtn');
+    const saveBtn = dialog.querySelector<HTMLButtonElement>('#endpointSaveBtn');
+
+    if (!nameInput || !urlInput || !formatSelect || !selectorLabel || !selectorInput || !selectorTypeSelect || !matchModeSelect || !fieldsTextarea
+      || !scheduleModeSelect || !intervalArea || !intervalInput || !jitterInput || !adaptiveCheckbox || !adaptiveConfigArea || !adaptiveMinInput || !adaptiveMaxInput || !adaptiveBackoffInput || !cronArea || !cronInput || !activeWindowsTextarea || !schedulePreview || !prioritySelect || !confirmChecksInput || !browserNotificationCheckbox || !webhookUrlInput || !sessionUrlInput || !loginSelectorArea || !loginSelectorInput || !preview || !previewBtn || !cancelBtn || !saveBtn) {
+      console.error('Failed to find endpoint dialog elements');
+      dialog.remove();
+      return;
+    }
+
+    // JSON responses are read with a path, HTML responses with a CSS selector or XPath expression
+    const refreshFormat = (): void => {
+      const isJson = formatSelect.value === 'json';
+      selectorLabel.textContent = `${isJson ? t('jsonPath') : t('selector')}:`;
+      selectorInput.placeholder = isJson ? t('jsonPathPlaceholder') : '.price';
+      selectorTypeSelect.style.display = isJson ? 'none' : 'block';
+      // Login pages can only be recognized by an element in HTML responses
+      loginSelectorArea.style.display = isJson ? 'none' : 'block';
+    };
+    formatSelect.addEventListener('change', refreshFormat);
+    refreshFormat();
+
+    // A cron expression replaces the interval, the preview lists the next runs
+    const readSchedule = (): Schedule | null => {
+      const windows = parseActiveWindowLines(activeWindowsTextarea.value);
+      if (!windows) return null;
+      const mode = scheduleModeSelect.value as ScheduleMode;
+      return { mode, cron: mode === 'cron' ? cronInput.value.trim() : undefined, windows: windows.length > 0 ? windows : undefined };
+    };
+    const refreshSchedule = (): void => {
+      const isCron = scheduleModeSelect.value === 'cron';
+      intervalArea.style.display = isCron ? 'none' : 'block';
+      cronArea.style.display = isCron ? 'block' : 'none';
+
+      const schedule = readSchedule();
+      const validation = schedule ? validateSchedule(schedule) : { valid: false, error: t('activeWindowsInvalid') };
+      if (!schedule || !validation.valid) {
+        schedulePreview.style.color = '#FF9800';
+        schedulePreview.textContent = t('scheduleInvalid', [validation.error ?? '']);
+        return;
+      }
+      const intervalSeconds = Number(intervalInput.value);
+      const interval = intervalSeconds >= LIMITS.MIN_INTERVAL_SECONDS ? intervalSeconds * 1000 : DEFAULTS.INTERVAL_MS;
+      const runs = getUpcomingRunTimes(schedule, interval, Date.now(), SCHEDULE.PREVIEW_RUNS);
+      schedulePreview.style.color = '#666';
+      schedulePreview.textContent = [`${t('nextRuns')}:`, ...runs.map(run => new Date(run).toLocaleString('zh-CN'))].join('\n');
+    };
+    const refreshAdaptive = (): void => {
+      adaptiveConfigArea.style.display = adaptiveCheckbox.checked ? 'flex' : 'none';
+    };
+    adaptiveCheckbox.addEventListener('change', refreshAdaptive);
+    refreshAdaptive();
+    scheduleModeSelect.addEventListener('change', refreshSchedule);
+    intervalInput.addEventListener('input', refreshSchedule);
+    cronInput.addEventListener('input', refreshSchedule);
+    activeWindowsTextarea.addEventListener('input', refreshSchedule);
+    refreshSchedule();
+
+    const readSettings = () => ({
+      url: urlInput.value.trim(),
+      responseFormat: formatSelect.value as HttpResponseFormat,
+      selector: selectorInput.value.trim(),
+      selectorType: selectorTypeSelect.value as SelectorType,
+      matchMode: matchModeSelect.value as MatchMode
+    });
+
+    // Validates URL and selector, and requests access to the host (needs the click's user gesture)
+    const prepare = async (): Promise<ReturnType<typeof readSettings> | null> => {
+      const settings = readSettings();
+      if (!validateUrl(settings.url).valid) {
+        alert(t('invalidUrlFormat'));
+        urlInput.focus();
+        return null;
+      }
+      const selectorValidation = settings.responseFormat === 'json' ? validateJsonPath(settings.selector) : validateSelector(settings.selector, settings.selectorType);
+      if (!selectorValidation.valid) {
+        switch (selectorValidation.errorCode) {
+          case ValidationErrorCode.SELECTOR_EMPTY:
+            alert(t('selectorRequired'));
+            break;
+          case ValidationErrorCode.SELECTOR_TOO_LONG:
+            alert(t('selectorTooLong', [LIMITS.MAX_SELECTOR_LENGTH.toString()]));
+            break;
+          case ValidationErrorCode.JSON_PATH_INVALID:
+            alert(t('jsonPathInvalid'));
+            break;
+          default:
+            alert(t(settings.selectorType === 'xpath' ? 'xpathInvalidSyntax' : 'selectorInvalidSyntax'));
+        }
+        selectorInput.focus();
+        return null;
+      }
+
+      const url = new URL(settings.url);
+      const granted = await chrome.permissions.request({ origins: [`${url.protocol}//${url.host}/*`] });
+      if (!granted) {
+        alert(t('hostPermissionDenied', [url.host]));
+        return null;
+      }
+      return settings;
+    };
+
+    previewBtn.addEventListener('click', async () => {
+      const settings = await prepare();
+      if (!settings) return;
+
+      preview.style.display = 'block';
+      preview.textContent = t('sending');
+      const response: MessageResponse = await chrome.runtime.sendMessage({ action: 'previewEndpoint', ...settings });
+      if (response?.success) {
+        preview.style.color = '#333';
+        preview.textContent = settings.matchMode === 'count' ? t('matchCountPreview', [response.content]) : response.content;
+      } else {
+        preview.style.color = '#f44336';
+        preview.textContent = t('previewFailed', [response?.error ?? t('unknownError')]);
+      }
+    });
+
+    cancelBtn.addEventListener('click', () => dialog.remove());
+
+    saveBtn.addEventListener('click', async () => {
+      const isCron = scheduleModeSelect.value === 'cron';
+      let intervalSeconds = Number(intervalInput.value);
+      if (!Number.isFinite(intervalSeconds) || intervalSeconds < LIMITS.MIN_INTERVAL_SECONDS) {
+        // The interval is hidden and unused with a cron expression
+        if (!isCron) {
+          alert(t('intervalTooSmall', [LIMITS.MIN_INTERVAL_SECONDS.toString()]));
+          intervalInput.focus();
+          return;
+        }
+        intervalSeconds = DEFAULTS.INTERVAL_SECONDS;
+      }
+      const jitter = isCron ? 0 : Number(jitterInput.value);
+      if (!validateJitter(jitter).valid) {
+        alert(t('jitterInvalid', [LIMITS.MAX_JITTER_PERCENT.toString()]));
+        jitterInput.focus();
+        return;
+      }
+      const adaptive: AdaptiveIntervalConfig | undefined = adaptiveCheckbox.checked && !isCron
+        ? {
+          enabled: true,
+          minInterval: adaptiveMinInput.value ? Math.round(Number(adaptiveMinInput.value) * 60000) : undefined,
+          maxInterval: Math.round(Number(adaptiveMaxInput.value) * 60000),
+          backoffFactor: Number(adaptiveBackoffInput.value)
+        }
+        : undefined;
+      const adaptiveValidation = adaptive ? validateAdaptiveInterval(adaptive, intervalSeconds * 1000) : { valid: true };
+      if (!adaptiveValidation.valid) {
+        if (adaptiveValidation.errorCode === ValidationErrorCode.ADAPTIVE_BACKOFF_INVALID) {
+          alert(t('adaptiveBackoffInvalid', [ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR.toString()]));
+          adaptiveBackoffInput.focus();
+        } else if (adaptiveValidation.errorCode === ValidationErrorCode.ADAPTIVE_MIN_INTERVAL_INVALID) {
+          alert(t('adaptiveMinIntervalInvalid'));
+          adaptiveMinInput.focus();
+        } else {
+          alert(t('adaptiveMaxIntervalInvalid'));
+          adaptiveMaxInput.focus();
+        }
+        return;
+      }
+      const schedule = readSchedule();
+      if (!schedule) {
+        alert(t('activeWindowsInvalid'));
+        activeWindowsTextarea.focus();
+        return;
+      }
+      const scheduleValidation = validateSchedule(schedule);
+      if (!scheduleValidation.valid) {
+        alert(t('scheduleInvalid', [scheduleValidation.error ?? '']));
+        (scheduleValidation.errorCode === ValidationErrorCode.CRON_INVALID || scheduleValidation.errorCode === ValidationErrorCode.SCHEDULE_NEVER_RUNS ? cronInput : activeWindowsTextarea).focus();
+        return;
+      }
+      const confirmChecks = Number(confirmChecksInput.value);
+      if (!validateConfirmChecks(confirmChecks).valid) {
+        alert(t('confirmChecksInvalid', [LIMITS.MAX_CONFIRM_CHECKS.toString()]));
+        confirmChecksInput.focus();
+        return;
+      }
+      const sessionCheck: SessionCheck = {
+        urlPattern: sessionUrlInput.value.trim() || undefined,
+        loginSelector: formatSelect.value === 'html' ? loginSelectorInput.value.trim() || undefined : undefined
+      };
+      const sessionCheckValidation = validateSessionCheck(sessionCheck);
+      if (!sessionCheckValidation.valid) {
+        alert(t(sessionCheckValidation.errorCode === ValidationErrorCode.SESSION_URL_PATTERN_INVALID ? 'sessionUrlPatternInvalid' : 'loginIndicatorSelectorInvalid'));
+        (sessionCheckValidation.errorCode === ValidationErrorCode.SESSION_URL_PATTERN_INVALID ? sessionUrlInput : loginSelectorInput).focus();
+        return;
+      }
+      // Content source and regex extraction set up on the page are kept for fields that keep their name
+      const fields = parseFieldLines(fieldsTextarea.value).map(field => {
+        const existing = existingProject?.fields?.find(old => old.name === field.name);
+        return { ...field, contentSource: existing?.contentSource, extractRegex: existing?.extractRegex };
+      });
+      const fieldsValidation = validateProjectFields(fields, formatSelect.value === 'json', selectorTypeSelect.value as SelectorType);
+      if (!fieldsValidation.valid) {
+        alert(t('namedFieldsInvalid', [fieldsValidation.error ?? '']));
+        fieldsTextarea.focus();
+        return;
+      }
+      const settings = await prepare();
+      if (!settings) return;
+
+      // Keep the stored baseline when the reading settings are unchanged
+      const sameReading = existingProject
+        && existingProject.responseFormat === settings.responseFormat
+        && existingProject.selector === settings.selector
+        && (existingProject.selectorType ?? 'css') === settings.selectorType
+        && (existingProject.matchMode ?? 'first') === settings.matchMode;
+
+      // Fields keep their baseline unless their path, the selector type or the response format changed
+      const keptFieldValues = existingProject?.lastFields && existingProject.responseFormat === settings.responseFormat
+        && (existingProject.selectorType ?? 'css') === settings.selectorType
+        ? Object.fromEntries(Object.entries(existingProject.lastFields).filter(([name]) =>
+          fields.some(field => field.name === name && existingProject.fields?.some(old => old.name === name && old.selector === field.selector))))
+        : undefined;
+
+      const webhookUrl = webhookUrlInput.value.trim();
+      const response: MessageResponse = await chrome.runtime.sendMessage({
+        // Settings this dialog does not show (content source, ignore rules, triggers...) are kept
+        ...existingProject,
+        action: existingProject ? 'updateProject' : 'elementSelected',
+        projectId: existingProject?.id,
+        name: nameInput.value.trim() || `${t('monitorPrefix')}${new URL(settings.url).host}`,
+        type: 'http',
+        ...settings,
+        interval: intervalSeconds * 1000,
+        schedule,
+        jitter,
+        priority: prioritySelect.value as CheckPriority,
+        adaptive,
+        confirmChecks,
+        browserNotification: browserNotificationCheckbox.checked,
+        // Method, headers and body of an existing webhook are kept
+        webhook: webhookUrl ? { ...existingProject?.webhook, enabled: true, url: webhookUrl } : { enabled: false },
+        sessionCheck: sessionCheck,
+        fields: fields,
+        initialFields: keptFieldValues,
+        initialContent: sameReading ? existingProject?.lastContent : undefined,
+        initialItems: sameReading ? existingProject?.lastItems : undefined
+      });
+
+      if (response?.success) {
+        dialog.remove();
+      } else {
+        alert(t('saveFailed', [response?.error ?? t('unknownError')]));
+      }
+    });
+  }
+
   private async showProjectLogs(projectId: string): Promise<void> {
     const project = this.projects.find(p => p.id === projectId);
     if (!project) return;
@@ -275,6 +944,17 @@ class ProjectManager {
               <button id="closeLogsBtn" style="padding: 4px 10px; background: #f44336; color: white; border: none; border-radius: 4px; cursor: pointer; font-size: 12px; white-space: nowrap;">${t('close')}</button>
             </div>
           </div>
+          <div id="baselineBar" style="padding: 8px 16px; border-bottom: 1px solid #ddd; background: #fafafa; font-size: 12px; color: #666; display: flex; justify-content: space-between; align-items: center; gap: 8px;">${this.renderBaselineBar(project)}</div>
+          ${project.numeric?.enabled ? `
+          <div id="numericChart" style="padding: 8px 16px; border-bottom: 1px solid #ddd;">
+            <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 4px;">
+              <span style="font-size: 12px; color: #666;">${t('numericTrend')}</span>
+              <div style="display: flex; gap: 4px;">
+                ${CHART_RANGES.map(([labelKey, range]) => `<button data-range="${range ?? 'all'}" style="padding: 2px 8px; font-size: 11px; border: 1px solid #2196F3; border-radius: 3px; cursor: pointer;">${t(labelKey)}</button>`).join('')}
+              </div>
+            </div>
+            <div id="numericChartBody"></div>
+          </div>` : ''}
           <div id="logsContent" style="flex: 1; overflow-y: auto; padding: 16px;">
             ${logs.length === 0 ? `<div style="text-align: center; color: #999; padding: 40px;">${t('noLogs')}</div>` : this.renderLogs(logs)}
           </div>
@@ -285,16 +965,44 @@ class ProjectManager {
     document.body.appendChild(dialog);
 
     const logsContent = dialog.querySelector<HTMLElement>('#logsContent');
-    if (!logsContent) {
+    const baselineBar = dialog.querySelector<HTMLElement>('#baselineBar');
+    if (!logsContent || !baselineBar) {
       console.error('Failed to find logs content element');
       return;
     }
 
+    const numericChart = dialog.querySelector<HTMLElement>('#numericChart');
+    const reloadNumericChart = numericChart ? this.setupNumericChart(numericChart, projectId) : null;
+
+    baselineBar.addEventListener('click', (e: Event) => {
+      const button = (e.target as HTMLElement).closest('button');
+      if (button?.id === 'pinBaselineBtn') {
+        this.updateBaseline('pinBaseline', projectId, baselineBar);
+      } else if (button?.id === 'unpinBaselineBtn') {
+        this.updateBaseline('unpinBaseline', projectId, baselineBar);
+      }
+    });
+    baselineBar.addEventListener('change', (e: Event) => {
+      const select = e.target as HTMLSelectElement;
+      if (select.id === 'comparisonModeSelect') {
+        this.updateBaseline('setComparisonMode', projectId, baselineBar, { comparisonMode: select.value as ComparisonMode });
+      }
+    });
+
     // Track number of logs displayed
     let displayedLogsCount = logs.length;
 
     // Use event delegation for expand/collapse - avoid duplicate bindings
     logsContent.addEventListener('click', (e: Event) => {
+      // Revert the baseline to the content of a log entry
+      const useAsBaselineBtn = (e.target as HTMLElement).closest<HTMLButtonElement>('.use-baseline-btn');
+      if (useAsBaselineBtn) {
+        if (confirm(t('confirmUseAsBaseline'))) {
+          this.updateBaseline('pinBaseline', projectId, baselineBar, { logTimestamp: useAsBaselineBtn.dataset.timestamp });
+        }
+        return;
+      }
+
       const toggle = (e.target as HTMLElement).closest('.log-toggle') as HTMLElement;
       if (toggle) {
         const targetId = toggle.dataset.target;
@@ -364,6 +1072,9 @@ class ProjectManager {
           // Update number of logs displayed
           displayedLogsCount = newLogs.length;
 
+          // New checks may have recorded numeric values
+          reloadNumericChart?.();
+
           // If was at bottom, scroll to bottom
           if (isAtBottom) {
             logsContent.scrollTop = logsContent.scrollHeight;
@@ -443,6 +1154,128 @@ class ProjectManager {
     }
   }
 
+  /**
+   * Shows the numeric trend chart of the log dialog, with time range buttons and the value under the mouse
+   * @returns Function that reloads the history and redraws the chart
+   */
+  private setupNumericChart(chart: HTMLElement, projectId: string): () => Promise<void> {
+    const body = chart.querySelector<HTMLElement>('#numericChartBody');
+    let history: NumericPoint[] = [];
+    let range: number | null = CHART_RANGES[1]?.[1] ?? null;
+    let chartPoints: ChartPoint[] = [];
+    const format = (value: number): string => value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+    const draw = (): void => {
+      if (!body) return;
+      chart.querySelectorAll<HTMLButtonElement>('button[data-range]').forEach(button => {
+        const selected = button.dataset.range === String(range ?? 'all');
+        button.style.background = selected ? '#2196F3' : 'white';
+        button.style.color = selected ? 'white' : '#2196F3';
+      });
+
+      const points = range === null ? history : getNumericPointsSince(history, Date.now() - range);
+      const summary = summarizeNumericHistory(points);
+      if (!summary) {
+        chartPoints = [];
+        body.innerHTML = `<div style="font-size: 12px; color: #999; padding: 8px 0;">${t('noNumericHistory')}</div>`;
+        return;
+      }
+      // Statistics cover every value in the range, only the drawing is downsampled
+      chartPoints = scaleNumericPoints(downsampleNumericHistory(points, NUMERIC_HISTORY.CHART_POINTS), CHART_WIDTH, CHART_HEIGHT);
+      body.innerHTML = `
+        <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('numericStats', [format(summary.min), format(summary.max), format(summary.average), summary.count.toString()])}</div>
+        <svg viewBox="0 -4 ${CHART_WIDTH} ${CHART_HEIGHT + 8}" preserveAspectRatio="none" style="width: 100%; height: ${CHART_HEIGHT}px; display: block; background: #fafafa; border-radius: 4px; cursor: crosshair;">
+          <polyline points="${chartPoints.map(point => `${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' ')}" fill="none" stroke="#2196F3" stroke-width="2" vector-effect="non-scaling-stroke"/>
+          <line class="chart-cursor" x1="0" x2="0" y1="-4" y2="${CHART_HEIGHT + 4}" stroke="#999" stroke-width="1" vector-effect="non-scaling-stroke" style="display: none;"/>
+        </svg>
+        <div class="chart-readout" style="font-size: 12px; color: #333; min-height: 16px; margin-top: 4px;"></div>`;
+    };
+
+    chart.addEventListener('click', (e: Event) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('button[data-range]');
+      if (button) {
+        range = button.dataset.range === 'all' ? null : Number(button.dataset.range);
+        draw();
+      }
+    });
+
+    // Show the time and value of the point nearest to the mouse
+    chart.addEventListener('mousemove', (e: MouseEvent) => {
+      const svg = chart.querySelector('svg');
+      const cursor = chart.querySelector<SVGLineElement>('.chart-cursor');
+      const readout = chart.querySelector<HTMLElement>('.chart-readout');
+      if (!svg || !cursor || !readout || chartPoints.length === 0) return;
+      const rect = svg.getBoundingClientRect();
+      const x = (e.clientX - rect.left) / rect.width * CHART_WIDTH;
+      const nearest = chartPoints.reduce((best, point) => Math.abs(point.x - x) < Math.abs(best.x - x) ? point : best);
+      cursor.setAttribute('x1', nearest.x.toString());
+      cursor.setAttribute('x2', nearest.x.toString());
+      cursor.style.display = '';
+      readout.textContent = `${new Date(nearest.time).toLocaleString('zh-CN')}: ${format(nearest.value)}`;
+    });
+
+    chart.addEventListener('mouseleave', () => {
+      const cursor = chart.querySelector<SVGLineElement>('.chart-cursor');
+      const readout = chart.querySelector<HTMLElement>('.chart-readout');
+      if (cursor) cursor.style.display = 'none';
+      if (readout) readout.textContent = '';
+    });
+
+    const reload = async (): Promise<void> => {
+      history = await storageManager.getNumericHistory(projectId);
+      draw();
+    };
+    reload();
+    return reload;
+  }
+
+  // Reference the checks are compared with, and the actions to change it
+  private renderBaselineBar(project: Project): string {
+    const button = (id: string, label: string, color: string): string =>
+      `<button id="${id}" style="padding: 4px 10px; background: ${color}; color: white; border: none; border-radius: 4px; cursor: pointer; font-size: 12px; white-space: nowrap;">${label}</button>`;
+    if (!project.baseline) {
+      return `<span>${t('comparedWithPreviousCheck')}</span>${button('pinBaselineBtn', t('pinBaseline'), '#2196F3')}`;
+    }
+    const pinnedAt = new Date(project.baseline.pinnedAt).toLocaleString('zh-CN');
+    const compared = !!getComparedBaseline(project);
+    const modeOption = (mode: ComparisonMode, label: string): string =>
+      `<option value="${mode}" ${compared === (mode === 'baseline') ? 'selected' : ''}>${label}</option>`;
+    return `
+      <span style="min-width: 0; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;" title="${this.escapeHtml(project.baseline.content).replace(/"/g, '&quot;')}">${t(compared ? 'baselinePinnedAt' : 'baselinePinnedNotCompared', [pinnedAt])}</span>
+      <div style="display: flex; gap: 6px; flex-shrink: 0;">
+        <select id="comparisonModeSelect" title="${t('comparisonMode')}" style="padding: 3px; border: 1px solid #ddd; border-radius: 4px; font-size: 12px;">
+          ${modeOption('baseline', t('comparisonModeBaseline'))}${modeOption('previous', t('comparisonModePrevious'))}
+        </select>
+        ${button('pinBaselineBtn', t('acceptCurrentAsBaseline'), '#4CAF50')}${button('unpinBaselineBtn', t('unpinBaseline'), '#9E9E9E')}
+      </div>`;
+  }
+
+  // Pins, unpins or switches to/from the baseline, then shows the new state in the project list and the log dialog
+  private async updateBaseline(
+    action: 'pinBaseline' | 'unpinBaseline' | 'setComparisonMode',
+    projectId: string,
+    baselineBar: HTMLElement,
+    details: { logTimestamp?: string; comparisonMode?: ComparisonMode } = {}
+  ): Promise<void> {
+    const response: MessageResponse = await chrome.runtime.sendMessage({ action, projectId, ...details });
+    if (!response?.success) {
+      alert(t('baselineUpdateFailed', [response?.error ?? t('unknownError')]));
+      return;
+    }
+    await this.loadProjects();
+    this.render();
+    const project = this.projects.find(p => p.id === projectId);
+    if (project) {
+      baselineBar.innerHTML = this.renderBaselineBar(project);
+    }
+  }
+
+  // Entries with content can become the baseline
+  private renderUseAsBaseline(log: LogEntry): string {
+    if (log.present === false || log.content === undefined) return '';
+    return ` <button class="use-baseline-btn" data-timestamp="${this.escapeHtml(log.timestamp)}" style="margin-left: 6px; padding: 0 6px; font-size: 11px; background: none; color: #2196F3; border: 1px solid #2196F3; border-radius: 3px; cursor: pointer;">${t('useAsBaseline')}</button>`;
+  }
+
   private renderLogs(logs: LogEntry[]): string {
     const uniqueId = Date.now();
     return logs.map((log, index) => {
@@ -450,6 +1283,14 @@ class ProjectManager {
       const isChanged = log.changed;
       const logId = `log-${uniqueId}-${index}`;
 
+      // Login page instead of the monitored page: the user has to log in again
+      if (log.sessionExpired) {
+        return `<div style="border: 1px solid #FF9800; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #fff8e1;">
+          <div style="font-size: 12px; color: #666; margin-bottom: 8px;">${timestamp} - <span style="color: #FF9800; font-weight: bold;">${t('sessionExpired')}</span></div>
+          <div style="color: #666; font-size: 13px;">${this.getSessionExpiredReasonLabel(log.sessionExpired)}</div>
+        </div>`;
+      }
+
       if (!log.success) {
         return `<div style="border: 1px solid #f44336; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #ffebee;">
           <div style="font-size: 12px; color: #666; margin-bottom: 8px;">${timestamp} - <span style="color: #f44336; font-weight: bold;">${t('checkFailed')}</span></div>
@@ -459,20 +1300,87 @@ class ProjectManager {
 
       const contentPreview = (content?: string | null): string => this.escapeHtml((content || '').substring(0, 500)) + (content && content.length > 500 ? '...' : '');
 
-      // Changed logs: expand by default
-      if (isChanged && log.oldContent) {
+      // Content as read from the page, before regex extraction and ignore rules (for debugging)
+      const rawContentBlock = log.rawContent !== undefined ? `
+          <div style="margin-top: 8px;">
+            <div style="font-size: 12px; color: #999; margin-bottom: 4px;">${t('rawContent')}:</div>
+            <div style="font-family: monospace; font-size: 12px; padding: 8px; background: #f5f5f5; color: #666; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.rawContent)}</div>
+          </div>` : '';
+
+      const fieldChangesBlock = log.fieldChanges ? this.renderFieldChanges(log.fieldChanges) : '';
+
+      // Element not present: a monitored state, distinct from failed checks
+      if (log.present === false) {
+        const disappeared = log.presenceChange === 'disappeared';
+        return `<div style="border: 1px solid ${disappeared ? '#FF9800' : '#ddd'}; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: ${disappeared ? '#fff8e1' : '#fafafa'};">
+          <div style="font-size: 12px; color: #666;">
+            ${timestamp} - <span style="color: #FF9800; font-weight: ${disappeared ? 'bold' : 'normal'};">${disappeared ? t('elementDisappeared') : t('elementNotPresent')}</span>${this.renderTriggerInfo(log)}${this.renderReadinessInfo(log)}${this.renderStepsInfo(log)}${this.renderLiveInfo(log)}${this.renderPendingInfo(log)}${this.renderUseAsBaseline(log)}
+          </div>
+          ${disappeared && log.oldContent ? `
+          <div style="margin-top: 8px;">
+            <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('lastSeenContent')}:</div>
+            <div style="font-family: monospace; font-size: 13px; padding: 8px; background: #fff3e0; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.oldContent)}</div>
+          </div>` : ''}
+        </div>`;
+      }
+
+      // List and table changes: show item- or row-level differences instead of full content blocks
+      if (isChanged && (log.listDiff || log.tableDiff)) {
         return `<div style="border: 1px solid #4CAF50; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #f1f8f4;">
           <div style="font-size: 12px; color: #666; margin-bottom: 8px;">
-            ${timestamp} - <span style="color: #4CAF50; font-weight: bold;">${t('changeDetected')}</span>
+            ${timestamp} - <span style="color: #4CAF50; font-weight: bold;">${t('changeDetected')}</span>${this.renderNumericInfo(log)}${this.renderVisualInfo(log)}${this.renderTriggerInfo(log)}${this.renderReadinessInfo(log)}${this.renderStepsInfo(log)}${this.renderLiveInfo(log)}${this.renderPendingInfo(log)}${this.renderUseAsBaseline(log)}
           </div>
+          ${log.screenshot ? this.renderScreenshots(log) : ''}${log.tableDiff ? this.renderTableDiff(log.tableDiff) : ''}${log.listDiff ? this.renderListDiff(log.listDiff) : ''}${fieldChangesBlock}${rawContentBlock}
+        </div>`;
+      }
+
+      // Only named fields changed: show just the field changes
+      if (isChanged && log.fieldChanges && log.content === log.oldContent && !log.presenceChange && !log.screenshot) {
+        return `<div style="border: 1px solid #4CAF50; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #f1f8f4;">
+          <div style="font-size: 12px; color: #666; margin-bottom: 8px;">
+            ${timestamp} - <span style="color: #4CAF50; font-weight: bold;">${t('fieldChangeDetected')}</span>${this.renderTriggerInfo(log)}${this.renderReadinessInfo(log)}${this.renderStepsInfo(log)}${this.renderLiveInfo(log)}${this.renderPendingInfo(log)}${this.renderUseAsBaseline(log)}
+          </div>${fieldChangesBlock}
+        </div>`;
+      }
+
+      // Changed logs: expand by default
+      if (isChanged && (log.oldContent || log.presenceChange || log.screenshot)) {
+        const oldAndNewContent = `
           <div style="margin-bottom: 8px;">
-            <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('oldContent')}:</div>
+            <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${log.comparedToBaseline ? t('baselineContent') : t('oldContent')}:</div>
             <div style="font-family: monospace; font-size: 13px; padding: 8px; background: #fff3e0; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.oldContent)}</div>
           </div>
           <div>
             <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('newContent')}:</div>
             <div style="font-family: monospace; font-size: 13px; padding: 8px; background: #e8f5e9; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.content)}</div>
+          </div>`;
+
+        const collapsedContent = `
+          <div class="log-toggle" data-target="${logId}" style="display: flex; justify-content: space-between; align-items: center; cursor: pointer;">
+            <div style="font-size: 12px; color: #999;">${t('fullContent')}</div>
+            <div style="color: #999; font-size: 11px; white-space: nowrap; margin-left: 8px;">${t('expand')}</div>
           </div>
+          <div id="${logId}" style="display: none; margin-top: 8px;">${oldAndNewContent}</div>`;
+
+        // With a text diff or screenshots, show those and keep the full contents collapsed
+        let contentBlocks = oldAndNewContent;
+        if (log.textDiff) {
+          contentBlocks = `
+          <div style="margin-bottom: 8px;">
+            <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('textChanges')}:</div>
+            <div style="font-family: monospace; font-size: 13px; padding: 8px; background: white; border-radius: 4px; max-height: 200px; overflow: auto; white-space: pre-wrap; word-break: break-all;">${this.renderTextDiff(log.textDiff)}</div>
+          </div>${collapsedContent}`;
+        } else if (log.screenshot) {
+          contentBlocks = collapsedContent;
+        }
+        if (log.screenshot) {
+          contentBlocks = this.renderScreenshots(log) + contentBlocks;
+        }
+
+        return `<div style="border: 1px solid #4CAF50; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #f1f8f4;">
+          <div style="font-size: 12px; color: #666; margin-bottom: 8px;">
+            ${timestamp} - <span style="color: #4CAF50; font-weight: bold;">${log.presenceChange === 'appeared' ? t('elementAppeared') : t('changeDetected')}</span>${this.renderNumericInfo(log)}${this.renderVisualInfo(log)}${this.renderTriggerInfo(log)}${this.renderReadinessInfo(log)}${this.renderStepsInfo(log)}${this.renderLiveInfo(log)}${this.renderPendingInfo(log)}${this.renderUseAsBaseline(log)}
+          </div>${contentBlocks}${fieldChangesBlock}${rawContentBlock}
         </div>`;
       }
 
@@ -480,13 +1388,13 @@ class ProjectManager {
       return `<div style="border: 1px solid #ddd; border-radius: 4px; padding: 12px; margin-bottom: 12px; background: #fafafa;">
         <div class="log-toggle" data-target="${logId}" style="display: flex; justify-content: space-between; align-items: center; cursor: pointer;">
           <div style="font-size: 12px; color: #666; flex: 1; min-width: 0;">
-            ${timestamp} - <span style="color: #666;">${t('noChange')}</span>
+            ${timestamp} - <span style="color: #666;">${t('noChange')}</span>${this.renderNumericInfo(log)}${this.renderVisualInfo(log)}${this.renderTriggerInfo(log)}${this.renderReadinessInfo(log)}${this.renderStepsInfo(log)}${this.renderLiveInfo(log)}${this.renderPendingInfo(log)}${this.renderUseAsBaseline(log)}
           </div>
           <div style="color: #999; font-size: 11px; white-space: nowrap; margin-left: 8px;">${t('expand')}</div>
         </div>
         <div id="${logId}" style="display: none; margin-top: 8px; padding-top: 8px; border-top: 1px solid #e0e0e0;">
           <div style="font-size: 12px; color: #666; margin-bottom: 4px;">${t('content')}:</div>
-          <div style="font-family: monospace; font-size: 13px; padding: 8px; background: white; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.content)}</div>
+          <div style="font-family: monospace; font-size: 13px; padding: 8px; background: white; border-radius: 4px; max-height: 100px; overflow: auto; word-break: break-all;">${contentPreview(log.content)}</div>${log.fields ? this.renderFieldValues(log.fields) : ''}${rawContentBlock}
         </div>
       </div>`;
     }).join('');
@@ -528,6 +1436,14 @@ if (selectElementBtn) {
   });
 }
 
+// Add HTTP endpoint button
+const addEndpointBtn = document.getElementById('addEndpoint');
+if (addEndpointBtn) {
+  addEndpointBtn.addEventListener('click', () => {
+    projectManager.displayEndpointDialog();
+  });
+}
+
 // Open settings page
 const openOptionsBtn = document.getElementById('openOptions');
 if (openOptionsBtn) {
@@ -0,0 +1,95 @@
+/**
+ * Page readiness detection
+ * Waits until a page is ready to be checked instead of sleeping for a fixed delay
+ */
+
+import { READINESS } from './constants';
+import { ReadinessConfig } from './types';
+
+/**
+ * Page access used while waiting
+ * @property isReady - Whether the awaited condition holds ('element' and 'content' modes)
+ * @property observe - Subscribes to DOM mutations, returns a function that unsubscribes
+ */
+export interface ReadinessProbe {
+  isReady: () => boolean;
+  observe: (onMutation: () => void) => () => void;
+}
+
+/**
+ * Outcome of waiting for a page
+ * @property waited - Time actually waited in milliseconds
+ * @property timedOut - Whether the cap was reached before the page was ready
+ */
+export interface ReadinessResult {
+  waited: number;
+  timedOut: boolean;
+}
+
+/**
+ * Whether a readiness config waits for the page itself (rather than a fixed delay)
+ */
+export function isAdaptiveReadiness(config: ReadinessConfig | undefined): config is ReadinessConfig {
+  return !!config && config.mode !== 'delay';
+}
+
+/**
+ * Waits until the page is ready according to the readiness mode
+ *
+ * @param config - Readiness settings ('delay' mode resolves immediately, the delay is applied by the caller)
+ * @param probe - Condition check and mutation subscription for the page
+ * @returns Time waited, and whether the cap was reached first
+ *
+ * @remarks
+ * - element / content: resolves as soon as the condition holds, checked on every mutation and
+ *   every READINESS.POLL_INTERVAL_MS (mutations inside shadow roots and frames are not observed)
+ * - settle: resolves once no mutation was seen for the settle time
+ * Waiting never takes longer than the configured timeout; reaching it is not an error,
+ * the check then reads whatever the page shows.
+ *
+ * @example
+ * ```typescript
+ * await waitForReadiness({ mode: 'settle', settleTime: 1000, timeout: 15000 }, probe);
+ * // { waited: 2350, timedOut: false }
+ * ```
+ */
+export function waitForReadiness(config: ReadinessConfig, probe: ReadinessProbe): Promise<ReadinessResult> {
+  const start = Date.now();
+  if (config.mode === 'delay' || (config.mode !== 'settle' && probe.isReady())) {
+    return Promise.resolve({ waited: 0, timedOut: false });
+  }
+
+  return new Promise(resolve => {
+    let settleTimer: ReturnType<typeof setTimeout> | undefined;
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    let unsubscribe: () => void = () => undefined;
+
+    const finish = (timedOut: boolean): void => {
+      clearTimeout(capTimer);
+      clearTimeout(settleTimer);
+      clearInterval(pollTimer);
+      unsubscribe();
+      resolve({ waited: Date.now() - start, timedOut });
+    };
+
+    const capTimer = setTimeout(() => finish(true), config.timeout ?? READINESS.DEFAULT_TIMEOUT_MS);
+
+    if (config.mode === 'settle') {
+      const settleTime = config.settleTime ?? READINESS.DEFAULT_SETTLE_MS;
+      const restartSettleTimer = (): void => {
+        clearTimeout(settleTimer);
+        settleTimer = setTimeout(() => finish(false), settleTime);
+      };
+      unsubscribe = probe.observe(restartSettleTimer);
+      restartSettleTimer();
+    } else {
+      const checkReady = (): void => {
+        if (probe.isReady()) {
+          finish(false);
+        }
+      };
+      unsubscribe = probe.observe(checkReady);
+      pollTimer = setInterval(checkReady, READINESS.POLL_INTERVAL_MS);
+    }
+  });
+}
@@ -0,0 +1,198 @@
+/**
+ * User-supplied regular expression helpers
+ * Safety analysis for patterns entered in the UI and capture extraction from monitored content
+ */
+
+import { MatchedContent } from './elementContent';
+import { RegexExtraction } from './types';
+
+/**
+ * Regex flags accepted for user patterns
+ * 'g' and 'y' are excluded because they make RegExp objects stateful (lastIndex)
+ */
+export const ALLOWED_REGEX_FLAGS = 'imsu';
+
+/**
+ * Reads a quantifier starting at the given position
+ * @returns Quantifier length and whether it is unbounded, or null if there is no quantifier
+ */
+function readQuantifier(pattern: string, index: number): { length: number; unbounded: boolean } | null {
+  const ch = pattern[index];
+  let length: number;
+  let unbounded: boolean;
+
+  if (ch === '*' || ch === '+') {
+    length = 1;
+    unbounded = true;
+  } else if (ch === '?') {
+    length = 1;
+    unbounded = false;
+  } else if (ch === '{') {
+    const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index));
+    if (!match) {
+      return null;
+    }
+    length = match[0].length;
+    unbounded = match[2] !== undefined && !match[3];
+  } else {
+    return null;
+  }
+
+  // Lazy modifier
+  if (pattern[index + length] === '?') {
+    length++;
+  }
+  return { length, unbounded };
+}
+
+/**
+ * Detects patterns prone to catastrophic backtracking
+ *
+ * @param pattern - Regular expression source
+ * @returns true if an unbounded quantifier is applied to a group that itself contains one
+ *
+ * @remarks
+ * Flags nested unbounded quantifiers such as `(a+)+`, `(\w*)*` or `(?:x+y){2,}`, which can take
+ * exponential time on non-matching input. Chrome runs content scripts and the service worker
+ * without a regex timeout, so such patterns are rejected at save time.
+ *
+ * @example
+ * ```typescript
+ * hasNestedQuantifier('(a+)+$');          // true
+ * hasNestedQuantifier('v(\\d+\\.\\d+)');  // false
+ * ```
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // One frame per open group, tracking whether it contains an unbounded quantifier
+  const stack: boolean[] = [false];
+  // Frame of the group that was just closed, so a following quantifier applies to it
+  let closedGroup: boolean | null = null;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const ch = pattern[i];
+
+    if (ch === '\\') {
+      i += 2;
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === '[') {
+      // Skip character class (quantifier characters inside are literals)
+      i++;
+      if (pattern[i] === ']') i++;
+      while (i < pattern.length && pattern[i] !== ']') {
+        i += pattern[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === '(') {
+      stack.push(false);
+      i++;
+      closedGroup = null;
+      continue;
+    }
+
+    if (ch === ')') {
+      const containsUnbounded = stack.pop() ?? false;
+      if (stack.length === 0) {
+        // Unbalanced pattern, RegExp compilation reports the error
+        return false;
+      }
+      if (containsUnbounded) {
+        stack[stack.length - 1] = true;
+      }
+      closedGroup = containsUnbounded;
+      i++;
+      continue;
+    }
+
+    const quantifier = readQuantifier(pattern, i);
+    if (quantifier) {
+      if (quantifier.unbounded) {
+        if (closedGroup) {
+          return true;
+        }
+        stack[stack.length - 1] = true;
+      }
+      i += quantifier.length;
+      closedGroup = null;
+      continue;
+    }
+
+    closedGroup = null;
+    i++;
+  }
+
+  return false;
+}
+
+/**
+ * Counts the capture groups of a compiled-valid pattern
+ */
+export function countCaptureGroups(pattern: string, flags?: string): number {
+  // An empty alternative always matches, so exec returns an array with one slot per group
+  const match = new RegExp(`${pattern}|`, flags).exec('');
+  return match ? match.length - 1 : 0;
+}
+
+/**
+ * Compares two regex extractions for equality (undefined means no extraction)
+ */
+export function isSameRegexExtraction(a: RegexExtraction | undefined, b: RegexExtraction | undefined): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.pattern === b.pattern && (a.flags ?? '') === (b.flags ?? '') && a.group === b.group;
+}
+
+/**
+ * Applies a regex extraction to text
+ *
+ * @param text - Content read from the page
+ * @param extraction - Pattern, flags and capture group to keep
+ * @returns The captured value, or null if the pattern does not match
+ *
+ * @remarks
+ * Without an explicit group, the first capture group is used if the pattern has one,
+ * otherwise the whole match. A group that did not participate in the match yields ''.
+ *
+ * @example
+ * ```typescript
+ * extractWithRegex('Latest release: v2.4.1 (stable)', { pattern: 'v(\\d+(?:\\.\\d+)*)' });  // '2.4.1'
+ * extractWithRegex('Updated 2024-05-01', { pattern: '\\d{4}-\\d{2}-\\d{2}' });              // '2024-05-01'
+ * ```
+ */
+export function extractWithRegex(text: string, extraction: RegexExtraction): string | null {
+  const match = new RegExp(extraction.pattern, extraction.flags).exec(text);
+  if (!match) {
+    return null;
+  }
+  const group = extraction.group ?? (match.length > 1 ? 1 : 0);
+  return match[group] ?? '';
+}
+
+/**
+ * Applies a regex extraction to content read with any match mode
+ *
+ * @param matched - Content (and list items in 'all' mode) read from the page
+ * @param extraction - Regex extraction to apply
+ * @returns Extracted content; items that do not match are dropped, unmatched content becomes ''
+ * (tables are returned unchanged, as their cells are compared column by column)
+ */
+export function applyRegexExtraction(matched: MatchedContent, extraction: RegexExtraction): MatchedContent {
+  if (matched.table) {
+    return matched;
+  }
+  if (matched.items) {
+    const items = matched.items
+      .map(item => extractWithRegex(item, extraction))
+      .filter((item): item is string => item !== null);
+    return { content: items.join('\n'), items };
+  }
+  return { content: extractWithRegex(matched.content, extraction) ?? '' };
+}
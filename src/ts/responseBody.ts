@@ -0,0 +1,48 @@
+/**
+ * Response bodies
+ * Reads HTTP response bodies up to a size limit, without downloading the rest of larger ones
+ */
+
+/**
+ * Reads the body of a response as text, stopping as soon as it exceeds a size limit
+ *
+ * @param response - Response to read
+ * @param maxBytes - Largest body accepted in bytes
+ * @returns The body, or null when the declared Content-Length or the bytes received exceed maxBytes
+ *
+ * @example
+ * ```typescript
+ * const body = await readResponseText(await fetch(url), 5000000);
+ * if (body === null) {
+ *   // Too large, the download was cancelled
+ * }
+ * ```
+ */
+export async function readResponseText(response: Response, maxBytes: number): Promise<string | null> {
+  // Rejected before reading anything when the server announces the size
+  const declaredLength = Number(response.headers.get('Content-Length'));
+  if (declaredLength > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+  if (!response.body) {
+    return '';
+  }
+
+  // The announced size may be missing or wrong (compressed or chunked responses), count what arrives
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = '';
+  let chunk = await reader.read();
+  while (!chunk.done) {
+    received += chunk.value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(chunk.value, { stream: true });
+    chunk = await reader.read();
+  }
+  return text + decoder.decode();
+}
@@ -0,0 +1,395 @@
+/**
+ * Check schedules
+ * Cron expressions and active-hours windows, evaluated in the time zone of the browser
+ */
+
+import { LIMITS, SCHEDULE } from './constants';
+import { ActiveWindow, Schedule } from './types';
+
+/**
+ * Parsed cron expression, each field as the set of values it matches
+ * @property dayOfMonthRestricted - Whether the day-of-month field does not start with `*` (as in cron, a wildcard step is unrestricted)
+ * @property dayOfWeekRestricted - Whether the day-of-week field does not start with `*`
+ */
+export interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Day names accepted in active-hours lines and cron day-of-week fields, indexed like Date.getDay()
+ */
+export const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] as const;
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses one cron field (`*`, `5`, `1-5`, `*\/15`, `9-17/2`, lists like `1,15`)
+ * @param names - Names accepted instead of numbers, the first one standing for `min`
+ * @throws {Error} When the field is malformed or out of range
+ */
+function parseCronField(field: string, label: string, min: number, max: number, names: readonly string[] = []): Set<number> {
+  const toNumber = (text: string): number => {
+    const nameIndex = names.findIndex(name => name.toLowerCase() === text.toLowerCase());
+    const value = nameIndex !== -1 ? min + nameIndex : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`Invalid ${label} "${text}" (expected ${min}-${max})`);
+    }
+    return value;
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid ${label} step "${part}"`);
+    }
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = min;
+      to = max;
+    } else if (range.includes('-')) {
+      const [start = '', end = ''] = range.split('-');
+      from = toNumber(start);
+      to = toNumber(end);
+      if (from > to) {
+        throw new Error(`Invalid ${label} range "${range}"`);
+      }
+    } else {
+      from = toNumber(range);
+      // `5/15` means from 5 to the end in steps of 15
+      to = stepText === undefined ? from : max;
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses a five-field cron expression: minute hour day-of-month month day-of-week
+ *
+ * @param expression - Cron expression; months and days of the week may be given by name (`Jan`, `Mon-Fri`), Sunday is 0 or 7
+ * @returns The values matched by each field
+ * @throws {Error} When the expression does not have five valid fields
+ *
+ * @example
+ * ```typescript
+ * parseCronExpression('*\/5 9-17 * * Mon-Fri'); // every 5 minutes from 09:00 to 17:55 on weekdays
+ * parseCronExpression('0 8 * * *');            // at 08:00 daily
+ * ```
+ */
+export function parseCronExpression(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error('Cron expression must have 5 fields: minute hour day-of-month month day-of-week');
+  }
+  const [minute = '', hour = '', dayOfMonth = '', month = '', dayOfWeek = ''] = parts;
+  const daysOfWeek = parseCronField(dayOfWeek, 'day of week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes: parseCronField(minute, 'minute', 0, 59),
+    hours: parseCronField(hour, 'hour', 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 'day of month', 1, 31),
+    months: parseCronField(month, 'month', 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    dayOfMonthRestricted: !dayOfMonth.startsWith('*'),
+    dayOfWeekRestricted: !dayOfWeek.startsWith('*')
+  };
+}
+
+/**
+ * Whether a day matches the day fields (as in cron, a day matches either field when both are restricted)
+ */
+function matchesCronDay(fields: CronFields, date: Date): boolean {
+  const dayOfMonth = fields.daysOfMonth.has(date.getDate());
+  const dayOfWeek = fields.daysOfWeek.has(date.getDay());
+  if (fields.dayOfMonthRestricted && fields.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Finds the first minute after a time that matches a cron expression
+ * @param after - Time in milliseconds since epoch (excluded)
+ * @param until - Last time searched
+ * @returns Start of the matching minute, or null when there is none until then
+ */
+function getNextCronTime(fields: CronFields, after: number, until: number): number | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match instead of testing every minute
+  while (date.getTime() <= until) {
+    if (!fields.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesCronDay(fields, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!fields.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!fields.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses a time of day written as HH:MM
+ * @returns Minutes since midnight, or null when malformed
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours <= 23 && minutes <= 59 ? hours * 60 + minutes : null;
+}
+
+/**
+ * Whether a time falls inside any of the active windows
+ *
+ * @param windows - Active windows (none means always active)
+ * @param date - Time to test, read in the local time zone
+ *
+ * @example
+ * ```typescript
+ * const weekdays = [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }];
+ * isInActiveWindow(weekdays, new Date(2026, 0, 5, 10, 30)); // true (Monday 10:30)
+ * isInActiveWindow(weekdays, new Date(2026, 0, 4, 10, 30)); // false (Sunday)
+ * ```
+ */
+export function isInActiveWindow(windows: ActiveWindow[] | undefined, date: Date): boolean {
+  if (!windows || windows.length === 0) {
+    return true;
+  }
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const day = date.getDay();
+  return windows.some(window => {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === null || end === null) {
+      return false;
+    }
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    // Overnight window: the evening on its own days, the morning on the following days
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes((day + 6) % 7) && minutes < end);
+  });
+}
+
+/**
+ * Finds the earliest opening of an active window at or after a time (looks one week ahead)
+ * @returns Opening time in milliseconds since epoch, or null for windows without days
+ */
+function getNextWindowStart(windows: ActiveWindow[], from: number): number | null {
+  let next: number | null = null;
+  for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+    const day = new Date(from);
+    day.setDate(day.getDate() + dayOffset);
+    for (const window of windows) {
+      const start = parseTimeOfDay(window.start);
+      if (start === null || !window.days.includes(day.getDay())) {
+        continue;
+      }
+      const opening = new Date(day);
+      opening.setHours(Math.floor(start / 60), start % 60, 0, 0);
+      if (opening.getTime() >= from && (next === null || opening.getTime() < next)) {
+        next = opening.getTime();
+      }
+    }
+  }
+  return next;
+}
+
+/**
+ * Randomizes an interval within ±jitterPercent of its length
+ *
+ * @param interval - Interval in milliseconds
+ * @param jitterPercent - Maximum variation in percent (0 keeps the interval)
+ * @param random - Source of random numbers in [0, 1)
+ * @returns The varied interval in milliseconds, rounded to whole milliseconds
+ *
+ * @example
+ * ```typescript
+ * applyJitter(600000, 20); // between 480000 and 720000
+ * ```
+ */
+export function applyJitter(interval: number, jitterPercent: number, random: () => number = Math.random): number {
+  if (jitterPercent <= 0) {
+    return interval;
+  }
+  return Math.round(interval * (1 + (random() * 2 - 1) * jitterPercent / 100));
+}
+
+/**
+ * Whether a schedule has a cron expression or active hours (rather than checking every interval at any time)
+ */
+export function isCustomSchedule(schedule: Schedule | undefined): schedule is Schedule {
+  return !!schedule && (schedule.mode === 'cron' || (schedule.windows?.length ?? 0) > 0);
+}
+
+/**
+ * Computes when a project should next be checked
+ *
+ * @param schedule - Project schedule (undefined: every interval)
+ * @param interval - Project interval in milliseconds (used outside 'cron' mode)
+ * @param after - Time of the previous run or of the computation, in milliseconds since epoch
+ * @param jitterPercent - Random variation of the interval in percent (default: 0, cron runs are never varied, the delay stays at least LIMITS.MIN_INTERVAL_MS)
+ * @param random - Source of random numbers for the jitter
+ * @returns Next run time in milliseconds since epoch, or null when the schedule never runs again (or the cron expression is invalid)
+ *
+ * @remarks
+ * In 'interval' mode a run that would fall outside the active windows is moved to the next opening of a window.
+ * In 'cron' mode matching minutes outside the active windows are skipped.
+ *
+ * @example
+ * ```typescript
+ * const officeHours: Schedule = { mode: 'interval', windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }] };
+ * getNextRunTime(officeHours, 300000, new Date(2026, 0, 5, 10, 0).getTime()); // Monday 10:05
+ * getNextRunTime(officeHours, 300000, new Date(2026, 0, 9, 17, 58).getTime()); // Monday 09:00 (after Friday closing time)
+ * ```
+ */
+export function getNextRunTime(
+  schedule: Schedule | undefined,
+  interval: number,
+  after: number,
+  jitterPercent: number = 0,
+  random: () => number = Math.random
+): number | null {
+  if (schedule?.mode === 'cron') {
+    let fields: CronFields;
+    try {
+      fields = parseCronExpression(schedule.cron ?? '');
+    } catch {
+      return null;
+    }
+    const until = after + SCHEDULE.MAX_LOOKAHEAD_DAYS * DAY_MS;
+    let next = getNextCronTime(fields, after, until);
+    while (next !== null && !isInActiveWindow(schedule.windows, new Date(next))) {
+      next = getNextCronTime(fields, next, until);
+    }
+    return next;
+  }
+
+  // Jitter never brings the delay below the minimum monitoring interval
+  const next = after + Math.max(LIMITS.MIN_INTERVAL_MS, applyJitter(interval, jitterPercent, random));
+  if (isInActiveWindow(schedule?.windows, new Date(next))) {
+    return next;
+  }
+  return getNextWindowStart(schedule?.windows ?? [], next);
+}
+
+/**
+ * Lists the next runs of a schedule, for previews
+ * @param count - Number of runs (fewer when the schedule stops running)
+ */
+export function getUpcomingRunTimes(schedule: Schedule | undefined, interval: number, after: number, count: number): number[] {
+  const runs: number[] = [];
+  let time = after;
+  while (runs.length < count) {
+    const next = getNextRunTime(schedule, interval, time);
+    if (next === null) {
+      break;
+    }
+    runs.push(next);
+    time = next;
+  }
+  return runs;
+}
+
+/**
+ * Parses a day list like `Mon-Fri` or `Sat,Sun` (ranges may wrap around the week, like `Fri-Mon`)
+ * @returns Days of the week, or null when a name is unknown
+ */
+function parseDayList(text: string): number[] | null {
+  const dayIndex = (name: string): number => DAY_NAMES.findIndex(day => day.toLowerCase() === name.trim().toLowerCase());
+  const days: number[] = [];
+  for (const part of text.split(',')) {
+    const [from = '', to] = part.split('-');
+    const start = dayIndex(from);
+    const end = to === undefined ? start : dayIndex(to);
+    if (start === -1 || end === -1) {
+      return null;
+    }
+    for (let offset = 0; offset <= (end - start + 7) % 7; offset++) {
+      days.push((start + offset) % 7);
+    }
+  }
+  return [...new Set(days)].sort((a, b) => a - b);
+}
+
+/**
+ * Parses active windows written one per line as `[days] HH:MM-HH:MM`
+ * Days are names like `Mon-Fri` or `Sat,Sun`; a line without days applies to every day. Blank lines are skipped.
+ *
+ * @returns The windows, or null when a line is malformed
+ *
+ * @example
+ * ```typescript
+ * parseActiveWindowLines('Mon-Fri 09:00-18:00\nSat 10:00-12:00');
+ * // [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }, { days: [6], start: '10:00', end: '12:00' }]
+ * ```
+ */
+export function parseActiveWindowLines(text: string): ActiveWindow[] | null {
+  const windows: ActiveWindow[] = [];
+  for (const line of text.split('\n').filter(line => line.trim())) {
+    const match = /^\s*(?:([A-Za-z,\s-]+?)\s+)?(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})\s*$/.exec(line);
+    if (!match?.[2] || !match[3]) {
+      return null;
+    }
+    const days = match[1] ? parseDayList(match[1].replace(/\s+/g, '')) : [0, 1, 2, 3, 4, 5, 6];
+    if (!days) {
+      return null;
+    }
+    windows.push({ days, start: match[2], end: match[3] });
+  }
+  return windows;
+}
+
+/**
+ * Writes active windows one per line (the inverse of parseActiveWindowLines)
+ * Consecutive days are written as ranges, every day is left out
+ */
+export function formatActiveWindowLines(windows: ActiveWindow[]): string {
+  return windows.map(window => {
+    const days = [...new Set(window.days)].sort((a, b) => a - b);
+    if (days.length === 7) {
+      return `${window.start}-${window.end}`;
+    }
+    const ranges: string[] = [];
+    for (let index = 0; index < days.length; index++) {
+      const start = days[index] ?? 0;
+      let end = start;
+      while (days[index + 1] === end + 1) {
+        end++;
+        index++;
+      }
+      const startName = DAY_NAMES[start] ?? '';
+      const endName = DAY_NAMES[end] ?? '';
+      ranges.push(end > start + 1 ? `${startName}-${endName}` : end > start ? `${startName},${endName}` : startName);
+    }
+    return `${ranges.join(',')} ${window.start}-${window.end}`;
+  }).join('\n');
+}
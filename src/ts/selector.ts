@@ -0,0 +1,276 @@
+/**
+ * Element selectors
+ * Resolves CSS selectors and XPath expressions (including paths into shadow roots and same-origin frames),
+ * and generates selectors for picked elements
+ */
+
+import { SelectorType } from './types';
+
+export const DEFAULT_SELECTOR_TYPE: SelectorType = 'css';
+
+/**
+ * Separates selector segments that cross a shadow root or frame boundary
+ * `host >>> inner` matches `inner` inside the shadow root of `host`, or inside its document if `host` is a frame
+ */
+export const PIERCE_COMBINATOR = '>>>';
+
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Not available as a global in every context that imports this module (service worker, tests)
+const ORDERED_NODE_SNAPSHOT_TYPE = 7;
+const ELEMENT_NODE = 1;
+const DOCUMENT_NODE = 9;
+
+/**
+ * Node a selector segment is evaluated in: a document (top page or frame) or a shadow root
+ */
+export type SelectorRoot = Document | ShadowRoot;
+
+/**
+ * Splits a selector into the segments separated by the pierce combinator
+ *
+ * @param selector - CSS selector or XPath expression, possibly containing `>>>`
+ * @returns Trimmed segments; `>>>` inside quoted strings is not treated as a separator
+ *
+ * @example
+ * ```typescript
+ * splitSelectorPath('my-app >>> #cart .total');  // ['my-app', '#cart .total']
+ * splitSelectorPath('[title=">>>"]');             // ['[title=">>>"]']
+ * ```
+ */
+export function splitSelectorPath(selector: string): string[] {
+  const segments: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (quote) {
+      if (ch === '\\') {
+        i++;
+      } else if (ch === quote) {
+        quote = null;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (selector.startsWith(PIERCE_COMBINATOR, i)) {
+      segments.push(selector.slice(start, i).trim());
+      i += PIERCE_COMBINATOR.length - 1;
+      start = i + 1;
+    }
+  }
+
+  segments.push(selector.slice(start).trim());
+  return segments;
+}
+
+/**
+ * Gets the root a pierce combinator enters from a host element
+ *
+ * @param host - Shadow host or frame element
+ * @returns The host's shadow root (closed roots too when the chrome.dom API is available),
+ * the frame's document if it is same-origin, otherwise null
+ */
+export function getPiercedRoot(host: Element): SelectorRoot | null {
+  const frame = host as HTMLIFrameElement;
+  if (host.localName === 'iframe' || host.localName === 'frame') {
+    try {
+      return frame.contentDocument;
+    } catch {
+      // Cross-origin frame
+      return null;
+    }
+  }
+
+  if (host.shadowRoot) {
+    return host.shadowRoot;
+  }
+  if (typeof chrome !== 'undefined' && chrome.dom?.openOrClosedShadowRoot) {
+    return chrome.dom.openOrClosedShadowRoot(host as HTMLElement);
+  }
+  return null;
+}
+
+/**
+ * Finds the elements matching a single segment within one root
+ */
+function queryRoot(root: SelectorRoot, segment: string, type: SelectorType): Element[] {
+  if (type !== 'xpath') {
+    return Array.from(root.querySelectorAll(segment));
+  }
+
+  // XPath is evaluated by the document owning the context node (a frame has its own document)
+  const owner = root.nodeType === DOCUMENT_NODE ? root as Document : (root as ShadowRoot).ownerDocument;
+  const snapshot = owner.evaluate(segment, root, null, ORDERED_NODE_SNAPSHOT_TYPE, null);
+  const elements: Element[] = [];
+  for (let i = 0; i < snapshot.snapshotLength; i++) {
+    const node = snapshot.snapshotItem(i);
+    if (node && node.nodeType === ELEMENT_NODE) {
+      elements.push(node as Element);
+    }
+  }
+  return elements;
+}
+
+/**
+ * Finds all elements matching a selector in document order
+ *
+ * @param doc - Document to search
+ * @param selector - CSS selector or XPath expression, segments separated by `>>>`
+ * @param type - Kind of selector (default: 'css')
+ * @returns Matching elements; nodes that are not elements (text, attributes) are skipped for XPath
+ * @throws DOMException or TypeError if a segment is invalid, or an XPath segment does not evaluate to nodes
+ *
+ * @remarks
+ * Each segment is evaluated in the roots entered from the previous segment's matches. Hosts without
+ * a shadow root and cross-origin frames are skipped. XPath segments inside a shadow root are evaluated
+ * with the shadow root as context node, so they should be relative (e.g. `.//span`).
+ *
+ * @example
+ * ```typescript
+ * findElements(document, '.price', 'css');
+ * findElements(document, '//table[@id="prices"]//td[2]', 'xpath');
+ * findElements(document, 'iframe#report >>> shop-cart >>> .total', 'css');
+ * ```
+ */
+export function findElements(doc: Document, selector: string, type: SelectorType = DEFAULT_SELECTOR_TYPE): Element[] {
+  const segments = splitSelectorPath(selector);
+  const target = segments.pop() ?? '';
+  let roots: SelectorRoot[] = [doc];
+
+  for (const segment of segments) {
+    roots = roots
+      .flatMap(root => queryRoot(root, segment, type))
+      .map(getPiercedRoot)
+      .filter((root): root is SelectorRoot => root !== null);
+  }
+
+  return roots.flatMap(root => queryRoot(root, target, type));
+}
+
+/**
+ * Finds the first element matching a selector
+ * @throws Same errors as findElements
+ */
+export function findElement(doc: Document, selector: string, type: SelectorType = DEFAULT_SELECTOR_TYPE): Element | null {
+  if (type !== 'xpath' && !selector.includes(PIERCE_COMBINATOR)) {
+    return doc.querySelector(selector);
+  }
+  return findElements(doc, selector, type)[0] ?? null;
+}
+
+/**
+ * Gets the element a root is entered from
+ * @returns The shadow host, the frame element of a same-origin frame document, or null for the top document
+ */
+export function getBoundaryHost(root: SelectorRoot): Element | null {
+  if (root.nodeType !== DOCUMENT_NODE) {
+    return (root as ShadowRoot).host;
+  }
+  try {
+    return (root as Document).defaultView?.frameElement ?? null;
+  } catch {
+    // Parent frame is cross-origin
+    return null;
+  }
+}
+
+/**
+ * Builds a selector path for an element that may be inside shadow roots or frames
+ *
+ * @param element - Element picked on the page
+ * @param generateSegment - Generates a selector for an element within its own root
+ * @returns Segments from the top document down to the element, joined with the pierce combinator
+ */
+export function getPiercingPath(element: Element, generateSegment: (element: Element, root: SelectorRoot) => string): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const root = current.getRootNode() as SelectorRoot;
+    segments.unshift(generateSegment(current, root));
+    current = getBoundaryHost(root);
+  }
+
+  return segments.join(` ${PIERCE_COMBINATOR} `);
+}
+
+/**
+ * Quotes a string as an XPath literal
+ * XPath 1.0 has no escape sequences, so strings containing both quote kinds are built with concat()
+ */
+export function toXPathLiteral(value: string): string {
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  const parts = value.split('"').map(part => `"${part}"`);
+  return `concat(${parts.join(', \'"\', ')})`;
+}
+
+/**
+ * Builds the name test for an element step
+ * Elements outside the HTML namespace (SVG, MathML) do not match a plain name test in HTML documents
+ */
+function getNameTest(element: Element): string {
+  const name = element.localName;
+  if (element.namespaceURI && element.namespaceURI !== XHTML_NAMESPACE) {
+    return `*[local-name()=${toXPathLiteral(name)}]`;
+  }
+  return name;
+}
+
+/**
+ * Generates an XPath expression for an element within its own root
+ * Paths inside a shadow root are relative to it (prefixed with '.')
+ */
+function getXPathInRoot(element: Element, root: SelectorRoot): string {
+  const prefix = root.nodeType === DOCUMENT_NODE ? '' : '.';
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    if (current.id) {
+      steps.unshift(`${prefix}//*[@id=${toXPathLiteral(current.id)}]`);
+      return steps.join('/');
+    }
+
+    const parent: Element | null = current.parentElement;
+    let step = getNameTest(current);
+    if (parent) {
+      const sameName = Array.from(parent.children).filter(sibling =>
+        sibling.localName === current?.localName && sibling.namespaceURI === current?.namespaceURI);
+      if (sameName.length > 1) {
+        step += `[${sameName.indexOf(current) + 1}]`;
+      }
+    }
+    steps.unshift(step);
+    current = parent;
+  }
+
+  return `${prefix}/${steps.join('/')}`;
+}
+
+/**
+ * Generates an XPath expression for an element
+ *
+ * @param element - Element picked on the page
+ * @returns Absolute path of positional steps, anchored at the nearest ancestor with an id
+ *
+ * @remarks
+ * Position predicates count only siblings with the same name and are omitted when the element
+ * is the only one of its kind, so the expression stays readable and tolerates unrelated siblings.
+ * Elements inside shadow roots or same-origin frames get one path per root, joined with `>>>`.
+ *
+ * @example
+ * ```typescript
+ * getXPath(priceCell);  // '//*[@id="prices"]/tbody/tr[3]/td[2]'
+ * getXPath(heading);    // '/html/body/main/h1'
+ * getXPath(cartTotal);  // '/html/body/shop-cart >>> ./div/span[2]'
+ * ```
+ */
+export function getXPath(element: Element): string {
+  return getPiercingPath(element, getXPathInRoot);
+}
@@ -0,0 +1,61 @@
+/**
+ * Session expiry detection
+ * Recognizes checks that landed on a login page instead of the monitored page
+ */
+
+import { SessionCheck, SessionExpiredReason } from './types';
+
+/**
+ * What was observed about the checked page
+ * @property url - Final URL after redirects (URL pattern is not checked when missing)
+ * @property loginIndicatorFound - Whether the login indicator selector matched an element
+ */
+export interface PageIdentity {
+  url?: string;
+  loginIndicatorFound?: boolean;
+}
+
+/**
+ * Tests a URL against a pattern where `*` matches any characters
+ * The pattern must match the whole URL; a pattern without `*` must equal the URL
+ *
+ * @example
+ * ```typescript
+ * matchesUrlPattern('https://example.com/reports/1', 'https://example.com/reports/*');  // true
+ * matchesUrlPattern('https://example.com/login?next=/reports', 'https://example.com/reports/*');  // false
+ * ```
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern.trim().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * Whether a session check has any condition configured
+ */
+export function hasSessionCheck(check: SessionCheck | undefined): check is SessionCheck {
+  return !!check && (!!check.urlPattern?.trim() || !!check.loginSelector?.trim());
+}
+
+/**
+ * Decides whether a checked page is the login page of an expired session
+ *
+ * @param check - Expected page conditions of the project
+ * @param page - Final URL and login indicator of the checked page
+ * @returns Reason of the violation (the URL is checked first), or null if the page is the expected one
+ *
+ * @example
+ * ```typescript
+ * detectSessionExpiry({ urlPattern: 'https://example.com/app/*' }, { url: 'https://sso.example.com/login' });
+ * // 'urlMismatch'
+ * ```
+ */
+export function detectSessionExpiry(check: SessionCheck, page: PageIdentity): SessionExpiredReason | null {
+  if (check.urlPattern?.trim() && page.url !== undefined && !matchesUrlPattern(page.url, check.urlPattern)) {
+    return 'urlMismatch';
+  }
+  if (check.loginSelector?.trim() && page.loginIndicatorFound) {
+    return 'loginIndicator';
+  }
+  return null;
+}
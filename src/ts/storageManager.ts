@@ -1,5 +1,9 @@
 import { LIMITS } from './constants';
-import { LogEntry, Project } from './types';
+import { appendNumericPoint } from './numericHistory';
+import { LogEntry, NumericPoint, Project } from './types';
+
+// Each project's numeric history has its own key, so recording a value does not rewrite the history of every project
+const numericHistoryKey = (projectId: string): string => `numericHistory_${projectId}`;
 
 /**
  * Storage Manager with mutex lock to prevent race conditions
@@ -51,8 +55,9 @@ class StorageManager {
   /**
    * Update a single project atomically
    * Returns the project state BEFORE the update (useful for detecting changes)
+   * Updates that depend on the stored state can be passed as a function of it, evaluated inside the lock
    */
-  async updateProject(projectId: string, updates: Partial<Project>): Promise<Project | null> {
+  async updateProject(projectId: string, updates: Partial<Project> | ((currentProject: Project) => Partial<Project>)): Promise<Project | null> {
     return this.executeWithLock(async () => {
       const projects = await chrome.storage.local.get(['projects']).then(
         data => (data.projects as Project[] | undefined) || []
@@ -68,7 +73,7 @@ class StorageManager {
       const previousState = { ...currentProject };
 
       // Apply updates
-      projects[index] = { ...currentProject, ...updates };
+      projects[index] = { ...currentProject, ...(typeof updates === 'function' ? updates(previousState) : updates) };
 
       await chrome.storage.local.set({ projects });
 
@@ -106,6 +111,7 @@ class StorageManager {
       if (filtered.length === initialLength) return false;
 
       await chrome.storage.local.set({ projects: filtered });
+      await chrome.storage.local.remove(numericHistoryKey(projectId));
       return true;
     });
   }
@@ -157,6 +163,49 @@ class StorageManager {
     });
   }
 
+  /**
+   * Get the numeric trend history of a project (chronological order)
+   */
+  async getNumericHistory(projectId: string): Promise<NumericPoint[]> {
+    return this.executeWithLock(async () => {
+      const key = numericHistoryKey(projectId);
+      const data = await chrome.storage.local.get([key]);
+      return (data[key] as NumericPoint[] | undefined) || [];
+    });
+  }
+
+  /**
+   * Get the numeric trend histories of several projects at once
+   */
+  async getNumericHistories(projectIds: string[]): Promise<Record<string, NumericPoint[]>> {
+    return this.executeWithLock(async () => {
+      const data = await chrome.storage.local.get(projectIds.map(numericHistoryKey));
+      return Object.fromEntries(projectIds.map(id => [id, (data[numericHistoryKey(id)] as NumericPoint[] | undefined) || []]));
+    });
+  }
+
+  /**
+   * Record the numeric value of a check
+   * Kept apart from the logs, so that weeks of values are not limited by MAX_LOGS_PER_PROJECT
+   */
+  async addNumericPoint(projectId: string, point: NumericPoint): Promise<void> {
+    return this.executeWithLock(async () => {
+      const key = numericHistoryKey(projectId);
+      const data = await chrome.storage.local.get([key]);
+      const history = (data[key] as NumericPoint[] | undefined) || [];
+      await chrome.storage.local.set({ [key]: appendNumericPoint(history, point) });
+    });
+  }
+
+  /**
+   * Clear the numeric trend history of a project
+   */
+  async clearNumericHistory(projectId: string): Promise<void> {
+    return this.executeWithLock(async () => {
+      await chrome.storage.local.remove(numericHistoryKey(projectId));
+    });
+  }
+
   /**
    * Get settings from storage
    */
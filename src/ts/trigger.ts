@@ -0,0 +1,106 @@
+/**
+ * Condition-based notification triggers
+ * Decides whether a check should notify based on a keyword, regex or element presence rule
+ */
+
+import { t } from './i18n';
+import { TriggerOutcome, TriggerRule } from './types';
+
+/**
+ * Element state observed by a check
+ * @property present - Whether the element was found
+ * @property content - Processed content (empty when the element is not present)
+ */
+export interface TriggerState {
+  present: boolean;
+  content: string;
+}
+
+/**
+ * Checks whether a rule watches element presence rather than content
+ */
+export function isPresenceRule(rule: TriggerRule | undefined): boolean {
+  return rule?.type === 'appears' || rule?.type === 'disappears';
+}
+
+function containsKeyword(content: string, rule: TriggerRule): boolean {
+  const keyword = rule.value ?? '';
+  return rule.ignoreCase
+    ? content.toLowerCase().includes(keyword.toLowerCase())
+    : content.includes(keyword);
+}
+
+function matchesPattern(content: string, rule: TriggerRule): boolean {
+  return new RegExp(rule.value ?? '', rule.ignoreCase ? 'i' : undefined).test(content);
+}
+
+/**
+ * Checks whether a rule's condition holds for an element state
+ */
+export function isConditionMet(rule: TriggerRule, state: TriggerState): boolean {
+  switch (rule.type) {
+    case 'contains':
+      return state.present && containsKeyword(state.content, rule);
+    case 'notContains':
+      return !state.present || !containsKeyword(state.content, rule);
+    case 'matches':
+      return state.present && matchesPattern(state.content, rule);
+    case 'notMatches':
+      return !state.present || !matchesPattern(state.content, rule);
+    case 'appears':
+      return state.present;
+    case 'disappears':
+      return !state.present;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates a trigger rule for a check
+ *
+ * @param rule - Trigger rule of the project
+ * @param previous - State at the previous check (undefined if unknown, e.g. first check)
+ * @param current - State observed by this check
+ * @returns Outcome; fired is true only when the condition starts to hold
+ *
+ * @example
+ * ```typescript
+ * const rule: TriggerRule = { type: 'notContains', value: 'Sold out' };
+ * evaluateTriggerRule(rule, { present: true, content: 'Sold out' }, { present: true, content: 'Add to cart' });
+ * // { type: 'notContains', conditionMet: true, previouslyMet: false, fired: true }
+ * ```
+ */
+export function evaluateTriggerRule(rule: TriggerRule, previous: TriggerState | undefined, current: TriggerState): TriggerOutcome {
+  const conditionMet = isConditionMet(rule, current);
+  const previouslyMet = previous ? isConditionMet(rule, previous) : undefined;
+  return {
+    type: rule.type,
+    conditionMet,
+    previouslyMet,
+    fired: conditionMet && previouslyMet === false
+  };
+}
+
+/**
+ * Describes a trigger rule for display in the UI and notifications
+ */
+export function describeTriggerRule(rule: TriggerRule): string {
+  const value = rule.value ?? '';
+  switch (rule.type) {
+    case 'contains':
+      return t('triggerDescContains', [value]);
+    case 'notContains':
+      return t('triggerDescNotContains', [value]);
+    case 'matches':
+      return t('triggerDescMatches', [value]);
+    case 'notMatches':
+      return t('triggerDescNotMatches', [value]);
+    case 'appears':
+      return t('triggerDescAppears');
+    case 'disappears':
+      return t('triggerDescDisappears');
+    default:
+      return rule.type;
+  }
+}
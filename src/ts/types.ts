@@ -8,32 +8,592 @@
  * @interface Project
  * @property {string} id - Unique identifier for the project (timestamp-based)
  * @property {string} name - User-defined project name
+ * @property {ProjectType} [type] - How the URL is checked (default: 'page')
  * @property {string} url - Target webpage URL to monitor
- * @property {string} selector - CSS selector for the DOM element to monitor
+ * @property {HttpResponseFormat} [responseFormat] - How the fetched response is read ('http' projects only, default: 'json')
+ * @property {string} selector - CSS selector or XPath expression for the DOM element to monitor, or JSON path for JSON endpoints
+ * @property {SelectorType} [selectorType] - Kind of selector (default: 'css')
  * @property {number} interval - Monitoring interval in milliseconds (minimum 60000ms)
+ * @property {Schedule} [schedule] - Cron expression and active hours (default: every interval, at any time)
+ * @property {AdaptiveIntervalConfig} [adaptive] - Longer intervals after quiet checks, back to the interval after a change
+ * @property {number} [effectiveInterval] - Interval currently used by an adaptive project in milliseconds (default: interval)
+ * @property {CheckPriority} [priority] - Order in the check queue when several checks are due (default: 'normal')
+ * @property {number} [jitter] - Random variation of each interval in percent, the next check falls within ±jitter% of the interval (default: 0)
+ * @property {number} [confirmChecks] - Consecutive checks that must see new content before it becomes the baseline and notifies (default: 1)
+ * @property {PendingChange} [pendingChange] - New content waiting for confirmation
  * @property {boolean} active - Whether monitoring is currently active
  * @property {boolean} browserNotification - Whether to show browser notifications on changes
  * @property {WebhookConfig} [webhook] - Optional webhook configuration for external notifications
  * @property {string} [lastContent] - Last observed content of the monitored element
+ * @property {Baseline} [baseline] - Pinned reference content, compared with in 'baseline' comparison mode
+ * @property {ComparisonMode} [comparisonMode] - What each check is compared with (default: 'previous')
  * @property {string} [lastChecked] - ISO timestamp of last check
  * @property {number | null} [tabId] - Chrome tab ID used for monitoring (cached for reuse)
  * @property {string} [lastWebhookTime] - ISO timestamp of last webhook call (for rate limiting)
  * @property {number} [loadDelay] - Additional delay in milliseconds after page load before checking element (for Ajax/async content, default: 0, range: 0-60000)
+ * @property {ReadinessConfig} [readiness] - How to wait for the page after load (default: fixed loadDelay)
+ * @property {InteractionStep[]} [steps] - Interactions performed in order before the element is read
+ * @property {SessionCheck} [sessionCheck] - How to recognize that the check landed on a login page instead of the monitored page
+ * @property {boolean} [sessionExpired] - Whether the last check found the session expired (cleared by the next successful check)
+ * @property {boolean} [live] - Whether open tabs of the URL are watched for changes between scheduled checks (page projects only)
+ * @property {ContentSource} [contentSource] - What to read from the element (default: visible text)
+ * @property {MatchMode} [matchMode] - How selector matches are monitored (default: 'first')
+ * @property {string[]} [lastItems] - Last observed items in 'all' match mode (ordered as on the page)
+ * @property {number} [tableKeyColumn] - Column (0-based) whose cell identifies a row in 'table' match mode (default: 0)
+ * @property {TableData} [lastTable] - Last observed table in 'table' match mode
+ * @property {ProjectField[]} [fields] - Additional named values read in the same page load, each compared and notified on its own
+ * @property {FieldValues} [lastFields] - Last observed values of the named fields
+ * @property {NumericConfig} [numeric] - Numeric value extraction and trigger settings
+ * @property {number} [lastNumericValue] - Last successfully parsed numeric value
+ * @property {RegexExtraction} [extractRegex] - Regex applied to the content before comparison (only the captured value is kept)
+ * @property {NormalizationConfig} [normalization] - Ignore rules applied to the content before comparison
+ * @property {TriggerRule} [trigger] - Condition that must start holding for a notification to fire (default: any change)
+ * @property {boolean} [lastPresent] - Whether the element was found at the last check (default: true)
+ * @property {VisualConfig} [visual] - Screenshot-based change detection settings
+ * @property {string} [lastScreenshot] - Thumbnail of the element from the last capture (JPEG data URL)
  */
 export interface Project {
   id: string;
   name: string;
+  type?: ProjectType;
   url: string;
+  responseFormat?: HttpResponseFormat;
   selector: string;
+  selectorType?: SelectorType;
   interval: number;
+  schedule?: Schedule;
+  adaptive?: AdaptiveIntervalConfig;
+  effectiveInterval?: number;
+  priority?: CheckPriority;
+  jitter?: number;
+  confirmChecks?: number;
+  pendingChange?: PendingChange;
   active: boolean;
   browserNotification: boolean;
   webhook?: WebhookConfig;
   lastContent?: string;
+  baseline?: Baseline;
+  comparisonMode?: ComparisonMode;
   lastChecked?: string;
   tabId?: number | null;
   lastWebhookTime?: string;
   loadDelay?: number;
+  readiness?: ReadinessConfig;
+  steps?: InteractionStep[];
+  sessionCheck?: SessionCheck;
+  sessionExpired?: boolean;
+  live?: boolean;
+  contentSource?: ContentSource;
+  matchMode?: MatchMode;
+  lastItems?: string[];
+  tableKeyColumn?: number;
+  lastTable?: TableData;
+  fields?: ProjectField[];
+  lastFields?: FieldValues;
+  numeric?: NumericConfig;
+  lastNumericValue?: number;
+  extractRegex?: RegexExtraction;
+  normalization?: NormalizationConfig;
+  trigger?: TriggerRule;
+  lastPresent?: boolean;
+  visual?: VisualConfig;
+  lastScreenshot?: string;
+}
+
+/**
+ * Named value read alongside the monitored element
+ * @interface ProjectField
+ * @property {string} name - Identifier used in notifications and as webhook variable `{{fields.<name>}}` (letters, digits, underscores)
+ * @property {string} selector - Selector of the element, of the project's selector type (JSON path for JSON endpoint projects)
+ * @property {ContentSource} [contentSource] - What to read from the element (default: visible text)
+ * @property {RegexExtraction} [extractRegex] - Regex applied to the field text (only the captured value is kept)
+ *
+ * @example
+ * ```typescript
+ * const fields: ProjectField[] = [
+ *   { name: 'price', selector: '.price', extractRegex: { pattern: '[\\d.,]+', group: 0 } },
+ *   { name: 'availability', selector: '#stock-status' },
+ *   { name: 'sku', selector: '.product', contentSource: { type: 'attribute', name: 'data-sku' } }
+ * ];
+ * ```
+ */
+export interface ProjectField {
+  name: string;
+  selector: string;
+  contentSource?: ContentSource;
+  extractRegex?: RegexExtraction;
+}
+
+/**
+ * Values of named fields by field name (null when the field's element was not found)
+ */
+export type FieldValues = Record<string, string | null>;
+
+/**
+ * Change of a named field between two checks
+ * @interface FieldChange
+ * @property {string} name - Field name
+ * @property {string | null} from - Previous value (null if the element was not found)
+ * @property {string | null} to - New value (null if the element is no longer found)
+ */
+export interface FieldChange {
+  name: string;
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * How the checks of a project are timed
+ * - interval: every project interval
+ * - cron: at the minutes matched by a cron expression
+ */
+export type ScheduleMode = 'interval' | 'cron';
+
+/**
+ * Days and hours during which scheduled checks run, in the time zone of the browser
+ * @interface ActiveWindow
+ * @property {number[]} days - Days of the week the window starts on (0 = Sunday ... 6 = Saturday)
+ * @property {string} start - Start time as HH:MM
+ * @property {string} end - End time as HH:MM (exclusive); an end at or before the start closes the window on the next day
+ */
+export interface ActiveWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+/**
+ * Check schedule of a project
+ * @interface Schedule
+ * @property {ScheduleMode} mode - How checks are timed
+ * @property {string} [cron] - Five-field cron expression: minute hour day-of-month month day-of-week ('cron' mode only)
+ * @property {ActiveWindow[]} [windows] - Checks only run inside these windows (default: at any time)
+ *
+ * @example
+ * ```typescript
+ * // Every 5 minutes on weekdays between 09:00 and 18:00
+ * const officeHours: Schedule = { mode: 'interval', windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }] };
+ * // At 08:00 daily
+ * const daily: Schedule = { mode: 'cron', cron: '0 8 * * *' };
+ * ```
+ */
+export interface Schedule {
+  mode: ScheduleMode;
+  cron?: string;
+  windows?: ActiveWindow[];
+}
+
+/**
+ * Priority of a project in the check queue (higher priorities start first)
+ */
+export type CheckPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Check waiting in the check queue
+ * @interface QueuedCheckInfo
+ * @property {string} projectId - Project to check
+ * @property {CheckPriority} priority - Priority of the check
+ * @property {number} queuedAt - Time the check was queued in milliseconds since epoch
+ */
+export interface QueuedCheckInfo {
+  projectId: string;
+  priority: CheckPriority;
+  queuedAt: number;
+}
+
+/**
+ * State of the check queue, shown in the options page
+ * @interface CheckQueueStatus
+ * @property {number} maxConcurrent - Maximum number of checks running at the same time
+ * @property {string[]} running - Projects whose check is running
+ * @property {QueuedCheckInfo[]} queued - Waiting checks in the order they will start
+ */
+export interface CheckQueueStatus {
+  maxConcurrent: number;
+  running: string[];
+  queued: QueuedCheckInfo[];
+}
+
+/**
+ * Adaptive interval settings
+ * Checks start at the project interval: every check without a change multiplies the interval by the
+ * backoff factor up to the maximum, and a detected change returns to the minimum interval
+ * @interface AdaptiveIntervalConfig
+ * @property {boolean} enabled - Whether the interval adapts
+ * @property {number} [minInterval] - Shortest interval in milliseconds, used again after a change (default: the project interval)
+ * @property {number} maxInterval - Longest interval in milliseconds (at most LIMITS.MAX_INTERVAL_MS)
+ * @property {number} backoffFactor - Factor applied to the interval after each check without a change (greater than 1)
+ */
+export interface AdaptiveIntervalConfig {
+  enabled: boolean;
+  minInterval?: number;
+  maxInterval: number;
+  backoffFactor: number;
+}
+
+/**
+ * New content seen by consecutive checks but not yet confirmed as a change
+ * @interface PendingChange
+ * @property {string} content - Candidate content
+ * @property {number} count - Consecutive checks that saw it so far
+ */
+export interface PendingChange {
+  content: string;
+  count: number;
+}
+
+/**
+ * Numeric value read by one check, as [time in milliseconds since epoch, value]
+ * Kept as a tuple so that weeks of history stay small in storage
+ */
+export type NumericPoint = [number, number];
+
+/**
+ * What each check is compared with
+ * - previous: the content read by the previous check, a change is notified once
+ * - baseline: the pinned baseline, every check notifies while the content differs from it
+ */
+export type ComparisonMode = 'previous' | 'baseline';
+
+/**
+ * Reference content pinned by the user, compared with instead of the previous check
+ * @interface Baseline
+ * @property {string} content - Reference content
+ * @property {string[]} [items] - Reference items ('all' match mode, only when pinned from the current content)
+ * @property {TableData} [table] - Reference table ('table' match mode, only when pinned from the current content)
+ * @property {string} pinnedAt - ISO timestamp when the baseline was pinned
+ * @property {string} [logTimestamp] - Timestamp of the log entry the baseline was taken from (reverted baselines only)
+ */
+export interface Baseline {
+  content: string;
+  items?: string[];
+  table?: TableData;
+  pinnedAt: string;
+  logTimestamp?: string;
+}
+
+/**
+ * Progress of a change waiting for confirmation, as recorded in the log
+ * @interface PendingConfirmation
+ * @property {number} count - Consecutive checks that saw the new content so far
+ * @property {number} required - Consecutive checks needed to confirm it
+ */
+export interface PendingConfirmation {
+  count: number;
+  required: number;
+}
+
+/**
+ * How to wait for a page to be ready before it is checked
+ * - delay: fixed loadDelay
+ * - element: until the selector matches an element
+ * - content: until the matched element has non-empty content
+ * - settle: until no DOM mutations were seen for the settle time
+ */
+export type ReadinessMode = 'delay' | 'element' | 'content' | 'settle';
+
+/**
+ * Adaptive page readiness settings
+ * @interface ReadinessConfig
+ * @property {ReadinessMode} mode - What to wait for
+ * @property {number} [settleTime] - Quiet time in milliseconds ('settle' mode, default: READINESS.DEFAULT_SETTLE_MS)
+ * @property {number} [timeout] - Maximum time to wait in milliseconds (default: READINESS.DEFAULT_TIMEOUT_MS, at most LIMITS.MAX_LOAD_DELAY_MS)
+ *
+ * @example
+ * ```typescript
+ * const waitForPrices: ReadinessConfig = { mode: 'content', timeout: 20000 };
+ * const waitForQuiet: ReadinessConfig = { mode: 'settle', settleTime: 1500 };
+ * ```
+ */
+export interface ReadinessConfig {
+  mode: ReadinessMode;
+  settleTime?: number;
+  timeout?: number;
+}
+
+/**
+ * Kind of interaction performed before a check
+ * - click: click the element matched by the selector
+ * - scroll: scroll to the bottom of the page (loads lazy content)
+ * - type: enter text into the input or textarea matched by the selector
+ * - select: choose an option (by value or label) of the select element matched by the selector
+ * - wait: pause for a duration
+ */
+export type InteractionStepType = 'click' | 'scroll' | 'type' | 'select' | 'wait';
+
+/**
+ * Interaction performed on the page before the monitored element is read
+ * @interface InteractionStep
+ * @property {InteractionStepType} type - What to do
+ * @property {string} [selector] - CSS selector of the target element (click, type and select)
+ * @property {string} [value] - Text to type or option to select
+ * @property {number} [duration] - Pause in milliseconds (wait)
+ *
+ * @example
+ * ```typescript
+ * const steps: InteractionStep[] = [
+ *   { type: 'click', selector: '#accept-cookies' },
+ *   { type: 'click', selector: 'button.show-more' },
+ *   { type: 'wait', duration: 1000 }
+ * ];
+ * ```
+ */
+export interface InteractionStep {
+  type: InteractionStepType;
+  selector?: string;
+  value?: string;
+  duration?: number;
+}
+
+/**
+ * Outcome of an interaction step during a check
+ * @interface StepResult
+ * @property {InteractionStepType} type - Kind of step
+ * @property {string} [selector] - Target selector of the step
+ * @property {boolean} success - Whether the step was performed
+ * @property {string} [error] - Why the step failed (e.g. element not found)
+ */
+export interface StepResult {
+  type: InteractionStepType;
+  selector?: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Expected page checks that detect expired sessions
+ * A check violating either condition is reported as "session expired" instead of reading the element
+ * @interface SessionCheck
+ * @property {string} [urlPattern] - Pattern the final URL (after redirects) must match, `*` matches any characters
+ * @property {string} [loginSelector] - CSS selector of an element that only exists on the login page
+ *
+ * @example
+ * ```typescript
+ * const intranet: SessionCheck = { urlPattern: 'https://intranet.example.com/reports/*', loginSelector: 'form#login' };
+ * ```
+ */
+export interface SessionCheck {
+  urlPattern?: string;
+  loginSelector?: string;
+}
+
+/**
+ * Why a check was considered to have hit an expired session
+ * - urlMismatch: the final URL did not match the expected pattern (e.g. redirected to a login page)
+ * - loginIndicator: the login indicator element was found on the page
+ */
+export type SessionExpiredReason = 'urlMismatch' | 'loginIndicator';
+
+/**
+ * Kind of condition a trigger rule watches
+ * - contains / notContains: content starts / stops containing a keyword
+ * - matches / notMatches: content starts / stops matching a regex
+ * - appears / disappears: the element starts / stops being present on the page
+ */
+export type TriggerConditionType = 'contains' | 'notContains' | 'matches' | 'notMatches' | 'appears' | 'disappears';
+
+/**
+ * Condition-based notification trigger
+ * Fires only on the check where the condition starts to hold
+ * @interface TriggerRule
+ * @property {TriggerConditionType} type - Condition to watch
+ * @property {string} [value] - Keyword or regex (required except for appears/disappears)
+ * @property {boolean} [ignoreCase] - Match the keyword or regex case-insensitively
+ *
+ * @example
+ * ```typescript
+ * const backInStock: TriggerRule = { type: 'notContains', value: 'Sold out', ignoreCase: true };
+ * const ticketsOnSale: TriggerRule = { type: 'contains', value: 'Tickets available' };
+ * ```
+ */
+export interface TriggerRule {
+  type: TriggerConditionType;
+  value?: string;
+  ignoreCase?: boolean;
+}
+
+/**
+ * Result of evaluating a trigger rule during a check
+ * @interface TriggerOutcome
+ * @property {TriggerConditionType} type - Evaluated condition
+ * @property {boolean} conditionMet - Whether the condition holds now
+ * @property {boolean} [previouslyMet] - Whether it held at the previous check (undefined if unknown)
+ * @property {boolean} fired - Whether a notification fired (condition started to hold)
+ */
+export interface TriggerOutcome {
+  type: TriggerConditionType;
+  conditionMet: boolean;
+  previouslyMet?: boolean;
+  fired: boolean;
+}
+
+/**
+ * Ignore rules that suppress noisy changes (relative timestamps, rotating ads, whitespace reflow)
+ * Text rules are applied after regex extraction; the exclusion selector is applied when reading the page
+ * @interface NormalizationConfig
+ * @property {boolean} [collapseWhitespace] - Collapse whitespace runs into single spaces and trim
+ * @property {boolean} [caseFold] - Compare case-insensitively
+ * @property {boolean} [stripDigits] - Remove all digits
+ * @property {string[]} [ignorePatterns] - Regexes whose matches are removed from the content
+ * @property {string} [excludeSelector] - CSS selector for descendants of the monitored element to ignore
+ *
+ * @example
+ * ```typescript
+ * const ignoreNoise: NormalizationConfig = {
+ *   collapseWhitespace: true,
+ *   ignorePatterns: ['\\d+ (minutes|hours) ago'],
+ *   excludeSelector: '.ad-banner'
+ * };
+ * ```
+ */
+export interface NormalizationConfig {
+  collapseWhitespace?: boolean;
+  caseFold?: boolean;
+  stripDigits?: boolean;
+  ignorePatterns?: string[];
+  excludeSelector?: string;
+}
+
+/**
+ * Regex capture applied to the element content before it is compared, stored and notified
+ * @interface RegexExtraction
+ * @property {string} pattern - Regular expression source
+ * @property {string} [flags] - Regex flags (any of 'i', 'm', 's', 'u')
+ * @property {number} [group] - Capture group to keep (0 = whole match; default: first group if the pattern has one)
+ *
+ * @example
+ * ```typescript
+ * const version: RegexExtraction = { pattern: 'Version (\\d+\\.\\d+)', flags: 'i' };
+ * ```
+ */
+export interface RegexExtraction {
+  pattern: string;
+  flags?: string;
+  group?: number;
+}
+
+/**
+ * Visual change detection settings
+ * When enabled, each check captures a thumbnail of the element and compares it with the previous one
+ * @interface VisualConfig
+ * @property {boolean} enabled - Whether to capture and compare element screenshots
+ * @property {number} [threshold] - Percentage of differing pixels that counts as a change (default: VISUAL.DEFAULT_THRESHOLD_PERCENT)
+ *
+ * @example
+ * ```typescript
+ * const statusBadge: VisualConfig = { enabled: true, threshold: 2 };
+ * ```
+ */
+export interface VisualConfig {
+  enabled: boolean;
+  threshold?: number;
+}
+
+/**
+ * Position and size of an element in CSS pixels, relative to the top-level viewport
+ * @interface ElementRect
+ */
+export interface ElementRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Numeric value extraction settings
+ * When enabled, notifications fire only when the parsed value meets one of the configured conditions
+ * (or on any value change if no condition is set)
+ * @interface NumericConfig
+ * @property {boolean} enabled - Whether to parse a number from the content
+ * @property {string} [locale] - BCP 47 locale for decimal/thousands separators (guessed when omitted)
+ * @property {number} [below] - Fire when the value drops below this threshold
+ * @property {number} [above] - Fire when the value rises above this threshold
+ * @property {number} [percentChange] - Fire when the value moves by more than this percentage
+ *
+ * @example
+ * ```typescript
+ * const priceDrop: NumericConfig = { enabled: true, locale: 'de-DE', below: 199 };
+ * ```
+ */
+export interface NumericConfig {
+  enabled: boolean;
+  locale?: string;
+  below?: number;
+  above?: number;
+  percentChange?: number;
+}
+
+/**
+ * Why a numeric trigger fired
+ */
+export type NumericTriggerReason = 'below' | 'above' | 'percent' | 'change';
+
+/**
+ * How a project's URL is checked
+ * - page: the page is opened (or reused) in a tab and the element is read by the content script
+ * - http: the URL is fetched directly from the service worker, without a tab
+ */
+export type ProjectType = 'page' | 'http';
+
+/**
+ * How the response of an 'http' project is read
+ * - json: parsed as JSON, the selector is a JSONPath or dot path (e.g. `$.data.price`, `data.items.0.name`)
+ * - html: parsed as HTML, the selector is a CSS selector or XPath expression as for page projects
+ */
+export type HttpResponseFormat = 'json' | 'html';
+
+/**
+ * Kind of expression used to locate the monitored element
+ * - css: CSS selector (document.querySelectorAll)
+ * - xpath: XPath expression that selects element nodes (document.evaluate)
+ */
+export type SelectorType = 'css' | 'xpath';
+
+/**
+ * How the project selector's matches are monitored
+ * - first: content of the first matching element
+ * - all: ordered list of all matching elements, reported as added/removed/changed items
+ * - count: number of matching elements
+ * - table: rows of the first matching table, reported as added/removed/modified rows keyed by a column
+ */
+export type MatchMode = 'first' | 'all' | 'count' | 'table';
+
+/**
+ * Cell texts of an HTML table read in 'table' match mode
+ * @interface TableData
+ * @property {string[]} headers - Header cells (empty if the table has no header row)
+ * @property {string[][]} rows - Body rows in page order, each a list of cell texts
+ */
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Kind of value read from the monitored element
+ * - text: visible text (innerText, falling back to textContent and innerHTML)
+ * - innerHTML / outerHTML: element markup
+ * - attribute: value of a named attribute (e.g. href, src, data-*)
+ * - property: value of a named DOM property (e.g. value, checked)
+ */
+export type ContentSourceType = 'text' | 'innerHTML' | 'outerHTML' | 'attribute' | 'property';
+
+/**
+ * Describes which part of the element is used as monitored content
+ * @interface ContentSource
+ * @property {ContentSourceType} type - Kind of value to read
+ * @property {string} [name] - Attribute or property name (required for 'attribute' and 'property')
+ *
+ * @example
+ * ```typescript
+ * const linkTarget: ContentSource = { type: 'attribute', name: 'href' };
+ * const inputValue: ContentSource = { type: 'property', name: 'value' };
+ * ```
+ */
+export interface ContentSource {
+  type: ContentSourceType;
+  name?: string;
 }
 
 /**
@@ -71,6 +631,11 @@ export interface WebhookConfig {
   body?: string | Record<string, WebhookBodyValue>;
 }
 
+/**
+ * Transition of the monitored element between present and not present on the page
+ */
+export type PresenceChange = 'appeared' | 'disappeared';
+
 /**
  * Log entry for monitoring history
  * @interface LogEntry
@@ -80,6 +645,28 @@ export interface WebhookConfig {
  * @property {boolean} [changed] - Whether content changed from previous check
  * @property {boolean} success - Whether the check succeeded without errors
  * @property {string} [error] - Error message if check failed
+ * @property {ListDiff} [listDiff] - Item-level changes (only for 'all' match mode)
+ * @property {TableDiff} [tableDiff] - Row-level changes (only for 'table' match mode)
+ * @property {number | null} [numericValue] - Parsed numeric value (null if parsing failed, numeric projects only)
+ * @property {NumericTriggerReason} [numericTrigger] - Numeric condition that fired a notification
+ * @property {string} [rawContent] - Content as read from the page, before regex extraction and normalization (only stored when different)
+ * @property {TriggerOutcome} [trigger] - Trigger rule evaluation (projects with a trigger rule only)
+ * @property {boolean} [present] - Whether the element was found (false is a monitored state, not a failure)
+ * @property {PresenceChange} [presenceChange] - Set when the element appeared or disappeared since the previous check
+ * @property {TextDiffPart[]} [textDiff] - Line/word-level changes between oldContent and content (changed checks outside list and count mode, long unchanged runs shortened)
+ * @property {number} [visualDifference] - Percentage of pixels that differ from the previous screenshot (visual projects only)
+ * @property {string} [screenshot] - Element thumbnail, stored only when a visual change was detected
+ * @property {string} [oldScreenshot] - Previous element thumbnail, stored only when a visual change was detected
+ * @property {string} [visualError] - Why no screenshot could be compared (e.g. tab not visible); the content check is unaffected
+ * @property {number} [waitedMs] - Time waited for the page after load (fixed delay or adaptive readiness, page projects only)
+ * @property {boolean} [readyTimedOut] - Whether adaptive readiness reached its cap before the page was ready
+ * @property {StepResult[]} [steps] - Outcome of each interaction step (projects with steps only)
+ * @property {SessionExpiredReason} [sessionExpired] - Set when the check landed on a login page instead of the monitored page
+ * @property {FieldValues} [fields] - Values of the named fields at this check
+ * @property {FieldChange[]} [fieldChanges] - Named fields whose value changed since the previous check
+ * @property {boolean} [live] - Whether the check was started by a change seen in an open tab rather than by the schedule
+ * @property {PendingConfirmation} [pendingConfirmation] - Set when the content differs from the baseline but is not confirmed yet
+ * @property {boolean} [comparedToBaseline] - Whether oldContent is the pinned baseline rather than the previous check's content
  */
 export interface LogEntry {
   timestamp: string;
@@ -88,6 +675,102 @@ export interface LogEntry {
   changed?: boolean;
   success: boolean;
   error?: string;
+  listDiff?: ListDiff;
+  tableDiff?: TableDiff;
+  numericValue?: number | null;
+  numericTrigger?: NumericTriggerReason;
+  rawContent?: string;
+  trigger?: TriggerOutcome;
+  present?: boolean;
+  presenceChange?: PresenceChange;
+  textDiff?: TextDiffPart[];
+  visualDifference?: number;
+  screenshot?: string;
+  oldScreenshot?: string;
+  visualError?: string;
+  waitedMs?: number;
+  readyTimedOut?: boolean;
+  steps?: StepResult[];
+  sessionExpired?: SessionExpiredReason;
+  fields?: FieldValues;
+  fieldChanges?: FieldChange[];
+  live?: boolean;
+  pendingConfirmation?: PendingConfirmation;
+  comparedToBaseline?: boolean;
+}
+
+/**
+ * Item-level differences between two checks in 'all' match mode
+ * Items that only moved position are not reported
+ * @interface ListDiff
+ * @property {string[]} added - Items that appeared
+ * @property {string[]} removed - Items that disappeared
+ * @property {Array<{from: string, to: string}>} changed - Items whose content changed in place
+ */
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  changed: Array<{ from: string; to: string }>;
+}
+
+/**
+ * Changed cell of a modified table row
+ * @interface TableCellChange
+ * @property {number} column - Column index (0-based)
+ * @property {string} [header] - Header of the column (if the table has one)
+ * @property {string} from - Previous cell text
+ * @property {string} to - Current cell text
+ */
+export interface TableCellChange {
+  column: number;
+  header?: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * Table row present in both checks whose cells changed
+ * @interface TableRowChange
+ * @property {string} key - Text of the key column identifying the row
+ * @property {TableCellChange[]} cells - Changed cells
+ */
+export interface TableRowChange {
+  key: string;
+  cells: TableCellChange[];
+}
+
+/**
+ * Row-level differences between two checks in 'table' match mode
+ * Rows are matched by their key column, so rows that only moved are not reported
+ * @interface TableDiff
+ * @property {string[]} headers - Header cells of the current table
+ * @property {string[][]} added - Rows whose key appeared
+ * @property {string[][]} removed - Rows whose key disappeared
+ * @property {TableRowChange[]} modified - Rows whose key is unchanged but cells changed
+ */
+export interface TableDiff {
+  headers: string[];
+  added: string[][];
+  removed: string[][];
+  modified: TableRowChange[];
+}
+
+/**
+ * Kind of text diff part
+ */
+export type TextDiffPartType = 'equal' | 'added' | 'removed';
+
+/**
+ * Run of text that is unchanged, added or removed between two checks
+ * A diff is the ordered list of parts; joining equal and removed parts gives the old text,
+ * joining equal and added parts gives the new text
+ * @interface TextDiffPart
+ * @property {TextDiffPartType} type - Whether the text is unchanged, added or removed
+ * @property {string} text - Text of the run
+ */
+export interface TextDiffPart {
+  type: TextDiffPartType;
+  text: string;
 }
 
 /**
@@ -113,6 +796,17 @@ export interface MonitorInfo {
  * @property {string} oldContent - Previous content (before change)
  * @property {string} newContent - New content (after change)
  * @property {string} timestamp - ISO timestamp of the change
+ * @property {string} numericValue - Parsed numeric value (empty if not available)
+ * @property {string} oldNumericValue - Previous numeric value (empty if not available)
+ * @property {string} diff - Word-level diff, removed text as [-text-] and added text as {+text+} (empty if not available)
+ * @property {string} addedText - Added text, one run per line (empty if not available)
+ * @property {string} removedText - Removed text, one run per line (empty if not available)
+ * @property {string} tableDiff - Row-level table changes as JSON (empty if not available); a body value of exactly
+ * "{{tableDiff}}" is replaced with the JSON object itself
+ * @property {string} event - What the notification is about: 'change', 'fieldChange' for a named field, or 'sessionExpired' when the check landed on a login page
+ * @property {string} field - Name of the changed field ('fieldChange' events only)
+ *
+ * Values of named fields are available as {{fields.<name>}} in addition to these variables.
  *
  * @example
  * ```typescript
@@ -131,6 +825,14 @@ export interface WebhookVariables {
   oldContent: string;
   newContent: string;
   timestamp: string;
+  numericValue: string;
+  oldNumericValue: string;
+  diff: string;
+  addedText: string;
+  removedText: string;
+  tableDiff: string;
+  event: string;
+  field: string;
 }
 
 /**
@@ -189,6 +891,7 @@ export interface MessageResponse {
  * @property {boolean} autoReload - Whether to auto-reload monitored pages
  * @property {boolean} soundNotification - Whether to play sound on notifications
  * @property {number} maxRetries - Maximum retry attempts for failed checks
+ * @property {number} [maxConcurrentChecks] - Maximum number of checks running at the same time (default: CHECK_QUEUE.DEFAULT_MAX_CONCURRENT)
  */
 export interface Settings {
   defaultInterval: number;
@@ -199,6 +902,7 @@ export interface Settings {
   autoReload: boolean;
   soundNotification: boolean;
   maxRetries: number;
+  maxConcurrentChecks?: number;
 }
 
 /**
@@ -17,7 +17,14 @@
  */
 
 import ipaddr from 'ipaddr.js';
-import { LIMITS } from './constants';
+import { ADAPTIVE_INTERVAL, INTERACTION, LIMITS, READINESS } from './constants';
+import { FIELD_NAME_PATTERN } from './fields';
+import { parseJsonPath } from './jsonPath';
+import { isValidNumberLocale } from './numeric';
+import { ALLOWED_REGEX_FLAGS, countCaptureGroups, hasNestedQuantifier } from './regex';
+import { getNextRunTime, parseCronExpression, parseTimeOfDay } from './schedule';
+import { findElement, PIERCE_COMBINATOR, splitSelectorPath } from './selector';
+import { AdaptiveIntervalConfig, CheckPriority, ComparisonMode, ContentSource, ContentSourceType, HttpResponseFormat, InteractionStep, InteractionStepType, MatchMode, NormalizationConfig, NumericConfig, ProjectField, ProjectType, ReadinessConfig, ReadinessMode, RegexExtraction, Schedule, SelectorType, SessionCheck, TriggerConditionType, TriggerRule, VisualConfig } from './types';
 
 /**
  * Standardized error codes for validation failures
@@ -39,16 +46,92 @@ export enum ValidationErrorCode {
   SELECTOR_EMPTY = 'SELECTOR_EMPTY',
   SELECTOR_TOO_LONG = 'SELECTOR_TOO_LONG',
   SELECTOR_INVALID_SYNTAX = 'SELECTOR_INVALID_SYNTAX',
+  SELECTOR_TYPE_INVALID = 'SELECTOR_TYPE_INVALID',
+  JSON_PATH_INVALID = 'JSON_PATH_INVALID',
+
+  // Project type errors
+  PROJECT_TYPE_INVALID = 'PROJECT_TYPE_INVALID',
+  RESPONSE_FORMAT_INVALID = 'RESPONSE_FORMAT_INVALID',
 
   // Interval errors
   INTERVAL_INVALID = 'INTERVAL_INVALID',
   INTERVAL_TOO_SMALL = 'INTERVAL_TOO_SMALL',
   INTERVAL_TOO_LARGE = 'INTERVAL_TOO_LARGE',
+  CONFIRM_CHECKS_INVALID = 'CONFIRM_CHECKS_INVALID',
+  JITTER_INVALID = 'JITTER_INVALID',
+  ADAPTIVE_MAX_INTERVAL_INVALID = 'ADAPTIVE_MAX_INTERVAL_INVALID',
+  ADAPTIVE_MIN_INTERVAL_INVALID = 'ADAPTIVE_MIN_INTERVAL_INVALID',
+  ADAPTIVE_BACKOFF_INVALID = 'ADAPTIVE_BACKOFF_INVALID',
+  PRIORITY_INVALID = 'PRIORITY_INVALID',
+
+  // Schedule errors
+  SCHEDULE_MODE_INVALID = 'SCHEDULE_MODE_INVALID',
+  CRON_INVALID = 'CRON_INVALID',
+  SCHEDULE_NEVER_RUNS = 'SCHEDULE_NEVER_RUNS',
+  ACTIVE_WINDOWS_TOO_MANY = 'ACTIVE_WINDOWS_TOO_MANY',
+  ACTIVE_WINDOW_INVALID = 'ACTIVE_WINDOW_INVALID',
 
   // Load delay errors
   LOAD_DELAY_INVALID = 'LOAD_DELAY_INVALID',
   LOAD_DELAY_NEGATIVE = 'LOAD_DELAY_NEGATIVE',
   LOAD_DELAY_TOO_LARGE = 'LOAD_DELAY_TOO_LARGE',
+  READINESS_MODE_INVALID = 'READINESS_MODE_INVALID',
+  READINESS_TIMEOUT_INVALID = 'READINESS_TIMEOUT_INVALID',
+  READINESS_SETTLE_INVALID = 'READINESS_SETTLE_INVALID',
+
+  // Interaction step errors
+  STEPS_TOO_MANY = 'STEPS_TOO_MANY',
+  STEP_TYPE_INVALID = 'STEP_TYPE_INVALID',
+  STEP_SELECTOR_INVALID = 'STEP_SELECTOR_INVALID',
+  STEP_VALUE_INVALID = 'STEP_VALUE_INVALID',
+  STEP_DURATION_INVALID = 'STEP_DURATION_INVALID',
+
+  // Named field errors
+  FIELDS_TOO_MANY = 'FIELDS_TOO_MANY',
+  FIELD_NAME_INVALID = 'FIELD_NAME_INVALID',
+  FIELD_NAME_DUPLICATE = 'FIELD_NAME_DUPLICATE',
+  FIELD_SELECTOR_INVALID = 'FIELD_SELECTOR_INVALID',
+  FIELD_EXTRACTION_INVALID = 'FIELD_EXTRACTION_INVALID',
+  FIELD_CONTENT_SOURCE_INVALID = 'FIELD_CONTENT_SOURCE_INVALID',
+
+  // Session check errors
+  SESSION_URL_PATTERN_INVALID = 'SESSION_URL_PATTERN_INVALID',
+  SESSION_LOGIN_SELECTOR_INVALID = 'SESSION_LOGIN_SELECTOR_INVALID',
+
+  // Content source errors
+  CONTENT_SOURCE_INVALID_TYPE = 'CONTENT_SOURCE_INVALID_TYPE',
+  CONTENT_SOURCE_NAME_REQUIRED = 'CONTENT_SOURCE_NAME_REQUIRED',
+  CONTENT_SOURCE_NAME_INVALID = 'CONTENT_SOURCE_NAME_INVALID',
+
+  // Match mode errors
+  MATCH_MODE_INVALID = 'MATCH_MODE_INVALID',
+  COMPARISON_MODE_INVALID = 'COMPARISON_MODE_INVALID',
+  TABLE_KEY_COLUMN_INVALID = 'TABLE_KEY_COLUMN_INVALID',
+
+  // Numeric value errors
+  NUMERIC_LOCALE_INVALID = 'NUMERIC_LOCALE_INVALID',
+  NUMERIC_THRESHOLD_INVALID = 'NUMERIC_THRESHOLD_INVALID',
+  NUMERIC_PERCENT_INVALID = 'NUMERIC_PERCENT_INVALID',
+
+  // Regex errors
+  REGEX_PATTERN_EMPTY = 'REGEX_PATTERN_EMPTY',
+  REGEX_PATTERN_TOO_LONG = 'REGEX_PATTERN_TOO_LONG',
+  REGEX_PATTERN_INVALID = 'REGEX_PATTERN_INVALID',
+  REGEX_PATTERN_UNSAFE = 'REGEX_PATTERN_UNSAFE',
+  REGEX_FLAGS_INVALID = 'REGEX_FLAGS_INVALID',
+  REGEX_GROUP_INVALID = 'REGEX_GROUP_INVALID',
+
+  // Normalization errors
+  IGNORE_PATTERNS_TOO_MANY = 'IGNORE_PATTERNS_TOO_MANY',
+  EXCLUDE_SELECTOR_INVALID = 'EXCLUDE_SELECTOR_INVALID',
+
+  // Trigger rule errors
+  TRIGGER_TYPE_INVALID = 'TRIGGER_TYPE_INVALID',
+  TRIGGER_VALUE_REQUIRED = 'TRIGGER_VALUE_REQUIRED',
+  TRIGGER_VALUE_TOO_LONG = 'TRIGGER_VALUE_TOO_LONG',
+
+  // Visual change detection errors
+  VISUAL_THRESHOLD_INVALID = 'VISUAL_THRESHOLD_INVALID',
 
   // Webhook errors
   WEBHOOK_URL_INVALID = 'WEBHOOK_URL_INVALID',
@@ -128,17 +211,23 @@ export function validateProjectName(name: string): ValidationResult {
   return { valid: true };
 }
 
+const SELECTOR_TYPES: readonly SelectorType[] = ['css', 'xpath'];
+
 /**
- * Validates a CSS selector for syntax and length constraints
+ * Validates a CSS selector or XPath expression for syntax and length constraints
  *
- * @param selector - The CSS selector string to validate
+ * @param selector - The selector string to validate
+ * @param type - Kind of selector (default: 'css')
  * @returns ValidationResult object with valid flag and optional error message
  *
  * @remarks
  * Validation rules:
+ * - Type must be 'css' or 'xpath'
  * - Cannot be empty or whitespace-only
- * - Maximum length: 1000 characters (see LIMITS.MAX_SELECTOR_LENGTH)
- * - Must be valid CSS selector syntax (tested with document.querySelector when available)
+ * - Maximum length: 500 characters (see LIMITS.MAX_SELECTOR_LENGTH)
+ * - Must be valid syntax (tested with document.querySelector / document.evaluate when available)
+ * - An XPath expression must select nodes (e.g. count(//li) is rejected)
+ * - Segments separated by the pierce combinator (`>>>`) cannot be empty
  *
  * Note: Syntax validation is skipped in service worker context where document is unavailable
  *
@@ -148,18 +237,32 @@ export function validateProjectName(name: string): ValidationResult {
  * validateSelector('#content');                    // { valid: true }
  * validateSelector('.article > p:first-child');    // { valid: true }
  * validateSelector('[data-testid="main"]');        // { valid: true }
+ * validateSelector('//td[text()="Price"]/following-sibling::td', 'xpath');  // { valid: true }
+ * validateSelector('iframe#report >>> shop-cart >>> .total');                 // { valid: true }
  *
  * // Invalid selectors:
  * validateSelector('');                            // { valid: false, error: 'CSS selector cannot be empty' }
  * validateSelector('#invalid#syntax');             // { valid: false, error: 'Invalid CSS selector syntax...' }
- * validateSelector('a'.repeat(1001));              // { valid: false, error: 'CSS selector cannot exceed 1000 characters' }
+ * validateSelector('a'.repeat(501));               // { valid: false, error: 'CSS selector cannot exceed 500 characters' }
+ * validateSelector('//div[', 'xpath');             // { valid: false, error: 'Invalid XPath expression syntax...' }
+ * validateSelector('my-app >>> ');                 // { valid: false, error: 'Invalid CSS selector syntax: empty segment...' }
  * ```
  */
-export function validateSelector(selector: string): ValidationResult {
+export function validateSelector(selector: string, type: SelectorType = 'css'): ValidationResult {
+  if (!SELECTOR_TYPES.includes(type)) {
+    return {
+      valid: false,
+      error: `Invalid selector type: ${type}`,
+      errorCode: ValidationErrorCode.SELECTOR_TYPE_INVALID
+    };
+  }
+
+  const label = type === 'xpath' ? 'XPath expression' : 'CSS selector';
+
   if (!selector || selector.trim().length === 0) {
     return {
       valid: false,
-      error: 'CSS selector cannot be empty',
+      error: `${label} cannot be empty`,
       errorCode: ValidationErrorCode.SELECTOR_EMPTY
     };
   }
@@ -167,20 +270,28 @@ export function validateSelector(selector: string): ValidationResult {
   if (selector.length > LIMITS.MAX_SELECTOR_LENGTH) {
     return {
       valid: false,
-      error: `CSS selector cannot exceed ${LIMITS.MAX_SELECTOR_LENGTH} characters`,
+      error: `${label} cannot exceed ${LIMITS.MAX_SELECTOR_LENGTH} characters`,
       errorCode: ValidationErrorCode.SELECTOR_TOO_LONG
     };
   }
 
+  if (splitSelectorPath(selector).some(segment => segment.length === 0)) {
+    return {
+      valid: false,
+      error: `Invalid ${label} syntax: empty segment around "${PIERCE_COMBINATOR}"`,
+      errorCode: ValidationErrorCode.SELECTOR_INVALID_SYNTAX
+    };
+  }
+
   // Try to validate selector syntax by attempting to use it
   // Skip validation in service worker context where document is not available
   if (typeof document !== 'undefined') {
     try {
-      document.querySelector(selector);
+      findElement(document, selector, type);
     } catch (err) {
       return {
         valid: false,
-        error: `Invalid CSS selector syntax: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        error: `Invalid ${label} syntax: ${err instanceof Error ? err.message : 'Unknown error'}`,
         errorCode: ValidationErrorCode.SELECTOR_INVALID_SYNTAX
       };
     }
@@ -189,6 +300,89 @@ export function validateSelector(selector: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validates a JSON path for JSON endpoint projects
+ *
+ * @param expression - JSONPath or dot path (see parseJsonPath)
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Cannot be empty or whitespace-only
+ * - Maximum length: 500 characters (see LIMITS.MAX_SELECTOR_LENGTH)
+ * - Must parse (filter expressions and slices are not supported)
+ *
+ * @example
+ * ```typescript
+ * validateJsonPath('$.data.items[0].price');  // { valid: true }
+ * validateJsonPath('data.items.0.price');     // { valid: true }
+ * validateJsonPath('$.items[?(@.x)]');        // { valid: false, error: 'Invalid JSON path: ...' }
+ * ```
+ */
+export function validateJsonPath(expression: string): ValidationResult {
+  if (!expression || !expression.trim()) {
+    return {
+      valid: false,
+      error: 'JSON path cannot be empty',
+      errorCode: ValidationErrorCode.SELECTOR_EMPTY
+    };
+  }
+
+  if (expression.length > LIMITS.MAX_SELECTOR_LENGTH) {
+    return {
+      valid: false,
+      error: `JSON path cannot exceed ${LIMITS.MAX_SELECTOR_LENGTH} characters`,
+      errorCode: ValidationErrorCode.SELECTOR_TOO_LONG
+    };
+  }
+
+  try {
+    parseJsonPath(expression);
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Invalid JSON path: ${error instanceof Error ? error.message : String(error)}`,
+      errorCode: ValidationErrorCode.JSON_PATH_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the project type and, for HTTP endpoint projects, the response format
+ *
+ * @param type - Project type
+ * @param responseFormat - Response format ('http' projects only)
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateProjectType('page');          // { valid: true }
+ * validateProjectType('http', 'html');  // { valid: true }
+ * validateProjectType('tab' as ProjectType);  // { valid: false, error: 'Invalid project type: tab' }
+ * ```
+ */
+export function validateProjectType(type: ProjectType, responseFormat?: HttpResponseFormat): ValidationResult {
+  if (type !== 'page' && type !== 'http') {
+    return {
+      valid: false,
+      error: `Invalid project type: ${type}`,
+      errorCode: ValidationErrorCode.PROJECT_TYPE_INVALID
+    };
+  }
+
+  if (type === 'http' && responseFormat !== undefined && responseFormat !== 'json' && responseFormat !== 'html') {
+    return {
+      valid: false,
+      error: `Invalid response format: ${responseFormat}`,
+      errorCode: ValidationErrorCode.RESPONSE_FORMAT_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates a webpage URL for monitoring
  *
@@ -438,6 +632,197 @@ export function validateInterval(interval: number): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validates the number of consecutive checks that must see new content before it counts as a change
+ *
+ * @param count - Required consecutive checks (1 confirms every change immediately)
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateConfirmChecks(3);   // { valid: true }
+ * validateConfirmChecks(0);   // { valid: false, error: 'Confirmation checks must be an integer between 1 and 10' }
+ * ```
+ */
+export function validateConfirmChecks(count: number): ValidationResult {
+  if (!Number.isInteger(count) || count < 1 || count > LIMITS.MAX_CONFIRM_CHECKS) {
+    return {
+      valid: false,
+      error: `Confirmation checks must be an integer between 1 and ${LIMITS.MAX_CONFIRM_CHECKS}`,
+      errorCode: ValidationErrorCode.CONFIRM_CHECKS_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the random variation of the check interval
+ *
+ * @param percent - Maximum variation in percent of the interval (0 disables jitter)
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateJitter(20);   // { valid: true }
+ * validateJitter(80);   // { valid: false, error: 'Jitter must be between 0 and 50 percent' }
+ * ```
+ */
+export function validateJitter(percent: number): ValidationResult {
+  if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > LIMITS.MAX_JITTER_PERCENT) {
+    return {
+      valid: false,
+      error: `Jitter must be between 0 and ${LIMITS.MAX_JITTER_PERCENT} percent`,
+      errorCode: ValidationErrorCode.JITTER_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates adaptive interval settings
+ *
+ * @param config - Adaptive interval settings
+ * @param interval - Project interval in milliseconds, the first interval used
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateAdaptiveInterval({ enabled: true, maxInterval: 3600000, backoffFactor: 1.5 }, 300000);  // { valid: true }
+ * validateAdaptiveInterval({ enabled: true, maxInterval: 60000, backoffFactor: 1.5 }, 300000);    // { valid: false, error: '...', errorCode: 'ADAPTIVE_MAX_INTERVAL_INVALID' }
+ * validateAdaptiveInterval({ enabled: true, minInterval: 7200000, maxInterval: 3600000, backoffFactor: 1.5 }, 300000);
+ * // { valid: false, error: '...', errorCode: 'ADAPTIVE_MIN_INTERVAL_INVALID' }
+ * ```
+ */
+export function validateAdaptiveInterval(config: AdaptiveIntervalConfig, interval: number): ValidationResult {
+  if (!config.enabled) {
+    return { valid: true };
+  }
+
+  if (typeof config.maxInterval !== 'number' || isNaN(config.maxInterval) || config.maxInterval < interval || config.maxInterval > LIMITS.MAX_INTERVAL_MS) {
+    return {
+      valid: false,
+      error: 'Maximum interval must be between the check interval and 24 hours',
+      errorCode: ValidationErrorCode.ADAPTIVE_MAX_INTERVAL_INVALID
+    };
+  }
+
+  if (config.minInterval !== undefined
+    && (typeof config.minInterval !== 'number' || isNaN(config.minInterval) || config.minInterval < LIMITS.MIN_INTERVAL_MS || config.minInterval > config.maxInterval)) {
+    return {
+      valid: false,
+      error: `Minimum interval must be between ${LIMITS.MIN_INTERVAL_SECONDS} seconds and the maximum interval`,
+      errorCode: ValidationErrorCode.ADAPTIVE_MIN_INTERVAL_INVALID
+    };
+  }
+
+  if (typeof config.backoffFactor !== 'number' || !(config.backoffFactor > 1) || config.backoffFactor > ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR) {
+    return {
+      valid: false,
+      error: `Backoff factor must be greater than 1 and at most ${ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR}`,
+      errorCode: ValidationErrorCode.ADAPTIVE_BACKOFF_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+const CHECK_PRIORITIES: readonly CheckPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Validates the priority of a project in the check queue
+ *
+ * @param priority - The priority to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateCheckPriority('high');     // { valid: true }
+ * validateCheckPriority('urgent');   // { valid: false, error: 'Invalid check priority: urgent' }
+ * ```
+ */
+export function validateCheckPriority(priority: CheckPriority): ValidationResult {
+  if (!CHECK_PRIORITIES.includes(priority)) {
+    return {
+      valid: false,
+      error: `Invalid check priority: ${priority}`,
+      errorCode: ValidationErrorCode.PRIORITY_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a check schedule (cron expression and active-hours windows)
+ *
+ * @param schedule - Schedule to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateSchedule({ mode: 'cron', cron: '0 8 * * Mon-Fri' });  // { valid: true }
+ * validateSchedule({ mode: 'cron', cron: '0 8 * *' });          // { valid: false, error: '...', errorCode: 'CRON_INVALID' }
+ * validateSchedule({ mode: 'cron', cron: '0 8 30 2 *' });       // { valid: false, error: '...', errorCode: 'SCHEDULE_NEVER_RUNS' }
+ * ```
+ */
+export function validateSchedule(schedule: Schedule): ValidationResult {
+  if (schedule.mode !== 'interval' && schedule.mode !== 'cron') {
+    return { valid: false, error: 'Invalid schedule mode', errorCode: ValidationErrorCode.SCHEDULE_MODE_INVALID };
+  }
+
+  const windows = schedule.windows ?? [];
+  if (windows.length > LIMITS.MAX_ACTIVE_WINDOWS) {
+    return {
+      valid: false,
+      error: `No more than ${LIMITS.MAX_ACTIVE_WINDOWS} active windows are allowed`,
+      errorCode: ValidationErrorCode.ACTIVE_WINDOWS_TOO_MANY
+    };
+  }
+  for (const window of windows) {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    const validDays = window.days.length > 0 && window.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+    if (!validDays || start === null || end === null || start === end) {
+      return {
+        valid: false,
+        error: `Invalid active window: ${window.start}-${window.end} (times as HH:MM, at least one day, start and end must differ)`,
+        errorCode: ValidationErrorCode.ACTIVE_WINDOW_INVALID
+      };
+    }
+  }
+
+  if (schedule.mode === 'cron') {
+    const cron = schedule.cron ?? '';
+    if (cron.length > LIMITS.MAX_CRON_LENGTH) {
+      return {
+        valid: false,
+        error: `Cron expression cannot exceed ${LIMITS.MAX_CRON_LENGTH} characters`,
+        errorCode: ValidationErrorCode.CRON_INVALID
+      };
+    }
+    try {
+      parseCronExpression(cron);
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : 'Invalid cron expression',
+        errorCode: ValidationErrorCode.CRON_INVALID
+      };
+    }
+    if (getNextRunTime(schedule, LIMITS.MIN_INTERVAL_MS, Date.now()) === null) {
+      return {
+        valid: false,
+        error: 'Schedule has no run within the next year',
+        errorCode: ValidationErrorCode.SCHEDULE_NEVER_RUNS
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates page load delay for reasonable time bounds
  *
@@ -505,6 +890,704 @@ export function validateLoadDelay(delay: number): ValidationResult {
   return { valid: true };
 }
 
+const READINESS_MODES: readonly ReadinessMode[] = ['delay', 'element', 'content', 'settle'];
+
+/**
+ * Validates page readiness settings
+ *
+ * @param config - The readiness configuration to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Mode must be one of 'delay', 'element', 'content', 'settle'
+ * - Timeout, if set, must be an integer between READINESS.MIN_TIMEOUT_MS and LIMITS.MAX_LOAD_DELAY_MS
+ * - Settle time, if set, must be an integer between READINESS.MIN_SETTLE_MS and READINESS.MAX_SETTLE_MS,
+ *   and shorter than the timeout
+ *
+ * @example
+ * ```typescript
+ * validateReadinessConfig({ mode: 'settle', settleTime: 1000 });  // { valid: true }
+ * validateReadinessConfig({ mode: 'element', timeout: 90000 });   // { valid: false, error: '...' }
+ * ```
+ */
+export function validateReadinessConfig(config: ReadinessConfig): ValidationResult {
+  if (!READINESS_MODES.includes(config.mode)) {
+    return {
+      valid: false,
+      error: `Invalid readiness mode: ${config.mode}`,
+      errorCode: ValidationErrorCode.READINESS_MODE_INVALID
+    };
+  }
+
+  const timeout = config.timeout ?? READINESS.DEFAULT_TIMEOUT_MS;
+  if (!Number.isInteger(timeout) || timeout < READINESS.MIN_TIMEOUT_MS || timeout > LIMITS.MAX_LOAD_DELAY_MS) {
+    return {
+      valid: false,
+      error: `Maximum wait must be between ${READINESS.MIN_TIMEOUT_MS} and ${LIMITS.MAX_LOAD_DELAY_MS} milliseconds`,
+      errorCode: ValidationErrorCode.READINESS_TIMEOUT_INVALID
+    };
+  }
+
+  if (config.settleTime !== undefined && (!Number.isInteger(config.settleTime)
+    || config.settleTime < READINESS.MIN_SETTLE_MS || config.settleTime > READINESS.MAX_SETTLE_MS || config.settleTime >= timeout)) {
+    return {
+      valid: false,
+      error: `Settle time must be between ${READINESS.MIN_SETTLE_MS} and ${READINESS.MAX_SETTLE_MS} milliseconds and shorter than the maximum wait`,
+      errorCode: ValidationErrorCode.READINESS_SETTLE_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+const STEP_TYPES: readonly InteractionStepType[] = ['click', 'scroll', 'type', 'select', 'wait'];
+
+/**
+ * Validates the interaction steps performed before a check
+ *
+ * @param steps - The steps to validate
+ * @returns ValidationResult object with valid flag and optional error message (naming the 1-based step)
+ *
+ * @remarks
+ * Validation rules:
+ * - At most INTERACTION.MAX_STEPS steps
+ * - Click, type and select steps need a valid CSS selector
+ * - Type and select steps need a value of at most INTERACTION.MAX_VALUE_LENGTH characters (select values cannot be empty)
+ * - Wait steps need an integer duration between 1 and INTERACTION.MAX_WAIT_MS milliseconds
+ *
+ * @example
+ * ```typescript
+ * validateInteractionSteps([{ type: 'click', selector: '.show-more' }, { type: 'wait', duration: 500 }]);  // { valid: true }
+ * validateInteractionSteps([{ type: 'click' }]);  // { valid: false, error: 'Step 1: CSS selector cannot be empty' }
+ * ```
+ */
+export function validateInteractionSteps(steps: InteractionStep[]): ValidationResult {
+  if (steps.length > INTERACTION.MAX_STEPS) {
+    return {
+      valid: false,
+      error: `No more than ${INTERACTION.MAX_STEPS} interaction steps are allowed`,
+      errorCode: ValidationErrorCode.STEPS_TOO_MANY
+    };
+  }
+
+  for (const [index, step] of steps.entries()) {
+    const fail = (error: string, errorCode: ValidationErrorCode): ValidationResult =>
+      ({ valid: false, error: `Step ${index + 1}: ${error}`, errorCode });
+
+    if (!STEP_TYPES.includes(step.type)) {
+      return fail(`Invalid step type: ${step.type}`, ValidationErrorCode.STEP_TYPE_INVALID);
+    }
+
+    if (step.type === 'click' || step.type === 'type' || step.type === 'select') {
+      const selectorValidation = validateSelector(step.selector ?? '');
+      if (!selectorValidation.valid) {
+        return fail(selectorValidation.error ?? 'Invalid selector', ValidationErrorCode.STEP_SELECTOR_INVALID);
+      }
+    }
+
+    if (step.type === 'type' || step.type === 'select') {
+      const value = step.value ?? '';
+      if (value.length > INTERACTION.MAX_VALUE_LENGTH || (step.type === 'select' && !value.trim())) {
+        return fail(`Value must be 1-${INTERACTION.MAX_VALUE_LENGTH} characters`, ValidationErrorCode.STEP_VALUE_INVALID);
+      }
+    }
+
+    if (step.type === 'wait') {
+      const duration = step.duration ?? 0;
+      if (!Number.isInteger(duration) || duration < 1 || duration > INTERACTION.MAX_WAIT_MS) {
+        return fail(`Wait must be between 1 and ${INTERACTION.MAX_WAIT_MS} milliseconds`, ValidationErrorCode.STEP_DURATION_INVALID);
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the expected page checks used to detect expired sessions
+ *
+ * @param check - The session check to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - URL pattern (optional): at most LIMITS.MAX_URL_LENGTH characters, starting with http://, https:// or `*`
+ * - Login selector (optional): valid CSS selector
+ *
+ * @example
+ * ```typescript
+ * validateSessionCheck({ urlPattern: 'https://example.com/app/*' });  // { valid: true }
+ * validateSessionCheck({ urlPattern: 'example.com/app' });  // { valid: false, error: '...', errorCode: 'SESSION_URL_PATTERN_INVALID' }
+ * ```
+ */
+export function validateSessionCheck(check: SessionCheck): ValidationResult {
+  const urlPattern = check.urlPattern?.trim();
+  if (urlPattern && (urlPattern.length > LIMITS.MAX_URL_LENGTH || !/^(https?:\/\/|\*)/i.test(urlPattern))) {
+    return {
+      valid: false,
+      error: `URL pattern must start with http://, https:// or * and be at most ${LIMITS.MAX_URL_LENGTH} characters`,
+      errorCode: ValidationErrorCode.SESSION_URL_PATTERN_INVALID
+    };
+  }
+
+  if (check.loginSelector?.trim()) {
+    const selectorValidation = validateSelector(check.loginSelector);
+    if (!selectorValidation.valid) {
+      return {
+        valid: false,
+        error: `Invalid login indicator selector: ${selectorValidation.error}`,
+        errorCode: ValidationErrorCode.SESSION_LOGIN_SELECTOR_INVALID
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the named fields of a project
+ *
+ * @param fields - The fields to validate
+ * @param jsonPaths - Whether selectors are JSON paths (JSON endpoint projects) instead of page selectors
+ * @param selectorType - Kind of the page selectors, the project's selector type (default: 'css')
+ * @returns ValidationResult object with valid flag and optional error message (naming the field)
+ *
+ * @remarks
+ * Validation rules:
+ * - At most LIMITS.MAX_FIELDS fields
+ * - Names are unique, at most LIMITS.MAX_FIELD_NAME_LENGTH characters, made of letters, digits and underscores
+ *   (not starting with a digit) so that they can be used as `{{fields.<name>}}`
+ * - Selectors are valid selectors of the project's type (or JSON paths)
+ * - Content source, if any, is valid
+ * - Regex extraction, if any, is valid
+ *
+ * @example
+ * ```typescript
+ * validateProjectFields([{ name: 'price', selector: '.price' }]);  // { valid: true }
+ * validateProjectFields([{ name: 'ship date', selector: '.date' }]);  // { valid: false, error: '...', errorCode: 'FIELD_NAME_INVALID' }
+ * ```
+ */
+export function validateProjectFields(fields: ProjectField[], jsonPaths: boolean = false, selectorType: SelectorType = 'css'): ValidationResult {
+  if (fields.length > LIMITS.MAX_FIELDS) {
+    return {
+      valid: false,
+      error: `No more than ${LIMITS.MAX_FIELDS} fields are allowed`,
+      errorCode: ValidationErrorCode.FIELDS_TOO_MANY
+    };
+  }
+
+  const names = new Set<string>();
+  for (const field of fields) {
+    if (field.name.length > LIMITS.MAX_FIELD_NAME_LENGTH || !FIELD_NAME_PATTERN.test(field.name)) {
+      return {
+        valid: false,
+        error: `Invalid field name: '${field.name}' (letters, digits and underscores, at most ${LIMITS.MAX_FIELD_NAME_LENGTH} characters)`,
+        errorCode: ValidationErrorCode.FIELD_NAME_INVALID
+      };
+    }
+    if (names.has(field.name)) {
+      return { valid: false, error: `Duplicate field name: '${field.name}'`, errorCode: ValidationErrorCode.FIELD_NAME_DUPLICATE };
+    }
+    names.add(field.name);
+
+    const selectorValidation = jsonPaths ? validateJsonPath(field.selector) : validateSelector(field.selector, selectorType);
+    if (!selectorValidation.valid) {
+      return {
+        valid: false,
+        error: `Field '${field.name}': ${selectorValidation.error}`,
+        errorCode: ValidationErrorCode.FIELD_SELECTOR_INVALID
+      };
+    }
+
+    if (field.contentSource) {
+      const contentSourceValidation = validateContentSource(field.contentSource);
+      if (!contentSourceValidation.valid) {
+        return {
+          valid: false,
+          error: `Field '${field.name}': ${contentSourceValidation.error}`,
+          errorCode: ValidationErrorCode.FIELD_CONTENT_SOURCE_INVALID
+        };
+      }
+    }
+
+    if (field.extractRegex) {
+      const extractionValidation = validateRegexExtraction(field.extractRegex);
+      if (!extractionValidation.valid) {
+        return {
+          valid: false,
+          error: `Field '${field.name}': ${extractionValidation.error}`,
+          errorCode: ValidationErrorCode.FIELD_EXTRACTION_INVALID
+        };
+      }
+    }
+  }
+
+  return { valid: true };
+}
+
+const CONTENT_SOURCE_TYPES: readonly ContentSourceType[] = ['text', 'innerHTML', 'outerHTML', 'attribute', 'property'];
+
+/**
+ * Validates a content source configuration
+ *
+ * @param source - The content source to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Type must be one of: text, innerHTML, outerHTML, attribute, property
+ * - 'attribute' and 'property' require a name
+ * - Attribute names must be valid XML-style names (letters, digits, '-', '_', ':', '.')
+ * - Property names must be valid JavaScript identifiers
+ * - Name length cannot exceed LIMITS.MAX_CONTENT_SOURCE_NAME_LENGTH
+ *
+ * @example
+ * ```typescript
+ * validateContentSource({ type: 'text' });                        // { valid: true }
+ * validateContentSource({ type: 'attribute', name: 'data-id' });  // { valid: true }
+ * validateContentSource({ type: 'property', name: 'value' });     // { valid: true }
+ *
+ * validateContentSource({ type: 'attribute' });                   // { valid: false, error: 'Content source name is required...' }
+ * validateContentSource({ type: 'property', name: 'a-b' });       // { valid: false, error: 'Invalid property name: a-b' }
+ * ```
+ */
+export function validateContentSource(source: ContentSource): ValidationResult {
+  if (!source || !CONTENT_SOURCE_TYPES.includes(source.type)) {
+    return {
+      valid: false,
+      error: `Invalid content source type: ${source?.type}`,
+      errorCode: ValidationErrorCode.CONTENT_SOURCE_INVALID_TYPE
+    };
+  }
+
+  if (source.type !== 'attribute' && source.type !== 'property') {
+    return { valid: true };
+  }
+
+  const name = source.name?.trim();
+  if (!name) {
+    return {
+      valid: false,
+      error: `Content source name is required for type '${source.type}'`,
+      errorCode: ValidationErrorCode.CONTENT_SOURCE_NAME_REQUIRED
+    };
+  }
+
+  if (name.length > LIMITS.MAX_CONTENT_SOURCE_NAME_LENGTH) {
+    return {
+      valid: false,
+      error: `Content source name cannot exceed ${LIMITS.MAX_CONTENT_SOURCE_NAME_LENGTH} characters`,
+      errorCode: ValidationErrorCode.CONTENT_SOURCE_NAME_INVALID
+    };
+  }
+
+  const namePattern = source.type === 'attribute' ? /^[A-Za-z_:][\w:.-]*$/ : /^[A-Za-z_$][\w$]*$/;
+  if (!namePattern.test(name)) {
+    return {
+      valid: false,
+      error: `Invalid ${source.type} name: ${name}`,
+      errorCode: ValidationErrorCode.CONTENT_SOURCE_NAME_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+const MATCH_MODES: readonly MatchMode[] = ['first', 'all', 'count', 'table'];
+
+/**
+ * Validates a selector match mode
+ *
+ * @param mode - The match mode to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateMatchMode('all');     // { valid: true }
+ * validateMatchMode('some');    // { valid: false, error: 'Invalid match mode: some' }
+ * ```
+ */
+export function validateMatchMode(mode: MatchMode): ValidationResult {
+  if (!MATCH_MODES.includes(mode)) {
+    return {
+      valid: false,
+      error: `Invalid match mode: ${mode}`,
+      errorCode: ValidationErrorCode.MATCH_MODE_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+const COMPARISON_MODES: readonly ComparisonMode[] = ['previous', 'baseline'];
+
+/**
+ * Validates what checks are compared with
+ *
+ * @param mode - The comparison mode to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateComparisonMode('baseline'); // { valid: true }
+ * validateComparisonMode('first');    // { valid: false, error: 'Invalid comparison mode: first' }
+ * ```
+ */
+export function validateComparisonMode(mode: ComparisonMode): ValidationResult {
+  if (!COMPARISON_MODES.includes(mode)) {
+    return {
+      valid: false,
+      error: `Invalid comparison mode: ${mode}`,
+      errorCode: ValidationErrorCode.COMPARISON_MODE_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the key column of a 'table' match mode project
+ *
+ * @param column - Column index (0-based)
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @example
+ * ```typescript
+ * validateTableKeyColumn(0);    // { valid: true }
+ * validateTableKeyColumn(1.5);  // { valid: false, error: 'Table key column must be an integer between 0 and 49' }
+ * ```
+ */
+export function validateTableKeyColumn(column: number): ValidationResult {
+  if (!Number.isInteger(column) || column < 0 || column >= LIMITS.MAX_TABLE_COLUMNS) {
+    return {
+      valid: false,
+      error: `Table key column must be an integer between 0 and ${LIMITS.MAX_TABLE_COLUMNS - 1}`,
+      errorCode: ValidationErrorCode.TABLE_KEY_COLUMN_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates numeric value extraction settings
+ *
+ * @param config - The numeric configuration to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules (only checked when enabled):
+ * - Locale, if set, must be supported by Intl.NumberFormat
+ * - Thresholds, if set, must be finite numbers
+ * - 'below' must not be greater than 'above' when both are set
+ * - Percent change, if set, must be greater than 0 and at most LIMITS.MAX_NUMERIC_PERCENT_CHANGE
+ *
+ * @example
+ * ```typescript
+ * validateNumericConfig({ enabled: true, below: 199 });               // { valid: true }
+ * validateNumericConfig({ enabled: true, locale: 'de-DE' });          // { valid: true }
+ * validateNumericConfig({ enabled: true, percentChange: 0 });         // { valid: false, error: 'Percent change must be...' }
+ * validateNumericConfig({ enabled: true, locale: 'not a locale' });   // { valid: false, error: 'Invalid number locale...' }
+ * ```
+ */
+export function validateNumericConfig(config: NumericConfig): ValidationResult {
+  if (!config.enabled) {
+    return { valid: true };
+  }
+
+  if (config.locale !== undefined && !isValidNumberLocale(config.locale)) {
+    return {
+      valid: false,
+      error: `Invalid number locale: ${config.locale}`,
+      errorCode: ValidationErrorCode.NUMERIC_LOCALE_INVALID
+    };
+  }
+
+  for (const threshold of [config.below, config.above]) {
+    if (threshold !== undefined && (typeof threshold !== 'number' || !Number.isFinite(threshold))) {
+      return {
+        valid: false,
+        error: 'Threshold must be a valid number',
+        errorCode: ValidationErrorCode.NUMERIC_THRESHOLD_INVALID
+      };
+    }
+  }
+
+  if (config.below !== undefined && config.above !== undefined && config.below > config.above) {
+    return {
+      valid: false,
+      error: 'Lower threshold cannot be greater than upper threshold',
+      errorCode: ValidationErrorCode.NUMERIC_THRESHOLD_INVALID
+    };
+  }
+
+  if (config.percentChange !== undefined) {
+    const percent = config.percentChange;
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent <= 0 || percent > LIMITS.MAX_NUMERIC_PERCENT_CHANGE) {
+      return {
+        valid: false,
+        error: `Percent change must be greater than 0 and at most ${LIMITS.MAX_NUMERIC_PERCENT_CHANGE}`,
+        errorCode: ValidationErrorCode.NUMERIC_PERCENT_INVALID
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a user-supplied regular expression
+ *
+ * @param pattern - Regular expression source
+ * @param flags - Optional regex flags
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Cannot be empty
+ * - Maximum length: 500 characters (see LIMITS.MAX_REGEX_PATTERN_LENGTH)
+ * - Flags limited to 'i', 'm', 's', 'u' without duplicates
+ * - Must compile with the RegExp constructor
+ * - Must not nest unbounded quantifiers, e.g. `(a+)+` (catastrophic backtracking)
+ *
+ * @example
+ * ```typescript
+ * validateRegexPattern('v(\\d+\\.\\d+)');     // { valid: true }
+ * validateRegexPattern('price', 'i');     // { valid: true }
+ *
+ * validateRegexPattern('(unclosed');      // { valid: false, error: 'Invalid regular expression: ...' }
+ * validateRegexPattern('(a+)+$');         // { valid: false, error: 'Regular expression may cause catastrophic backtracking' }
+ * validateRegexPattern('a', 'g');         // { valid: false, error: 'Invalid regex flags: g' }
+ * ```
+ */
+export function validateRegexPattern(pattern: string, flags?: string): ValidationResult {
+  if (!pattern) {
+    return {
+      valid: false,
+      error: 'Regular expression cannot be empty',
+      errorCode: ValidationErrorCode.REGEX_PATTERN_EMPTY
+    };
+  }
+
+  if (pattern.length > LIMITS.MAX_REGEX_PATTERN_LENGTH) {
+    return {
+      valid: false,
+      error: `Regular expression cannot exceed ${LIMITS.MAX_REGEX_PATTERN_LENGTH} characters`,
+      errorCode: ValidationErrorCode.REGEX_PATTERN_TOO_LONG
+    };
+  }
+
+  if (flags && ([...flags].some(flag => !ALLOWED_REGEX_FLAGS.includes(flag)) || new Set(flags).size !== flags.length)) {
+    return {
+      valid: false,
+      error: `Invalid regex flags: ${flags}`,
+      errorCode: ValidationErrorCode.REGEX_FLAGS_INVALID
+    };
+  }
+
+  try {
+    new RegExp(pattern, flags);
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Invalid regular expression: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      errorCode: ValidationErrorCode.REGEX_PATTERN_INVALID
+    };
+  }
+
+  if (hasNestedQuantifier(pattern)) {
+    return {
+      valid: false,
+      error: 'Regular expression may cause catastrophic backtracking',
+      errorCode: ValidationErrorCode.REGEX_PATTERN_UNSAFE
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a regex capture extraction
+ *
+ * @param extraction - The regex extraction to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Pattern and flags must pass validateRegexPattern
+ * - Group, if set, must be an integer between 0 and the number of capture groups
+ *
+ * @example
+ * ```typescript
+ * validateRegexExtraction({ pattern: '(\\d+)-(\\d+)', group: 2 });   // { valid: true }
+ * validateRegexExtraction({ pattern: '\\d+', group: 1 });           // { valid: false, error: 'Capture group 1 does not exist...' }
+ * ```
+ */
+export function validateRegexExtraction(extraction: RegexExtraction): ValidationResult {
+  const patternValidation = validateRegexPattern(extraction.pattern, extraction.flags);
+  if (!patternValidation.valid) {
+    return patternValidation;
+  }
+
+  if (extraction.group !== undefined) {
+    const groupCount = countCaptureGroups(extraction.pattern, extraction.flags);
+    if (!Number.isInteger(extraction.group) || extraction.group < 0 || extraction.group > groupCount) {
+      return {
+        valid: false,
+        error: `Capture group ${extraction.group} does not exist (pattern has ${groupCount} groups)`,
+        errorCode: ValidationErrorCode.REGEX_GROUP_INVALID
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates content normalization (ignore rules)
+ *
+ * @param config - The normalization config to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - At most LIMITS.MAX_IGNORE_PATTERNS ignore patterns
+ * - Each ignore pattern must pass validateRegexPattern (its error code is returned as is)
+ * - Exclusion selector, if set, must pass validateSelector
+ *
+ * @example
+ * ```typescript
+ * validateNormalizationConfig({ collapseWhitespace: true });          // { valid: true }
+ * validateNormalizationConfig({ ignorePatterns: ['\\d+ min ago'] });   // { valid: true }
+ * validateNormalizationConfig({ ignorePatterns: ['(a+)+'] });         // { valid: false, error: 'Regular expression may cause...' }
+ * validateNormalizationConfig({ excludeSelector: '#a#b' });           // { valid: false, error: 'Invalid exclusion selector: ...' }
+ * ```
+ */
+export function validateNormalizationConfig(config: NormalizationConfig): ValidationResult {
+  const patterns = config.ignorePatterns ?? [];
+  if (patterns.length > LIMITS.MAX_IGNORE_PATTERNS) {
+    return {
+      valid: false,
+      error: `Cannot have more than ${LIMITS.MAX_IGNORE_PATTERNS} ignore patterns`,
+      errorCode: ValidationErrorCode.IGNORE_PATTERNS_TOO_MANY
+    };
+  }
+
+  for (const pattern of patterns) {
+    const patternValidation = validateRegexPattern(pattern);
+    if (!patternValidation.valid) {
+      return patternValidation;
+    }
+  }
+
+  if (config.excludeSelector) {
+    const selectorValidation = validateSelector(config.excludeSelector);
+    if (!selectorValidation.valid) {
+      return {
+        valid: false,
+        error: `Invalid exclusion selector: ${selectorValidation.error}`,
+        errorCode: ValidationErrorCode.EXCLUDE_SELECTOR_INVALID
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+const TRIGGER_CONDITION_TYPES: readonly TriggerConditionType[] = ['contains', 'notContains', 'matches', 'notMatches', 'appears', 'disappears'];
+
+/**
+ * Validates a condition-based trigger rule
+ *
+ * @param rule - The trigger rule to validate
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Type must be a known condition type
+ * - Keyword/regex rules require a non-empty value of at most LIMITS.MAX_TRIGGER_VALUE_LENGTH characters
+ * - Regex rules must pass validateRegexPattern (its error code is returned as is)
+ *
+ * @example
+ * ```typescript
+ * validateTriggerRule({ type: 'notContains', value: 'Sold out' });  // { valid: true }
+ * validateTriggerRule({ type: 'appears' });                         // { valid: true }
+ * validateTriggerRule({ type: 'contains' });                        // { valid: false, error: 'Trigger value is required...' }
+ * validateTriggerRule({ type: 'matches', value: '(a+)+' });         // { valid: false, error: 'Regular expression may cause...' }
+ * ```
+ */
+export function validateTriggerRule(rule: TriggerRule): ValidationResult {
+  if (!rule || !TRIGGER_CONDITION_TYPES.includes(rule.type)) {
+    return {
+      valid: false,
+      error: `Invalid trigger type: ${rule?.type}`,
+      errorCode: ValidationErrorCode.TRIGGER_TYPE_INVALID
+    };
+  }
+
+  if (rule.type === 'appears' || rule.type === 'disappears') {
+    return { valid: true };
+  }
+
+  if (!rule.value) {
+    return {
+      valid: false,
+      error: `Trigger value is required for type '${rule.type}'`,
+      errorCode: ValidationErrorCode.TRIGGER_VALUE_REQUIRED
+    };
+  }
+
+  if (rule.value.length > LIMITS.MAX_TRIGGER_VALUE_LENGTH) {
+    return {
+      valid: false,
+      error: `Trigger value cannot exceed ${LIMITS.MAX_TRIGGER_VALUE_LENGTH} characters`,
+      errorCode: ValidationErrorCode.TRIGGER_VALUE_TOO_LONG
+    };
+  }
+
+  if (rule.type === 'matches' || rule.type === 'notMatches') {
+    return validateRegexPattern(rule.value, rule.ignoreCase ? 'i' : undefined);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates visual change detection settings
+ *
+ * @param config - Visual configuration from the project settings
+ * @returns ValidationResult object with valid flag and optional error message
+ *
+ * @remarks
+ * Validation rules:
+ * - Disabled configurations are always valid
+ * - Threshold (percentage of differing pixels) must be greater than 0 and at most 100
+ *
+ * @example
+ * ```typescript
+ * validateVisualConfig({ enabled: true });                 // { valid: true }
+ * validateVisualConfig({ enabled: true, threshold: 5 });   // { valid: true }
+ * validateVisualConfig({ enabled: true, threshold: 0 });   // { valid: false, error: 'Visual threshold must be...' }
+ * ```
+ */
+export function validateVisualConfig(config: VisualConfig): ValidationResult {
+  if (!config.enabled || config.threshold === undefined) {
+    return { valid: true };
+  }
+
+  const threshold = config.threshold;
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold) || threshold <= 0 || threshold > 100) {
+    return {
+      valid: false,
+      error: 'Visual threshold must be greater than 0 and at most 100',
+      errorCode: ValidationErrorCode.VISUAL_THRESHOLD_INVALID
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates webhook URL with comprehensive SSRF (Server-Side Request Forgery) protection
  *
@@ -0,0 +1,169 @@
+/**
+ * Visual change detection
+ * Crops element screenshots into compact thumbnails and compares them pixel by pixel
+ */
+
+import { VISUAL } from './constants';
+import { ElementRect } from './types';
+
+/**
+ * RGBA pixel buffer (compatible with ImageData)
+ * @interface PixelData
+ */
+export interface PixelData {
+  width: number;
+  height: number;
+  data: ArrayLike<number>;
+}
+
+/**
+ * Converts an element rect in CSS pixels to a crop rect in screenshot pixels
+ *
+ * @param rect - Element rect relative to the viewport (CSS pixels)
+ * @param scale - Screenshot pixels per CSS pixel (devicePixelRatio, adjusted for zoom)
+ * @param imageWidth - Screenshot width
+ * @param imageHeight - Screenshot height
+ * @returns Integer crop rect clamped to the screenshot, or null if the element is not visible in it
+ *
+ * @example
+ * ```typescript
+ * toCaptureRect({ x: 10.5, y: 20, width: 100, height: 50 }, 2, 1600, 1200);  // { x: 21, y: 40, width: 200, height: 100 }
+ * ```
+ */
+export function toCaptureRect(rect: ElementRect, scale: number, imageWidth: number, imageHeight: number): ElementRect | null {
+  const left = Math.max(0, Math.round(rect.x * scale));
+  const top = Math.max(0, Math.round(rect.y * scale));
+  const right = Math.min(imageWidth, Math.round((rect.x + rect.width) * scale));
+  const bottom = Math.min(imageHeight, Math.round((rect.y + rect.height) * scale));
+
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * Scales a size down to fit a square box, keeping the aspect ratio (never scales up)
+ *
+ * @example
+ * ```typescript
+ * fitThumbnailSize(960, 240, 240);  // { width: 240, height: 60 }
+ * ```
+ */
+export function fitThumbnailSize(width: number, height: number, maxSize: number = VISUAL.THUMBNAIL_MAX_SIZE): { width: number; height: number } {
+  const ratio = Math.min(1, maxSize / width, maxSize / height);
+  return {
+    width: Math.max(1, Math.round(width * ratio)),
+    height: Math.max(1, Math.round(height * ratio))
+  };
+}
+
+/**
+ * Computes the percentage of pixels that differ between two images
+ *
+ * @param a - Previous image
+ * @param b - Current image
+ * @param tolerance - Maximum per-channel difference for two pixels to count as equal
+ * @returns Percentage (0-100) of differing pixels; 100 if the sizes differ
+ *
+ * @remarks
+ * A size change means the element itself changed size, which is reported as a full change.
+ */
+export function diffPixelRatio(a: PixelData, b: PixelData, tolerance: number = VISUAL.PIXEL_TOLERANCE): number {
+  if (a.width !== b.width || a.height !== b.height) {
+    return 100;
+  }
+
+  const pixelCount = a.width * a.height;
+  if (pixelCount === 0) {
+    return 0;
+  }
+
+  let differing = 0;
+  for (let i = 0; i < pixelCount * 4; i += 4) {
+    for (let channel = 0; channel < 4; channel++) {
+      if (Math.abs((a.data[i + channel] ?? 0) - (b.data[i + channel] ?? 0)) > tolerance) {
+        differing++;
+        break;
+      }
+    }
+  }
+
+  return (differing / pixelCount) * 100;
+}
+
+/**
+ * Encodes bytes as base64 (in chunks, to stay below argument count limits)
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+async function loadBitmap(dataUrl: string): Promise<ImageBitmap> {
+  const response = await fetch(dataUrl);
+  return createImageBitmap(await response.blob());
+}
+
+/**
+ * Crops an element out of a tab screenshot and encodes it as a JPEG thumbnail
+ *
+ * @param screenshotUrl - Data URL returned by chrome.tabs.captureVisibleTab
+ * @param rect - Element rect relative to the viewport (CSS pixels)
+ * @param viewportWidth - Viewport width in CSS pixels, used to derive the screenshot scale
+ * @returns JPEG data URL
+ * @throws Error if the element is outside the captured viewport
+ *
+ * @remarks
+ * Uses OffscreenCanvas, which is available in the service worker.
+ */
+export async function createThumbnail(screenshotUrl: string, rect: ElementRect, viewportWidth: number): Promise<string> {
+  const screenshot = await loadBitmap(screenshotUrl);
+  const crop = toCaptureRect(rect, screenshot.width / viewportWidth, screenshot.width, screenshot.height);
+  if (!crop) {
+    screenshot.close();
+    throw new Error('Element is outside the visible area');
+  }
+
+  const size = fitThumbnailSize(crop.width, crop.height);
+  const canvas = new OffscreenCanvas(size.width, size.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    screenshot.close();
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(screenshot, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+  screenshot.close();
+
+  const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: VISUAL.THUMBNAIL_QUALITY });
+  return `data:image/jpeg;base64,${toBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+}
+
+/**
+ * Decodes a thumbnail into pixels for comparison
+ */
+export async function readThumbnailPixels(dataUrl: string): Promise<PixelData> {
+  const bitmap = await loadBitmap(dataUrl);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Canvas is not available');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Compares two thumbnails
+ * @returns Percentage (0-100) of differing pixels
+ */
+export async function compareThumbnails(previous: string, current: string): Promise<number> {
+  const [a, b] = await Promise.all([readThumbnailPixels(previous), readThumbnailPixels(current)]);
+  return diffPixelRatio(a, b);
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from '@jest/globals';
+import { getEffectiveInterval, getNextAdaptiveInterval } from '../src/ts/adaptiveInterval';
+import { AdaptiveIntervalConfig } from '../src/ts/types';
+
+const config: AdaptiveIntervalConfig = { enabled: true, maxInterval: 3600000, backoffFactor: 2 };
+
+describe('getNextAdaptiveInterval()', () => {
+  it('should back off from the project interval after a quiet check', () => {
+    expect(getNextAdaptiveInterval(config, 600000, undefined, false)).toBe(1200000);
+    expect(getNextAdaptiveInterval(config, 600000, 1200000, false)).toBe(2400000);
+  });
+
+  it('should not exceed the maximum interval', () => {
+    expect(getNextAdaptiveInterval(config, 600000, 2400000, false)).toBe(3600000);
+    expect(getNextAdaptiveInterval(config, 600000, 3600000, false)).toBe(3600000);
+  });
+
+  it('should return to the project interval after a change', () => {
+    expect(getNextAdaptiveInterval(config, 600000, 3600000, true)).toBe(600000);
+  });
+
+  it('should never go below the project interval', () => {
+    // The project interval was raised above the interval reached so far
+    expect(getNextAdaptiveInterval({ ...config, backoffFactor: 1.5 }, 900000, 300000, false)).toBe(900000);
+  });
+
+  it('should return to the minimum interval after a change and never go below it', () => {
+    const withMin = { ...config, minInterval: 120000 };
+    expect(getNextAdaptiveInterval(withMin, 600000, 3600000, true)).toBe(120000);
+    expect(getNextAdaptiveInterval(withMin, 600000, 120000, false)).toBe(240000);
+    expect(getNextAdaptiveInterval({ ...withMin, backoffFactor: 1.1 }, 600000, 100000, false)).toBe(120000);
+  });
+
+  it('should round fractional intervals to whole milliseconds', () => {
+    expect(getNextAdaptiveInterval({ ...config, backoffFactor: 1.5 }, 60001, undefined, false)).toBe(90002);
+  });
+});
+
+describe('getEffectiveInterval()', () => {
+  it('should use the adapted interval of adaptive projects', () => {
+    expect(getEffectiveInterval({ interval: 600000, adaptive: config, effectiveInterval: 2400000 })).toBe(2400000);
+    expect(getEffectiveInterval({ interval: 600000, adaptive: config })).toBe(600000);
+  });
+
+  it('should ignore a stored interval when adaptation is off', () => {
+    expect(getEffectiveInterval({ interval: 600000, adaptive: { ...config, enabled: false }, effectiveInterval: 2400000 })).toBe(600000);
+    expect(getEffectiveInterval({ interval: 600000, effectiveInterval: 2400000 })).toBe(600000);
+  });
+});
@@ -0,0 +1,312 @@
+import { beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import type { LogEntry, MessageRequest, MessageResponse, Project } from '../src/ts/types';
+
+/**
+ * Mock Chrome APIs used by the background service worker, with storage kept in memory
+ * Checks stop at the host permission lookup unless a test grants it, which shows whether a check was started
+ */
+type MessageListener = (message: MessageRequest, sender: object, sendResponse: (response: MessageResponse) => void) => boolean;
+type TabUpdatedListener = (tabId: number, changeInfo: object, tab: object) => void;
+
+let messageListener: MessageListener | undefined;
+const tabUpdatedListeners: TabUpdatedListener[] = [];
+let store: Record<string, unknown> = {};
+const mockAlarmsCreate = jest.fn();
+const mockAlarmsGet = jest.fn<(name: string) => Promise<object | undefined>>();
+const mockPermissionsContains = jest.fn<(permissions: object) => Promise<boolean>>();
+const mockFetch = jest.fn<typeof fetch>();
+const mockTabsCreate = jest.fn<(properties: { url: string }) => Promise<object>>();
+const mockTabsGet = jest.fn<(tabId: number) => Promise<object>>();
+const mockTabsRemove = jest.fn(async () => undefined);
+const mockTabsSendMessage = jest.fn<(tabId: number, message: MessageRequest) => Promise<MessageResponse>>();
+const listener = { addListener: jest.fn() };
+
+globalThis.chrome = {
+  storage: {
+    local: {
+      get: async (keys: string[]) => Object.fromEntries(keys.filter(key => key in store).map(key => [key, store[key]])),
+      set: async (items: Record<string, unknown>) => { store = { ...store, ...items }; },
+      remove: async (keys: string | string[]) => {
+        for (const key of Array.isArray(keys) ? keys : [keys]) {
+          delete store[key];
+        }
+      },
+    },
+    onChanged: listener,
+  },
+  runtime: {
+    onMessage: { addListener: (callback: MessageListener) => { messageListener = callback; } },
+    onInstalled: listener,
+    getURL: (path: string) => `chrome-extension://test/${path}`,
+  },
+  alarms: {
+    create: mockAlarmsCreate,
+    get: mockAlarmsGet,
+    clear: jest.fn(async () => true),
+    onAlarm: listener,
+  },
+  tabs: {
+    onRemoved: listener,
+    onUpdated: { addListener: (callback: TabUpdatedListener) => { tabUpdatedListeners.push(callback); } },
+    query: jest.fn(async () => []),
+    create: mockTabsCreate,
+    get: mockTabsGet,
+    remove: mockTabsRemove,
+    sendMessage: mockTabsSendMessage,
+  },
+  scripting: {
+    insertCSS: jest.fn(async () => undefined),
+    executeScript: jest.fn(async () => []),
+  },
+  notifications: {
+    create: jest.fn(),
+  },
+  permissions: {
+    contains: mockPermissionsContains,
+  },
+  i18n: {
+    getMessage: (key: string) => key,
+  },
+} as any;
+globalThis.fetch = mockFetch;
+
+/**
+ * Lets the pending storage reads and queued checks of the service worker run
+ */
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * Waits until a condition holds, for checks that wait for their tab to load
+ */
+async function waitFor(condition: () => boolean, timeout: number = 5000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+/**
+ * Sends a message to the service worker and waits for its response
+ */
+async function sendMessage(message: MessageRequest, sender: object = {}): Promise<MessageResponse> {
+  await flush();
+  if (!messageListener) {
+    throw new Error('Message listener not registered');
+  }
+  const listenerCallback = messageListener;
+  return new Promise(resolve => listenerCallback(message, sender, resolve));
+}
+
+function createProject(id: string, overrides: Partial<Project> = {}): Project {
+  return {
+    id,
+    name: `Project ${id}`,
+    url: 'https://example.com',
+    selector: '#price',
+    interval: 60000,
+    active: true,
+    browserNotification: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Starts monitoring a project and waits for its first check
+ */
+async function startProject(project: Project): Promise<void> {
+  store.projects = [project];
+  await sendMessage({ action: 'startMonitor', project });
+  await flush();
+  await sendMessage({ action: 'stopMonitor', projectId: project.id });
+}
+
+beforeAll(async () => {
+  // Import the service worker after mocking
+  await import('../src/ts/background');
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  store = {};
+  mockPermissionsContains.mockResolvedValue(false);
+});
+
+describe('background startMonitor', () => {
+  it('should not check a cron project on start, only arm its alarm', async () => {
+    await startProject(createProject('cron', { schedule: { mode: 'cron', cron: '0 8 * * *' } }));
+
+    expect(mockAlarmsCreate).toHaveBeenCalledWith('monitor_cron', { when: expect.any(Number) });
+    expect(mockPermissionsContains).not.toHaveBeenCalled();
+  });
+
+  it('should check an interval project on start', async () => {
+    await startProject(createProject('interval'));
+
+    expect(mockPermissionsContains).toHaveBeenCalledWith({ origins: ['https://example.com/*'] });
+  });
+});
+
+describe('background field change notifications', () => {
+  it('should send one webhook listing every field changed by a check', async () => {
+    mockPermissionsContains.mockResolvedValue(true);
+    mockFetch.mockImplementation(async (input) => String(input).startsWith('https://api.example.com')
+      ? new Response(JSON.stringify({ name: 'Widget', price: '17', stock: '3' }))
+      : new Response('ok'));
+
+    await startProject(createProject('fields', {
+      type: 'http',
+      url: 'https://api.example.com/item',
+      responseFormat: 'json',
+      selector: '$.name',
+      browserNotification: false,
+      lastContent: 'Widget',
+      fields: [{ name: 'price', selector: '$.price' }, { name: 'stock', selector: '$.stock' }],
+      lastFields: { price: '19', stock: '5' },
+      webhook: { enabled: true, url: 'https://hooks.example.com/notify', method: 'POST', body: '{"event":"{{event}}","field":"{{field}}","changes":"{{fieldChanges}}"}' }
+    }));
+
+    const webhookCalls = mockFetch.mock.calls.filter(([input]) => String(input).startsWith('https://hooks.example.com'));
+    expect(webhookCalls).toHaveLength(1);
+    expect(JSON.parse(String(webhookCalls[0]?.[1]?.body))).toEqual({
+      event: 'fieldChange',
+      field: 'price, stock',
+      changes: [{ name: 'price', from: '19', to: '17' }, { name: 'stock', from: '5', to: '3' }]
+    });
+    expect((store.projects as Project[])[0]?.lastWebhookTime).toEqual(expect.any(String));
+  });
+});
+
+describe('background pinned baseline', () => {
+  const createJsonProject = (overrides: Partial<Project>) => createProject('pinned', {
+    type: 'http',
+    url: 'https://api.example.com/item',
+    responseFormat: 'json',
+    selector: '$.price',
+    lastContent: '17',
+    baseline: { content: '19', pinnedAt: '2024-01-01T00:00:00.000Z' },
+    ...overrides
+  });
+
+  beforeEach(() => {
+    mockPermissionsContains.mockResolvedValue(true);
+    mockFetch.mockImplementation(async () => new Response(JSON.stringify({ price: '17' })));
+  });
+
+  it('should notify every check while the content differs from the baseline', async () => {
+    await startProject(createJsonProject({ comparisonMode: 'baseline' }));
+
+    expect(chrome.notifications.create).toHaveBeenCalledTimes(1);
+    expect((store.logs as Record<string, LogEntry[]>).pinned?.[0]).toMatchObject({ changed: true, oldContent: '19', content: '17', comparedToBaseline: true });
+  });
+
+  it('should compare with the previous check in previous comparison mode', async () => {
+    await startProject(createJsonProject({ comparisonMode: 'previous' }));
+
+    expect(chrome.notifications.create).not.toHaveBeenCalled();
+    expect((store.logs as Record<string, LogEntry[]>).pinned?.[0]).toMatchObject({ changed: false, content: '17' });
+  });
+
+  it('should unpin the baseline when an edit changes what checks read', async () => {
+    const project = createProject('edited', {
+      active: false,
+      normalization: { collapseWhitespace: true },
+      baseline: { content: '$19', pinnedAt: '2024-01-01T00:00:00.000Z' },
+      comparisonMode: 'baseline'
+    });
+    const { id, baseline, comparisonMode, ...settings } = project;
+    store.projects = [project];
+
+    await sendMessage({ action: 'updateProject', projectId: id, ...settings, name: 'Renamed' });
+    expect((store.projects as Project[])[0]).toMatchObject({ name: 'Renamed', baseline, comparisonMode });
+
+    await sendMessage({ action: 'updateProject', projectId: id, ...settings, normalization: { collapseWhitespace: true, caseFold: true } });
+    expect((store.projects as Project[])[0]?.baseline).toBeUndefined();
+    expect((store.projects as Project[])[0]?.comparisonMode).toBeUndefined();
+  });
+});
+
+describe('background live watch', () => {
+  const TEMP_TAB_ID = 7;
+  const url = 'https://example.com/item';
+
+  beforeEach(() => {
+    mockPermissionsContains.mockResolvedValue(true);
+    mockTabsCreate.mockResolvedValue({ id: TEMP_TAB_ID, url });
+    mockTabsGet.mockImplementation(async (tabId) => {
+      if (tabId !== TEMP_TAB_ID) {
+        throw new Error(`No tab with id: ${tabId}`);
+      }
+      // The temporary tab finishes loading the project's URL while the check waits for it
+      for (const callback of tabUpdatedListeners) {
+        callback(tabId, { status: 'complete' }, { id: tabId, url });
+      }
+      return { id: tabId, url, status: 'complete' };
+    });
+    mockTabsSendMessage.mockResolvedValue({ success: true, content: '$10' });
+  });
+
+  it('should not watch live in the temporary tabs opened for checks', async () => {
+    store.projects = [createProject('live', { url, live: true, loadDelay: 0, lastContent: '$10' })];
+    await sendMessage({ action: 'startMonitor', project: (store.projects as Project[])[0] });
+    await waitFor(() => mockTabsRemove.mock.calls.length === 1);
+    await sendMessage({ action: 'stopMonitor', projectId: 'live' });
+
+    expect(mockTabsSendMessage.mock.calls.map(([, message]) => message.action)).not.toContain('watchLive');
+  });
+
+  it('should check normally when the live tab that reported a change is gone', async () => {
+    store.projects = [createProject('live', { url, live: true, loadDelay: 0, lastContent: '$10' })];
+    await sendMessage({ action: 'startMonitor', project: (store.projects as Project[])[0] });
+    await waitFor(() => mockTabsRemove.mock.calls.length === 1);
+
+    await sendMessage({ action: 'liveChange', projectId: 'live' }, { tab: { id: 9 } });
+    await waitFor(() => mockTabsRemove.mock.calls.length === 2);
+    await sendMessage({ action: 'stopMonitor', projectId: 'live' });
+
+    expect(mockTabsGet).toHaveBeenCalledWith(9);
+    expect(mockTabsCreate).toHaveBeenCalledTimes(2);
+    const logs = (store.logs as Record<string, LogEntry[]>).live ?? [];
+    expect(logs.filter(log => !log.success)).toEqual([]);
+  });
+});
+
+describe('background service worker start', () => {
+  /**
+   * Starts another instance of the service worker, as Chrome does when the idle worker is woken up
+   */
+  async function restartWorker(): Promise<void> {
+    await jest.isolateModulesAsync(async () => {
+      await import('../src/ts/background');
+    });
+    await flush();
+  }
+
+  it('should keep the alarm armed before the worker stopped', async () => {
+    store.projects = [createProject('armed')];
+    mockAlarmsGet.mockResolvedValue({ name: 'monitor_armed', scheduledTime: Date.now() + 30000 });
+
+    await restartWorker();
+
+    expect(mockAlarmsGet).toHaveBeenCalledWith('monitor_armed');
+    expect(mockAlarmsCreate).not.toHaveBeenCalled();
+    expect(mockPermissionsContains).not.toHaveBeenCalled();
+  });
+
+  it('should start projects whose alarm is missing', async () => {
+    store.projects = [createProject('unarmed'), createProject('paused', { active: false })];
+    mockAlarmsGet.mockResolvedValue(undefined);
+
+    await restartWorker();
+
+    expect(mockAlarmsCreate).toHaveBeenCalledTimes(1);
+    expect(mockAlarmsCreate).toHaveBeenCalledWith('monitor_unarmed', { when: expect.any(Number) });
+  });
+});
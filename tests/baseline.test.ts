@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { createBaselineFromLog, createBaselineFromProject, getBaselineReading, getComparedBaseline, isSameReadingSettings } from '../src/ts/baseline';
+import { Project } from '../src/ts/types';
+
+const PINNED_AT = '2024-01-01T12:00:00.000Z';
+
+const createProject = (overrides: Partial<Project> = {}): Project => ({
+  id: '1',
+  name: 'Test',
+  url: 'https://example.com',
+  selector: '.price',
+  interval: 60000,
+  active: true,
+  browserNotification: true,
+  ...overrides
+});
+
+describe('createBaselineFromProject()', () => {
+  it('should take the last reading including items and table', () => {
+    const table = { headers: ['Name', 'Price'], rows: [['a', '1']] };
+    const project = createProject({ lastContent: 'a 1', lastItems: ['a'], lastTable: table });
+    expect(createBaselineFromProject(project, PINNED_AT)).toEqual({ content: 'a 1', items: ['a'], table, pinnedAt: PINNED_AT });
+  });
+
+  it('should accept empty content but not a project that was never read', () => {
+    expect(createBaselineFromProject(createProject({ lastContent: '' }), PINNED_AT)).toEqual({ content: '', pinnedAt: PINNED_AT });
+    expect(createBaselineFromProject(createProject(), PINNED_AT)).toBeNull();
+  });
+});
+
+describe('createBaselineFromLog()', () => {
+  it('should take the content of a successful check', () => {
+    const entry = { timestamp: '2023-12-31T08:00:00.000Z', success: true, content: '$42' };
+    expect(createBaselineFromLog(entry, PINNED_AT)).toEqual({ content: '$42', pinnedAt: PINNED_AT, logTimestamp: entry.timestamp });
+  });
+
+  it('should reject failed checks and checks without the element', () => {
+    const timestamp = '2023-12-31T08:00:00.000Z';
+    expect(createBaselineFromLog({ timestamp, success: false, error: 'Timeout' }, PINNED_AT)).toBeNull();
+    expect(createBaselineFromLog({ timestamp, success: true, present: false, content: '' }, PINNED_AT)).toBeNull();
+  });
+});
+
+describe('getComparedBaseline()', () => {
+  const baseline = { content: '$10', pinnedAt: PINNED_AT };
+
+  it('should use the pinned baseline in baseline comparison mode only', () => {
+    expect(getComparedBaseline(createProject({ baseline, comparisonMode: 'baseline' }))).toBe(baseline);
+    expect(getComparedBaseline(createProject({ baseline, comparisonMode: 'previous' }))).toBeUndefined();
+    expect(getComparedBaseline(createProject({ baseline }))).toBeUndefined();
+  });
+
+  it('should compare with the previous check until a baseline is pinned', () => {
+    expect(getComparedBaseline(createProject({ comparisonMode: 'baseline' }))).toBeUndefined();
+  });
+});
+
+describe('getBaselineReading()', () => {
+  it('should map the baseline to a stored reading', () => {
+    expect(getBaselineReading({ content: 'a', items: ['a'], pinnedAt: PINNED_AT })).toEqual({ lastContent: 'a', lastItems: ['a'], lastTable: undefined });
+  });
+});
+
+describe('isSameReadingSettings()', () => {
+  const settings = { selector: '.price', contentSource: { type: 'attribute' as const, name: 'data-price' }, extractRegex: { pattern: '\\d+' } };
+
+  it('should treat defaults and explicit defaults as the same', () => {
+    expect(isSameReadingSettings({ selector: '.price' }, { selector: '.price', selectorType: 'css', matchMode: 'first', contentSource: { type: 'text' } }))
+      .toBe(true);
+    expect(isSameReadingSettings(settings, { ...settings, extractRegex: { pattern: '\\d+', flags: '' } })).toBe(true);
+  });
+
+  it('should detect changes of any extraction setting', () => {
+    expect(isSameReadingSettings(settings, { ...settings, selector: '.total' })).toBe(false);
+    expect(isSameReadingSettings(settings, { ...settings, selectorType: 'xpath' })).toBe(false);
+    expect(isSameReadingSettings(settings, { ...settings, contentSource: { type: 'attribute', name: 'data-sku' } })).toBe(false);
+    expect(isSameReadingSettings(settings, { ...settings, matchMode: 'all' })).toBe(false);
+    expect(isSameReadingSettings(settings, { ...settings, extractRegex: undefined })).toBe(false);
+    expect(isSameReadingSettings(settings, { ...settings, normalization: { caseFold: true } })).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { CheckQueue, getMaxConcurrentChecks } from '../src/ts/checkQueue';
+import { CHECK_QUEUE } from '../src/ts/constants';
+
+/**
+ * Check that only finishes when told to, recording when it started
+ */
+function createCheck(started: string[], projectId: string): { run: () => Promise<void>; finish: () => Promise<void> } {
+  let resolve: () => void = () => undefined;
+  const done = new Promise<void>(r => { resolve = r; });
+  return {
+    run: () => {
+      started.push(projectId);
+      return done;
+    },
+    finish: async () => {
+      resolve();
+      // Let the queue start the next check
+      await new Promise(r => setTimeout(r, 0));
+    }
+  };
+}
+
+describe('CheckQueue', () => {
+  it('should not run more checks than the concurrency limit', async () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(2);
+    const first = createCheck(started, 'a');
+    queue.enqueue('a', 'normal', first.run);
+    queue.enqueue('b', 'normal', createCheck(started, 'b').run);
+    queue.enqueue('c', 'normal', createCheck(started, 'c').run);
+
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStatus()).toMatchObject({ maxConcurrent: 2, running: ['a', 'b'] });
+    expect(queue.getStatus().queued.map(check => check.projectId)).toEqual(['c']);
+
+    await first.finish();
+    expect(started).toEqual(['a', 'b', 'c']);
+    expect(queue.getStatus().queued).toEqual([]);
+  });
+
+  it('should start higher priorities first and keep the queued order within a priority', async () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(1);
+    const blocker = createCheck(started, 'blocker');
+    queue.enqueue('blocker', 'normal', blocker.run);
+    queue.enqueue('low', 'low', createCheck(started, 'low').run);
+    queue.enqueue('normal1', 'normal', createCheck(started, 'normal1').run);
+    queue.enqueue('high', 'high', createCheck(started, 'high').run);
+    queue.enqueue('normal2', 'normal', createCheck(started, 'normal2').run);
+
+    expect(queue.getStatus().queued.map(check => check.projectId)).toEqual(['high', 'normal1', 'normal2', 'low']);
+
+    await blocker.finish();
+    expect(started).toEqual(['blocker', 'high']);
+  });
+
+  it('should coalesce triggers of a project that is already waiting', () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(1);
+    queue.enqueue('a', 'normal', createCheck(started, 'a').run);
+
+    expect(queue.enqueue('b', 'normal', createCheck(started, 'b').run)).toBe(true);
+    expect(queue.enqueue('b', 'high', createCheck(started, 'b').run)).toBe(false);
+    expect(queue.getStatus().queued).toHaveLength(1);
+  });
+
+  it('should not run two checks of the same project together', async () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(2);
+    const first = createCheck(started, 'a');
+    queue.enqueue('a', 'normal', first.run);
+
+    // Queued again while running, it waits for the running check even though a slot is free
+    expect(queue.enqueue('a', 'normal', createCheck(started, 'a').run)).toBe(true);
+    queue.enqueue('b', 'low', createCheck(started, 'b').run);
+    expect(started).toEqual(['a', 'b']);
+
+    await first.finish();
+    expect(started).toEqual(['a', 'b', 'a']);
+  });
+
+  it('should drop the waiting check of a removed project', async () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(1);
+    const first = createCheck(started, 'a');
+    queue.enqueue('a', 'normal', first.run);
+    queue.enqueue('b', 'normal', createCheck(started, 'b').run);
+
+    queue.remove('b');
+    await first.finish();
+    expect(started).toEqual(['a']);
+    expect(queue.getStatus()).toMatchObject({ running: [], queued: [] });
+  });
+
+  it('should start waiting checks when the limit is raised', () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(1);
+    queue.enqueue('a', 'normal', createCheck(started, 'a').run);
+    queue.enqueue('b', 'normal', createCheck(started, 'b').run);
+
+    queue.setMaxConcurrent(2);
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('should free the slot of a failed check', async () => {
+    const started: string[] = [];
+    const queue = new CheckQueue(1);
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    queue.enqueue('a', 'normal', () => Promise.reject(new Error('Tab crashed')));
+    queue.enqueue('b', 'normal', createCheck(started, 'b').run);
+
+    await new Promise(r => setTimeout(r, 0));
+    expect(started).toEqual(['b']);
+    errorSpy.mockRestore();
+  });
+});
+
+describe('getMaxConcurrentChecks()', () => {
+  it('should use the configured limit', () => {
+    expect(getMaxConcurrentChecks({ maxConcurrentChecks: 4 })).toBe(4);
+  });
+
+  it('should default when unset or not a number', () => {
+    expect(getMaxConcurrentChecks({})).toBe(CHECK_QUEUE.DEFAULT_MAX_CONCURRENT);
+    expect(getMaxConcurrentChecks({ maxConcurrentChecks: NaN })).toBe(CHECK_QUEUE.DEFAULT_MAX_CONCURRENT);
+  });
+
+  it('should keep the limit within 1 and the maximum', () => {
+    expect(getMaxConcurrentChecks({ maxConcurrentChecks: 0 })).toBe(1);
+    expect(getMaxConcurrentChecks({ maxConcurrentChecks: 50 })).toBe(CHECK_QUEUE.MAX_CONCURRENT);
+  });
+});
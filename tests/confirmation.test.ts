@@ -0,0 +1,28 @@
+import { describe, expect, it } from '@jest/globals';
+import { confirmChange } from '../src/ts/confirmation';
+
+describe('confirmChange()', () => {
+  it('should confirm every change when one check is required', () => {
+    expect(confirmChange('new', true, undefined)).toEqual({ confirmed: true });
+    expect(confirmChange('new', true, undefined, 1)).toEqual({ confirmed: true });
+  });
+
+  it('should confirm readings without a change and drop the candidate', () => {
+    expect(confirmChange('old', false, { content: 'new', count: 2 }, 3)).toEqual({ confirmed: true });
+  });
+
+  it('should count consecutive checks seeing the same new content', () => {
+    const first = confirmChange('new', true, undefined, 3);
+    expect(first).toEqual({ confirmed: false, pending: { content: 'new', count: 1 } });
+
+    const second = confirmChange('new', true, first.pending, 3);
+    expect(second).toEqual({ confirmed: false, pending: { content: 'new', count: 2 } });
+
+    expect(confirmChange('new', true, second.pending, 3)).toEqual({ confirmed: true });
+  });
+
+  it('should start over when a different new value is read', () => {
+    expect(confirmChange('Loading...', true, undefined, 2)).toEqual({ confirmed: false, pending: { content: 'Loading...', count: 1 } });
+    expect(confirmChange('$42', true, { content: 'Loading...', count: 1 }, 2)).toEqual({ confirmed: false, pending: { content: '$42', count: 1 } });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, expect, it } from '@jest/globals';
+import { collectDiffText, compactTextDiff, diffItemLists, diffTables, diffText, formatTextDiff, hasListChanges, hasTableChanges, hasTextChanges } from '../src/ts/diff';
+import { TableData, TextDiffPart } from '../src/ts/types';
+
+describe('diffItemLists()', () => {
+  it('should report no differences for identical lists', () => {
+    expect(diffItemLists(['A', 'B'], ['A', 'B'])).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('should ignore pure reordering', () => {
+    const diff = diffItemLists(['A', 'B', 'C'], ['C', 'A', 'B']);
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+    expect(hasListChanges(diff)).toBe(false);
+  });
+
+  it('should report added items', () => {
+    expect(diffItemLists(['Job 1', 'Job 2'], ['Job 3', 'Job 1', 'Job 2'])).toEqual({
+      added: ['Job 3'],
+      removed: [],
+      changed: []
+    });
+  });
+
+  it('should report removed items in original order', () => {
+    expect(diffItemLists(['A', 'B', 'C', 'D'], ['B'])).toEqual({
+      added: [],
+      removed: ['A', 'C', 'D'],
+      changed: []
+    });
+  });
+
+  it('should report same-position replacements as changed', () => {
+    expect(diffItemLists(['A $10', 'B $5'], ['A $12', 'B $5'])).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ from: 'A $10', to: 'A $12' }]
+    });
+  });
+
+  it('should combine added, removed and changed items', () => {
+    const diff = diffItemLists(['A', 'B', 'C', 'D'], ['A', 'B2', 'E']);
+    expect(diff.changed).toEqual([{ from: 'B', to: 'B2' }, { from: 'C', to: 'E' }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual(['D']);
+    expect(hasListChanges(diff)).toBe(true);
+  });
+
+  it('should report leftovers beyond the old list length as added', () => {
+    expect(diffItemLists(['A', 'B'], ['A', 'B2', 'C'])).toEqual({
+      added: ['C'],
+      removed: [],
+      changed: [{ from: 'B', to: 'B2' }]
+    });
+  });
+
+  it('should handle duplicate items', () => {
+    expect(diffItemLists(['X', 'X', 'Y'], ['X', 'Y'])).toEqual({ added: [], removed: ['X'], changed: [] });
+    expect(diffItemLists(['X'], ['X', 'X'])).toEqual({ added: ['X'], removed: [], changed: [] });
+  });
+
+  it('should handle empty lists', () => {
+    expect(diffItemLists([], [])).toEqual({ added: [], removed: [], changed: [] });
+    expect(diffItemLists([], ['A'])).toEqual({ added: ['A'], removed: [], changed: [] });
+    expect(diffItemLists(['A'], [])).toEqual({ added: [], removed: ['A'], changed: [] });
+  });
+});
+
+describe('diffTables()', () => {
+  const table = (rows: string[][], headers: string[] = ['SKU', 'Name', 'Price']): TableData => ({ headers, rows });
+
+  it('should report no differences for identical or reordered rows', () => {
+    const before = table([['A1', 'Apple', '$1'], ['B2', 'Pear', '$2']]);
+    const diff = diffTables(before, table([['B2', 'Pear', '$2'], ['A1', 'Apple', '$1']]));
+    expect(diff).toEqual({ headers: ['SKU', 'Name', 'Price'], added: [], removed: [], modified: [] });
+    expect(hasTableChanges(diff)).toBe(false);
+  });
+
+  it('should report added and removed rows by key', () => {
+    const diff = diffTables(table([['A1', 'Apple', '$1'], ['B2', 'Pear', '$2']]), table([['C3', 'Plum', '$3'], ['A1', 'Apple', '$1']]));
+    expect(diff.added).toEqual([['C3', 'Plum', '$3']]);
+    expect(diff.removed).toEqual([['B2', 'Pear', '$2']]);
+    expect(diff.modified).toEqual([]);
+    expect(hasTableChanges(diff)).toBe(true);
+  });
+
+  it('should report changed cells of modified rows with their headers', () => {
+    const diff = diffTables(table([['A1', 'Apple', '$1']]), table([['A1', 'Green apple', '$2']]));
+    expect(diff.modified).toEqual([{
+      key: 'A1',
+      cells: [
+        { column: 1, header: 'Name', from: 'Apple', to: 'Green apple' },
+        { column: 2, header: 'Price', from: '$1', to: '$2' }
+      ]
+    }]);
+  });
+
+  it('should match rows by the given key column', () => {
+    const before = table([['1', 'Apple', '$1'], ['2', 'Pear', '$2']]);
+    const after = table([['1', 'Pear', '$3'], ['2', 'Apple', '$1']]);
+    const diff = diffTables(before, after, 1);
+    expect(diff.modified).toEqual([
+      { key: 'Pear', cells: [{ column: 0, header: 'SKU', from: '2', to: '1' }, { column: 2, header: 'Price', from: '$2', to: '$3' }] },
+      { key: 'Apple', cells: [{ column: 0, header: 'SKU', from: '1', to: '2' }] }
+    ]);
+  });
+
+  it('should pair duplicate keys in order and compare cells missing in one row as empty', () => {
+    const diff = diffTables(table([['X', 'a'], ['X', 'b'], ['X', 'c']], []), table([['X', 'a'], ['X', 'b', 'new']], []));
+    expect(diff.removed).toEqual([['X', 'c']]);
+    expect(diff.modified).toEqual([{ key: 'X', cells: [{ column: 2, from: '', to: 'new' }] }]);
+  });
+
+  it('should handle empty tables', () => {
+    expect(diffTables(table([]), table([['A1', 'Apple', '$1']])).added).toEqual([['A1', 'Apple', '$1']]);
+    expect(diffTables(table([['A1', 'Apple', '$1']]), table([])).removed).toEqual([['A1', 'Apple', '$1']]);
+  });
+});
+
+// Rebuilds the old and new text from a diff
+const rebuild = (parts: TextDiffPart[]) => ({
+  old: parts.filter(part => part.type !== 'added').map(part => part.text).join(''),
+  new: parts.filter(part => part.type !== 'removed').map(part => part.text).join('')
+});
+
+describe('diffText()', () => {
+  it('should report identical texts as a single equal part', () => {
+    const parts = diffText('Same\ntext', 'Same\ntext');
+    expect(parts).toEqual([{ type: 'equal', text: 'Same\ntext' }]);
+    expect(hasTextChanges(parts)).toBe(false);
+  });
+
+  it('should refine a changed line to the changed word', () => {
+    expect(diffText('Price: $10\nIn stock', 'Price: $12\nIn stock')).toEqual([
+      { type: 'equal', text: 'Price: $' },
+      { type: 'removed', text: '10' },
+      { type: 'added', text: '12' },
+      { type: 'equal', text: '\nIn stock' }
+    ]);
+  });
+
+  it('should report inserted and deleted lines', () => {
+    expect(diffText('A\nB\nC\n', 'A\nC\nD\n')).toEqual([
+      { type: 'equal', text: 'A\n' },
+      { type: 'removed', text: 'B\n' },
+      { type: 'equal', text: 'C\n' },
+      { type: 'added', text: 'D\n' }
+    ]);
+  });
+
+  it('should diff Chinese text character by character', () => {
+    expect(diffText('库存充足', '库存紧张')).toEqual([
+      { type: 'equal', text: '库存' },
+      { type: 'removed', text: '充足' },
+      { type: 'added', text: '紧张' }
+    ]);
+  });
+
+  it('should handle empty texts', () => {
+    expect(diffText('', 'New')).toEqual([{ type: 'added', text: 'New' }]);
+    expect(diffText('Old', '')).toEqual([{ type: 'removed', text: 'Old' }]);
+  });
+
+  it('should always rebuild both texts', () => {
+    const oldText = 'Title\nFirst paragraph with some words.\nSecond line\nFooter';
+    const newText = 'Title\nFirst paragraph with other words!\nInserted\nSecond line\nFooter\n';
+    expect(rebuild(diffText(oldText, newText))).toEqual({ old: oldText, new: newText });
+  });
+
+  it('should fall back to a whole replacement for very large blocks', () => {
+    const oldText = Array.from({ length: 1500 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 1500 }, (_, i) => `new ${i + 1}`).join('\n');
+    const parts = diffText(oldText, newText);
+    expect(rebuild(parts)).toEqual({ old: oldText, new: newText });
+    expect(parts.map(part => part.type)).toEqual(['removed', 'added']);
+  });
+});
+
+describe('compactTextDiff()', () => {
+  it('should shorten long unchanged runs around changes', () => {
+    const parts: TextDiffPart[] = [
+      { type: 'equal', text: 'a'.repeat(50) },
+      { type: 'removed', text: 'x' },
+      { type: 'equal', text: 'b'.repeat(50) },
+      { type: 'added', text: 'y' },
+      { type: 'equal', text: 'c'.repeat(50) }
+    ];
+    expect(compactTextDiff(parts, 5)).toEqual([
+      { type: 'equal', text: '\u2026aaaaa' },
+      { type: 'removed', text: 'x' },
+      { type: 'equal', text: 'bbbbb\u2026bbbbb' },
+      { type: 'added', text: 'y' },
+      { type: 'equal', text: 'ccccc\u2026' }
+    ]);
+  });
+
+  it('should keep short unchanged runs', () => {
+    const parts = diffText('Price: $10', 'Price: $12');
+    expect(compactTextDiff(parts, 40)).toEqual(parts);
+  });
+});
+
+describe('formatTextDiff()', () => {
+  it('should mark removed and added text', () => {
+    expect(formatTextDiff(diffText('Price: $10', 'Price: $12'))).toBe('Price: $[-10-]{+12+}');
+  });
+});
+
+describe('collectDiffText()', () => {
+  it('should collect trimmed runs of one type, one per line', () => {
+    const parts = diffText('Jobs:\nA\nB\n', 'Jobs:\nC\nA\nD\n');
+    expect(collectDiffText(parts, 'added')).toBe('C\nD');
+    expect(collectDiffText(parts, 'removed')).toBe('B');
+  });
+
+  it('should return an empty string when nothing of that type changed', () => {
+    expect(collectDiffText(diffText('A', 'A B'), 'removed')).toBe('');
+  });
+});
@@ -0,0 +1,290 @@
+import { describe, expect, it } from '@jest/globals';
+import { LIMITS } from '../src/ts/constants';
+import { excludeDescendants, findTable, formatTable, isSameContentSource, readElementContent, readMatchedContent, readTable } from '../src/ts/elementContent';
+
+/**
+ * Tests for element content extraction by content source
+ * Elements are simulated with plain objects (no DOM available in test environment)
+ */
+
+const createElement = (props: Record<string, unknown>, attributes: Record<string, string> = {}): Element => ({
+  innerText: '',
+  textContent: '',
+  innerHTML: '',
+  outerHTML: '',
+  getAttribute: (name: string) => (name in attributes ? attributes[name] : null),
+  ...props
+}) as unknown as Element;
+
+describe('readElementContent()', () => {
+  it('should return empty string for null element', () => {
+    expect(readElementContent(null)).toBe('');
+    expect(readElementContent(null, { type: 'attribute', name: 'href' })).toBe('');
+  });
+
+  describe('text source', () => {
+    it('should default to visible text when no source is given', () => {
+      const element = createElement({ innerText: 'Visible', textContent: 'Text', innerHTML: '<b>HTML</b>' });
+      expect(readElementContent(element)).toBe('Visible');
+    });
+
+    it('should fall back to textContent and then innerHTML', () => {
+      expect(readElementContent(createElement({ textContent: 'Text', innerHTML: '<b>HTML</b>' }), { type: 'text' })).toBe('Text');
+      expect(readElementContent(createElement({ innerHTML: '<b>HTML</b>' }), { type: 'text' })).toBe('<b>HTML</b>');
+    });
+  });
+
+  describe('markup sources', () => {
+    const element = createElement({ innerText: 'Link', innerHTML: '<span>Link</span>', outerHTML: '<a href="/x"><span>Link</span></a>' });
+
+    it('should read innerHTML', () => {
+      expect(readElementContent(element, { type: 'innerHTML' })).toBe('<span>Link</span>');
+    });
+
+    it('should read outerHTML', () => {
+      expect(readElementContent(element, { type: 'outerHTML' })).toBe('<a href="/x"><span>Link</span></a>');
+    });
+  });
+
+  describe('attribute source', () => {
+    const element = createElement({ innerText: 'Download' }, { href: 'https://example.com/v1.2.zip', 'data-id': '' });
+
+    it('should read named attribute', () => {
+      expect(readElementContent(element, { type: 'attribute', name: 'href' })).toBe('https://example.com/v1.2.zip');
+    });
+
+    it('should return empty string for missing or empty attribute', () => {
+      expect(readElementContent(element, { type: 'attribute', name: 'src' })).toBe('');
+      expect(readElementContent(element, { type: 'attribute', name: 'data-id' })).toBe('');
+    });
+
+    it('should return empty string when name is missing', () => {
+      expect(readElementContent(element, { type: 'attribute' })).toBe('');
+    });
+  });
+
+  describe('property source', () => {
+    it('should read string, number and boolean properties', () => {
+      const element = createElement({ value: '42', checked: true, selectedIndex: 2 });
+      expect(readElementContent(element, { type: 'property', name: 'value' })).toBe('42');
+      expect(readElementContent(element, { type: 'property', name: 'checked' })).toBe('true');
+      expect(readElementContent(element, { type: 'property', name: 'selectedIndex' })).toBe('2');
+    });
+
+    it('should return empty string for object or missing properties', () => {
+      const element = createElement({ style: { color: 'red' }, empty: null });
+      expect(readElementContent(element, { type: 'property', name: 'style' })).toBe('');
+      expect(readElementContent(element, { type: 'property', name: 'empty' })).toBe('');
+      expect(readElementContent(element, { type: 'property', name: 'missing' })).toBe('');
+    });
+  });
+});
+
+describe('isSameContentSource()', () => {
+  it('should treat missing source as visible text', () => {
+    expect(isSameContentSource(undefined, { type: 'text' })).toBe(true);
+    expect(isSameContentSource(undefined, undefined)).toBe(true);
+  });
+
+  it('should compare type and name', () => {
+    expect(isSameContentSource({ type: 'attribute', name: 'href' }, { type: 'attribute', name: 'href' })).toBe(true);
+    expect(isSameContentSource({ type: 'attribute', name: 'href' }, { type: 'attribute', name: 'src' })).toBe(false);
+    expect(isSameContentSource({ type: 'attribute', name: 'value' }, { type: 'property', name: 'value' })).toBe(false);
+  });
+});
+
+describe('readMatchedContent()', () => {
+  const items = [
+    createElement({ innerText: '  Job A  ' }),
+    createElement({ innerText: 'Job B' }),
+    createElement({ innerText: 'Job C' })
+  ];
+
+  it('should read only the first element in first mode', () => {
+    expect(readMatchedContent(items, 'first')).toEqual({ content: '  Job A  ' });
+    expect(readMatchedContent([], 'first')).toEqual({ content: '' });
+  });
+
+  it('should return trimmed items and joined content in all mode', () => {
+    expect(readMatchedContent(items, 'all')).toEqual({
+      content: 'Job A\nJob B\nJob C',
+      items: ['Job A', 'Job B', 'Job C']
+    });
+  });
+
+  it('should return empty list when nothing matches in all mode', () => {
+    expect(readMatchedContent([], 'all')).toEqual({ content: '', items: [] });
+  });
+
+  it('should cap the number of items', () => {
+    const many = Array.from({ length: LIMITS.MAX_LIST_ITEMS + 10 }, (_, i) => createElement({ innerText: `Item ${i}` }));
+    expect(readMatchedContent(many, 'all').items).toHaveLength(LIMITS.MAX_LIST_ITEMS);
+  });
+
+  it('should return the number of matches in count mode', () => {
+    expect(readMatchedContent(items, 'count')).toEqual({ content: '3' });
+    expect(readMatchedContent([], 'count')).toEqual({ content: '0' });
+  });
+
+  it('should apply the content source to each item', () => {
+    const links = [
+      createElement({}, { href: '/a' }),
+      createElement({}, { href: '/b' })
+    ];
+    expect(readMatchedContent(links, 'all', { type: 'attribute', name: 'href' }).items).toEqual(['/a', '/b']);
+  });
+});
+
+/**
+ * Minimal table with rows, cells and an optional table head
+ */
+const createCell = (text: string, localName: string = 'td') => ({ localName, innerText: text, textContent: text, innerHTML: '' });
+
+const createTable = (rows: ReturnType<typeof createCell>[][], headRows: ReturnType<typeof createCell>[][] = []) => {
+  const tHead = headRows.length > 0 ? { rows: [] as unknown[] } : null;
+  const toRow = (cells: ReturnType<typeof createCell>[], parentElement: unknown) => ({ cells, parentElement });
+  const head = headRows.map(cells => toRow(cells, tHead));
+  if (tHead) {
+    tHead.rows = head;
+  }
+  return { localName: 'table', tHead, rows: [...head, ...rows.map(cells => toRow(cells, {}))] } as unknown as HTMLTableElement;
+};
+
+describe('findTable()', () => {
+  const table = createTable([]);
+
+  it('should return a matched table itself', () => {
+    expect(findTable(table)).toBe(table);
+  });
+
+  it('should return the table containing the element or inside it', () => {
+    const cell = { localName: 'td', closest: () => table, querySelector: () => null } as unknown as Element;
+    const wrapper = { localName: 'div', closest: () => null, querySelector: () => table } as unknown as Element;
+    const other = { localName: 'div', closest: () => null, querySelector: () => null } as unknown as Element;
+    expect(findTable(cell)).toBe(table);
+    expect(findTable(wrapper)).toBe(table);
+    expect(findTable(other)).toBeNull();
+  });
+});
+
+describe('readTable()', () => {
+  it('should read the header from the table head', () => {
+    const table = createTable(
+      [[createCell('A1'), createCell('  Apple\n pie ')], [createCell('B2'), createCell('Pear')]],
+      [[createCell('SKU', 'th'), createCell('Name', 'th')], [createCell('filter'), createCell('filter')]]
+    );
+    expect(readTable(table)).toEqual({ headers: ['SKU', 'Name'], rows: [['A1', 'Apple pie'], ['B2', 'Pear']] });
+  });
+
+  it('should use a first row of th cells as the header', () => {
+    const table = createTable([[createCell('SKU', 'th'), createCell('Name', 'th')], [createCell('A1'), createCell('Apple')]]);
+    expect(readTable(table)).toEqual({ headers: ['SKU', 'Name'], rows: [['A1', 'Apple']] });
+  });
+
+  it('should read all rows when there is no header', () => {
+    const table = createTable([[createCell('Total', 'th'), createCell('$5')], [createCell('Tax', 'th'), createCell('$1')]]);
+    expect(readTable(table)).toEqual({ headers: [], rows: [['Total', '$5'], ['Tax', '$1']] });
+  });
+
+  it('should cap rows and columns', () => {
+    const wide = Array.from({ length: LIMITS.MAX_TABLE_COLUMNS + 5 }, (_, i) => createCell(`C${i}`));
+    const rows = Array.from({ length: LIMITS.MAX_TABLE_ROWS + 5 }, () => wide);
+    const result = readTable(createTable(rows));
+    expect(result.rows).toHaveLength(LIMITS.MAX_TABLE_ROWS);
+    expect(result.rows[0]).toHaveLength(LIMITS.MAX_TABLE_COLUMNS);
+  });
+});
+
+describe('formatTable()', () => {
+  it('should write one line per row with the header first', () => {
+    expect(formatTable({ headers: ['SKU', 'Price'], rows: [['A1', '$1'], ['B2', '$2']] })).toBe('SKU | Price\nA1 | $1\nB2 | $2');
+    expect(formatTable({ headers: [], rows: [['A1', '$1']] })).toBe('A1 | $1');
+  });
+});
+
+describe('readMatchedContent() in table mode', () => {
+  it('should read the table of the first element', () => {
+    const table = createTable([[createCell('A1'), createCell('$1')]]);
+    expect(readMatchedContent([table as unknown as Element], 'table')).toEqual({
+      content: 'A1 | $1',
+      table: { headers: [], rows: [['A1', '$1']] }
+    });
+  });
+
+  it('should yield an empty table when nothing or no table matches', () => {
+    const other = { localName: 'div', closest: () => null, querySelector: () => null } as unknown as Element;
+    expect(readMatchedContent([], 'table')).toEqual({ content: '', table: { headers: [], rows: [] } });
+    expect(readMatchedContent([other], 'table')).toEqual({ content: '', table: { headers: [], rows: [] } });
+  });
+});
+
+/**
+ * Minimal element tree supporting class selectors, cloning and removal
+ */
+class FakeElement {
+  parent: FakeElement | null = null;
+
+  constructor(public className: string, private text: string, public children: FakeElement[] = []) {
+    children.forEach(child => { child.parent = this; });
+  }
+
+  get textContent(): string {
+    return this.text + this.children.map(child => child.textContent).join('');
+  }
+
+  get innerText(): string {
+    return this.textContent;
+  }
+
+  querySelectorAll(selector: string): FakeElement[] {
+    return this.children.flatMap(child => [
+      ...(`.${child.className}` === selector ? [child] : []),
+      ...child.querySelectorAll(selector)
+    ]);
+  }
+
+  querySelector(selector: string): FakeElement | null {
+    return this.querySelectorAll(selector)[0] ?? null;
+  }
+
+  cloneNode(): FakeElement {
+    return new FakeElement(this.className, this.text, this.children.map(child => child.cloneNode()));
+  }
+
+  remove(): void {
+    if (this.parent) {
+      this.parent.children = this.parent.children.filter(child => child !== this);
+    }
+  }
+}
+
+describe('excludeDescendants()', () => {
+  const createPost = (): Element => new FakeElement('post', 'New release', [
+    new FakeElement('time', ' 3 minutes ago'),
+    new FakeElement('body', '!', [new FakeElement('ad', ' Buy now')])
+  ]) as unknown as Element;
+
+  it('should return the element itself when nothing is excluded', () => {
+    const post = createPost();
+    expect(excludeDescendants(post)).toBe(post);
+    expect(excludeDescendants(post, '.missing')).toBe(post);
+  });
+
+  it('should remove matching descendants from a clone', () => {
+    const post = createPost();
+    const cleaned = excludeDescendants(post, '.time');
+    expect(cleaned).not.toBe(post);
+    expect(cleaned.textContent).toBe('New release! Buy now');
+    expect(post.textContent).toBe('New release 3 minutes ago! Buy now');
+  });
+
+  it('should remove nested descendants', () => {
+    expect(excludeDescendants(createPost(), '.ad').textContent).toBe('New release 3 minutes ago!');
+  });
+
+  it('should be applied by readMatchedContent', () => {
+    expect(readMatchedContent([createPost()], 'first', undefined, '.time')).toEqual({ content: 'New release! Buy now' });
+    expect(readMatchedContent([createPost(), createPost()], 'all', undefined, '.ad').items)
+      .toEqual(['New release 3 minutes ago!', 'New release 3 minutes ago!']);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  diffFields,
+  extractFieldValues,
+  formatFieldLines,
+  getFieldVariables,
+  parseFieldLines,
+  readFieldValues,
+  readJsonFieldValues
+} from '../src/ts/fields';
+
+/**
+ * Tests for named fields
+ * The page is a plain object standing in for a document
+ */
+
+const createDocument = (texts: Record<string, string>) => ({
+  querySelector: (selector: string) => {
+    if (selector === '[') {
+      throw new Error('Invalid selector');
+    }
+    return selector in texts ? { innerText: texts[selector] } : null;
+  }
+}) as unknown as Document;
+
+describe('readFieldValues()', () => {
+  it('should read the trimmed text of each field', () => {
+    const doc = createDocument({ '.price': ' $19.99 ', '#stock': 'In stock' });
+    expect(readFieldValues(doc, [
+      { name: 'price', selector: '.price' },
+      { name: 'stock', selector: '#stock' }
+    ])).toEqual({ price: '$19.99', stock: 'In stock' });
+  });
+
+  it('should use null for missing elements and invalid selectors', () => {
+    const doc = createDocument({});
+    expect(readFieldValues(doc, [
+      { name: 'shipping', selector: '.shipping' },
+      { name: 'broken', selector: '[' }
+    ])).toEqual({ shipping: null, broken: null });
+  });
+
+  it('should read XPath selectors with the project\'s selector type', () => {
+    const cell = { nodeType: 1, innerText: ' 42 ' };
+    const doc = {
+      nodeType: 9,
+      querySelector: () => null,
+      evaluate: (expression: string) => {
+        const nodes = expression === '//td[@class="stock"]' ? [cell] : [];
+        return { snapshotLength: nodes.length, snapshotItem: (i: number) => nodes[i] ?? null };
+      }
+    } as unknown as Document;
+    expect(readFieldValues(doc, [
+      { name: 'stock', selector: '//td[@class="stock"]' },
+      { name: 'missing', selector: '//td[@class="price"]' }
+    ], 'xpath')).toEqual({ stock: '42', missing: null });
+  });
+
+  it('should read each field from its own content source', () => {
+    const element = {
+      innerText: 'Widget',
+      getAttribute: (name: string) => (name === 'data-sku' ? ' W-100 ' : null),
+      value: 3
+    };
+    const doc = { querySelector: () => element } as unknown as Document;
+    expect(readFieldValues(doc, [
+      { name: 'title', selector: '.product' },
+      { name: 'sku', selector: '.product', contentSource: { type: 'attribute', name: 'data-sku' } },
+      { name: 'color', selector: '.product', contentSource: { type: 'attribute', name: 'data-color' } },
+      { name: 'quantity', selector: '.product', contentSource: { type: 'property', name: 'value' } }
+    ])).toEqual({ title: 'Widget', sku: 'W-100', color: '', quantity: '3' });
+  });
+});
+
+describe('readJsonFieldValues()', () => {
+  it('should read the first value of each path', () => {
+    const data = { data: { price: 19.99, tags: ['new', 'sale'] } };
+    expect(readJsonFieldValues(data, [
+      { name: 'price', selector: '$.data.price' },
+      { name: 'tag', selector: 'data.tags[*]' },
+      { name: 'missing', selector: '$.data.stock' },
+      { name: 'broken', selector: '$[?(@.x)]' }
+    ])).toEqual({ price: '19.99', tag: 'new', missing: null, broken: null });
+  });
+});
+
+describe('extractFieldValues()', () => {
+  it('should apply each field\'s extraction', () => {
+    const fields = [
+      { name: 'price', selector: '.price', extractRegex: { pattern: '[\\d.]+', group: 0 } },
+      { name: 'date', selector: '.date', extractRegex: { pattern: '(\\d{4})' } },
+      { name: 'stock', selector: '#stock' }
+    ];
+    expect(extractFieldValues(fields, { price: '$19.99', date: 'soon', stock: 'In stock' }))
+      .toEqual({ price: '19.99', date: '', stock: 'In stock' });
+  });
+
+  it('should keep missing values as null', () => {
+    const fields = [{ name: 'price', selector: '.price', extractRegex: { pattern: '\\d+' } }];
+    expect(extractFieldValues(fields, { price: null })).toEqual({ price: null });
+    expect(extractFieldValues(fields, {})).toEqual({ price: null });
+  });
+});
+
+describe('diffFields()', () => {
+  it('should report changed fields in order', () => {
+    expect(diffFields(
+      { price: '19.99', stock: 'In stock', shipping: '2 days' },
+      { price: '17.99', stock: 'In stock', shipping: null }
+    )).toEqual([
+      { name: 'price', from: '19.99', to: '17.99' },
+      { name: 'shipping', from: '2 days', to: null }
+    ]);
+  });
+
+  it('should only set the baseline for new fields', () => {
+    expect(diffFields(undefined, { price: '19.99' })).toEqual([]);
+    expect(diffFields({ price: '19.99' }, { price: '19.99', stock: 'In stock' })).toEqual([]);
+    expect(diffFields({ stock: null }, { stock: 'In stock' })).toEqual([{ name: 'stock', from: null, to: 'In stock' }]);
+  });
+});
+
+describe('getFieldVariables()', () => {
+  it('should prefix names and use empty strings for missing values', () => {
+    expect(getFieldVariables({ price: '19.99', stock: null })).toEqual({ 'fields.price': '19.99', 'fields.stock': '' });
+    expect(getFieldVariables(undefined)).toEqual({});
+  });
+});
+
+describe('parseFieldLines() / formatFieldLines()', () => {
+  it('should parse one field per line', () => {
+    expect(parseFieldLines('price = $.data.price\n\n  stock=$.data.stock  \nbroken')).toEqual([
+      { name: 'price', selector: '$.data.price' },
+      { name: 'stock', selector: '$.data.stock' },
+      { name: 'broken', selector: '' }
+    ]);
+  });
+
+  it('should round-trip', () => {
+    const fields = [{ name: 'price', selector: '.price' }, { name: 'label', selector: 'a[title="x=y"]' }];
+    expect(parseFieldLines(formatFieldLines(fields))).toEqual(fields);
+  });
+});
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { INTERACTION } from '../src/ts/constants';
+import { runInteractionSteps } from '../src/ts/interaction';
+import { StepResult } from '../src/ts/types';
+
+/**
+ * Tests for pre-check interaction steps
+ * The page is a plain object standing in for a document, time is driven by Jest fake timers
+ */
+
+class FakeEvent {
+  constructor(public type: string) {}
+}
+
+// Minimal element recording what was done to it
+const createElement = (localName: string, extra: Record<string, unknown> = {}) => ({
+  localName,
+  value: '',
+  events: [] as string[],
+  clicked: 0,
+  focused: false,
+  click() { this.clicked++; },
+  focus() { this.focused = true; },
+  dispatchEvent(event: FakeEvent) { this.events.push(event.type); return true; },
+  ...extra
+});
+
+const createDocument = (elements: Record<string, ReturnType<typeof createElement>>) => {
+  const scrolls: number[] = [];
+  const doc = {
+    documentElement: { scrollHeight: 0 },
+    scrollingElement: { scrollHeight: 2400 },
+    defaultView: { scrollTo: (_x: number, y: number) => scrolls.push(y) },
+    querySelector: (selector: string) => elements[selector] ?? null,
+    querySelectorAll: (selector: string) => (elements[selector] ? [elements[selector]] : [])
+  };
+  return { doc: doc as unknown as Document, scrolls };
+};
+
+// Runs the steps while advancing fake time until they finish
+const run = async (doc: Document, steps: Parameters<typeof runInteractionSteps>[1]) => {
+  const outcome: { results?: StepResult[] } = {};
+  runInteractionSteps(doc, steps).then(results => { outcome.results = results; });
+  while (!outcome.results) {
+    await jest.advanceTimersByTimeAsync(INTERACTION.STEP_SETTLE_MS);
+  }
+  return outcome.results;
+};
+
+describe('runInteractionSteps()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    (globalThis as { Event?: unknown }).Event = FakeEvent;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (globalThis as { Event?: unknown }).Event;
+  });
+
+  it('should click elements and scroll to the bottom', async () => {
+    const button = createElement('button');
+    const { doc, scrolls } = createDocument({ '.more': button });
+
+    const results = await run(doc, [{ type: 'click', selector: '.more' }, { type: 'scroll' }]);
+
+    expect(button.clicked).toBe(1);
+    expect(scrolls).toEqual([2400]);
+    expect(results).toEqual([
+      { type: 'click', selector: '.more', success: true },
+      { type: 'scroll', success: true }
+    ]);
+  });
+
+  it('should type into text fields and fire input events', async () => {
+    const input = createElement('input');
+    const { doc } = createDocument({ '#q': input });
+
+    const results = await run(doc, [{ type: 'type', selector: '#q', value: 'laptop' }]);
+
+    expect(results[0]?.success).toBe(true);
+    expect(input.value).toBe('laptop');
+    expect(input.focused).toBe(true);
+    expect(input.events).toEqual(['input', 'change']);
+  });
+
+  it('should select options by value or by label', async () => {
+    const select = createElement('select', {
+      options: [{ value: 'new', text: 'Newest' }, { value: 'price', text: 'Lowest price' }]
+    });
+    const { doc } = createDocument({ '#sort': select });
+
+    await run(doc, [{ type: 'select', selector: '#sort', value: 'price' }]);
+    expect(select.value).toBe('price');
+
+    await run(doc, [{ type: 'select', selector: '#sort', value: 'Newest' }]);
+    expect(select.value).toBe('new');
+
+    const results = await run(doc, [{ type: 'select', selector: '#sort', value: 'Oldest' }]);
+    expect(results[0]).toMatchObject({ success: false, error: 'Option not found: Oldest' });
+  });
+
+  it('should wait for the given duration', async () => {
+    const { doc } = createDocument({});
+    const outcome: { results?: StepResult[] } = {};
+    runInteractionSteps(doc, [{ type: 'wait', duration: 2000 }]).then(results => { outcome.results = results; });
+
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(outcome.results).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(outcome.results).toEqual([{ type: 'wait', success: true }]);
+  });
+
+  it('should report failed steps and continue with the next ones', async () => {
+    const div = createElement('div');
+    const button = createElement('button');
+    const { doc } = createDocument({ '.text': div, '.more': button });
+
+    const results = await run(doc, [
+      { type: 'click', selector: '#cookie-banner' },
+      { type: 'type', selector: '.text', value: 'x' },
+      { type: 'click', selector: '.more' }
+    ]);
+
+    expect(results).toEqual([
+      { type: 'click', selector: '#cookie-banner', success: false, error: 'Element not found' },
+      { type: 'type', selector: '.text', success: false, error: 'Element is not a text field' },
+      { type: 'click', selector: '.more', success: true }
+    ]);
+    expect(button.clicked).toBe(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from '@jest/globals';
+import { LIMITS } from '../src/ts/constants';
+import { evaluateJsonPath, formatJsonValue, parseJsonPath, readJsonMatches } from '../src/ts/jsonPath';
+
+/**
+ * Tests for JSON path parsing and evaluation (HTTP endpoint projects)
+ */
+
+const data = {
+  status: 'ok',
+  data: {
+    items: [
+      { id: 1, name: 'Widget', price: 9.5, tags: ['new'] },
+      { id: 2, name: 'Gadget', price: 20, tags: [] }
+    ],
+    'odd key': { "it's": true },
+    total: null
+  }
+};
+
+describe('parseJsonPath()', () => {
+  it('should parse JSONPath segments', () => {
+    expect(parseJsonPath('$.data.items[-1].name')).toEqual([
+      { descendant: false, selector: { type: 'name', name: 'data' } },
+      { descendant: false, selector: { type: 'name', name: 'items' } },
+      { descendant: false, selector: { type: 'index', index: -1 } },
+      { descendant: false, selector: { type: 'name', name: 'name' } }
+    ]);
+  });
+
+  it('should parse dot paths without the root symbol', () => {
+    expect(parseJsonPath('data.items.0')).toEqual([
+      { descendant: false, selector: { type: 'name', name: 'data' } },
+      { descendant: false, selector: { type: 'name', name: 'items' } },
+      { descendant: false, selector: { type: 'name', name: '0' } }
+    ]);
+  });
+
+  it('should parse wildcards, descendants and quoted names', () => {
+    expect(parseJsonPath('$..id')).toEqual([{ descendant: true, selector: { type: 'name', name: 'id' } }]);
+    expect(parseJsonPath('$.items.*')).toEqual([
+      { descendant: false, selector: { type: 'name', name: 'items' } },
+      { descendant: false, selector: { type: 'wildcard' } }
+    ]);
+    expect(parseJsonPath('$["a.b"][\'it\\\'s\']')).toEqual([
+      { descendant: false, selector: { type: 'name', name: 'a.b' } },
+      { descendant: false, selector: { type: 'name', name: "it's" } }
+    ]);
+  });
+
+  it('should return no segments for the root', () => {
+    expect(parseJsonPath('$')).toEqual([]);
+  });
+
+  it('should reject malformed or unsupported expressions', () => {
+    expect(() => parseJsonPath('')).toThrow('cannot be empty');
+    expect(() => parseJsonPath('$.items[')).toThrow();
+    expect(() => parseJsonPath('$.items[?(@.price > 10)]')).toThrow('Unsupported');
+    expect(() => parseJsonPath('$.items[0:2]')).toThrow('Unsupported');
+    expect(() => parseJsonPath('$.a..')).toThrow('property name');
+    expect(() => parseJsonPath("$['open")).toThrow('Unterminated');
+    expect(() => parseJsonPath('$x')).toThrow('Unexpected character');
+  });
+});
+
+describe('evaluateJsonPath()', () => {
+  it('should select nested values', () => {
+    expect(evaluateJsonPath(data, '$.data.items[0].price')).toEqual([9.5]);
+    expect(evaluateJsonPath(data, 'data.items.1.name')).toEqual(['Gadget']);
+  });
+
+  it('should support negative indexes and wildcards', () => {
+    expect(evaluateJsonPath(data, '$.data.items[-1].id')).toEqual([2]);
+    expect(evaluateJsonPath(data, '$.data.items[*].name')).toEqual(['Widget', 'Gadget']);
+  });
+
+  it('should collect descendants in document order', () => {
+    expect(evaluateJsonPath(data, '$..price')).toEqual([9.5, 20]);
+    expect(evaluateJsonPath(data, '$..tags[0]')).toEqual(['new']);
+  });
+
+  it('should select keys that need quoting', () => {
+    expect(evaluateJsonPath(data, "$.data['odd key'][\"it's\"]")).toEqual([true]);
+  });
+
+  it('should keep null values but return nothing for missing ones', () => {
+    expect(evaluateJsonPath(data, '$.data.total')).toEqual([null]);
+    expect(evaluateJsonPath(data, '$.data.missing')).toEqual([]);
+    expect(evaluateJsonPath(data, '$.data.items[5]')).toEqual([]);
+    expect(evaluateJsonPath(data, '$.status.length')).toEqual([]);
+  });
+
+  it('should not read inherited properties', () => {
+    expect(evaluateJsonPath({}, '$.constructor')).toEqual([]);
+  });
+});
+
+describe('formatJsonValue()', () => {
+  it('should keep strings and serialize other values', () => {
+    expect(formatJsonValue('Widget')).toBe('Widget');
+    expect(formatJsonValue(9.5)).toBe('9.5');
+    expect(formatJsonValue(null)).toBe('null');
+    expect(formatJsonValue({ a: [1, 2] })).toBe('{"a":[1,2]}');
+    expect(formatJsonValue(undefined)).toBe('');
+  });
+});
+
+describe('readJsonMatches()', () => {
+  it('should read the first value', () => {
+    expect(readJsonMatches(data, '$..name')).toEqual({ content: 'Widget' });
+  });
+
+  it('should return null when nothing matches in first mode', () => {
+    expect(readJsonMatches(data, '$.data.missing')).toBeNull();
+  });
+
+  it('should list all values', () => {
+    expect(readJsonMatches(data, '$..name', 'all')).toEqual({ content: 'Widget\nGadget', items: ['Widget', 'Gadget'] });
+  });
+
+  it('should cap the number of items', () => {
+    const list = Array.from({ length: LIMITS.MAX_LIST_ITEMS + 5 }, (_, i) => i);
+    expect(readJsonMatches(list, '$[*]', 'all')?.items).toHaveLength(LIMITS.MAX_LIST_ITEMS);
+  });
+
+  it('should count values, including zero matches', () => {
+    expect(readJsonMatches(data, '$.data.items[*]', 'count')).toEqual({ content: '2' });
+    expect(readJsonMatches(data, '$.data.missing', 'count')).toEqual({ content: '0' });
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { isLiveProject, LiveWatchProbe, watchForChanges } from '../src/ts/liveWatch';
+
+/**
+ * Tests for live watching of open tabs
+ * Mutations are simulated by calling the observer callback, time by Jest fake timers
+ */
+
+const TIMING = { debounceMs: 1000, maxWaitMs: 5000 };
+
+// Probe whose reading is set by the test and which records mutation subscriptions
+const createProbe = (reading: string = 'a') => {
+  const state = { reading, reads: 0, listener: null as (() => void) | null, unsubscribed: false };
+  const probe: LiveWatchProbe = {
+    read: () => {
+      state.reads++;
+      return state.reading;
+    },
+    observe: (onMutation) => {
+      state.listener = onMutation;
+      return () => { state.unsubscribed = true; };
+    }
+  };
+  return { state, probe, mutate: () => state.listener?.() };
+};
+
+describe('watchForChanges()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should report a changed reading once mutations have settled', () => {
+    const { state, probe, mutate } = createProbe();
+    const onChange = jest.fn();
+    watchForChanges(probe, onChange, TIMING);
+
+    state.reading = 'b';
+    mutate();
+    jest.advanceTimersByTime(600);
+    mutate();
+    jest.advanceTimersByTime(600);
+    expect(onChange).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(400);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('b');
+  });
+
+  it('should not report mutations that leave the reading unchanged', () => {
+    const { state, probe, mutate } = createProbe();
+    const onChange = jest.fn();
+    watchForChanges(probe, onChange, TIMING);
+
+    mutate();
+    jest.advanceTimersByTime(TIMING.debounceMs);
+    expect(state.reads).toBe(2);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should compare with the last reported reading', () => {
+    const { state, probe, mutate } = createProbe();
+    const onChange = jest.fn();
+    watchForChanges(probe, onChange, TIMING);
+
+    state.reading = 'b';
+    mutate();
+    jest.advanceTimersByTime(TIMING.debounceMs);
+    mutate();
+    jest.advanceTimersByTime(TIMING.debounceMs);
+    state.reading = 'a';
+    mutate();
+    jest.advanceTimersByTime(TIMING.debounceMs);
+    expect(onChange.mock.calls).toEqual([['b'], ['a']]);
+  });
+
+  it('should read a continuously mutating page after the maximum wait', () => {
+    const { state, probe, mutate } = createProbe();
+    const onChange = jest.fn();
+    watchForChanges(probe, onChange, TIMING);
+
+    state.reading = 'b';
+    for (let elapsed = 0; elapsed < TIMING.maxWaitMs; elapsed += 500) {
+      mutate();
+      jest.advanceTimersByTime(500);
+    }
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop watching', () => {
+    const { state, probe, mutate } = createProbe();
+    const onChange = jest.fn();
+    const stop = watchForChanges(probe, onChange, TIMING);
+
+    state.reading = 'b';
+    mutate();
+    stop();
+    jest.advanceTimersByTime(TIMING.maxWaitMs);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(state.unsubscribed).toBe(true);
+  });
+});
+
+describe('isLiveProject()', () => {
+  it('should only watch page projects with live mode on', () => {
+    expect(isLiveProject({ live: true })).toBe(true);
+    expect(isLiveProject({ type: 'page', live: true })).toBe(true);
+    expect(isLiveProject({ type: 'page' })).toBe(false);
+    expect(isLiveProject({ type: 'http', live: true })).toBe(false);
+  });
+});
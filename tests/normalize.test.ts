@@ -0,0 +1,74 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyNormalization, hasTextNormalization, isSameNormalization, normalizeContent } from '../src/ts/normalize';
+
+describe('normalizeContent()', () => {
+  it('should return content unchanged without rules', () => {
+    expect(normalizeContent('  Some  Text 42 ', {})).toBe('  Some  Text 42 ');
+  });
+
+  it('should collapse whitespace', () => {
+    expect(normalizeContent('  New\n\n  Item\t1 ', { collapseWhitespace: true })).toBe('New Item 1');
+  });
+
+  it('should case-fold', () => {
+    expect(normalizeContent('In Stock', { caseFold: true })).toBe('in stock');
+  });
+
+  it('should strip digits', () => {
+    expect(normalizeContent('Viewed 1,234 times', { stripDigits: true })).toBe('Viewed , times');
+  });
+
+  it('should remove every match of each ignore pattern', () => {
+    const config = { ignorePatterns: ['\\d+ minutes? ago', 'Sponsored'] };
+    expect(normalizeContent('Post A - 3 minutes ago Sponsored; Post B - 1 minute ago', config)).toBe('Post A -  ; Post B - ');
+  });
+
+  it('should apply ignore patterns before the other rules', () => {
+    const config = { ignorePatterns: ['Updated \\d+ min ago'], caseFold: true, collapseWhitespace: true };
+    expect(normalizeContent('Price: 10 EUR\n  Updated 5 min ago', config)).toBe('price: 10 eur');
+  });
+});
+
+describe('applyNormalization()', () => {
+  it('should normalize single content', () => {
+    expect(applyNormalization({ content: ' A  B ' }, { collapseWhitespace: true })).toEqual({ content: 'A B' });
+  });
+
+  it('should normalize each item and rebuild the content', () => {
+    const result = applyNormalization({ content: 'Job 1\nJob 2', items: ['Job 1', 'Job 2'] }, { stripDigits: true, collapseWhitespace: true });
+    expect(result).toEqual({ content: 'Job\nJob', items: ['Job', 'Job'] });
+  });
+
+  it('should normalize each table cell and rebuild the content', () => {
+    const table = { headers: ['Name', 'Updated'], rows: [['Apple', '5 min ago'], ['Pear', '1 hour ago']] };
+    const result = applyNormalization({ content: '', table }, { ignorePatterns: ['\\d+ (min|hour)s? ago'] });
+    expect(result).toEqual({
+      content: 'Name | Updated\nApple | \nPear | ',
+      table: { headers: ['Name', 'Updated'], rows: [['Apple', ''], ['Pear', '']] }
+    });
+  });
+});
+
+describe('hasTextNormalization()', () => {
+  it('should detect text rules', () => {
+    expect(hasTextNormalization(undefined)).toBe(false);
+    expect(hasTextNormalization({})).toBe(false);
+    expect(hasTextNormalization({ excludeSelector: '.ad' })).toBe(false);
+    expect(hasTextNormalization({ ignorePatterns: [] })).toBe(false);
+    expect(hasTextNormalization({ caseFold: true })).toBe(true);
+    expect(hasTextNormalization({ ignorePatterns: ['x'] })).toBe(true);
+  });
+});
+
+describe('isSameNormalization()', () => {
+  it('should treat missing and empty configs as equal', () => {
+    expect(isSameNormalization(undefined, {})).toBe(true);
+    expect(isSameNormalization({ caseFold: false }, undefined)).toBe(true);
+  });
+
+  it('should detect changed rules', () => {
+    expect(isSameNormalization({ caseFold: true }, {})).toBe(false);
+    expect(isSameNormalization({ ignorePatterns: ['a'] }, { ignorePatterns: ['a', 'b'] })).toBe(false);
+    expect(isSameNormalization({ excludeSelector: '.ad' }, { excludeSelector: '.ads' })).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from '@jest/globals';
+import { evaluateNumericTrigger, isValidNumberLocale, parseNumber } from '../src/ts/numeric';
+
+describe('parseNumber()', () => {
+  describe('auto-detected separators', () => {
+    it('should parse prices with currency symbols and thousands separators', () => {
+      expect(parseNumber('$1,299.99')).toBe(1299.99);
+      expect(parseNumber('Price: 1.299,00 €')).toBe(1299);
+      expect(parseNumber('CHF 1\u2019299.50')).toBe(1299.5);
+      expect(parseNumber('1 299,99 €')).toBe(1299.99);
+    });
+
+    it('should treat a single separator followed by three digits as a thousands separator', () => {
+      expect(parseNumber('1,299')).toBe(1299);
+      expect(parseNumber('1.299')).toBe(1299);
+      expect(parseNumber('1,234,567')).toBe(1234567);
+    });
+
+    it('should treat other single separators as decimal separators', () => {
+      expect(parseNumber('0.299')).toBe(0.299);
+      expect(parseNumber('3.14159')).toBe(3.14159);
+      expect(parseNumber('12,5')).toBe(12.5);
+    });
+
+    it('should parse the first number in the text', () => {
+      expect(parseNumber('Only 3 left in stock')).toBe(3);
+      expect(parseNumber('12 items, 4 pages')).toBe(12);
+    });
+
+    it('should parse negative numbers', () => {
+      expect(parseNumber('-42.5')).toBe(-42.5);
+      expect(parseNumber('\u22123')).toBe(-3);
+    });
+
+    it('should return null when there is no number', () => {
+      expect(parseNumber('Sold out')).toBeNull();
+      expect(parseNumber('')).toBeNull();
+    });
+  });
+
+  describe('with locale', () => {
+    it('should use the locale decimal and group separators', () => {
+      expect(parseNumber('1.299,00 €', 'de-DE')).toBe(1299);
+      expect(parseNumber('$1,299.99', 'en-US')).toBe(1299.99);
+      expect(parseNumber('1,299', 'en-US')).toBe(1299);
+      expect(parseNumber('12,5', 'de-DE')).toBe(12.5);
+    });
+
+    it('should accept any space variant for locales grouping with spaces', () => {
+      expect(parseNumber('1 299,99 €', 'fr-FR')).toBe(1299.99);
+      expect(parseNumber('1 299,99 €', 'fr-FR')).toBe(1299.99);
+    });
+  });
+});
+
+describe('isValidNumberLocale()', () => {
+  it('should accept valid locales', () => {
+    expect(isValidNumberLocale('en-US')).toBe(true);
+    expect(isValidNumberLocale('de-DE')).toBe(true);
+  });
+
+  it('should reject malformed locales', () => {
+    expect(isValidNumberLocale('not a locale!')).toBe(false);
+  });
+});
+
+describe('evaluateNumericTrigger()', () => {
+  it('should not fire on the first reading or unparseable content', () => {
+    expect(evaluateNumericTrigger({ enabled: true }, undefined, 10)).toBeNull();
+    expect(evaluateNumericTrigger({ enabled: true }, 10, null)).toBeNull();
+  });
+
+  it('should fire on any change when no condition is configured', () => {
+    expect(evaluateNumericTrigger({ enabled: true }, 10, 11)).toBe('change');
+    expect(evaluateNumericTrigger({ enabled: true }, 10, 10)).toBeNull();
+  });
+
+  it('should fire only when crossing the lower threshold', () => {
+    const config = { enabled: true, below: 199 };
+    expect(evaluateNumericTrigger(config, 249, 189)).toBe('below');
+    expect(evaluateNumericTrigger(config, 189, 179)).toBeNull();
+    expect(evaluateNumericTrigger(config, 249, 229)).toBeNull();
+  });
+
+  it('should fire only when crossing the upper threshold', () => {
+    const config = { enabled: true, above: 100 };
+    expect(evaluateNumericTrigger(config, 90, 120)).toBe('above');
+    expect(evaluateNumericTrigger(config, 120, 130)).toBeNull();
+  });
+
+  it('should fire when the change exceeds the percentage', () => {
+    const config = { enabled: true, percentChange: 10 };
+    expect(evaluateNumericTrigger(config, 100, 85)).toBe('percent');
+    expect(evaluateNumericTrigger(config, 100, 111)).toBe('percent');
+    expect(evaluateNumericTrigger(config, 100, 105)).toBeNull();
+    expect(evaluateNumericTrigger(config, 0, 1)).toBe('percent');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from '@jest/globals';
+import { appendNumericPoint, downsampleNumericHistory, getNumericPointsSince, scaleNumericPoints, summarizeNumericHistory } from '../src/ts/numericHistory';
+import { NumericPoint } from '../src/ts/types';
+
+describe('appendNumericPoint()', () => {
+  it('should append without modifying the given series', () => {
+    const history: NumericPoint[] = [[1000, 1]];
+    expect(appendNumericPoint(history, [2000, 2])).toEqual([[1000, 1], [2000, 2]]);
+    expect(history).toEqual([[1000, 1]]);
+  });
+
+  it('should drop the oldest values beyond the cap', () => {
+    expect(appendNumericPoint([[1000, 1], [2000, 2], [3000, 3]], [4000, 4], 3)).toEqual([[2000, 2], [3000, 3], [4000, 4]]);
+  });
+});
+
+describe('getNumericPointsSince()', () => {
+  it('should keep values from the start of the range on', () => {
+    expect(getNumericPointsSince([[1000, 1], [2000, 2], [3000, 3]], 2000)).toEqual([[2000, 2], [3000, 3]]);
+  });
+});
+
+describe('summarizeNumericHistory()', () => {
+  it('should compute min, max, average and last value', () => {
+    expect(summarizeNumericHistory([[1000, 10], [2000, 30], [3000, 20]])).toEqual({ min: 10, max: 30, average: 20, last: 20, count: 3 });
+  });
+
+  it('should handle negative values and empty series', () => {
+    expect(summarizeNumericHistory([[1000, -5], [2000, -1]])).toEqual({ min: -5, max: -1, average: -3, last: -1, count: 2 });
+    expect(summarizeNumericHistory([])).toBeNull();
+  });
+});
+
+describe('downsampleNumericHistory()', () => {
+  it('should keep short series as they are', () => {
+    const history: NumericPoint[] = [[1000, 1], [2000, 2]];
+    expect(downsampleNumericHistory(history, 5)).toBe(history);
+  });
+
+  it('should average consecutive values into buckets', () => {
+    const history: NumericPoint[] = [[1000, 1], [2000, 3], [3000, 5], [4000, 7]];
+    expect(downsampleNumericHistory(history, 2)).toEqual([[1500, 2], [3500, 6]]);
+  });
+
+  it('should return exactly maxPoints values when the length is not a multiple', () => {
+    const history: NumericPoint[] = Array.from({ length: 1000 }, (_, index) => [index * 1000, index] as NumericPoint);
+    expect(downsampleNumericHistory(history, 7)).toHaveLength(7);
+  });
+});
+
+describe('scaleNumericPoints()', () => {
+  it('should spread time over the width and values over the height', () => {
+    expect(scaleNumericPoints([[1000, 10], [2000, 20], [3000, 15]], 100, 50)).toEqual([
+      { x: 0, y: 50, time: 1000, value: 10 },
+      { x: 50, y: 0, time: 2000, value: 20 },
+      { x: 100, y: 25, time: 3000, value: 15 }
+    ]);
+  });
+
+  it('should center a single or constant series', () => {
+    expect(scaleNumericPoints([[1000, 5]], 100, 50)).toEqual([{ x: 50, y: 25, time: 1000, value: 5 }]);
+    expect(scaleNumericPoints([[1000, 5], [2000, 5]], 100, 50).map(point => point.y)).toEqual([25, 25]);
+    expect(scaleNumericPoints([], 100, 50)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { READINESS } from '../src/ts/constants';
+import { isAdaptiveReadiness, ReadinessProbe, ReadinessResult, waitForReadiness } from '../src/ts/readiness';
+
+/**
+ * Tests for adaptive page readiness
+ * Mutations are simulated by calling the observer callback, time by Jest fake timers
+ */
+
+// Probe whose readiness is toggled by the test and which records mutation subscriptions
+const createProbe = (ready: boolean = false) => {
+  const state = { ready, listener: null as (() => void) | null, unsubscribed: false };
+  const probe: ReadinessProbe = {
+    isReady: () => state.ready,
+    observe: (onMutation) => {
+      state.listener = onMutation;
+      return () => { state.unsubscribed = true; };
+    }
+  };
+  return { state, probe, mutate: () => state.listener?.() };
+};
+
+// Collects the result once the promise settles
+const track = (promise: Promise<ReadinessResult>) => {
+  const outcome: { result?: ReadinessResult } = {};
+  promise.then(result => { outcome.result = result; });
+  return outcome;
+};
+
+describe('isAdaptiveReadiness()', () => {
+  it('should treat missing config and delay mode as fixed delay', () => {
+    expect(isAdaptiveReadiness(undefined)).toBe(false);
+    expect(isAdaptiveReadiness({ mode: 'delay' })).toBe(false);
+    expect(isAdaptiveReadiness({ mode: 'settle' })).toBe(true);
+  });
+});
+
+describe('waitForReadiness()', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve immediately when the element is already there', async () => {
+    const { probe, state } = createProbe(true);
+    await expect(waitForReadiness({ mode: 'element' }, probe)).resolves.toEqual({ waited: 0, timedOut: false });
+    expect(state.listener).toBeNull();
+  });
+
+  it('should resolve on the mutation that makes the page ready', async () => {
+    const { probe, state, mutate } = createProbe();
+    const outcome = track(waitForReadiness({ mode: 'content' }, probe));
+
+    await jest.advanceTimersByTimeAsync(100);
+    mutate();
+    await Promise.resolve();
+    expect(outcome.result).toBeUndefined();
+
+    state.ready = true;
+    mutate();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outcome.result).toEqual({ waited: 100, timedOut: false });
+    expect(state.unsubscribed).toBe(true);
+  });
+
+  it('should poll for readiness between mutations', async () => {
+    const { probe, state } = createProbe();
+    const outcome = track(waitForReadiness({ mode: 'element' }, probe));
+
+    state.ready = true;
+    await jest.advanceTimersByTimeAsync(READINESS.POLL_INTERVAL_MS);
+    expect(outcome.result).toEqual({ waited: READINESS.POLL_INTERVAL_MS, timedOut: false });
+  });
+
+  it('should resolve once no mutations were seen for the settle time', async () => {
+    const { probe, mutate } = createProbe();
+    const outcome = track(waitForReadiness({ mode: 'settle', settleTime: 500 }, probe));
+
+    await jest.advanceTimersByTimeAsync(400);
+    mutate();
+    await jest.advanceTimersByTimeAsync(400);
+    expect(outcome.result).toBeUndefined();
+
+    await jest.advanceTimersByTimeAsync(100);
+    expect(outcome.result).toEqual({ waited: 900, timedOut: false });
+  });
+
+  it('should stop at the timeout', async () => {
+    const { probe, state, mutate } = createProbe();
+    const outcome = track(waitForReadiness({ mode: 'settle', settleTime: 500, timeout: 2000 }, probe));
+
+    for (let elapsed = 0; elapsed < 2000; elapsed += 200) {
+      mutate();
+      await jest.advanceTimersByTimeAsync(200);
+    }
+    expect(outcome.result).toEqual({ waited: 2000, timedOut: true });
+    expect(state.unsubscribed).toBe(true);
+  });
+
+  it('should use the default timeout', async () => {
+    const { probe } = createProbe();
+    const outcome = track(waitForReadiness({ mode: 'element' }, probe));
+
+    await jest.advanceTimersByTimeAsync(READINESS.DEFAULT_TIMEOUT_MS);
+    expect(outcome.result).toEqual({ waited: READINESS.DEFAULT_TIMEOUT_MS, timedOut: true });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from '@jest/globals';
+import { applyRegexExtraction, countCaptureGroups, extractWithRegex, hasNestedQuantifier, isSameRegexExtraction } from '../src/ts/regex';
+
+describe('hasNestedQuantifier()', () => {
+  it('should detect nested unbounded quantifiers', () => {
+    expect(hasNestedQuantifier('(a+)+$')).toBe(true);
+    expect(hasNestedQuantifier('(\\w*)*')).toBe(true);
+    expect(hasNestedQuantifier('(?:x+y){2,}')).toBe(true);
+    expect(hasNestedQuantifier('((ab)*c)+')).toBe(true);
+    expect(hasNestedQuantifier('(a+?)+?')).toBe(true);
+  });
+
+  it('should accept patterns without nested unbounded quantifiers', () => {
+    expect(hasNestedQuantifier('v(\\d+\\.\\d+)')).toBe(false);
+    expect(hasNestedQuantifier('(\\d+)-(\\d+)')).toBe(false);
+    expect(hasNestedQuantifier('(ab)+')).toBe(false);
+    expect(hasNestedQuantifier('(a+){2}')).toBe(false);
+    expect(hasNestedQuantifier('(a?)?')).toBe(false);
+  });
+
+  it('should treat escaped and character class quantifiers as literals', () => {
+    expect(hasNestedQuantifier('(a\\+)+')).toBe(false);
+    expect(hasNestedQuantifier('([+*])+')).toBe(false);
+    expect(hasNestedQuantifier('(\\(a+)')).toBe(false);
+  });
+});
+
+describe('countCaptureGroups()', () => {
+  it('should count capture groups', () => {
+    expect(countCaptureGroups('abc')).toBe(0);
+    expect(countCaptureGroups('(a)(b)')).toBe(2);
+    expect(countCaptureGroups('(?:a)(?<name>b)')).toBe(1);
+  });
+});
+
+describe('extractWithRegex()', () => {
+  it('should return the first capture group by default', () => {
+    expect(extractWithRegex('Latest release: v2.4.1 (stable)', { pattern: 'v(\\d+(?:\\.\\d+)*)' })).toBe('2.4.1');
+  });
+
+  it('should return the whole match when the pattern has no groups', () => {
+    expect(extractWithRegex('Updated 2024-05-01 by admin', { pattern: '\\d{4}-\\d{2}-\\d{2}' })).toBe('2024-05-01');
+  });
+
+  it('should return the selected group', () => {
+    expect(extractWithRegex('From 10 to 20', { pattern: '(\\d+) to (\\d+)', group: 2 })).toBe('20');
+    expect(extractWithRegex('From 10 to 20', { pattern: '(\\d+) to (\\d+)', group: 0 })).toBe('10 to 20');
+  });
+
+  it('should apply flags', () => {
+    expect(extractWithRegex('VERSION 3', { pattern: 'version (\\d)', flags: 'i' })).toBe('3');
+  });
+
+  it('should return null when the pattern does not match', () => {
+    expect(extractWithRegex('nothing here', { pattern: '\\d+' })).toBeNull();
+  });
+
+  it('should return an empty string for a group that did not participate', () => {
+    expect(extractWithRegex('b', { pattern: '(a)|b', group: 1 })).toBe('');
+  });
+});
+
+describe('applyRegexExtraction()', () => {
+  it('should extract from single content', () => {
+    expect(applyRegexExtraction({ content: 'Price: 42 USD' }, { pattern: '(\\d+)' })).toEqual({ content: '42' });
+  });
+
+  it('should yield empty content when nothing matches', () => {
+    expect(applyRegexExtraction({ content: 'Sold out' }, { pattern: '(\\d+)' })).toEqual({ content: '' });
+  });
+
+  it('should extract from each item and drop unmatched items', () => {
+    const result = applyRegexExtraction({ content: 'Job #1\nAd\nJob #7', items: ['Job #1', 'Ad', 'Job #7'] }, { pattern: '#(\\d+)' });
+    expect(result).toEqual({ content: '1\n7', items: ['1', '7'] });
+  });
+
+  it('should leave tables unchanged', () => {
+    const matched = { content: 'A1 | $1', table: { headers: [], rows: [['A1', '$1']] } };
+    expect(applyRegexExtraction(matched, { pattern: '(\\d+)' })).toBe(matched);
+  });
+});
+
+describe('isSameRegexExtraction()', () => {
+  it('should compare extractions', () => {
+    expect(isSameRegexExtraction(undefined, undefined)).toBe(true);
+    expect(isSameRegexExtraction({ pattern: 'a' }, undefined)).toBe(false);
+    expect(isSameRegexExtraction({ pattern: 'a' }, { pattern: 'a', flags: '' })).toBe(true);
+    expect(isSameRegexExtraction({ pattern: 'a', group: 1 }, { pattern: 'a' })).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from '@jest/globals';
+import { readResponseText } from '../src/ts/responseBody';
+
+/**
+ * Response streaming the given chunks, recording how many were pulled and whether the read was cancelled
+ */
+function createStreamedResponse(chunks: string[], headers: Record<string, string> = {}): { response: Response; pulled: () => number; cancelled: () => boolean } {
+  const encoder = new TextEncoder();
+  let index = 0;
+  let wasCancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const chunk = chunks[index++];
+      if (chunk === undefined) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(chunk));
+      }
+    },
+    cancel() {
+      wasCancelled = true;
+    }
+  }, { highWaterMark: 0 });
+  return { response: new Response(stream, { headers }), pulled: () => index, cancelled: () => wasCancelled };
+}
+
+describe('readResponseText()', () => {
+  it('should read a body within the limit', async () => {
+    const { response } = createStreamedResponse(['{"price":', ' 42}']);
+    expect(await readResponseText(response, 100)).toBe('{"price": 42}');
+  });
+
+  it('should decode multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('价格');
+    const response = new Response(new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 2));
+        controller.enqueue(bytes.slice(2));
+        controller.close();
+      }
+    }));
+    expect(await readResponseText(response, 100)).toBe('价格');
+  });
+
+  it('should reject a declared Content-Length over the limit without reading the body', async () => {
+    const stream = createStreamedResponse(['small'], { 'Content-Length': '1000' });
+    expect(await readResponseText(stream.response, 100)).toBeNull();
+    expect(stream.pulled()).toBe(0);
+  });
+
+  it('should stop reading once the bytes received exceed the limit', async () => {
+    const stream = createStreamedResponse(['12345', '67890', 'abcde', 'fghij']);
+    expect(await readResponseText(stream.response, 8)).toBeNull();
+    expect(stream.pulled()).toBe(2);
+    expect(stream.cancelled()).toBe(true);
+  });
+
+  it('should count bytes, not characters', async () => {
+    const { response } = createStreamedResponse(['价格价格']);
+    expect(await readResponseText(response, 10)).toBeNull();
+  });
+
+  it('should read an empty body', async () => {
+    expect(await readResponseText(new Response(null), 100)).toBe('');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, expect, it } from '@jest/globals';
+import {
+  applyJitter,
+  formatActiveWindowLines,
+  getNextRunTime,
+  getUpcomingRunTimes,
+  isCustomSchedule,
+  isInActiveWindow,
+  parseActiveWindowLines,
+  parseCronExpression,
+  parseTimeOfDay
+} from '../src/ts/schedule';
+import { ActiveWindow, Schedule } from '../src/ts/types';
+
+// Local times, so that the tests do not depend on the time zone (2026-01-05 is a Monday)
+const at = (day: number, hours: number, minutes: number = 0): number => new Date(2026, 0, day, hours, minutes).getTime();
+
+const WEEKDAYS: ActiveWindow = { days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' };
+
+describe('parseCronExpression()', () => {
+  it('should expand wildcards, ranges, lists and steps', () => {
+    const fields = parseCronExpression('*/15 9-11 1,15 * 1-5');
+    expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...fields.hours]).toEqual([9, 10, 11]);
+    expect([...fields.daysOfMonth]).toEqual([1, 15]);
+    expect(fields.months.size).toBe(12);
+    expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(fields.dayOfMonthRestricted).toBe(true);
+    expect(fields.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('should accept month and day names and Sunday as 7', () => {
+    const fields = parseCronExpression('0 8 * Jan,jun Sat,7');
+    expect([...fields.months]).toEqual([1, 6]);
+    expect([...fields.daysOfWeek].sort()).toEqual([0, 6]);
+  });
+
+  it('should treat day fields starting with a wildcard as unrestricted', () => {
+    const fields = parseCronExpression('0 0 */2 * 1');
+    expect(fields.dayOfMonthRestricted).toBe(false);
+    expect(fields.dayOfWeekRestricted).toBe(true);
+  });
+
+  it('should step from a start value to the end of the range', () => {
+    expect([...parseCronExpression('5/20 * * * *').minutes]).toEqual([5, 25, 45]);
+  });
+
+  it('should reject malformed expressions', () => {
+    for (const expression of ['', '0 8 * *', '0 8 * * * *', '60 * * * *', '* 24 * * *', '* * 0 * *', '* * * 13 *', '* * * * 8', '*/0 * * * *', '5-1 * * * *', 'a * * * *']) {
+      expect(() => parseCronExpression(expression)).toThrow();
+    }
+  });
+});
+
+describe('parseTimeOfDay()', () => {
+  it('should convert HH:MM to minutes since midnight', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('9:30')).toBe(570);
+    expect(parseTimeOfDay('23:59')).toBe(1439);
+  });
+
+  it('should reject malformed times', () => {
+    for (const time of ['24:00', '12:60', '1230', '12:3', '']) {
+      expect(parseTimeOfDay(time)).toBeNull();
+    }
+  });
+});
+
+describe('isInActiveWindow()', () => {
+  it('should always be active without windows', () => {
+    expect(isInActiveWindow(undefined, new Date(at(4, 3)))).toBe(true);
+    expect(isInActiveWindow([], new Date(at(4, 3)))).toBe(true);
+  });
+
+  it('should match days and hours, the end being excluded', () => {
+    expect(isInActiveWindow([WEEKDAYS], new Date(at(5, 9)))).toBe(true);
+    expect(isInActiveWindow([WEEKDAYS], new Date(at(5, 17, 59)))).toBe(true);
+    expect(isInActiveWindow([WEEKDAYS], new Date(at(5, 18)))).toBe(false);
+    expect(isInActiveWindow([WEEKDAYS], new Date(at(5, 8, 59)))).toBe(false);
+    expect(isInActiveWindow([WEEKDAYS], new Date(at(4, 10)))).toBe(false);
+  });
+
+  it('should continue overnight windows into the next day', () => {
+    const fridayNight: ActiveWindow = { days: [5], start: '22:00', end: '06:00' };
+    expect(isInActiveWindow([fridayNight], new Date(at(9, 23)))).toBe(true);
+    expect(isInActiveWindow([fridayNight], new Date(at(10, 5)))).toBe(true);
+    expect(isInActiveWindow([fridayNight], new Date(at(10, 23)))).toBe(false);
+    expect(isInActiveWindow([fridayNight], new Date(at(9, 5)))).toBe(false);
+  });
+});
+
+describe('applyJitter()', () => {
+  it('should keep the interval without jitter', () => {
+    expect(applyJitter(600000, 0, () => 0.9)).toBe(600000);
+  });
+
+  it('should vary the interval within the percentage', () => {
+    expect(applyJitter(600000, 20, () => 0)).toBe(480000);
+    expect(applyJitter(600000, 20, () => 0.5)).toBe(600000);
+    expect(applyJitter(600000, 20, () => 0.999999)).toBeCloseTo(720000, -1);
+  });
+
+  it('should stay within bounds with the default random source', () => {
+    for (let i = 0; i < 100; i++) {
+      const interval = applyJitter(600000, 10);
+      expect(interval).toBeGreaterThanOrEqual(540000);
+      expect(interval).toBeLessThanOrEqual(660000);
+    }
+  });
+});
+
+describe('getNextRunTime()', () => {
+  it('should add the interval without a schedule', () => {
+    expect(getNextRunTime(undefined, 300000, at(5, 10))).toBe(at(5, 10, 5));
+  });
+
+  it('should randomize the interval but never go below the minimum interval', () => {
+    expect(getNextRunTime(undefined, 600000, at(5, 10), 20, () => 0)).toBe(at(5, 10, 8));
+    expect(getNextRunTime(undefined, 60000, at(5, 10), 50, () => 0)).toBe(at(5, 10, 1));
+  });
+
+  it('should not randomize cron runs', () => {
+    expect(getNextRunTime({ mode: 'cron', cron: '0 8 * * *' }, 60000, at(5, 7), 50, () => 0)).toBe(at(5, 8));
+  });
+
+  it('should move runs outside the active hours to the next opening', () => {
+    const schedule: Schedule = { mode: 'interval', windows: [WEEKDAYS] };
+    expect(getNextRunTime(schedule, 300000, at(5, 10))).toBe(at(5, 10, 5));
+    expect(getNextRunTime(schedule, 300000, at(5, 17, 58))).toBe(at(6, 9));
+    expect(getNextRunTime(schedule, 300000, at(9, 17, 58))).toBe(at(12, 9));
+  });
+
+  it('should find the next minute matching a cron expression', () => {
+    const daily: Schedule = { mode: 'cron', cron: '0 8 * * *' };
+    expect(getNextRunTime(daily, 60000, at(5, 7, 30))).toBe(at(5, 8));
+    expect(getNextRunTime(daily, 60000, at(5, 8))).toBe(at(6, 8));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 15th or any Monday
+    const schedule: Schedule = { mode: 'cron', cron: '0 12 15 * Mon' };
+    expect(getUpcomingRunTimes(schedule, 60000, at(5, 13), 3)).toEqual([at(12, 12), at(15, 12), at(19, 12)]);
+  });
+
+  it('should match both day fields when the day of month is a wildcard step', () => {
+    // Mondays that are odd days (Jan 5, Jan 19, Feb 9), not every odd day or every Monday
+    const schedule: Schedule = { mode: 'cron', cron: '0 0 */2 * 1' };
+    expect(getUpcomingRunTimes(schedule, 60000, at(4, 0), 3)).toEqual([at(5, 0), at(19, 0), at(40, 0)]);
+  });
+
+  it('should skip cron runs outside the active hours', () => {
+    const schedule: Schedule = { mode: 'cron', cron: '0 * * * *', windows: [WEEKDAYS] };
+    expect(getNextRunTime(schedule, 60000, at(9, 17, 30))).toBe(at(12, 9));
+  });
+
+  it('should return null for invalid or impossible cron expressions', () => {
+    expect(getNextRunTime({ mode: 'cron', cron: 'every day' }, 60000, at(5, 0))).toBeNull();
+    expect(getNextRunTime({ mode: 'cron', cron: '0 8 30 2 *' }, 60000, at(5, 0))).toBeNull();
+  });
+});
+
+describe('getUpcomingRunTimes()', () => {
+  it('should list consecutive runs', () => {
+    const schedule: Schedule = { mode: 'cron', cron: '*/5 9-17 * * Mon-Fri' };
+    expect(getUpcomingRunTimes(schedule, 60000, at(9, 17, 50), 3)).toEqual([at(9, 17, 55), at(12, 9), at(12, 9, 5)]);
+  });
+});
+
+describe('isCustomSchedule()', () => {
+  it('should only report schedules that need one-shot alarms', () => {
+    expect(isCustomSchedule(undefined)).toBe(false);
+    expect(isCustomSchedule({ mode: 'interval' })).toBe(false);
+    expect(isCustomSchedule({ mode: 'interval', windows: [] })).toBe(false);
+    expect(isCustomSchedule({ mode: 'interval', windows: [WEEKDAYS] })).toBe(true);
+    expect(isCustomSchedule({ mode: 'cron', cron: '0 8 * * *' })).toBe(true);
+  });
+});
+
+describe('parseActiveWindowLines()', () => {
+  it('should parse day ranges, lists and lines without days', () => {
+    expect(parseActiveWindowLines('Mon-Fri 09:00-18:00\n\nsat,SUN 10:00 - 12:00\n22:00-06:00')).toEqual([
+      WEEKDAYS,
+      { days: [0, 6], start: '10:00', end: '12:00' },
+      { days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '06:00' }
+    ]);
+  });
+
+  it('should wrap day ranges around the week', () => {
+    expect(parseActiveWindowLines('Fri-Mon 08:00-20:00')).toEqual([{ days: [0, 1, 5, 6], start: '08:00', end: '20:00' }]);
+  });
+
+  it('should reject malformed lines', () => {
+    expect(parseActiveWindowLines('Weekdays 09:00-18:00')).toBeNull();
+    expect(parseActiveWindowLines('Mon-Fri 09:00')).toBeNull();
+  });
+
+  it('should return an empty list for empty text', () => {
+    expect(parseActiveWindowLines('  \n')).toEqual([]);
+  });
+});
+
+describe('formatActiveWindowLines()', () => {
+  it('should write consecutive days as ranges and leave out every day', () => {
+    expect(formatActiveWindowLines([
+      WEEKDAYS,
+      { days: [0, 6], start: '10:00', end: '12:00' },
+      { days: [0, 1, 2, 3, 4, 5, 6], start: '22:00', end: '06:00' }
+    ])).toBe('Mon-Fri 09:00-18:00\nSun,Sat 10:00-12:00\n22:00-06:00');
+  });
+
+  it('should be the inverse of parseActiveWindowLines', () => {
+    const text = 'Mon,Wed,Fri 07:30-08:30\nTue-Thu 18:00-19:00';
+    expect(formatActiveWindowLines(parseActiveWindowLines(text) ?? [])).toBe(text);
+  });
+});
@@ -0,0 +1,247 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { findElement, findElements, getPiercedRoot, getXPath, splitSelectorPath, toXPathLiteral } from '../src/ts/selector';
+
+/**
+ * Tests for CSS / XPath element lookup and XPath generation
+ * Elements and documents are simulated with plain objects (no DOM available in test environment)
+ */
+
+const XHTML = 'http://www.w3.org/1999/xhtml';
+const SVG = 'http://www.w3.org/2000/svg';
+
+interface FakeElement {
+  localName: string;
+  namespaceURI: string;
+  id: string;
+  nodeType: number;
+  parentElement: FakeElement | null;
+  children: FakeElement[];
+  shadowRoot: unknown;
+  contentDocument?: unknown;
+  /** Root node of the tree the element is in when it has no parent (default: the top document) */
+  root?: unknown;
+  getRootNode: () => unknown;
+}
+
+const topDocument = { nodeType: 9, defaultView: { frameElement: null } };
+
+const createElement = (localName: string, options: { id?: string; namespaceURI?: string } = {}, children: FakeElement[] = []): FakeElement => {
+  const element: FakeElement = {
+    localName,
+    namespaceURI: options.namespaceURI ?? XHTML,
+    id: options.id ?? '',
+    nodeType: 1,
+    parentElement: null,
+    children,
+    shadowRoot: null,
+    getRootNode: () => {
+      let current = element;
+      while (current.parentElement) {
+        current = current.parentElement;
+      }
+      return current.root ?? topDocument;
+    }
+  };
+  children.forEach(child => { child.parentElement = element; });
+  return element;
+};
+
+const asElement = (element: FakeElement): Element => element as unknown as Element;
+
+const createDocument = (nodes: Array<{ nodeType: number }>): Document => ({
+  nodeType: 9,
+  querySelectorAll: jest.fn(() => nodes),
+  querySelector: jest.fn(() => nodes[0] ?? null),
+  evaluate: jest.fn(() => ({
+    snapshotLength: nodes.length,
+    snapshotItem: (index: number) => nodes[index] ?? null
+  }))
+}) as unknown as Document;
+
+// Root whose querySelectorAll answers by selector text
+const createRoot = (nodeType: number, matches: Record<string, FakeElement[]>) => ({
+  nodeType,
+  querySelectorAll: (selector: string) => matches[selector] ?? []
+});
+
+describe('splitSelectorPath()', () => {
+  it('should return a single segment without the pierce combinator', () => {
+    expect(splitSelectorPath('div > p')).toEqual(['div > p']);
+  });
+
+  it('should split and trim segments', () => {
+    expect(splitSelectorPath('iframe#report >>> shop-cart>>>.total')).toEqual(['iframe#report', 'shop-cart', '.total']);
+  });
+
+  it('should ignore the combinator inside quoted strings', () => {
+    expect(splitSelectorPath('[title=">>>"] >>> span')).toEqual(['[title=">>>"]', 'span']);
+    expect(splitSelectorPath("//a[text()='a >>> b']")).toEqual(["//a[text()='a >>> b']"]);
+  });
+
+  it('should keep empty segments so they can be reported', () => {
+    expect(splitSelectorPath('my-app >>> ')).toEqual(['my-app', '']);
+  });
+});
+
+describe('getPiercedRoot()', () => {
+  it('should return the shadow root of a host', () => {
+    const shadowRoot = { nodeType: 11 };
+    const host = createElement('my-app');
+    host.shadowRoot = shadowRoot;
+    expect(getPiercedRoot(asElement(host))).toBe(shadowRoot);
+  });
+
+  it('should return the document of a frame', () => {
+    const frameDocument = { nodeType: 9 };
+    const frame = createElement('iframe');
+    frame.contentDocument = frameDocument;
+    expect(getPiercedRoot(asElement(frame))).toBe(frameDocument);
+  });
+
+  it('should return null for cross-origin frames and elements without a shadow root', () => {
+    const frame = createElement('iframe');
+    frame.contentDocument = null;
+    expect(getPiercedRoot(asElement(frame))).toBeNull();
+    expect(getPiercedRoot(asElement(createElement('div')))).toBeNull();
+  });
+});
+
+describe('findElements()', () => {
+  it('should use querySelectorAll for CSS selectors by default', () => {
+    const nodes = [createElement('li'), createElement('li')];
+    const doc = createDocument(nodes);
+    expect(findElements(doc, 'li')).toEqual(nodes);
+    expect(doc.querySelectorAll).toHaveBeenCalledWith('li');
+    expect(doc.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should evaluate XPath expressions as an ordered snapshot', () => {
+    const nodes = [createElement('td'), createElement('td')];
+    const doc = createDocument(nodes);
+    expect(findElements(doc, '//td', 'xpath')).toEqual(nodes);
+    expect((doc.evaluate as unknown as jest.Mock).mock.calls[0]).toEqual(['//td', doc, null, 7, null]);
+  });
+
+  it('should skip XPath results that are not elements', () => {
+    const cell = createElement('td');
+    const doc = createDocument([{ nodeType: 3 }, cell, { nodeType: 2 }]);
+    expect(findElements(doc, '//td/text() | //td | //td/@class', 'xpath')).toEqual([cell]);
+  });
+
+  it('should propagate XPath errors', () => {
+    const doc = createDocument([]);
+    (doc.evaluate as unknown as jest.Mock).mockImplementation(() => {
+      throw new Error('The string \'//div[\' is not a valid XPath expression.');
+    });
+    expect(() => findElements(doc, '//div[', 'xpath')).toThrow('not a valid XPath expression');
+  });
+});
+
+describe('findElements() across boundaries', () => {
+  it('should search inside shadow roots of matched hosts', () => {
+    const total = createElement('span');
+    const host = createElement('shop-cart');
+    host.shadowRoot = createRoot(11, { '.total': [total] });
+    const doc = createRoot(9, { 'shop-cart': [host] }) as unknown as Document;
+    expect(findElements(doc, 'shop-cart >>> .total')).toEqual([total]);
+  });
+
+  it('should search inside same-origin frames and skip inaccessible ones', () => {
+    const cell = createElement('td');
+    const sameOrigin = createElement('iframe');
+    sameOrigin.contentDocument = createRoot(9, { td: [cell] });
+    const crossOrigin = createElement('iframe');
+    crossOrigin.contentDocument = null;
+    const doc = createRoot(9, { iframe: [crossOrigin, sameOrigin] }) as unknown as Document;
+    expect(findElements(doc, 'iframe >>> td')).toEqual([cell]);
+  });
+
+  it('should evaluate XPath segments in shadow roots with the owner document', () => {
+    const span = createElement('span');
+    const host = createElement('shop-cart');
+    const ownerDocument = createDocument([span]);
+    const shadowRoot = { nodeType: 11, ownerDocument };
+    host.shadowRoot = shadowRoot;
+    const doc = createDocument([host]);
+    expect(findElements(doc, '//shop-cart >>> .//span', 'xpath')).toEqual([span]);
+    expect((ownerDocument.evaluate as unknown as jest.Mock).mock.calls[0]).toEqual(['.//span', shadowRoot, null, 7, null]);
+  });
+
+  it('should return nothing when a host has no shadow root', () => {
+    const doc = createRoot(9, { 'shop-cart': [createElement('shop-cart')] }) as unknown as Document;
+    expect(findElements(doc, 'shop-cart >>> .total')).toEqual([]);
+  });
+});
+
+describe('findElement()', () => {
+  it('should return the first match or null', () => {
+    const first = createElement('p');
+    expect(findElement(createDocument([first, createElement('p')]), '//p', 'xpath')).toBe(first);
+    expect(findElement(createDocument([]), '//p', 'xpath')).toBeNull();
+    expect(findElement(createDocument([first]), 'p')).toBe(first);
+  });
+});
+
+describe('toXPathLiteral()', () => {
+  it('should quote plain strings with double quotes', () => {
+    expect(toXPathLiteral('price')).toBe('"price"');
+  });
+
+  it('should use single quotes when the string contains double quotes', () => {
+    expect(toXPathLiteral('say "hi"')).toBe('\'say "hi"\'');
+  });
+
+  it('should use concat() when the string contains both quote kinds', () => {
+    expect(toXPathLiteral('it\'s "x"')).toBe('concat("it\'s ", \'"\', "x", \'"\', "")');
+  });
+});
+
+describe('getXPath()', () => {
+  it('should build an absolute path when no ancestor has an id', () => {
+    const heading = createElement('h1');
+    createElement('html', {}, [createElement('head'), createElement('body', {}, [createElement('main', {}, [heading])])]);
+    expect(getXPath(asElement(heading))).toBe('/html/body/main/h1');
+  });
+
+  it('should add positions only among same-name siblings', () => {
+    const target = createElement('td');
+    const row = createElement('tr', {}, [createElement('th'), createElement('td'), target]);
+    createElement('html', {}, [createElement('body', {}, [createElement('table', {}, [createElement('tr'), row])])]);
+    expect(getXPath(asElement(target))).toBe('/html/body/table/tr[2]/td[2]');
+  });
+
+  it('should anchor the path at the nearest ancestor with an id', () => {
+    const cell = createElement('td');
+    const table = createElement('table', { id: 'prices' }, [createElement('tbody', {}, [createElement('tr', {}, [cell])])]);
+    createElement('html', {}, [createElement('body', {}, [table])]);
+    expect(getXPath(asElement(cell))).toBe('//*[@id="prices"]/tbody/tr/td');
+    expect(getXPath(asElement(table))).toBe('//*[@id="prices"]');
+  });
+
+  it('should quote ids containing double quotes', () => {
+    const element = createElement('div', { id: 'a"b' });
+    expect(getXPath(asElement(element))).toBe('//*[@id=\'a"b\']');
+  });
+
+  it('should match non-HTML elements by local name', () => {
+    const path = createElement('path', { namespaceURI: SVG });
+    createElement('html', {}, [createElement('body', {}, [createElement('svg', { namespaceURI: SVG }, [path])])]);
+    expect(getXPath(asElement(path))).toBe('/html/body/*[local-name()="svg"]/*[local-name()="path"]');
+  });
+
+  it('should make paths inside shadow roots relative to the root', () => {
+    const host = createElement('shop-cart');
+    createElement('html', {}, [createElement('body', {}, [host])]);
+    const total = createElement('span');
+    createElement('div', {}, [createElement('span'), total]).root = { nodeType: 11, host };
+    expect(getXPath(asElement(total))).toBe('/html/body/shop-cart >>> ./div/span[2]');
+  });
+
+  it('should prefix paths inside frames with the frame element path', () => {
+    const frame = createElement('iframe', { id: 'report' });
+    createElement('html', {}, [createElement('body', {}, [frame])]);
+    const heading = createElement('h1');
+    createElement('html', {}, [createElement('body', {}, [heading])]).root = { nodeType: 9, defaultView: { frameElement: frame } };
+    expect(getXPath(asElement(heading))).toBe('//*[@id="report"] >>> /html/body/h1');
+  });
+});
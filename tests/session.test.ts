@@ -0,0 +1,55 @@
+import { describe, expect, it } from '@jest/globals';
+import { detectSessionExpiry, hasSessionCheck, matchesUrlPattern } from '../src/ts/session';
+
+/**
+ * Tests for session expiry detection
+ */
+
+describe('matchesUrlPattern()', () => {
+  it('should match wildcards against any characters', () => {
+    expect(matchesUrlPattern('https://example.com/reports/2024?page=2', 'https://example.com/reports/*')).toBe(true);
+    expect(matchesUrlPattern('https://eu.example.com/app', 'https://*.example.com/*')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/login?next=/reports', 'https://example.com/reports/*')).toBe(false);
+  });
+
+  it('should require the whole URL to match', () => {
+    expect(matchesUrlPattern('https://example.com/page', 'https://example.com/page')).toBe(true);
+    expect(matchesUrlPattern('https://example.com/page?x=1', 'https://example.com/page')).toBe(false);
+    expect(matchesUrlPattern('https://evil.com/?https://example.com/', 'https://example.com/*')).toBe(false);
+  });
+
+  it('should treat regex characters literally', () => {
+    expect(matchesUrlPattern('https://example.com/a+b(1)', 'https://example.com/a+b(1)')).toBe(true);
+    expect(matchesUrlPattern('https://exampleXcom/', 'https://example.com/*')).toBe(false);
+  });
+});
+
+describe('hasSessionCheck()', () => {
+  it('should require at least one condition', () => {
+    expect(hasSessionCheck(undefined)).toBe(false);
+    expect(hasSessionCheck({})).toBe(false);
+    expect(hasSessionCheck({ urlPattern: ' ', loginSelector: '' })).toBe(false);
+    expect(hasSessionCheck({ loginSelector: 'form#login' })).toBe(true);
+  });
+});
+
+describe('detectSessionExpiry()', () => {
+  const check = { urlPattern: 'https://example.com/app/*', loginSelector: 'form#login' };
+
+  it('should accept the expected page', () => {
+    expect(detectSessionExpiry(check, { url: 'https://example.com/app/home', loginIndicatorFound: false })).toBeNull();
+  });
+
+  it('should report redirects away from the expected URL', () => {
+    expect(detectSessionExpiry(check, { url: 'https://sso.example.com/login', loginIndicatorFound: true })).toBe('urlMismatch');
+  });
+
+  it('should report the login indicator', () => {
+    expect(detectSessionExpiry(check, { url: 'https://example.com/app/home', loginIndicatorFound: true })).toBe('loginIndicator');
+  });
+
+  it('should skip conditions that are not configured or not observed', () => {
+    expect(detectSessionExpiry({ loginSelector: 'form#login' }, { url: 'https://other.com/' })).toBeNull();
+    expect(detectSessionExpiry({ urlPattern: 'https://example.com/app/*' }, { loginIndicatorFound: true })).toBeNull();
+  });
+});
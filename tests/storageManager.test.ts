@@ -6,12 +6,14 @@ import type { LogEntry, Project } from '../src/ts/types';
  */
 const mockGet = jest.fn<(keys: string[]) => Promise<Record<string, any>>>();
 const mockSet = jest.fn<(items: Record<string, any>) => Promise<void>>();
+const mockRemove = jest.fn<(keys: string | string[]) => Promise<void>>();
 
 globalThis.chrome = {
   storage: {
     local: {
       get: mockGet as any,
       set: mockSet as any,
+      remove: mockRemove as any,
     },
   },
 } as any;
@@ -153,6 +155,27 @@ describe('StorageManager', () => {
       expect(mockSet).toHaveBeenCalledWith({ projects: [{ ...project, ...updates }] });
     });
 
+    it('should compute updates from the current project', async () => {
+      const project: Project = {
+        id: '1',
+        name: 'Test',
+        url: 'https://example.com',
+        selector: '.test',
+        interval: 60000,
+        active: true,
+        browserNotification: true,
+        lastContent: 'old'
+      };
+
+      mockGet.mockResolvedValue({ projects: [project] });
+      mockSet.mockResolvedValue(undefined);
+
+      const result = await storageManager.updateProject('1', current => ({ lastContent: `${current.lastContent} + new` }));
+
+      expect(result).toEqual(project);
+      expect(mockSet).toHaveBeenCalledWith({ projects: [{ ...project, lastContent: 'old + new' }] });
+    });
+
     it('should return null when project not found', async () => {
       mockGet.mockResolvedValue({ projects: [] });
 
@@ -254,6 +277,7 @@ describe('StorageManager', () => {
 
       expect(result).toBe(true);
       expect(mockSet).toHaveBeenCalledWith({ projects: [projects[0]] });
+      expect(mockRemove).toHaveBeenCalledWith('numericHistory_2');
     });
 
     it('should return false when project not found', async () => {
@@ -377,6 +401,34 @@ describe('StorageManager', () => {
     });
   });
 
+  describe('Numeric history', () => {
+    it('should store each project under its own key', async () => {
+      mockGet.mockResolvedValue({ numericHistory_1: [[1000, 10]] });
+
+      const result = await storageManager.getNumericHistory('1');
+
+      expect(mockGet).toHaveBeenCalledWith(['numericHistory_1']);
+      expect(result).toEqual([[1000, 10]]);
+    });
+
+    it('should return empty histories for projects without values', async () => {
+      mockGet.mockResolvedValue({ numericHistory_1: [[1000, 10]] });
+
+      const result = await storageManager.getNumericHistories(['1', '2']);
+
+      expect(result).toEqual({ '1': [[1000, 10]], '2': [] });
+    });
+
+    it('should append values in chronological order', async () => {
+      mockGet.mockResolvedValue({ numericHistory_1: [[1000, 10]] });
+      mockSet.mockResolvedValue(undefined);
+
+      await storageManager.addNumericPoint('1', [2000, 12.5]);
+
+      expect(mockSet).toHaveBeenCalledWith({ numericHistory_1: [[1000, 10], [2000, 12.5]] });
+    });
+  });
+
   describe('Settings management', () => {
     it('should get settings', async () => {
       const settings = { defaultInterval: 60, theme: 'dark' };
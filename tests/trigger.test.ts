@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { evaluateTriggerRule, isConditionMet, isPresenceRule } from '../src/ts/trigger';
+import { TriggerRule } from '../src/ts/types';
+
+const present = (content: string) => ({ present: true, content });
+const absent = { present: false, content: '' };
+
+describe('isConditionMet()', () => {
+  it('should check keywords', () => {
+    expect(isConditionMet({ type: 'contains', value: 'Sold out' }, present('Status: Sold out'))).toBe(true);
+    expect(isConditionMet({ type: 'contains', value: 'Sold out' }, present('Status: sold out'))).toBe(false);
+    expect(isConditionMet({ type: 'contains', value: 'Sold out', ignoreCase: true }, present('Status: SOLD OUT'))).toBe(true);
+    expect(isConditionMet({ type: 'notContains', value: 'Sold out' }, present('Add to cart'))).toBe(true);
+  });
+
+  it('should check regexes', () => {
+    expect(isConditionMet({ type: 'matches', value: '\\d+ tickets' }, present('12 tickets left'))).toBe(true);
+    expect(isConditionMet({ type: 'matches', value: 'TICKETS', ignoreCase: true }, present('tickets'))).toBe(true);
+    expect(isConditionMet({ type: 'notMatches', value: '^Closed' }, present('Open now'))).toBe(true);
+  });
+
+  it('should check element presence', () => {
+    expect(isConditionMet({ type: 'appears' }, present(''))).toBe(true);
+    expect(isConditionMet({ type: 'appears' }, absent)).toBe(false);
+    expect(isConditionMet({ type: 'disappears' }, absent)).toBe(true);
+  });
+
+  it('should treat an absent element as containing nothing', () => {
+    expect(isConditionMet({ type: 'contains', value: 'x' }, absent)).toBe(false);
+    expect(isConditionMet({ type: 'notContains', value: 'x' }, absent)).toBe(true);
+  });
+});
+
+describe('evaluateTriggerRule()', () => {
+  const soldOutGone: TriggerRule = { type: 'notContains', value: 'Sold out' };
+
+  it('should fire when the condition starts to hold', () => {
+    expect(evaluateTriggerRule(soldOutGone, present('Sold out'), present('Add to cart'))).toEqual({
+      type: 'notContains',
+      conditionMet: true,
+      previouslyMet: false,
+      fired: true
+    });
+  });
+
+  it('should not fire while the condition keeps holding', () => {
+    const outcome = evaluateTriggerRule(soldOutGone, present('In stock'), present('Add to cart'));
+    expect(outcome.conditionMet).toBe(true);
+    expect(outcome.fired).toBe(false);
+  });
+
+  it('should not fire when the condition does not hold', () => {
+    const outcome = evaluateTriggerRule(soldOutGone, present('Add to cart'), present('Sold out'));
+    expect(outcome).toEqual({ type: 'notContains', conditionMet: false, previouslyMet: true, fired: false });
+  });
+
+  it('should not fire without a previous state', () => {
+    const outcome = evaluateTriggerRule({ type: 'contains', value: 'Tickets available' }, undefined, present('Tickets available'));
+    expect(outcome.previouslyMet).toBeUndefined();
+    expect(outcome.fired).toBe(false);
+  });
+
+  it('should fire content rules when the element disappears', () => {
+    expect(evaluateTriggerRule(soldOutGone, present('Sold out'), absent).fired).toBe(true);
+    expect(evaluateTriggerRule({ type: 'contains', value: 'Sale' }, absent, present('Sale ends today')).fired).toBe(true);
+  });
+
+  it('should fire on element appearance and disappearance', () => {
+    expect(evaluateTriggerRule({ type: 'appears' }, absent, present('Banner')).fired).toBe(true);
+    expect(evaluateTriggerRule({ type: 'disappears' }, present('Banner'), absent).fired).toBe(true);
+    expect(evaluateTriggerRule({ type: 'disappears' }, absent, absent).fired).toBe(false);
+  });
+});
+
+describe('isPresenceRule()', () => {
+  it('should identify presence rules', () => {
+    expect(isPresenceRule({ type: 'appears' })).toBe(true);
+    expect(isPresenceRule({ type: 'disappears' })).toBe(true);
+    expect(isPresenceRule({ type: 'contains', value: 'x' })).toBe(false);
+    expect(isPresenceRule(undefined)).toBe(false);
+  });
+});
@@ -1,13 +1,35 @@
 import { describe, expect, it } from '@jest/globals';
-import { LIMITS } from '../src/ts/constants';
+import { ADAPTIVE_INTERVAL, INTERACTION, LIMITS } from '../src/ts/constants';
 import {
+  validateAdaptiveInterval,
+  validateCheckPriority,
+  validateComparisonMode,
+  validateConfirmChecks,
+  validateContentSource,
+  validateInteractionSteps,
   validateInterval,
+  validateJitter,
+  validateJsonPath,
   validateLoadDelay,
+  validateMatchMode,
+  validateNormalizationConfig,
+  validateNumericConfig,
+  validateProjectFields,
   validateProjectName,
+  validateProjectType,
+  validateReadinessConfig,
+  validateRegexExtraction,
+  validateRegexPattern,
+  validateSchedule,
   validateSelector,
+  validateSessionCheck,
+  validateTableKeyColumn,
+  validateTriggerRule,
   validateUrl,
+  validateVisualConfig,
   validateWebhookBody,
   validateWebhookHeaders,
+  ValidationErrorCode,
 } from '../src/ts/validation';
 
 describe('Validation Module', () => {
@@ -106,6 +128,520 @@ describe('Validation Module', () => {
       const maxSelector = 'a'.repeat(LIMITS.MAX_SELECTOR_LENGTH);
       expect(validateSelector(maxSelector)).toEqual({ valid: true });
     });
+
+    it('should accept XPath expressions', () => {
+      expect(validateSelector('//div[@id="main"]', 'xpath')).toEqual({ valid: true });
+      expect(validateSelector('//td[text()="Price"]/following-sibling::td', 'xpath')).toEqual({ valid: true });
+    });
+
+    it('should name the selector kind in XPath errors', () => {
+      const result = validateSelector(' ', 'xpath');
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.SELECTOR_EMPTY);
+      expect(result.error).toBe('XPath expression cannot be empty');
+    });
+
+    it('should reject empty segments around the pierce combinator', () => {
+      const result = validateSelector('my-app >>> ');
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.SELECTOR_INVALID_SYNTAX);
+      expect(validateSelector('iframe#report >>> shop-cart >>> .total')).toEqual({ valid: true });
+    });
+
+    it('should reject unknown selector types', () => {
+      const result = validateSelector('div', 'jquery' as never);
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.SELECTOR_TYPE_INVALID);
+    });
+  });
+
+  describe('validateContentSource()', () => {
+    it('should accept sources that need no name', () => {
+      expect(validateContentSource({ type: 'text' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'innerHTML' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'outerHTML' })).toEqual({ valid: true });
+    });
+
+    it('should accept valid attribute and property names', () => {
+      expect(validateContentSource({ type: 'attribute', name: 'href' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'attribute', name: 'data-product-id' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'attribute', name: 'xlink:href' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'property', name: 'value' })).toEqual({ valid: true });
+      expect(validateContentSource({ type: 'property', name: 'checked' })).toEqual({ valid: true });
+    });
+
+    it('should reject unknown types', () => {
+      const result = validateContentSource({ type: 'style' as never });
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_INVALID_TYPE);
+    });
+
+    it('should require a name for attribute and property sources', () => {
+      expect(validateContentSource({ type: 'attribute' }).errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_NAME_REQUIRED);
+      expect(validateContentSource({ type: 'property', name: '   ' }).errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_NAME_REQUIRED);
+    });
+
+    it('should reject invalid names', () => {
+      expect(validateContentSource({ type: 'attribute', name: 'a b' }).errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_NAME_INVALID);
+      expect(validateContentSource({ type: 'attribute', name: '"onclick' }).errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_NAME_INVALID);
+      expect(validateContentSource({ type: 'property', name: 'data-id' }).errorCode).toBe(ValidationErrorCode.CONTENT_SOURCE_NAME_INVALID);
+    });
+
+    it('should reject names that are too long', () => {
+      const result = validateContentSource({ type: 'attribute', name: 'a'.repeat(LIMITS.MAX_CONTENT_SOURCE_NAME_LENGTH + 1) });
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('cannot exceed');
+    });
+  });
+
+  describe('validateReadinessConfig()', () => {
+    it('should accept valid configurations', () => {
+      expect(validateReadinessConfig({ mode: 'delay' })).toEqual({ valid: true });
+      expect(validateReadinessConfig({ mode: 'element', timeout: 60000 })).toEqual({ valid: true });
+      expect(validateReadinessConfig({ mode: 'settle', settleTime: 1500, timeout: 5000 })).toEqual({ valid: true });
+    });
+
+    it('should reject unknown modes', () => {
+      expect(validateReadinessConfig({ mode: 'never' as never }).errorCode).toBe(ValidationErrorCode.READINESS_MODE_INVALID);
+    });
+
+    it('should reject timeouts outside the allowed range', () => {
+      for (const timeout of [500, 60001, 1500.5, NaN]) {
+        expect(validateReadinessConfig({ mode: 'content', timeout }).errorCode).toBe(ValidationErrorCode.READINESS_TIMEOUT_INVALID);
+      }
+    });
+
+    it('should reject settle times outside the range or not shorter than the timeout', () => {
+      for (const settleTime of [50, 10001, NaN]) {
+        expect(validateReadinessConfig({ mode: 'settle', settleTime }).errorCode).toBe(ValidationErrorCode.READINESS_SETTLE_INVALID);
+      }
+      expect(validateReadinessConfig({ mode: 'settle', settleTime: 2000, timeout: 2000 }).errorCode)
+        .toBe(ValidationErrorCode.READINESS_SETTLE_INVALID);
+    });
+  });
+
+  describe('validateInteractionSteps()', () => {
+    it('should accept valid steps', () => {
+      expect(validateInteractionSteps([])).toEqual({ valid: true });
+      expect(validateInteractionSteps([
+        { type: 'click', selector: '#accept' },
+        { type: 'scroll' },
+        { type: 'type', selector: 'input[name="q"]', value: '' },
+        { type: 'select', selector: '#sort', value: 'price' },
+        { type: 'wait', duration: 1500 }
+      ])).toEqual({ valid: true });
+    });
+
+    it('should reject too many steps', () => {
+      const steps = Array.from({ length: INTERACTION.MAX_STEPS + 1 }, () => ({ type: 'scroll' as const }));
+      expect(validateInteractionSteps(steps).errorCode).toBe(ValidationErrorCode.STEPS_TOO_MANY);
+    });
+
+    it('should name the failing step', () => {
+      const result = validateInteractionSteps([{ type: 'scroll' }, { type: 'click', selector: '' }]);
+      expect(result.errorCode).toBe(ValidationErrorCode.STEP_SELECTOR_INVALID);
+      expect(result.error).toMatch(/^Step 2: /);
+    });
+
+    it('should reject invalid types, values and durations', () => {
+      expect(validateInteractionSteps([{ type: 'hover' as never }]).errorCode).toBe(ValidationErrorCode.STEP_TYPE_INVALID);
+      expect(validateInteractionSteps([{ type: 'select', selector: '#sort', value: ' ' }]).errorCode).toBe(ValidationErrorCode.STEP_VALUE_INVALID);
+      expect(validateInteractionSteps([{ type: 'type', selector: '#q', value: 'x'.repeat(INTERACTION.MAX_VALUE_LENGTH + 1) }]).errorCode)
+        .toBe(ValidationErrorCode.STEP_VALUE_INVALID);
+      for (const duration of [0, INTERACTION.MAX_WAIT_MS + 1, 1.5, NaN]) {
+        expect(validateInteractionSteps([{ type: 'wait', duration }]).errorCode).toBe(ValidationErrorCode.STEP_DURATION_INVALID);
+      }
+    });
+  });
+
+  describe('validateProjectFields()', () => {
+    it('should accept valid fields', () => {
+      expect(validateProjectFields([])).toEqual({ valid: true });
+      expect(validateProjectFields([
+        { name: 'price', selector: '.price', extractRegex: { pattern: '[\\d.]+' } },
+        { name: '_ship_date2', selector: '#ship' }
+      ])).toEqual({ valid: true });
+      expect(validateProjectFields([{ name: 'price', selector: '$.data.price' }], true)).toEqual({ valid: true });
+      expect(validateProjectFields([{ name: 'price', selector: '//td[@class="price"]' }], false, 'xpath')).toEqual({ valid: true });
+      expect(validateProjectFields([{ name: 'sku', selector: '.product', contentSource: { type: 'attribute', name: 'data-sku' } }]))
+        .toEqual({ valid: true });
+    });
+
+    it('should reject too many fields', () => {
+      const fields = Array.from({ length: LIMITS.MAX_FIELDS + 1 }, (_, index) => ({ name: `f${index}`, selector: '.x' }));
+      expect(validateProjectFields(fields).errorCode).toBe(ValidationErrorCode.FIELDS_TOO_MANY);
+    });
+
+    it('should reject invalid and duplicate names', () => {
+      for (const name of ['', 'ship date', '2nd', 'price.old', 'a'.repeat(LIMITS.MAX_FIELD_NAME_LENGTH + 1)]) {
+        expect(validateProjectFields([{ name, selector: '.x' }]).errorCode).toBe(ValidationErrorCode.FIELD_NAME_INVALID);
+      }
+      expect(validateProjectFields([{ name: 'price', selector: '.a' }, { name: 'price', selector: '.b' }]).errorCode)
+        .toBe(ValidationErrorCode.FIELD_NAME_DUPLICATE);
+    });
+
+    it('should reject invalid selectors and extractions', () => {
+      expect(validateProjectFields([{ name: 'price', selector: '' }]).errorCode).toBe(ValidationErrorCode.FIELD_SELECTOR_INVALID);
+      expect(validateProjectFields([{ name: 'price', selector: '$[?(@.x)]' }], true).errorCode).toBe(ValidationErrorCode.FIELD_SELECTOR_INVALID);
+      expect(validateProjectFields([{ name: 'price', selector: '.price', extractRegex: { pattern: '(' } }]).errorCode)
+        .toBe(ValidationErrorCode.FIELD_EXTRACTION_INVALID);
+      expect(validateProjectFields([{ name: 'price', selector: ' ' }], false, 'xpath').errorCode).toBe(ValidationErrorCode.FIELD_SELECTOR_INVALID);
+    });
+
+    it('should reject invalid content sources', () => {
+      expect(validateProjectFields([{ name: 'sku', selector: '.product', contentSource: { type: 'attribute' } }]).errorCode)
+        .toBe(ValidationErrorCode.FIELD_CONTENT_SOURCE_INVALID);
+      expect(validateProjectFields([{ name: 'sku', selector: '.product', contentSource: { type: 'attribute', name: 'data sku' } }]).errorCode)
+        .toBe(ValidationErrorCode.FIELD_CONTENT_SOURCE_INVALID);
+    });
+  });
+
+  describe('validateSessionCheck()', () => {
+    it('should accept empty and valid checks', () => {
+      expect(validateSessionCheck({})).toEqual({ valid: true });
+      expect(validateSessionCheck({ urlPattern: 'https://example.com/app/*', loginSelector: 'form#login' })).toEqual({ valid: true });
+      expect(validateSessionCheck({ urlPattern: '*://example.com/*' })).toEqual({ valid: true });
+    });
+
+    it('should reject URL patterns without a scheme or too long', () => {
+      expect(validateSessionCheck({ urlPattern: 'example.com/app' }).errorCode).toBe(ValidationErrorCode.SESSION_URL_PATTERN_INVALID);
+      expect(validateSessionCheck({ urlPattern: 'https://example.com/' + 'a'.repeat(LIMITS.MAX_URL_LENGTH) }).errorCode)
+        .toBe(ValidationErrorCode.SESSION_URL_PATTERN_INVALID);
+    });
+
+    it('should reject invalid login indicator selectors', () => {
+      expect(validateSessionCheck({ loginSelector: 'a'.repeat(LIMITS.MAX_SELECTOR_LENGTH + 1) }).errorCode).toBe(ValidationErrorCode.SESSION_LOGIN_SELECTOR_INVALID);
+    });
+  });
+
+  describe('validateMatchMode()', () => {
+    it('should accept known match modes', () => {
+      expect(validateMatchMode('first')).toEqual({ valid: true });
+      expect(validateMatchMode('all')).toEqual({ valid: true });
+      expect(validateMatchMode('count')).toEqual({ valid: true });
+      expect(validateMatchMode('table')).toEqual({ valid: true });
+    });
+
+    it('should reject unknown match modes', () => {
+      const result = validateMatchMode('some' as never);
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.MATCH_MODE_INVALID);
+    });
+  });
+
+  describe('validateComparisonMode()', () => {
+    it('should accept known comparison modes', () => {
+      expect(validateComparisonMode('previous')).toEqual({ valid: true });
+      expect(validateComparisonMode('baseline')).toEqual({ valid: true });
+    });
+
+    it('should reject unknown comparison modes', () => {
+      expect(validateComparisonMode('first' as never).errorCode).toBe(ValidationErrorCode.COMPARISON_MODE_INVALID);
+    });
+  });
+
+  describe('validateTableKeyColumn()', () => {
+    it('should accept column indexes within the limit', () => {
+      expect(validateTableKeyColumn(0)).toEqual({ valid: true });
+      expect(validateTableKeyColumn(LIMITS.MAX_TABLE_COLUMNS - 1)).toEqual({ valid: true });
+    });
+
+    it('should reject negative, fractional and too large indexes', () => {
+      for (const column of [-1, 1.5, NaN, LIMITS.MAX_TABLE_COLUMNS]) {
+        const result = validateTableKeyColumn(column);
+        expect(result.valid).toBe(false);
+        expect(result.errorCode).toBe(ValidationErrorCode.TABLE_KEY_COLUMN_INVALID);
+      }
+    });
+  });
+
+  describe('validateConfirmChecks()', () => {
+    it('should accept whole numbers of checks within the limit', () => {
+      expect(validateConfirmChecks(1)).toEqual({ valid: true });
+      expect(validateConfirmChecks(LIMITS.MAX_CONFIRM_CHECKS)).toEqual({ valid: true });
+    });
+
+    it('should reject zero, fractional and too large counts', () => {
+      for (const count of [0, 2.5, NaN, LIMITS.MAX_CONFIRM_CHECKS + 1]) {
+        const result = validateConfirmChecks(count);
+        expect(result.valid).toBe(false);
+        expect(result.errorCode).toBe(ValidationErrorCode.CONFIRM_CHECKS_INVALID);
+      }
+    });
+  });
+
+  describe('validateAdaptiveInterval()', () => {
+    it('should accept settings between the check interval and the limits', () => {
+      expect(validateAdaptiveInterval({ enabled: true, maxInterval: 3600000, backoffFactor: 1.5 }, 300000)).toEqual({ valid: true });
+      expect(validateAdaptiveInterval({ enabled: true, maxInterval: 300000, backoffFactor: ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR }, 300000)).toEqual({ valid: true });
+    });
+
+    it('should not check disabled settings', () => {
+      expect(validateAdaptiveInterval({ enabled: false, maxInterval: 0, backoffFactor: 0 }, 300000)).toEqual({ valid: true });
+    });
+
+    it('should reject a maximum below the check interval or above 24 hours', () => {
+      for (const maxInterval of [60000, LIMITS.MAX_INTERVAL_MS + 1, NaN]) {
+        expect(validateAdaptiveInterval({ enabled: true, maxInterval, backoffFactor: 2 }, 300000).errorCode)
+          .toBe(ValidationErrorCode.ADAPTIVE_MAX_INTERVAL_INVALID);
+      }
+    });
+
+    it('should accept a minimum between one minute and the maximum, also below the check interval', () => {
+      for (const minInterval of [LIMITS.MIN_INTERVAL_MS, 300000, 3600000]) {
+        expect(validateAdaptiveInterval({ enabled: true, minInterval, maxInterval: 3600000, backoffFactor: 2 }, 600000)).toEqual({ valid: true });
+      }
+    });
+
+    it('should reject a minimum below one minute or above the maximum', () => {
+      for (const minInterval of [LIMITS.MIN_INTERVAL_MS - 1, 3600001, NaN]) {
+        expect(validateAdaptiveInterval({ enabled: true, minInterval, maxInterval: 3600000, backoffFactor: 2 }, 600000).errorCode)
+          .toBe(ValidationErrorCode.ADAPTIVE_MIN_INTERVAL_INVALID);
+      }
+    });
+
+    it('should reject backoff factors of 1 or less and above the limit', () => {
+      for (const backoffFactor of [1, 0.5, ADAPTIVE_INTERVAL.MAX_BACKOFF_FACTOR + 1, NaN]) {
+        expect(validateAdaptiveInterval({ enabled: true, maxInterval: 3600000, backoffFactor }, 300000).errorCode)
+          .toBe(ValidationErrorCode.ADAPTIVE_BACKOFF_INVALID);
+      }
+    });
+  });
+
+  describe('validateJitter()', () => {
+    it('should accept percentages up to the limit', () => {
+      expect(validateJitter(0)).toEqual({ valid: true });
+      expect(validateJitter(12.5)).toEqual({ valid: true });
+      expect(validateJitter(LIMITS.MAX_JITTER_PERCENT)).toEqual({ valid: true });
+    });
+
+    it('should reject negative, too large and invalid percentages', () => {
+      for (const percent of [-1, LIMITS.MAX_JITTER_PERCENT + 1, NaN, Infinity]) {
+        expect(validateJitter(percent).errorCode).toBe(ValidationErrorCode.JITTER_INVALID);
+      }
+    });
+  });
+
+  describe('validateCheckPriority()', () => {
+    it('should accept known priorities', () => {
+      expect(validateCheckPriority('high')).toEqual({ valid: true });
+      expect(validateCheckPriority('normal')).toEqual({ valid: true });
+      expect(validateCheckPriority('low')).toEqual({ valid: true });
+    });
+
+    it('should reject unknown priorities', () => {
+      const result = validateCheckPriority('urgent' as never);
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.PRIORITY_INVALID);
+    });
+  });
+
+  describe('validateSchedule()', () => {
+    it('should accept cron expressions and active hours', () => {
+      expect(validateSchedule({ mode: 'cron', cron: '0 8 * * Mon-Fri' })).toEqual({ valid: true });
+      expect(validateSchedule({ mode: 'interval', windows: [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '18:00' }] })).toEqual({ valid: true });
+      expect(validateSchedule({ mode: 'interval', windows: [{ days: [5], start: '22:00', end: '06:00' }] })).toEqual({ valid: true });
+    });
+
+    it('should reject unknown modes', () => {
+      expect(validateSchedule({ mode: 'weekly' as 'cron' }).errorCode).toBe(ValidationErrorCode.SCHEDULE_MODE_INVALID);
+    });
+
+    it('should reject malformed and too long cron expressions', () => {
+      expect(validateSchedule({ mode: 'cron', cron: '0 8 * *' }).errorCode).toBe(ValidationErrorCode.CRON_INVALID);
+      expect(validateSchedule({ mode: 'cron' }).errorCode).toBe(ValidationErrorCode.CRON_INVALID);
+      expect(validateSchedule({ mode: 'cron', cron: `0 8 * * ${'1,'.repeat(LIMITS.MAX_CRON_LENGTH)}1` }).errorCode).toBe(ValidationErrorCode.CRON_INVALID);
+    });
+
+    it('should reject cron expressions that never run', () => {
+      expect(validateSchedule({ mode: 'cron', cron: '0 8 30 2 *' }).errorCode).toBe(ValidationErrorCode.SCHEDULE_NEVER_RUNS);
+    });
+
+    it('should reject invalid and too many active windows', () => {
+      for (const window of [
+        { days: [], start: '09:00', end: '18:00' },
+        { days: [7], start: '09:00', end: '18:00' },
+        { days: [1], start: '9am', end: '18:00' },
+        { days: [1], start: '09:00', end: '09:00' }
+      ]) {
+        expect(validateSchedule({ mode: 'interval', windows: [window] }).errorCode).toBe(ValidationErrorCode.ACTIVE_WINDOW_INVALID);
+      }
+      const windows = Array.from({ length: LIMITS.MAX_ACTIVE_WINDOWS + 1 }, () => ({ days: [1], start: '09:00', end: '10:00' }));
+      expect(validateSchedule({ mode: 'interval', windows }).errorCode).toBe(ValidationErrorCode.ACTIVE_WINDOWS_TOO_MANY);
+    });
+  });
+
+  describe('validateNumericConfig()', () => {
+    it('should accept valid configurations', () => {
+      expect(validateNumericConfig({ enabled: false })).toEqual({ valid: true });
+      expect(validateNumericConfig({ enabled: true })).toEqual({ valid: true });
+      expect(validateNumericConfig({ enabled: true, locale: 'de-DE', below: 100, above: 200, percentChange: 5 })).toEqual({ valid: true });
+    });
+
+    it('should skip validation when disabled', () => {
+      expect(validateNumericConfig({ enabled: false, below: NaN })).toEqual({ valid: true });
+    });
+
+    it('should reject invalid locales', () => {
+      const result = validateNumericConfig({ enabled: true, locale: 'not a locale!' });
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.NUMERIC_LOCALE_INVALID);
+    });
+
+    it('should reject invalid thresholds', () => {
+      expect(validateNumericConfig({ enabled: true, below: NaN }).errorCode).toBe(ValidationErrorCode.NUMERIC_THRESHOLD_INVALID);
+      expect(validateNumericConfig({ enabled: true, below: 300, above: 200 }).errorCode).toBe(ValidationErrorCode.NUMERIC_THRESHOLD_INVALID);
+    });
+
+    it('should reject out-of-range percent changes', () => {
+      expect(validateNumericConfig({ enabled: true, percentChange: 0 }).errorCode).toBe(ValidationErrorCode.NUMERIC_PERCENT_INVALID);
+      expect(validateNumericConfig({ enabled: true, percentChange: LIMITS.MAX_NUMERIC_PERCENT_CHANGE + 1 }).errorCode)
+        .toBe(ValidationErrorCode.NUMERIC_PERCENT_INVALID);
+    });
+  });
+
+  describe('validateRegexPattern()', () => {
+    it('should accept valid patterns', () => {
+      expect(validateRegexPattern('v(\\d+\\.\\d+)')).toEqual({ valid: true });
+      expect(validateRegexPattern('price', 'i')).toEqual({ valid: true });
+      expect(validateRegexPattern('^a.b$', 'msu')).toEqual({ valid: true });
+    });
+
+    it('should reject empty and too long patterns', () => {
+      expect(validateRegexPattern('').errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_EMPTY);
+      expect(validateRegexPattern('a'.repeat(LIMITS.MAX_REGEX_PATTERN_LENGTH + 1)).errorCode)
+        .toBe(ValidationErrorCode.REGEX_PATTERN_TOO_LONG);
+    });
+
+    it('should reject invalid syntax', () => {
+      const result = validateRegexPattern('(unclosed');
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_INVALID);
+    });
+
+    it('should reject catastrophic patterns', () => {
+      expect(validateRegexPattern('(a+)+$').errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_UNSAFE);
+      expect(validateRegexPattern('(\\w*)*@').errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_UNSAFE);
+    });
+
+    it('should reject unsupported or duplicate flags', () => {
+      expect(validateRegexPattern('a', 'g').errorCode).toBe(ValidationErrorCode.REGEX_FLAGS_INVALID);
+      expect(validateRegexPattern('a', 'y').errorCode).toBe(ValidationErrorCode.REGEX_FLAGS_INVALID);
+      expect(validateRegexPattern('a', 'ii').errorCode).toBe(ValidationErrorCode.REGEX_FLAGS_INVALID);
+    });
+  });
+
+  describe('validateRegexExtraction()', () => {
+    it('should accept existing capture groups', () => {
+      expect(validateRegexExtraction({ pattern: '(\\d+)-(\\d+)', group: 2 })).toEqual({ valid: true });
+      expect(validateRegexExtraction({ pattern: '\\d+', group: 0 })).toEqual({ valid: true });
+      expect(validateRegexExtraction({ pattern: '\\d+' })).toEqual({ valid: true });
+    });
+
+    it('should reject missing or malformed capture groups', () => {
+      expect(validateRegexExtraction({ pattern: '\\d+', group: 1 }).errorCode).toBe(ValidationErrorCode.REGEX_GROUP_INVALID);
+      expect(validateRegexExtraction({ pattern: '(a)', group: -1 }).errorCode).toBe(ValidationErrorCode.REGEX_GROUP_INVALID);
+      expect(validateRegexExtraction({ pattern: '(a)', group: 0.5 }).errorCode).toBe(ValidationErrorCode.REGEX_GROUP_INVALID);
+    });
+
+    it('should propagate pattern errors', () => {
+      expect(validateRegexExtraction({ pattern: '(a+)+' }).errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_UNSAFE);
+    });
+  });
+
+  describe('validateNormalizationConfig()', () => {
+    it('should accept valid ignore rules', () => {
+      expect(validateNormalizationConfig({})).toEqual({ valid: true });
+      expect(validateNormalizationConfig({ collapseWhitespace: true, caseFold: true, stripDigits: true })).toEqual({ valid: true });
+      expect(validateNormalizationConfig({ ignorePatterns: ['\\d+ min ago'], excludeSelector: '.ad' })).toEqual({ valid: true });
+    });
+
+    it('should reject too many ignore patterns', () => {
+      const ignorePatterns = Array.from({ length: LIMITS.MAX_IGNORE_PATTERNS + 1 }, (_, i) => `p${i}`);
+      expect(validateNormalizationConfig({ ignorePatterns }).errorCode).toBe(ValidationErrorCode.IGNORE_PATTERNS_TOO_MANY);
+    });
+
+    it('should reject invalid or unsafe ignore patterns', () => {
+      expect(validateNormalizationConfig({ ignorePatterns: ['ok', '(broken'] }).errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_INVALID);
+      expect(validateNormalizationConfig({ ignorePatterns: ['(a*)*'] }).errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_UNSAFE);
+    });
+
+    it('should reject an overly long exclusion selector', () => {
+      const result = validateNormalizationConfig({ excludeSelector: 'a'.repeat(LIMITS.MAX_SELECTOR_LENGTH + 1) });
+      expect(result.valid).toBe(false);
+      expect(result.errorCode).toBe(ValidationErrorCode.EXCLUDE_SELECTOR_INVALID);
+    });
+  });
+
+  describe('validateTriggerRule()', () => {
+    it('should accept valid rules', () => {
+      expect(validateTriggerRule({ type: 'contains', value: 'Tickets available' })).toEqual({ valid: true });
+      expect(validateTriggerRule({ type: 'notContains', value: 'Sold out', ignoreCase: true })).toEqual({ valid: true });
+      expect(validateTriggerRule({ type: 'matches', value: '\\d+ left' })).toEqual({ valid: true });
+      expect(validateTriggerRule({ type: 'appears' })).toEqual({ valid: true });
+      expect(validateTriggerRule({ type: 'disappears' })).toEqual({ valid: true });
+    });
+
+    it('should reject unknown types', () => {
+      expect(validateTriggerRule({ type: 'equals' as never }).errorCode).toBe(ValidationErrorCode.TRIGGER_TYPE_INVALID);
+    });
+
+    it('should require a value for content conditions', () => {
+      expect(validateTriggerRule({ type: 'contains' }).errorCode).toBe(ValidationErrorCode.TRIGGER_VALUE_REQUIRED);
+      expect(validateTriggerRule({ type: 'notMatches', value: '' }).errorCode).toBe(ValidationErrorCode.TRIGGER_VALUE_REQUIRED);
+    });
+
+    it('should reject overly long values', () => {
+      const value = 'a'.repeat(LIMITS.MAX_TRIGGER_VALUE_LENGTH + 1);
+      expect(validateTriggerRule({ type: 'contains', value }).errorCode).toBe(ValidationErrorCode.TRIGGER_VALUE_TOO_LONG);
+    });
+
+    it('should validate regex conditions', () => {
+      expect(validateTriggerRule({ type: 'matches', value: '(oops' }).errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_INVALID);
+      expect(validateTriggerRule({ type: 'notMatches', value: '(a+)+' }).errorCode).toBe(ValidationErrorCode.REGEX_PATTERN_UNSAFE);
+    });
+  });
+
+  describe('validateJsonPath()', () => {
+    it('should accept JSONPath and dot paths', () => {
+      expect(validateJsonPath('$.data.items[0].price')).toEqual({ valid: true });
+      expect(validateJsonPath('data.items.0.price')).toEqual({ valid: true });
+      expect(validateJsonPath('$..id')).toEqual({ valid: true });
+    });
+
+    it('should reject empty, overly long and malformed paths', () => {
+      expect(validateJsonPath('  ').errorCode).toBe(ValidationErrorCode.SELECTOR_EMPTY);
+      expect(validateJsonPath('a'.repeat(LIMITS.MAX_SELECTOR_LENGTH + 1)).errorCode).toBe(ValidationErrorCode.SELECTOR_TOO_LONG);
+      expect(validateJsonPath('$.items[?(@.x)]').errorCode).toBe(ValidationErrorCode.JSON_PATH_INVALID);
+    });
+  });
+
+  describe('validateProjectType()', () => {
+    it('should accept known types and formats', () => {
+      expect(validateProjectType('page')).toEqual({ valid: true });
+      expect(validateProjectType('http', 'json')).toEqual({ valid: true });
+      expect(validateProjectType('http', 'html')).toEqual({ valid: true });
+    });
+
+    it('should reject unknown types and formats', () => {
+      expect(validateProjectType('tab' as never).errorCode).toBe(ValidationErrorCode.PROJECT_TYPE_INVALID);
+      expect(validateProjectType('http', 'xml' as never).errorCode).toBe(ValidationErrorCode.RESPONSE_FORMAT_INVALID);
+    });
+  });
+
+  describe('validateVisualConfig()', () => {
+    it('should accept disabled configs and valid thresholds', () => {
+      expect(validateVisualConfig({ enabled: false, threshold: -1 })).toEqual({ valid: true });
+      expect(validateVisualConfig({ enabled: true })).toEqual({ valid: true });
+      expect(validateVisualConfig({ enabled: true, threshold: 0.5 })).toEqual({ valid: true });
+      expect(validateVisualConfig({ enabled: true, threshold: 100 })).toEqual({ valid: true });
+    });
+
+    it('should reject thresholds outside (0, 100]', () => {
+      expect(validateVisualConfig({ enabled: true, threshold: 0 }).errorCode).toBe(ValidationErrorCode.VISUAL_THRESHOLD_INVALID);
+      expect(validateVisualConfig({ enabled: true, threshold: 101 }).errorCode).toBe(ValidationErrorCode.VISUAL_THRESHOLD_INVALID);
+      expect(validateVisualConfig({ enabled: true, threshold: NaN }).errorCode).toBe(ValidationErrorCode.VISUAL_THRESHOLD_INVALID);
+    });
   });
 
   describe('validateInterval()', () => {
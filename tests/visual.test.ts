@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { diffPixelRatio, fitThumbnailSize, PixelData, toCaptureRect } from '../src/ts/visual';
+
+/**
+ * Tests for screenshot cropping and pixel comparison
+ * Image decoding needs OffscreenCanvas, so only the pure helpers are covered
+ */
+
+// Image filled with one RGBA color
+const createImage = (width: number, height: number, color: number[] = [255, 255, 255, 255]): PixelData => {
+  const data: number[] = [];
+  for (let i = 0; i < width * height; i++) {
+    data.push(...color);
+  }
+  return { width, height, data };
+};
+
+describe('toCaptureRect()', () => {
+  it('should scale and round the rect to screenshot pixels', () => {
+    expect(toCaptureRect({ x: 10.5, y: 20, width: 100, height: 50 }, 2, 1600, 1200)).toEqual({ x: 21, y: 40, width: 200, height: 100 });
+  });
+
+  it('should clamp the rect to the screenshot', () => {
+    expect(toCaptureRect({ x: -10, y: 550, width: 100, height: 100 }, 1, 800, 600)).toEqual({ x: 0, y: 550, width: 90, height: 50 });
+  });
+
+  it('should return null for elements outside the screenshot or without size', () => {
+    expect(toCaptureRect({ x: 0, y: 700, width: 100, height: 100 }, 1, 800, 600)).toBeNull();
+    expect(toCaptureRect({ x: 10, y: 10, width: 0, height: 20 }, 1, 800, 600)).toBeNull();
+  });
+});
+
+describe('fitThumbnailSize()', () => {
+  it('should scale down keeping the aspect ratio', () => {
+    expect(fitThumbnailSize(960, 240, 240)).toEqual({ width: 240, height: 60 });
+    expect(fitThumbnailSize(100, 400, 200)).toEqual({ width: 50, height: 200 });
+  });
+
+  it('should not scale up small images', () => {
+    expect(fitThumbnailSize(80, 30, 240)).toEqual({ width: 80, height: 30 });
+  });
+
+  it('should keep at least one pixel per side', () => {
+    expect(fitThumbnailSize(10000, 1, 240)).toEqual({ width: 240, height: 1 });
+  });
+});
+
+describe('diffPixelRatio()', () => {
+  it('should return 0 for identical images', () => {
+    expect(diffPixelRatio(createImage(4, 4), createImage(4, 4))).toBe(0);
+  });
+
+  it('should return the percentage of differing pixels', () => {
+    const changed = createImage(4, 4);
+    const data = changed.data as number[];
+    data.fill(0, 0, 4 * 4);
+    expect(diffPixelRatio(createImage(4, 4), changed)).toBe(25);
+  });
+
+  it('should ignore differences within the tolerance', () => {
+    expect(diffPixelRatio(createImage(2, 2, [100, 100, 100, 255]), createImage(2, 2, [110, 95, 100, 255]), 16)).toBe(0);
+    expect(diffPixelRatio(createImage(2, 2, [100, 100, 100, 255]), createImage(2, 2, [130, 100, 100, 255]), 16)).toBe(100);
+  });
+
+  it('should report a size change as a full change', () => {
+    expect(diffPixelRatio(createImage(4, 4), createImage(4, 5))).toBe(100);
+  });
+
+  it('should treat empty images as unchanged', () => {
+    expect(diffPixelRatio(createImage(0, 0), createImage(0, 0))).toBe(0);
+  });
+});
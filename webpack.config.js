@@ -15,7 +15,8 @@ const config = {
     background: './src/ts/background.ts',
     content: './src/ts/content.ts',
     popup: './src/ts/popup.ts',
-    options: './src/ts/options.ts'
+    options: './src/ts/options.ts',
+    offscreen: './src/ts/offscreen.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),